@@ -14,7 +14,19 @@ export const de: Translations = {
     pathIsNotDirUseReadFile: (p) => `\u274C Pfad ist keine Verzeichnis: ${p}. Nutze fc_read_file.`,
     pathIsDirectoryUseDeleteDir: `\u274C Pfad ist ein Verzeichnis. Nutze fc_delete_directory.`,
     sourceNotFound: (p) => `\u274C Quelle nicht gefunden: ${p}`,
+    destinationExists: (p) => `\u274C Ziel existiert bereits: ${p} (on_conflict="fail")`,
+    replaceRequired: (p) => `${p} ist ein Verzeichnis oder von anderem Typ als die Quelle (oder ein nicht leeres Verzeichnis); zum Ersetzen on_conflict="replace" angeben`,
+    pathOutsideRoots: (p, roots) => `\u26D4 Zugriff verweigert: ${p} liegt au\u00dferhalb der erlaubten Wurzelverzeichnisse (${roots})`,
+    pathReadOnly: (p, root) => `\u26D4 Zugriff verweigert: ${p} liegt in der schreibgesch\u00fctzten Wurzel ${root}`,
+    pathOutsideClientRoots: (p, roots) => `\u26D4 Zugriff verweigert: ${p} liegt au\u00dferhalb der Workspace-Wurzeln des Clients (${roots})`,
+    clientRootsUnavailable: `\u26D4 Zugriff verweigert: die Workspace-Wurzeln des Clients sind noch nicht bekannt (roots/list fehlgeschlagen)`,
+    specialFile: (p, kind) => `\u274C ${p} ist eine Sonderdatei (${kind}) und kann nicht als Inhalt gelesen werden`,
+    fileChanged: (p, mtime) => `\u26D4 ${p} wurde seit dem Lesen ge\u00e4ndert (jetzt: ${mtime}). Neu lesen und erneut versuchen, es wurde nichts geschrieben.`,
+    invalidExpectedMtime: (value) => `\u274C expected_mtime ist kein g\u00fcltiges ISO-8601-Datum: ${value}`,
+    batchRolledBack: (msg) => `${msg} (alle Dateien wurden wiederhergestellt)`,
+    batchRollbackIncomplete: (msg, paths) => `${msg}\n\u26A0\uFE0F Diese Dateien konnten nicht wiederhergestellt werden: ${paths}`,
     weekdays: ['Sonntag', 'Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag'],
+    versionInfo: (mtime, sha256) => `\uD83D\uDD16 mtime ${mtime}${sha256 ? ` | sha256 ${sha256}` : ''}`,
   },
 
   // ==================== fc_read_file ====================
@@ -22,6 +34,15 @@ export const de: Translations = {
     moreLines: (count) => `\n\n... (${count} weitere Zeilen)`,
     fileHeader: (name, size) => `\uD83D\uDCC4 **${name}** (${size})`,
     readError: (msg) => `\u274C Fehler beim Lesen: ${msg}`,
+    lineRangeInfo: (from, to, totalLines, totalBytes) => `\uD83D\uDCCF Zeilen ${from}-${to}${totalLines !== undefined ? ` von ${totalLines}` : ''} (${totalBytes} Bytes)`,
+    tailInfo: (from, to, totalLines, totalBytes) => `\uD83D\uDCCF Letzte Zeilen ${from}-${to} von ${totalLines} (${totalBytes} Bytes)`,
+    tailCountInfo: (count, totalBytes) => `\uD83D\uDCCF Letzte ${count} Zeilen (${totalBytes} Bytes)`,
+    byteRangeInfo: (from, to, totalBytes, totalLines) => `\uD83D\uDCCF Bytes ${from}-${to} von ${totalBytes}${totalLines !== undefined ? ` (${totalLines} Zeilen)` : ''}`,
+    beyondEnd: (totalLines, totalBytes) => `\u26A0\uFE0F Angeforderter Bereich liegt hinter dem Dateiende (${totalLines !== undefined ? `${totalLines} Zeilen, ` : ''}${totalBytes} Bytes)`,
+    conflictingModes: `\u274C Nur einen Modus verwenden: offset_line/line_count, byte_offset/byte_length oder tail_lines`,
+    binaryInfo: (mime) => `\uD83D\uDCE6 Bin\u00e4rdatei (${mime})`,
+    hexDumpInfo: (from, to, totalBytes) => `\uD83D\uDCCF Hex-Dump der Bytes ${from}-${to} von ${totalBytes}`,
+    binaryTooLarge: (limit) => `\u26A0\uFE0F Datei \u00fcberschreitet das Inline-Limit von ${limit}. Nutze binary_mode "hex" mit byte_offset/byte_length.`,
   },
 
   // ==================== fc_write_file ====================
@@ -38,6 +59,15 @@ export const de: Translations = {
     dirHeader: (p) => `\uD83D\uDCC2 **${p}**`,
     emptyDir: '(Verzeichnis ist leer)',
     listError: (msg) => `\u274C Fehler beim Auflisten: ${msg}`,
+    colName: 'Name',
+    colSize: 'Gr\u00f6\u00dfe',
+    colModified: 'Ge\u00e4ndert',
+    colPermissions: 'Rechte',
+    colOwner: 'Eigent\u00fcmer',
+    colTarget: 'Ziel',
+    colChildren: 'Eintr\u00e4ge',
+    truncated: (max) => `\u2702\uFE0F Nach ${max} Eintr\u00e4gen abgeschnitten (max_entries erh\u00f6hen oder Filter einschr\u00e4nken)`,
+    brokenLink: 'defekt',
   },
 
   // ==================== fc_create_directory ====================
@@ -57,6 +87,7 @@ export const de: Translations = {
   fc_delete_directory: {
     deleted: (p) => `\u2705 Verzeichnis gel\u00f6scht: ${p}`,
     notEmpty: `\u274C Verzeichnis nicht leer. Setze recursive=true zum L\u00f6schen aller Inhalte.`,
+    isSymlink: (p) => `\u274C ${p} ist ein symbolischer Link. Nutze fc_delete_file, um den Link zu entfernen, das Ziel bleibt unber\u00fchrt.`,
     deleteError: (msg) => `\u274C Fehler beim L\u00f6schen: ${msg}`,
   },
 
@@ -64,12 +95,77 @@ export const de: Translations = {
   fc_move: {
     moved: (source, dest) => `\u2705 Verschoben:\n  \uD83D\uDCE4 ${source}\n  \uD83D\uDCE5 ${dest}`,
     moveError: (msg) => `\u274C Fehler beim Verschieben: ${msg}`,
+    notMoved: (dest, policy) => `\u23ED\uFE0F Ziel existiert und bleibt erhalten (on_conflict="${policy}"), nichts verschoben: ${dest}`,
+    crossDevice: '\uD83D\uDD00 Anderes Dateisystem: kopiert, gepr\u00fcft und Quelle entfernt',
+    verifyFailed: (p) => `Pr\u00fcfung fehlgeschlagen, die Kopie weicht von der Quelle ab: ${p}`,
+    specialFiles: (count) => `${count} Sonderdatei(en) (Pipes, Sockets, Ger\u00e4te) k\u00f6nnen nicht auf ein anderes Dateisystem verschoben werden`,
   },
 
   // ==================== fc_copy ====================
   fc_copy: {
     copied: (source, dest) => `\u2705 Kopiert:\n  \uD83D\uDCE4 ${source}\n  \uD83D\uDCE5 ${dest}`,
     copyError: (msg) => `\u274C Fehler beim Kopieren: ${msg}`,
+    symlinkLoop: (link, target) => `Symlink-Schleife: ${link} zeigt auf ${target}, das den Link selbst enth\u00e4lt. Mit follow_symlinks=false bleiben Links als Links erhalten.`,
+    skippedBroken: (count) => `\u26A0\uFE0F ${count} defekte(r) Symlink(s) \u00fcbersprungen`,
+    skippedSpecial: (count) => `\u26A0\uFE0F ${count} Sonderdatei(en) \u00fcbersprungen (Pipes, Sockets, Ger\u00e4te)`,
+    renamed: '\u2139\uFE0F Ziel existierte, unter neuem Namen kopiert',
+    keptExisting: (count, policy) => `\u23ED\uFE0F ${count} vorhandene Datei(en) behalten (on_conflict="${policy}")`,
+    nothingCopied: (dest, policy) => `\u23ED\uFE0F Ziel existiert und bleibt erhalten (on_conflict="${policy}"), nichts kopiert: ${dest}`,
+  },
+
+  // ==================== fc_batch_operation ====================
+  fc_batch_operation: {
+    noItems: `\u274C 'paths' oder 'directory' mit 'include' angeben.`,
+    destinationRequired: (operation) => `\u274C operation="${operation}" braucht 'destination'.`,
+    tooManyItems: (max) => `\u274C Mehr als ${max} Eintr\u00e4ge, include-Filter einschr\u00e4nken.`,
+    listedTwice: 'Doppelt angegeben',
+    nested: (other) => `Liegt in einem anderen Eintrag oder enth\u00e4lt ihn: ${other}`,
+    dirNotEmpty: 'Verzeichnis ist nicht leer (recursive=true setzen)',
+    destinationInside: 'Ziel liegt innerhalb dieses Eintrags',
+    nameClash: (other) => `Gleicher Zielname wie ${other}`,
+    targetExists: 'Ziel existiert bereits (on_conflict="fail")',
+    specialFile: 'Sonderdatei (Pipe, Socket, Ger\u00e4t) kann nicht kopiert werden',
+    header: (operation, done, failed, skipped) => `\uD83D\uDCE6 **Batch ${operation}:** ${done} erledigt, ${failed} fehlgeschlagen, ${skipped} \u00fcbersprungen`,
+    planHeader: (operation, valid, invalid) => `\uD83D\uDD0D **Batch ${operation} (Testlauf):** ${valid} g\u00fcltig, ${invalid} ung\u00fcltig`,
+    stoppedInvalid: '\u26D4 Pr\u00fcfung fehlgeschlagen, nichts wurde ge\u00e4ndert (on_error="stop").',
+    stoppedError: (notRun) => `\u26D4 Beim ersten Fehler angehalten, ${notRun} Eintrag/Eintr\u00e4ge nicht bearbeitet (on_error="stop").`,
+    batchError: (msg) => `\u274C Fehler bei der Batch-Operation: ${msg}`,
+    notFound: 'Nicht gefunden',
+    andMore: (count) => `... und ${count} weitere`,
+    setDryRunFalse: `\uD83D\uDCA1 Setze \`dry_run=false\` zum Ausf\u00fchren des Batches.`,
+  },
+
+  // ==================== fc_create_link ====================
+  fc_create_link: {
+    symlinkCreated: (link, target) => `\u2705 Symbolischer Link erstellt: ${link} \u2192 ${target}`,
+    hardCreated: (link, target) => `\u2705 Harter Link erstellt: ${link} = ${target}`,
+    exists: (p) => `\u274C ${p} existiert bereits. Setze overwrite=true zum Ersetzen.`,
+    hardLinkTarget: (p) => `\u274C Harte Links brauchen eine existierende Datei als Ziel (kein Verzeichnis): ${p}`,
+    dangling: `\u26A0\uFE0F Das Ziel existiert (noch) nicht, der Link ist defekt.`,
+    createError: (msg) => `\u274C Fehler beim Erstellen des Links: ${msg}`,
+  },
+
+  // ==================== fc_sync ====================
+  fc_sync: {
+    nested: (source, dest) => `\u274C Quelle und Ziel d\u00fcrfen sich nicht enthalten: ${source} / ${dest}`,
+    typeConflict: (rel) => `${rel}: ist im Ziel ein Verzeichnis, in der Quelle nicht (delete=true ersetzt es)`,
+    planHeader: (source, dest) => `\uD83D\uDD0D **Sync-Plan: ${source} \u2192 ${dest}**`,
+    doneHeader: (source, dest) => `\u2705 **Synchronisiert: ${source} \u2192 ${dest}**`,
+    catNew: 'Neu',
+    catUpdated: 'Aktualisiert',
+    catDeleted: 'Gel\u00f6scht',
+    catUnchanged: 'Unver\u00e4ndert',
+    catDirectories: 'Verzeichnisse angelegt',
+    labelToCopy: 'Zu kopieren',
+    labelCopied: 'Kopiert',
+    inSync: '\u2705 Ziel ist bereits synchron.',
+    syncError: (msg) => `\u274C Fehler beim Synchronisieren: ${msg}`,
+    listNew: '**Neue Dateien:**',
+    listUpdated: '**Aktualisierte Dateien:**',
+    listDeleted: '**Gel\u00f6schte Dateien:**',
+    andMore: (count) => `... und ${count} weitere`,
+    skippedSpecial: (count) => `\u26A0\uFE0F ${count} Sonderdatei(en) \u00fcbersprungen (Pipes, Sockets, Ger\u00e4te)`,
+    setDryRunFalse: `\uD83D\uDCA1 Setze \`dry_run=false\` zum Synchronisieren.`,
   },
 
   // ==================== fc_file_info ====================
@@ -78,12 +174,40 @@ export const de: Translations = {
     typeDirectory: 'Verzeichnis',
     typeFile: 'Datei',
     typeOther: 'Sonstiges',
+    typeSymlink: 'Symbolischer Link',
+    specialTypes: { fifo: 'Named Pipe (FIFO)', socket: 'Socket', block_device: 'Blockger\u00e4t', character_device: 'Zeichenger\u00e4t' },
     propType: 'Typ',
     propSize: 'Gr\u00f6\u00dfe',
     propCreated: 'Erstellt',
     propModified: 'Ge\u00e4ndert',
     propAccessed: 'Zugegriffen',
     propPath: 'Pfad',
+    propHardLinks: 'Harte Links',
+    propPermissions: 'Rechte',
+    propOwner: 'Eigent\u00fcmer',
+    propLinkTarget: 'Link-Ziel',
+    propResolvedTarget: 'Aufgel\u00f6stes Ziel',
+    propTargetType: 'Zieltyp',
+    propTargetSize: 'Zielgr\u00f6\u00dfe',
+    brokenLink: `\u26A0\uFE0F Defekter Link: das Ziel existiert nicht.`,
+  },
+
+  // ==================== fc_set_attributes ====================
+  fc_set_attributes: {
+    nothingToDo: `\u274C Nichts zu \u00e4ndern. Gib mode, owner, touch, mtime oder atime an.`,
+    ownerUnsupported: `\u274C Eigent\u00fcmer \u00e4ndern wird unter Windows nicht unterst\u00fctzt.`,
+    invalidMode: (spec) => `Ung\u00fcltiger Modus "${spec}". Nutze oktal (755) oder symbolisch (u+x,go-w).`,
+    unknownOwner: (name) => `Unbekannter Benutzer oder Gruppe: ${name}`,
+    invalidTime: (value) => `Ung\u00fcltiges Datum: ${value}`,
+    previewHeader: (count) => `\uD83D\uDD0D **Vorschau: ${count} Eintr\u00e4ge w\u00fcrden ge\u00e4ndert**`,
+    applied: (count) => `\u2705 **${count} Eintr\u00e4ge ge\u00e4ndert**`,
+    created: (p) => `\uD83D\uDCC4 Erstellt: ${p}`,
+    andMore: (count) => `... und ${count} weitere`,
+    unchanged: (count) => `\u2796 ${count} Eintr\u00e4ge bereits aktuell`,
+    skippedSymlinks: (count) => `\uD83D\uDD17 ${count} Symlinks \u00fcbersprungen`,
+    errors: (count) => `\u26A0\uFE0F ${count} Fehler:`,
+    setDryRunFalse: `\uD83D\uDCA1 Setze \`dry_run=false\` zum Anwenden.`,
+    setError: (msg) => `\u274C Fehler beim Setzen der Attribute: ${msg}`,
   },
 
   // ==================== fc_search_files ====================
@@ -96,11 +220,25 @@ export const de: Translations = {
     searchError: (msg) => `\u274C Fehler bei Suche: ${msg}`,
   },
 
+  // ==================== fc_grep ====================
+  fc_grep: {
+    noResults: (pattern, scanned) => `\uD83D\uDD0D Keine Treffer f\u00fcr "${pattern}" (${scanned} Dateien durchsucht)`,
+    resultsHeader: (pattern) => `\uD83D\uDD0D **Inhaltssuche nach "${pattern}"**`,
+    inPath: (p) => `\uD83D\uDCC1 In: ${p}`,
+    summary: (matches, files, scanned) => `\uD83D\uDCCA ${matches} Treffer in ${files} Dateien (${scanned} Dateien durchsucht)`,
+    maxReached: '(Maximum erreicht)',
+    binarySkipped: (count) => `\u23ED\uFE0F ${count} Bin\u00e4rdateien \u00fcbersprungen`,
+    invalidRegex: (msg) => `\u274C Ung\u00fcltiges Suchmuster: ${msg}`,
+    searchError: (msg) => `\u274C Fehler bei Suche: ${msg}`,
+  },
+
   // ==================== fc_start_search ====================
   fc_start_search: {
     started: (id, dir, pattern) => `\uD83D\uDD0D **Suche gestartet**\n\n| | |\n|---|---|\n| Search-ID | \`${id}\` |\n| Verzeichnis | ${dir} |\n| Muster | ${pattern} |`,
+    contentRow: (contentPattern) => `| Inhalt | ${contentPattern} |`,
     useGetResults: `Nutze \`fc_get_search_results\` um Ergebnisse abzurufen.`,
     startError: (msg) => `\u274C Fehler beim Starten der Suche: ${msg}`,
+    invalidPattern: (msg) => `\u274C Ung\u00fcltiges Suchmuster: ${msg}`,
   },
 
   // ==================== fc_get_search_results ====================
@@ -114,6 +252,9 @@ export const de: Translations = {
     labelDirectory: 'Verzeichnis',
     labelScannedDirs: 'Gescannte Ordner',
     labelFound: (count) => `${count} Dateien`,
+    labelContentPattern: 'Inhalt',
+    labelScannedFiles: 'Durchsuchte Dateien',
+    labelMatches: (matches, files) => `${matches} Treffer in ${files} Dateien`,
     labelRuntime: (seconds) => `${seconds}s`,
     resultsRange: (from, to, total) => `**Ergebnisse ${from}-${to} von ${total}:**`,
     moreResults: (id, offset) => `\uD83D\uDCCC Weitere Ergebnisse: \`fc_get_search_results("${id}", offset=${offset})\``,
@@ -148,6 +289,42 @@ export const de: Translations = {
     removed: (id) => `\u2705 Suche entfernt: ${id}`,
   },
 
+  // ==================== fc_job_status ====================
+  fc_job_status: {
+    started: (id, tool, label) => `\uD83D\uDE80 **Im Hintergrund gestartet**\n\n| | |\n|---|---|\n| Job-ID | \`${id}\` |\n| Tool | ${tool} |\n| Aufgabe | ${label} |`,
+    useJobStatus: (id) => `\uD83D\uDCCC Fortschritt pr\u00fcfen: \`fc_job_status(job_id="${id}")\`, abbrechen mit \`fc_job_cancel\``,
+    header: (tool, label, status) => `\uD83D\uDCE6 **${tool}: ${label}** (${status})`,
+    statusRunning: '\uD83D\uDD04 L\u00e4uft',
+    statusDone: '\u2705 Abgeschlossen',
+    statusCancelled: '\u23F9\uFE0F Abgebrochen',
+    statusFailed: '\u274C Fehlgeschlagen',
+    labelProgress: 'Fortschritt',
+    labelCurrent: 'Aktuell',
+    labelEta: 'Restzeit (gesch.)',
+    notFound: (id) => `\u274C Job nicht gefunden: ${id}`,
+    labelFiles: 'Dateien',
+    labelRuntime: 'Laufzeit',
+  },
+
+  // ==================== fc_job_cancel ====================
+  fc_job_cancel: {
+    cancelled: (id) => `\u23F9\uFE0F Job abgebrochen: ${id}`,
+    cancelRequested: (id) => `\u23F3 Abbruch von Job ${id} angefordert, er endet am n\u00e4chsten Haltepunkt. Pr\u00fcfen mit fc_job_status.`,
+    notRunning: (id, status) => `\u2139\uFE0F Job ${id} l\u00e4uft nicht mehr (${status}).`,
+  },
+
+  // ==================== fc_job_list ====================
+  fc_job_list: {
+    noJobs: `\uD83D\uDCCB Keine Hintergrund-Jobs.`,
+    header: (count) => `\uD83D\uDCCB **Jobs** (${count})`,
+    colJobId: 'Job-ID',
+    colTool: 'Tool',
+    colTask: 'Aufgabe',
+    colStatus: 'Status',
+    colProgress: 'Fortschritt',
+    colRuntime: 'Laufzeit',
+  },
+
   // ==================== fc_safe_delete ====================
   fc_safe_delete: {
     typeDirectory: 'Verzeichnis',
@@ -159,6 +336,36 @@ export const de: Translations = {
     propTrash: 'Papierkorb',
     canRestore: `\u2705 Kann aus dem Papierkorb wiederhergestellt werden.`,
     trashError: (msg) => `\u274C Fehler beim Verschieben in Papierkorb: ${msg}`,
+    useTrashRestore: `\uD83D\uDCA1 Mit fc_trash_restore wiederherstellen.`,
+  },
+
+  // ==================== fc_trash_list ====================
+  fc_trash_list: {
+    windowsUnsupported: `\u274C Papierkorb-Verwaltung ist nur auf Unix-Systemen verf\u00fcgbar. Den Windows-Papierkorb bitte im Explorer verwalten.`,
+    empty: (dir) => `\uD83D\uDDD1\uFE0F Papierkorb ist leer (${dir})`,
+    header: (count, dir) => `\uD83D\uDDD1\uFE0F **Papierkorb: ${count} Eintr\u00e4ge** (${dir})`,
+    colName: 'Name',
+    colOriginal: 'Originalpfad',
+    colDeleted: 'Gel\u00f6scht',
+    colSize: 'Gr\u00f6\u00dfe',
+    andMore: (count) => `... und ${count} weitere`,
+    useRestore: `\uD83D\uDCA1 Wiederherstellen mit fc_trash_restore(name), endg\u00fcltig l\u00f6schen mit fc_trash_empty.`,
+  },
+
+  // ==================== fc_trash_restore ====================
+  fc_trash_restore: {
+    nameOrPathRequired: `\u274C Entweder name oder original_path ist erforderlich.`,
+    notFound: (n) => `\u274C Nicht im Papierkorb gefunden: ${n}`,
+    targetExists: (p) => `\u274C Ziel existiert bereits: ${p}. Nutze overwrite=true oder ein anderes Ziel.`,
+    restored: (name, target) => `\u2705 Aus dem Papierkorb wiederhergestellt: ${name} \u2192 ${target}`,
+  },
+
+  // ==================== fc_trash_empty ====================
+  fc_trash_empty: {
+    nothingToPurge: `\u2139\uFE0F Keine passenden Eintr\u00e4ge im Papierkorb.`,
+    previewHeader: (count, size) => `\uD83D\uDD0D **Vorschau: ${count} Eintr\u00e4ge w\u00fcrden gel\u00f6scht** (${size})`,
+    purgedHeader: (count, size) => `\u2705 **${count} Eintr\u00e4ge endg\u00fcltig gel\u00f6scht** (${size} freigegeben)`,
+    setDryRunFalse: `\uD83D\uDCA1 Setze dry_run=false zum L\u00f6schen.`,
   },
 
   // ==================== fc_execute_command ====================
@@ -217,15 +424,73 @@ export const de: Translations = {
     fileStart: '**Datei-Anfang:**',
     multipleOccurrences: (count) => `\u274C String kommt ${count}x vor (muss eindeutig sein).`,
     mustBeUnique: 'muss eindeutig sein',
-    tip: `\uD83D\uDCA1 Tipp: Erweitere den Suchstring um mehr Kontext.`,
+    tip: `\uD83D\uDCA1 Tipp: Erweitere den Suchstring um mehr Kontext oder setze replace_all, um jedes Vorkommen zu ersetzen.`,
     replaced: (name) => `\u2705 **${name}** - String ersetzt`,
     sameLineCount: 'gleiche Zeilenanzahl',
     addedLines: (count) => `+${count} Zeilen`,
     removedLines: (count) => `${count} Zeilen`,
     labelChange: '\u00C4nderung',
     labelFile: 'Datei',
-    contextLabel: '**Kontext:**',
+    diffLabel: '**Diff:**',
+    editsOrOldStr: `\u274C Entweder old_str/new_str oder edits angeben.`,
+    editFailed: (index, total) => `\u274C Edit ${index} von ${total} fehlgeschlagen, die Datei wurde nicht ge\u00e4ndert.`,
+    editsApplied: (name, edits, replacements) => `\u2705 **${name}** - ${edits} Edits angewendet (${replacements} Ersetzungen)`,
+    noChanges: '(keine \u00c4nderungen)',
     replaceError: (msg) => `\u274C Fehler beim Ersetzen: ${msg}`,
+    moreDiffLines: (count) => `\n\n... (${count} weitere Diff-Zeilen, siehe strukturierte Ausgabe)`,
+  },
+
+  // ==================== fc_replace_in_files ====================
+  fc_replace_in_files: {
+    noMatches: (pattern, searched) => `\uD83D\uDD0D Kein Vorkommen von "${pattern}" (${searched} Dateien durchsucht), nichts zu \u00e4ndern.`,
+    previewHeader: (files, replacements) => `\uD83D\uDD0D **Vorschau: ${replacements} Ersetzungen in ${files} Dateien**`,
+    replaced: (files, replacements) => `\u2705 **${replacements} Ersetzungen in ${files} Dateien**`,
+    diffsOmitted: (count) => `... Diff von ${count} weiteren Dateien ausgelassen (siehe strukturierte Ausgabe)`,
+    notUtf8: 'kein g\u00fcltiges UTF-8, \u00fcbersprungen',
+    tooManyFiles: (max) => `\u274C Mehr als ${max} Dateien w\u00fcrden ge\u00e4ndert. Filter einschr\u00e4nken oder max_files erh\u00f6hen.`,
+    replaceError: (msg) => `\u274C Fehler beim Ersetzen in Dateien: ${msg}`,
+    inPath: (p) => `\uD83D\uDCC1 In: ${p}`,
+    invalidPattern: (msg) => `\u274C Ung\u00fcltiges Suchmuster: ${msg}`,
+    moreDiffLines: (count) => `... (${count} weitere Diff-Zeilen)`,
+    setDryRunFalse: `\uD83D\uDCA1 Setze \`dry_run=false\` zum Ersetzen.`,
+  },
+
+  // ==================== fc_diff ====================
+  fc_diff: {
+    otherOrContent: `\u274C Entweder other_path oder content angeben.`,
+    noDifferences: (a, b) => `\u2705 Keine Unterschiede zwischen ${a} und ${b}`,
+    binaryDiffer: (a, b) => `\u26A0\uFE0F Bin\u00e4rdateien ${a} und ${b} sind verschieden`,
+    header: (added, removed) => `\uD83D\uDCDD **Diff:** +${added} / -${removed} Zeilen`,
+    diffError: (msg) => `\u274C Fehler beim Erstellen des Diffs: ${msg}`,
+    moreDiffLines: (count) => `\n\n... (${count} weitere Diff-Zeilen, siehe strukturierte Ausgabe)`,
+  },
+
+  // ==================== fc_apply_patch ====================
+  fc_apply_patch: {
+    patchOrFile: `\u274C Entweder patch oder patch_file angeben.`,
+    noHunks: `\u274C Der Patch enth\u00e4lt keine Hunks (erwartet: Unified Diff mit ---/+++ und @@-Zeilen).`,
+    hunkWithoutFile: (line) => `\u274C Zeile ${line}: Hunk ohne vorangehenden ---/+++ Dateikopf.`,
+    countMismatch: (line) => `\u274C Zeile ${line}: mehr Hunk-Zeilen als im @@-Kopf angegeben. Zeilenzahlen im Hunk-Kopf korrigieren.`,
+    pathNeedsSingleFile: `\u274C 'path' ist nur bei einem Patch f\u00fcr eine einzelne Datei m\u00f6glich.`,
+    baseDirRequired: (p) => `\u274C Relativer Pfad im Patch: ${p}. base_dir angeben.`,
+    stripTooLarge: (p, strip) => `\u274C Von ${p} k\u00f6nnen keine ${strip} Pfadbestandteile entfernt werden.`,
+    previewHeader: (applied, total, files) => `\uD83D\uDD0D **Vorschau: ${applied}/${total} Hunks passen, ${files} Dateien w\u00fcrden ge\u00e4ndert**`,
+    appliedHeader: (applied, total, files) => `\u2705 **Patch angewendet: ${applied}/${total} Hunks, ${files} Dateien ge\u00e4ndert**`,
+    rejectedHeader: (rejected, total) => `\u274C **Patch nicht angewendet: ${rejected} von ${total} Hunks abgelehnt**`,
+    nothingWritten: 'Es wurde nichts geschrieben. Abgelehnte Hunks korrigieren oder partial=true setzen, um die \u00fcbrigen anzuwenden.',
+    actions: { modify: '\u00e4ndern', create: 'anlegen', delete: 'l\u00f6schen' },
+    fileLine: (file, action, applied, total) => `${file} (${action}): ${applied}/${total} Hunks`,
+    hunkNote: (hunk, offset, fuzz) => `Hunk ${hunk}: Versatz ${offset > 0 ? '+' : ''}${offset} Zeilen${fuzz > 0 ? `, Fuzz ${fuzz}` : ''}`,
+    hunkRejected: (file, hunk, reason) => `${file}${hunk > 0 ? `, Hunk ${hunk}` : ''}: ${reason}`,
+    reasons: {
+      context_mismatch: 'Kontext passt nicht',
+      already_applied: 'bereits angewendet (die neuen Zeilen sind vorhanden)',
+      file_exists: 'anzulegende Datei existiert bereits',
+      file_not_found: 'Datei nicht gefunden',
+      not_empty: 'zu l\u00f6schende Datei ist nach dem Patch nicht leer',
+    },
+    applyError: (msg) => `\u274C Fehler beim Anwenden des Patches: ${msg}`,
+    setDryRunFalse: `\uD83D\uDCA1 Setze \`dry_run=false\` zum Anwenden des Patches.`,
   },
 
   // ==================== fc_list_processes ====================
@@ -363,6 +628,14 @@ export const de: Translations = {
     modifiedFiles: '**Ge\u00e4nderte Dateien:**',
     deletedFiles: '**Gel\u00f6schte Dateien:**',
     andMore: (count) => `... und ${count} weitere`,
+    catRenamed: 'Umbenannt/verschoben',
+    catTouched: 'Ber\u00fchrt (Inhalt unver\u00e4ndert)',
+    renamedFiles: '**Umbenannte/verschobene Dateien:**',
+    touchedOnly: (count) => `\u2139\uFE0F ${count} Dateien wurden ber\u00fchrt, ihr Inhalt ist unver\u00e4ndert.`,
+    diffsHeader: '**Diffs:**',
+    diffsUnavailable: (count) => `\u2139\uFE0F Kein Diff f\u00fcr ${count} Dateien (bin\u00e4r, gr\u00f6\u00dfer als 256 KB oder kein Inhalt im vorherigen Snapshot; content=true verwenden).`,
+    moreDiffLines: (count) => `... (${count} weitere Diff-Zeilen)`,
+    diffsOmitted: (count) => `... Diff von ${count} weiteren Dateien ausgelassen (siehe strukturierte Ausgabe)`,
   },
 
   // ==================== fc_batch_rename ====================
@@ -388,6 +661,8 @@ export const de: Translations = {
     csvNeedsArray: `\u274C CSV-Export erfordert ein JSON-Array von Objekten.`,
     iniNeedsObject: `\u274C INI-Export erfordert ein JSON-Objekt.`,
     unsupportedFormat: (format) => `\u274C Nicht unterst\u00fctztes Format: ${format}`,
+    targetFormatRequired: `\u274C target_format ist erforderlich.`,
+    invalidOutputFormat: (format) => `\u274C output_format "${format}" ist kein Ausgabeformat; erlaubt sind "text" oder "json" (das Dateiformat geh\u00f6rt in target_format).`,
     converted: (from, to) => `\u2705 **Konvertiert: ${from} \u2192 ${to}**`,
     labelSource: 'Quelle',
     labelTarget: 'Ziel',
@@ -407,6 +682,26 @@ export const de: Translations = {
     useSafeDelete: `\uD83D\uDCA1 Nutze \`fc_safe_delete\` zum sicheren Entfernen von Duplikaten.`,
   },
 
+  // ==================== fc_disk_usage ====================
+  fc_disk_usage: {
+    header: (p) => `\uD83D\uDCBE **Speicherbelegung: ${p}**`,
+    labelTotal: 'Gesamtgr\u00f6\u00dfe',
+    labelFiles: 'Dateien',
+    labelDirectories: 'Verzeichnisse',
+    labelHardLinks: 'Hardlinks einfach gez\u00e4hlt',
+    labelErrors: 'Nicht lesbare Eintr\u00e4ge',
+    labelRuntime: 'Laufzeit',
+    treeHeader: (depth) => `**Verzeichnisse** (Tiefe ${depth}):`,
+    largestFiles: (count) => `**Gr\u00f6\u00dfte Dateien** (Top ${count}):`,
+    byExtension: '**Nach Dateiendung:**',
+    colSize: 'Gr\u00f6\u00dfe',
+    colFile: 'Datei',
+    colFiles: 'Dateien',
+    colExtension: 'Endung',
+    noExtension: '(keine)',
+    scanError: (msg) => `\u274C Fehler bei der Speicheranalyse: ${msg}`,
+  },
+
   // ==================== fc_md_to_html ====================
   fc_md_to_html: {
     converted: (name) => `\u2705 **Markdown \u2192 HTML: ${name}**`,
@@ -441,17 +736,19 @@ export const de: Translations = {
 
   // ==================== fc_archive ====================
   fc_archive: {
-    description: 'Erstellt, entpackt und listet ZIP-Archive.',
+    description: 'Erstellt, entpackt und listet ZIP-Archive. Gro\u00dfe Archive lassen sich als Hintergrund-Job erstellen oder entpacken.',
     created: (p) => `\u2705 **ZIP-Archiv erstellt:** ${p}`,
     extracted: (archive, target) => `\u2705 **Entpackt:** ${archive} \u2192 ${target}`,
     listHeader: (p) => `\uD83D\uDCC2 **Archiv-Inhalt: ${p}**`,
     labelSize: 'Gr\u00f6\u00dfe',
     labelFiles: 'Dateien',
+    skipped: (count) => `\u26A0\uFE0F ${count} Symlink(s) (defekt, zirkul\u00e4r oder au\u00dferhalb der erlaubten Wurzeln) und Sonderdatei(en) \u00fcbersprungen`,
+    unsafeEntry: (name) => `Archiv-Eintrag "${name}" w\u00fcrde au\u00dferhalb des Zielverzeichnisses oder durch einen Symlink geschrieben, nichts entpackt`,
   },
 
   // ==================== fc_checksum ====================
   fc_checksum: {
-    description: 'Berechnet Pr\u00fcfsummen (MD5/SHA1/SHA256/SHA512) f\u00fcr Dateien.',
+    description: 'Berechnet Pr\u00fcfsummen (MD5/SHA1/SHA256/SHA512) f\u00fcr Dateien, optional als Hintergrund-Job.',
     header: (filename) => `\uD83D\uDD10 **Pr\u00fcfsumme: ${filename}**`,
     labelAlgorithm: 'Algorithmus',
     labelHash: 'Hash',
@@ -467,9 +764,46 @@ export const de: Translations = {
     redirected: (originalAction) => `\uD83D\uDEE1\uFE0F Safe Mode aktiv: ${originalAction} wurde in den Papierkorb umgeleitet.`,
   },
 
+  // ==================== fc_set_output_format ====================
+  fc_set_output_format: {
+    description: `Setzt das Standard-Ausgabeformat f\u00fcr alle Tools. 'json' liefert nur das strukturierte Ergebnis als JSON-Text, 'text' stellt die formatierte Markdown-Ausgabe wieder her. Pro Aufruf mit output_format \u00fcberschreibbar.`,
+    json: '\uD83E\uDDFE **Ausgabeformat: JSON.** Tools liefern ihr strukturiertes Ergebnis jetzt als JSON.',
+    text: '\uD83D\uDCDD **Ausgabeformat: Text.** Tools liefern jetzt formatierten Text.',
+  },
+
+  // ==================== fc_history ====================
+  fc_history: {
+    disabled: '\u26A0\uFE0F Das Operations-Journal ist deaktiviert (FC_JOURNAL=off).',
+    empty: '\u2139\uFE0F Keine protokollierten Operationen gefunden.',
+    header: (count) => `\uD83D\uDCDC **Operations-Verlauf** (${count})`,
+    colStatus: 'Status',
+    colId: 'ID',
+    colTime: 'Zeit',
+    colTool: 'Tool',
+    colTarget: 'Ziel',
+    legend: '\u2705 r\u00fcckg\u00e4ngig machbar \u00B7 \u26A0\uFE0F keine Sicherung (zu gro\u00df oder nicht verf\u00fcgbar) \u00B7 \u21A9\uFE0F r\u00fcckg\u00e4ngig gemacht',
+    renameCount: (count) => `${count} Dateien umbenannt`,
+    writeCount: (count) => `${count} Dateien ge\u00e4ndert`,
+  },
+
+  // ==================== fc_undo ====================
+  fc_undo: {
+    recorded: (id) => `\u21A9\uFE0F R\u00fcckg\u00e4ngig mit fc_undo (ID: ${id})`,
+    notFound: (id) => `\u274C Operation nicht im Journal gefunden: ${id}`,
+    alreadyUndone: (id) => `\u2139\uFE0F Operation wurde bereits r\u00fcckg\u00e4ngig gemacht: ${id}`,
+    notUndoable: 'F\u00fcr diese Operation ist keine Sicherung vorhanden',
+    changedSince: (p) => `Datei wurde nach der Operation ge\u00e4ndert: ${p}`,
+    targetExists: (p) => `Ziel existiert bereits: ${p}`,
+    header: (undone, total) => `\u21A9\uFE0F **R\u00fcckg\u00e4ngig:** ${undone} von ${total} Operationen zur\u00fcckgerollt`,
+    forceTip: '\uD83D\uDCA1 Mit force=true trotzdem r\u00fcckg\u00e4ngig machen und sp\u00e4tere \u00c4nderungen verwerfen.',
+  },
+
   // ==================== Server ====================
   server: {
     started: '\uD83D\uDE80 BACH FileCommander MCP Server gestartet',
+    sandboxRoots: (roots) => `\uD83D\uDD12 Sandbox aktiv, erlaubte Wurzeln: ${roots}`,
+    clientRootsUpdated: (roots) => `\uD83D\uDCC2 Workspace-Wurzeln des Clients: ${roots}`,
+    clientRootsError: (msg) => `\u26A0\uFE0F Client-Wurzeln konnten nicht abgefragt werden: ${msg}`,
     languageSet: (lang) => `Language set to: ${lang}`,
   },
 };
@@ -14,7 +14,19 @@ export const en: Translations = {
     pathIsNotDirUseReadFile: (p) => `\u274C Path is not a directory: ${p}. Use fc_read_file.`,
     pathIsDirectoryUseDeleteDir: `\u274C Path is a directory. Use fc_delete_directory.`,
     sourceNotFound: (p) => `\u274C Source not found: ${p}`,
+    destinationExists: (p) => `\u274C Destination already exists: ${p} (on_conflict="fail")`,
+    replaceRequired: (p) => `${p} is a directory or of another type than the source (or a non-empty directory); use on_conflict="replace" to replace it`,
+    pathOutsideRoots: (p, roots) => `\u26D4 Access denied: ${p} is outside the allowed root directories (${roots})`,
+    pathReadOnly: (p, root) => `\u26D4 Access denied: ${p} is in the read-only root ${root}`,
+    pathOutsideClientRoots: (p, roots) => `\u26D4 Access denied: ${p} is outside the workspace roots of the client (${roots})`,
+    clientRootsUnavailable: `\u26D4 Access denied: the workspace roots of the client are not known yet (roots/list failed)`,
+    specialFile: (p, kind) => `\u274C ${p} is a special file (${kind}) and cannot be read as content`,
+    fileChanged: (p, mtime) => `\u26D4 ${p} was modified since it was read (now: ${mtime}). Read it again and retry, nothing was written.`,
+    invalidExpectedMtime: (value) => `\u274C expected_mtime is not a valid ISO 8601 date: ${value}`,
+    batchRolledBack: (msg) => `${msg} (all files were restored)`,
+    batchRollbackIncomplete: (msg, paths) => `${msg}\n\u26A0\uFE0F These files could not be restored: ${paths}`,
     weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+    versionInfo: (mtime, sha256) => `\uD83D\uDD16 mtime ${mtime}${sha256 ? ` | sha256 ${sha256}` : ''}`,
   },
 
   // ==================== fc_read_file ====================
@@ -22,6 +34,15 @@ export const en: Translations = {
     moreLines: (count) => `\n\n... (${count} more lines)`,
     fileHeader: (name, size) => `\uD83D\uDCC4 **${name}** (${size})`,
     readError: (msg) => `\u274C Error reading file: ${msg}`,
+    lineRangeInfo: (from, to, totalLines, totalBytes) => `\uD83D\uDCCF Lines ${from}-${to}${totalLines !== undefined ? ` of ${totalLines}` : ''} (${totalBytes} bytes)`,
+    tailInfo: (from, to, totalLines, totalBytes) => `\uD83D\uDCCF Last lines ${from}-${to} of ${totalLines} (${totalBytes} bytes)`,
+    tailCountInfo: (count, totalBytes) => `\uD83D\uDCCF Last ${count} lines (${totalBytes} bytes)`,
+    byteRangeInfo: (from, to, totalBytes, totalLines) => `\uD83D\uDCCF Bytes ${from}-${to} of ${totalBytes}${totalLines !== undefined ? ` (${totalLines} lines)` : ''}`,
+    beyondEnd: (totalLines, totalBytes) => `\u26A0\uFE0F Requested range is beyond the end of the file (${totalLines !== undefined ? `${totalLines} lines, ` : ''}${totalBytes} bytes)`,
+    conflictingModes: `\u274C Use only one of: offset_line/line_count, byte_offset/byte_length, tail_lines`,
+    binaryInfo: (mime) => `\uD83D\uDCE6 Binary file (${mime})`,
+    hexDumpInfo: (from, to, totalBytes) => `\uD83D\uDCCF Hex dump of bytes ${from}-${to} of ${totalBytes}`,
+    binaryTooLarge: (limit) => `\u26A0\uFE0F File exceeds the inline limit of ${limit}. Use binary_mode "hex" with byte_offset/byte_length to inspect it.`,
   },
 
   // ==================== fc_write_file ====================
@@ -38,6 +59,15 @@ export const en: Translations = {
     dirHeader: (p) => `\uD83D\uDCC2 **${p}**`,
     emptyDir: '(Directory is empty)',
     listError: (msg) => `\u274C Error listing directory: ${msg}`,
+    colName: 'Name',
+    colSize: 'Size',
+    colModified: 'Modified',
+    colPermissions: 'Permissions',
+    colOwner: 'Owner',
+    colTarget: 'Target',
+    colChildren: 'Entries',
+    truncated: (max) => `\u2702\uFE0F Truncated after ${max} entries (increase max_entries or narrow the filters)`,
+    brokenLink: 'broken',
   },
 
   // ==================== fc_create_directory ====================
@@ -57,6 +87,7 @@ export const en: Translations = {
   fc_delete_directory: {
     deleted: (p) => `\u2705 Directory deleted: ${p}`,
     notEmpty: `\u274C Directory not empty. Set recursive=true to delete all contents.`,
+    isSymlink: (p) => `\u274C ${p} is a symbolic link. Use fc_delete_file to remove the link, its target stays untouched.`,
     deleteError: (msg) => `\u274C Error deleting directory: ${msg}`,
   },
 
@@ -64,12 +95,77 @@ export const en: Translations = {
   fc_move: {
     moved: (source, dest) => `\u2705 Moved:\n  \uD83D\uDCE4 ${source}\n  \uD83D\uDCE5 ${dest}`,
     moveError: (msg) => `\u274C Error moving: ${msg}`,
+    notMoved: (dest, policy) => `\u23ED\uFE0F Destination exists and was kept (on_conflict="${policy}"), nothing moved: ${dest}`,
+    crossDevice: '\uD83D\uDD00 Different file system: copied, verified and removed the source',
+    verifyFailed: (p) => `Verification failed, the copy differs from the source: ${p}`,
+    specialFiles: (count) => `${count} special file(s) (pipes, sockets, devices) cannot be moved to another file system`,
   },
 
   // ==================== fc_copy ====================
   fc_copy: {
     copied: (source, dest) => `\u2705 Copied:\n  \uD83D\uDCE4 ${source}\n  \uD83D\uDCE5 ${dest}`,
     copyError: (msg) => `\u274C Error copying: ${msg}`,
+    symlinkLoop: (link, target) => `Symlink loop: ${link} points to ${target}, which contains the link. Copy with follow_symlinks=false to keep links as links.`,
+    skippedBroken: (count) => `\u26A0\uFE0F ${count} broken symlink(s) skipped`,
+    skippedSpecial: (count) => `\u26A0\uFE0F ${count} special file(s) skipped (pipes, sockets, devices)`,
+    renamed: '\u2139\uFE0F Destination existed, copied under a new name',
+    keptExisting: (count, policy) => `\u23ED\uFE0F ${count} existing file(s) kept (on_conflict="${policy}")`,
+    nothingCopied: (dest, policy) => `\u23ED\uFE0F Destination exists and was kept (on_conflict="${policy}"), nothing copied: ${dest}`,
+  },
+
+  // ==================== fc_batch_operation ====================
+  fc_batch_operation: {
+    noItems: `\u274C Specify 'paths' or 'directory' with 'include'.`,
+    destinationRequired: (operation) => `\u274C operation="${operation}" requires 'destination'.`,
+    tooManyItems: (max) => `\u274C More than ${max} items, narrow the include filters.`,
+    listedTwice: 'Listed twice',
+    nested: (other) => `Contained in or containing another item: ${other}`,
+    dirNotEmpty: 'Directory is not empty (set recursive=true)',
+    destinationInside: 'Destination is inside this item',
+    nameClash: (other) => `Same target name as ${other}`,
+    targetExists: 'Target already exists (on_conflict="fail")',
+    specialFile: 'Special file (pipe, socket, device) cannot be copied',
+    header: (operation, done, failed, skipped) => `\uD83D\uDCE6 **Batch ${operation}:** ${done} done, ${failed} failed, ${skipped} skipped`,
+    planHeader: (operation, valid, invalid) => `\uD83D\uDD0D **Batch ${operation} (dry run):** ${valid} valid, ${invalid} invalid`,
+    stoppedInvalid: '\u26D4 Validation failed, nothing was changed (on_error="stop").',
+    stoppedError: (notRun) => `\u26D4 Stopped at the first error, ${notRun} item(s) not processed (on_error="stop").`,
+    batchError: (msg) => `\u274C Error in batch operation: ${msg}`,
+    notFound: 'Not found',
+    andMore: (count) => `... and ${count} more`,
+    setDryRunFalse: `\uD83D\uDCA1 Set \`dry_run=false\` to run the batch.`,
+  },
+
+  // ==================== fc_create_link ====================
+  fc_create_link: {
+    symlinkCreated: (link, target) => `\u2705 Symbolic link created: ${link} \u2192 ${target}`,
+    hardCreated: (link, target) => `\u2705 Hard link created: ${link} = ${target}`,
+    exists: (p) => `\u274C ${p} already exists. Set overwrite=true to replace it.`,
+    hardLinkTarget: (p) => `\u274C Hard links need an existing file as target (no directory): ${p}`,
+    dangling: `\u26A0\uFE0F The target does not exist (yet), the link is broken.`,
+    createError: (msg) => `\u274C Error creating link: ${msg}`,
+  },
+
+  // ==================== fc_sync ====================
+  fc_sync: {
+    nested: (source, dest) => `\u274C Source and target must not contain each other: ${source} / ${dest}`,
+    typeConflict: (rel) => `${rel}: is a directory in the target but not in the source (set delete=true to replace it)`,
+    planHeader: (source, dest) => `\uD83D\uDD0D **Sync plan: ${source} \u2192 ${dest}**`,
+    doneHeader: (source, dest) => `\u2705 **Synced: ${source} \u2192 ${dest}**`,
+    catNew: 'New',
+    catUpdated: 'Updated',
+    catDeleted: 'Deleted',
+    catUnchanged: 'Unchanged',
+    catDirectories: 'Directories created',
+    labelToCopy: 'To copy',
+    labelCopied: 'Copied',
+    inSync: '\u2705 Target is already in sync.',
+    syncError: (msg) => `\u274C Error syncing: ${msg}`,
+    listNew: '**New files:**',
+    listUpdated: '**Updated files:**',
+    listDeleted: '**Deleted files:**',
+    andMore: (count) => `... and ${count} more`,
+    skippedSpecial: (count) => `\u26A0\uFE0F ${count} special file(s) skipped (pipes, sockets, devices)`,
+    setDryRunFalse: `\uD83D\uDCA1 Set \`dry_run=false\` to sync.`,
   },
 
   // ==================== fc_file_info ====================
@@ -78,12 +174,40 @@ export const en: Translations = {
     typeDirectory: 'Directory',
     typeFile: 'File',
     typeOther: 'Other',
+    typeSymlink: 'Symbolic link',
+    specialTypes: { fifo: 'Named pipe (FIFO)', socket: 'Socket', block_device: 'Block device', character_device: 'Character device' },
     propType: 'Type',
     propSize: 'Size',
     propCreated: 'Created',
     propModified: 'Modified',
     propAccessed: 'Accessed',
     propPath: 'Path',
+    propHardLinks: 'Hard links',
+    propPermissions: 'Permissions',
+    propOwner: 'Owner',
+    propLinkTarget: 'Link target',
+    propResolvedTarget: 'Resolved target',
+    propTargetType: 'Target type',
+    propTargetSize: 'Target size',
+    brokenLink: `\u26A0\uFE0F Broken link: the target does not exist.`,
+  },
+
+  // ==================== fc_set_attributes ====================
+  fc_set_attributes: {
+    nothingToDo: `\u274C Nothing to change. Pass mode, owner, touch, mtime or atime.`,
+    ownerUnsupported: `\u274C Changing the owner is not supported on Windows.`,
+    invalidMode: (spec) => `Invalid mode "${spec}". Use octal (755) or symbolic (u+x,go-w).`,
+    unknownOwner: (name) => `Unknown user or group: ${name}`,
+    invalidTime: (value) => `Invalid date: ${value}`,
+    previewHeader: (count) => `\uD83D\uDD0D **Preview: ${count} entries would change**`,
+    applied: (count) => `\u2705 **${count} entries changed**`,
+    created: (p) => `\uD83D\uDCC4 Created: ${p}`,
+    andMore: (count) => `... and ${count} more`,
+    unchanged: (count) => `\u2796 ${count} entries already up to date`,
+    skippedSymlinks: (count) => `\uD83D\uDD17 ${count} symlinks skipped`,
+    errors: (count) => `\u26A0\uFE0F ${count} errors:`,
+    setDryRunFalse: `\uD83D\uDCA1 Set \`dry_run=false\` to apply.`,
+    setError: (msg) => `\u274C Error setting attributes: ${msg}`,
   },
 
   // ==================== fc_search_files ====================
@@ -96,11 +220,25 @@ export const en: Translations = {
     searchError: (msg) => `\u274C Search error: ${msg}`,
   },
 
+  // ==================== fc_grep ====================
+  fc_grep: {
+    noResults: (pattern, scanned) => `\uD83D\uDD0D No matches for "${pattern}" (${scanned} files searched)`,
+    resultsHeader: (pattern) => `\uD83D\uDD0D **Content search for "${pattern}"**`,
+    inPath: (p) => `\uD83D\uDCC1 In: ${p}`,
+    summary: (matches, files, scanned) => `\uD83D\uDCCA ${matches} matches in ${files} files (${scanned} files searched)`,
+    maxReached: '(maximum reached)',
+    binarySkipped: (count) => `\u23ED\uFE0F ${count} binary files skipped`,
+    invalidRegex: (msg) => `\u274C Invalid search pattern: ${msg}`,
+    searchError: (msg) => `\u274C Search error: ${msg}`,
+  },
+
   // ==================== fc_start_search ====================
   fc_start_search: {
     started: (id, dir, pattern) => `\uD83D\uDD0D **Search started**\n\n| | |\n|---|---|\n| Search ID | \`${id}\` |\n| Directory | ${dir} |\n| Pattern | ${pattern} |`,
+    contentRow: (contentPattern) => `| Content | ${contentPattern} |`,
     useGetResults: `Use \`fc_get_search_results\` to retrieve results.`,
     startError: (msg) => `\u274C Error starting search: ${msg}`,
+    invalidPattern: (msg) => `\u274C Invalid search pattern: ${msg}`,
   },
 
   // ==================== fc_get_search_results ====================
@@ -114,6 +252,9 @@ export const en: Translations = {
     labelDirectory: 'Directory',
     labelScannedDirs: 'Scanned directories',
     labelFound: (count) => `${count} files`,
+    labelContentPattern: 'Content',
+    labelScannedFiles: 'Searched files',
+    labelMatches: (matches, files) => `${matches} matches in ${files} files`,
     labelRuntime: (seconds) => `${seconds}s`,
     resultsRange: (from, to, total) => `**Results ${from}-${to} of ${total}:**`,
     moreResults: (id, offset) => `\uD83D\uDCCC More results: \`fc_get_search_results("${id}", offset=${offset})\``,
@@ -148,6 +289,42 @@ export const en: Translations = {
     removed: (id) => `\u2705 Search removed: ${id}`,
   },
 
+  // ==================== fc_job_status ====================
+  fc_job_status: {
+    started: (id, tool, label) => `\uD83D\uDE80 **Started in the background**\n\n| | |\n|---|---|\n| Job ID | \`${id}\` |\n| Tool | ${tool} |\n| Task | ${label} |`,
+    useJobStatus: (id) => `\uD83D\uDCCC Check progress: \`fc_job_status(job_id="${id}")\`, stop with \`fc_job_cancel\``,
+    header: (tool, label, status) => `\uD83D\uDCE6 **${tool}: ${label}** (${status})`,
+    statusRunning: '\uD83D\uDD04 Running',
+    statusDone: '\u2705 Completed',
+    statusCancelled: '\u23F9\uFE0F Cancelled',
+    statusFailed: '\u274C Failed',
+    labelProgress: 'Progress',
+    labelCurrent: 'Current',
+    labelEta: 'Remaining (est.)',
+    notFound: (id) => `\u274C Job not found: ${id}`,
+    labelFiles: 'Files',
+    labelRuntime: 'Runtime',
+  },
+
+  // ==================== fc_job_cancel ====================
+  fc_job_cancel: {
+    cancelled: (id) => `\u23F9\uFE0F Job cancelled: ${id}`,
+    cancelRequested: (id) => `\u23F3 Cancellation of job ${id} requested, it stops at its next checkpoint. Check with fc_job_status.`,
+    notRunning: (id, status) => `\u2139\uFE0F Job ${id} is no longer running (${status}).`,
+  },
+
+  // ==================== fc_job_list ====================
+  fc_job_list: {
+    noJobs: `\uD83D\uDCCB No background jobs.`,
+    header: (count) => `\uD83D\uDCCB **Jobs** (${count})`,
+    colJobId: 'Job ID',
+    colTool: 'Tool',
+    colTask: 'Task',
+    colStatus: 'Status',
+    colProgress: 'Progress',
+    colRuntime: 'Runtime',
+  },
+
   // ==================== fc_safe_delete ====================
   fc_safe_delete: {
     typeDirectory: 'Directory',
@@ -159,6 +336,36 @@ export const en: Translations = {
     propTrash: 'Recycle Bin',
     canRestore: `\u2705 Can be restored from the recycle bin.`,
     trashError: (msg) => `\u274C Error moving to recycle bin: ${msg}`,
+    useTrashRestore: `\uD83D\uDCA1 Use fc_trash_restore to restore it.`,
+  },
+
+  // ==================== fc_trash_list ====================
+  fc_trash_list: {
+    windowsUnsupported: `\u274C Trash management is only available on Unix systems. Use Explorer to manage the Windows recycle bin.`,
+    empty: (dir) => `\uD83D\uDDD1\uFE0F Trash is empty (${dir})`,
+    header: (count, dir) => `\uD83D\uDDD1\uFE0F **Trash: ${count} items** (${dir})`,
+    colName: 'Name',
+    colOriginal: 'Original path',
+    colDeleted: 'Deleted',
+    colSize: 'Size',
+    andMore: (count) => `... and ${count} more`,
+    useRestore: `\uD83D\uDCA1 Restore with fc_trash_restore(name), purge with fc_trash_empty.`,
+  },
+
+  // ==================== fc_trash_restore ====================
+  fc_trash_restore: {
+    nameOrPathRequired: `\u274C Either name or original_path is required.`,
+    notFound: (n) => `\u274C Not found in trash: ${n}`,
+    targetExists: (p) => `\u274C Target already exists: ${p}. Use overwrite=true or a different destination.`,
+    restored: (name, target) => `\u2705 Restored from trash: ${name} \u2192 ${target}`,
+  },
+
+  // ==================== fc_trash_empty ====================
+  fc_trash_empty: {
+    nothingToPurge: `\u2139\uFE0F No matching items in the trash.`,
+    previewHeader: (count, size) => `\uD83D\uDD0D **Preview: ${count} items would be purged** (${size})`,
+    purgedHeader: (count, size) => `\u2705 **${count} items permanently purged** (${size} freed)`,
+    setDryRunFalse: `\uD83D\uDCA1 Set dry_run=false to purge.`,
   },
 
   // ==================== fc_execute_command ====================
@@ -217,15 +424,73 @@ export const en: Translations = {
     fileStart: '**File start:**',
     multipleOccurrences: (count) => `\u274C String occurs ${count}x (must be unique).`,
     mustBeUnique: 'must be unique',
-    tip: `\uD83D\uDCA1 Tip: Extend the search string with more context.`,
+    tip: `\uD83D\uDCA1 Tip: Extend the search string with more context, or set replace_all to change every occurrence.`,
     replaced: (name) => `\u2705 **${name}** - String replaced`,
     sameLineCount: 'same line count',
     addedLines: (count) => `+${count} lines`,
     removedLines: (count) => `${count} lines`,
     labelChange: 'Change',
     labelFile: 'File',
-    contextLabel: '**Context:**',
+    diffLabel: '**Diff:**',
+    editsOrOldStr: `\u274C Pass either old_str/new_str or edits.`,
+    editFailed: (index, total) => `\u274C Edit ${index} of ${total} failed, the file was not changed.`,
+    editsApplied: (name, edits, replacements) => `\u2705 **${name}** - ${edits} edits applied (${replacements} replacements)`,
+    noChanges: '(no changes)',
     replaceError: (msg) => `\u274C Error replacing string: ${msg}`,
+    moreDiffLines: (count) => `\n\n... (${count} more diff lines, see structured output)`,
+  },
+
+  // ==================== fc_replace_in_files ====================
+  fc_replace_in_files: {
+    noMatches: (pattern, searched) => `\uD83D\uDD0D No occurrences of "${pattern}" (${searched} files searched), nothing to change.`,
+    previewHeader: (files, replacements) => `\uD83D\uDD0D **Preview: ${replacements} replacements in ${files} files**`,
+    replaced: (files, replacements) => `\u2705 **${replacements} replacements in ${files} files**`,
+    diffsOmitted: (count) => `... diff of ${count} more files omitted (see structured output)`,
+    notUtf8: 'not valid UTF-8, skipped',
+    tooManyFiles: (max) => `\u274C More than ${max} files would change. Narrow the filters or raise max_files.`,
+    replaceError: (msg) => `\u274C Error replacing in files: ${msg}`,
+    inPath: (p) => `\uD83D\uDCC1 In: ${p}`,
+    invalidPattern: (msg) => `\u274C Invalid search pattern: ${msg}`,
+    moreDiffLines: (count) => `... (${count} more diff lines)`,
+    setDryRunFalse: `\uD83D\uDCA1 Set \`dry_run=false\` to write the replacements.`,
+  },
+
+  // ==================== fc_diff ====================
+  fc_diff: {
+    otherOrContent: `\u274C Pass either other_path or content.`,
+    noDifferences: (a, b) => `\u2705 No differences between ${a} and ${b}`,
+    binaryDiffer: (a, b) => `\u26A0\uFE0F Binary files ${a} and ${b} differ`,
+    header: (added, removed) => `\uD83D\uDCDD **Diff:** +${added} / -${removed} lines`,
+    diffError: (msg) => `\u274C Error creating diff: ${msg}`,
+    moreDiffLines: (count) => `\n\n... (${count} more diff lines, see structured output)`,
+  },
+
+  // ==================== fc_apply_patch ====================
+  fc_apply_patch: {
+    patchOrFile: `\u274C Pass either patch or patch_file.`,
+    noHunks: `\u274C The patch contains no hunks (expected a unified diff with ---/+++ and @@ lines).`,
+    hunkWithoutFile: (line) => `\u274C Line ${line}: hunk without a preceding ---/+++ file header.`,
+    countMismatch: (line) => `\u274C Line ${line}: more hunk lines than the @@ header announces. Fix the line counts in the hunk header.`,
+    pathNeedsSingleFile: `\u274C 'path' can only be used with a single-file patch.`,
+    baseDirRequired: (p) => `\u274C Relative path in patch: ${p}. Pass base_dir.`,
+    stripTooLarge: (p, strip) => `\u274C Cannot strip ${strip} path components from ${p}.`,
+    previewHeader: (applied, total, files) => `\uD83D\uDD0D **Preview: ${applied}/${total} hunks apply, ${files} files would change**`,
+    appliedHeader: (applied, total, files) => `\u2705 **Patch applied: ${applied}/${total} hunks, ${files} files changed**`,
+    rejectedHeader: (rejected, total) => `\u274C **Patch not applied: ${rejected} of ${total} hunks rejected**`,
+    nothingWritten: 'Nothing was written. Fix the rejected hunks, or set partial=true to apply the others.',
+    actions: { modify: 'modify', create: 'create', delete: 'delete' },
+    fileLine: (file, action, applied, total) => `${file} (${action}): ${applied}/${total} hunks`,
+    hunkNote: (hunk, offset, fuzz) => `Hunk ${hunk}: offset ${offset > 0 ? '+' : ''}${offset} lines${fuzz > 0 ? `, fuzz ${fuzz}` : ''}`,
+    hunkRejected: (file, hunk, reason) => `${file}${hunk > 0 ? `, hunk ${hunk}` : ''}: ${reason}`,
+    reasons: {
+      context_mismatch: 'context does not match',
+      already_applied: 'already applied (the new lines are present)',
+      file_exists: 'file to create already exists',
+      file_not_found: 'file not found',
+      not_empty: 'file to delete is not empty after the patch',
+    },
+    applyError: (msg) => `\u274C Error applying patch: ${msg}`,
+    setDryRunFalse: `\uD83D\uDCA1 Set \`dry_run=false\` to apply the patch.`,
   },
 
   // ==================== fc_list_processes ====================
@@ -363,6 +628,14 @@ export const en: Translations = {
     modifiedFiles: '**Modified files:**',
     deletedFiles: '**Deleted files:**',
     andMore: (count) => `... and ${count} more`,
+    catRenamed: 'Renamed/moved',
+    catTouched: 'Touched (content unchanged)',
+    renamedFiles: '**Renamed/moved files:**',
+    touchedOnly: (count) => `\u2139\uFE0F ${count} files were touched, their content is unchanged.`,
+    diffsHeader: '**Diffs:**',
+    diffsUnavailable: (count) => `\u2139\uFE0F No diff for ${count} files (binary, larger than 256 KB, or no content in the previous snapshot; use content=true).`,
+    moreDiffLines: (count) => `... (${count} more diff lines)`,
+    diffsOmitted: (count) => `... diff of ${count} more files omitted (see structured output)`,
   },
 
   // ==================== fc_batch_rename ====================
@@ -388,6 +661,8 @@ export const en: Translations = {
     csvNeedsArray: `\u274C CSV export requires a JSON array of objects.`,
     iniNeedsObject: `\u274C INI export requires a JSON object.`,
     unsupportedFormat: (format) => `\u274C Unsupported format: ${format}`,
+    targetFormatRequired: `\u274C target_format is required.`,
+    invalidOutputFormat: (format) => `\u274C output_format "${format}" is not a result format; use "text" or "json" (the file format goes in target_format).`,
     converted: (from, to) => `\u2705 **Converted: ${from} \u2192 ${to}**`,
     labelSource: 'Source',
     labelTarget: 'Target',
@@ -407,6 +682,26 @@ export const en: Translations = {
     useSafeDelete: `\uD83D\uDCA1 Use \`fc_safe_delete\` to safely remove duplicates.`,
   },
 
+  // ==================== fc_disk_usage ====================
+  fc_disk_usage: {
+    header: (p) => `\uD83D\uDCBE **Disk usage: ${p}**`,
+    labelTotal: 'Total size',
+    labelFiles: 'Files',
+    labelDirectories: 'Directories',
+    labelHardLinks: 'Hard links counted once',
+    labelErrors: 'Unreadable entries',
+    labelRuntime: 'Runtime',
+    treeHeader: (depth) => `**Directories** (depth ${depth}):`,
+    largestFiles: (count) => `**Largest files** (top ${count}):`,
+    byExtension: '**By extension:**',
+    colSize: 'Size',
+    colFile: 'File',
+    colFiles: 'Files',
+    colExtension: 'Extension',
+    noExtension: '(none)',
+    scanError: (msg) => `\u274C Error analyzing disk usage: ${msg}`,
+  },
+
   // ==================== fc_md_to_html ====================
   fc_md_to_html: {
     converted: (name) => `\u2705 **Markdown \u2192 HTML: ${name}**`,
@@ -441,17 +736,19 @@ export const en: Translations = {
 
   // ==================== fc_archive ====================
   fc_archive: {
-    description: 'Creates, extracts, and lists ZIP archives.',
+    description: 'Creates, extracts, and lists ZIP archives. Large archives can be created or extracted as a background job.',
     created: (p) => `\u2705 **ZIP archive created:** ${p}`,
     extracted: (archive, target) => `\u2705 **Extracted:** ${archive} \u2192 ${target}`,
     listHeader: (p) => `\uD83D\uDCC2 **Archive contents: ${p}**`,
     labelSize: 'Size',
     labelFiles: 'Files',
+    skipped: (count) => `\u26A0\uFE0F ${count} symlink(s) (broken, looping or outside the allowed roots) and special file(s) skipped`,
+    unsafeEntry: (name) => `Archive entry "${name}" would be written outside the target directory or through a symlink, nothing extracted`,
   },
 
   // ==================== fc_checksum ====================
   fc_checksum: {
-    description: 'Calculates checksums (MD5/SHA1/SHA256/SHA512) for files.',
+    description: 'Calculates checksums (MD5/SHA1/SHA256/SHA512) for files, optionally as a background job.',
     header: (filename) => `\uD83D\uDD10 **Checksum: ${filename}**`,
     labelAlgorithm: 'Algorithm',
     labelHash: 'Hash',
@@ -467,9 +764,46 @@ export const en: Translations = {
     redirected: (originalAction) => `\uD83D\uDEE1\uFE0F Safe Mode active: ${originalAction} was redirected to the recycle bin.`,
   },
 
+  // ==================== fc_set_output_format ====================
+  fc_set_output_format: {
+    description: `Sets the default output format for all tools. 'json' returns only the structured result as JSON text, 'text' restores the formatted Markdown output. Can be overridden per call with output_format.`,
+    json: '\uD83E\uDDFE **Output format: JSON.** Tools now return their structured result as JSON.',
+    text: '\uD83D\uDCDD **Output format: Text.** Tools now return formatted text.',
+  },
+
+  // ==================== fc_history ====================
+  fc_history: {
+    disabled: '\u26A0\uFE0F The operation journal is disabled (FC_JOURNAL=off).',
+    empty: '\u2139\uFE0F No journaled operations found.',
+    header: (count) => `\uD83D\uDCDC **Operation history** (${count})`,
+    colStatus: 'Status',
+    colId: 'ID',
+    colTime: 'Time',
+    colTool: 'Tool',
+    colTarget: 'Target',
+    legend: '\u2705 undoable \u00B7 \u26A0\uFE0F no backup (too large or unavailable) \u00B7 \u21A9\uFE0F undone',
+    renameCount: (count) => `${count} files renamed`,
+    writeCount: (count) => `${count} files changed`,
+  },
+
+  // ==================== fc_undo ====================
+  fc_undo: {
+    recorded: (id) => `\u21A9\uFE0F Undo with fc_undo (ID: ${id})`,
+    notFound: (id) => `\u274C Operation not found in journal: ${id}`,
+    alreadyUndone: (id) => `\u2139\uFE0F Operation was already undone: ${id}`,
+    notUndoable: 'No backup available for this operation',
+    changedSince: (p) => `File was modified after the operation: ${p}`,
+    targetExists: (p) => `Target already exists: ${p}`,
+    header: (undone, total) => `\u21A9\uFE0F **Undo:** ${undone} of ${total} operations rolled back`,
+    forceTip: '\uD83D\uDCA1 Use force=true to undo anyway and discard the later changes.',
+  },
+
   // ==================== Server ====================
   server: {
     started: '\uD83D\uDE80 BACH FileCommander MCP Server started',
+    sandboxRoots: (roots) => `\uD83D\uDD12 Sandbox active, allowed roots: ${roots}`,
+    clientRootsUpdated: (roots) => `\uD83D\uDCC2 Client workspace roots: ${roots}`,
+    clientRootsError: (msg) => `\u26A0\uFE0F Could not fetch client roots: ${msg}`,
     languageSet: (lang) => `Language set to: ${lang}`,
   },
 };
@@ -16,7 +16,19 @@ export interface Translations {
     pathIsNotDirUseReadFile: (path: string) => string;
     pathIsDirectoryUseDeleteDir: string;
     sourceNotFound: (path: string) => string;
+    destinationExists: (path: string) => string;
+    replaceRequired: (path: string) => string;
+    pathOutsideRoots: (path: string, roots: string) => string;
+    pathReadOnly: (path: string, root: string) => string;
+    pathOutsideClientRoots: (path: string, roots: string) => string;
+    clientRootsUnavailable: string;
+    specialFile: (path: string, kind: string) => string;
+    fileChanged: (path: string, mtime: string) => string;
+    invalidExpectedMtime: (value: string) => string;
+    batchRolledBack: (msg: string) => string;
+    batchRollbackIncomplete: (msg: string, paths: string) => string;
     weekdays: string[];
+    versionInfo: (mtime: string, sha256?: string) => string;
   };
 
   // ==================== fc_read_file ====================
@@ -24,6 +36,15 @@ export interface Translations {
     moreLines: (count: number) => string;
     fileHeader: (name: string, size: string) => string;
     readError: (msg: string) => string;
+    lineRangeInfo: (from: number, to: number, totalLines: number | undefined, totalBytes: number) => string;
+    tailInfo: (from: number, to: number, totalLines: number, totalBytes: number) => string;
+    tailCountInfo: (count: number, totalBytes: number) => string;
+    byteRangeInfo: (from: number, to: number, totalBytes: number, totalLines: number | undefined) => string;
+    beyondEnd: (totalLines: number | undefined, totalBytes: number) => string;
+    conflictingModes: string;
+    binaryInfo: (mime: string) => string;
+    hexDumpInfo: (from: number, to: number, totalBytes: number) => string;
+    binaryTooLarge: (limit: string) => string;
   };
 
   // ==================== fc_write_file ====================
@@ -40,6 +61,15 @@ export interface Translations {
     dirHeader: (path: string) => string;
     emptyDir: string;
     listError: (msg: string) => string;
+    colName: string;
+    colSize: string;
+    colModified: string;
+    colPermissions: string;
+    colOwner: string;
+    colTarget: string;
+    colChildren: string;
+    truncated: (max: number) => string;
+    brokenLink: string;
   };
 
   // ==================== fc_create_directory ====================
@@ -59,6 +89,7 @@ export interface Translations {
   fc_delete_directory: {
     deleted: (path: string) => string;
     notEmpty: string;
+    isSymlink: (path: string) => string;
     deleteError: (msg: string) => string;
   };
 
@@ -66,12 +97,77 @@ export interface Translations {
   fc_move: {
     moved: (source: string, dest: string) => string;
     moveError: (msg: string) => string;
+    notMoved: (dest: string, policy: string) => string;
+    crossDevice: string;
+    verifyFailed: (path: string) => string;
+    specialFiles: (count: number) => string;
   };
 
   // ==================== fc_copy ====================
   fc_copy: {
     copied: (source: string, dest: string) => string;
     copyError: (msg: string) => string;
+    symlinkLoop: (link: string, target: string) => string;
+    skippedBroken: (count: number) => string;
+    skippedSpecial: (count: number) => string;
+    renamed: string;
+    keptExisting: (count: number, policy: string) => string;
+    nothingCopied: (dest: string, policy: string) => string;
+  };
+
+  // ==================== fc_batch_operation ====================
+  fc_batch_operation: {
+    noItems: string;
+    destinationRequired: (operation: string) => string;
+    tooManyItems: (max: number) => string;
+    listedTwice: string;
+    nested: (other: string) => string;
+    dirNotEmpty: string;
+    destinationInside: string;
+    nameClash: (other: string) => string;
+    targetExists: string;
+    specialFile: string;
+    header: (operation: string, done: number, failed: number, skipped: number) => string;
+    planHeader: (operation: string, valid: number, invalid: number) => string;
+    stoppedInvalid: string;
+    stoppedError: (notRun: number) => string;
+    batchError: (msg: string) => string;
+    notFound: string;
+    andMore: (count: number) => string;
+    setDryRunFalse: string;
+  };
+
+  // ==================== fc_create_link ====================
+  fc_create_link: {
+    symlinkCreated: (link: string, target: string) => string;
+    hardCreated: (link: string, target: string) => string;
+    exists: (path: string) => string;
+    hardLinkTarget: (path: string) => string;
+    dangling: string;
+    createError: (msg: string) => string;
+  };
+
+  // ==================== fc_sync ====================
+  fc_sync: {
+    nested: (source: string, dest: string) => string;
+    typeConflict: (rel: string) => string;
+    planHeader: (source: string, dest: string) => string;
+    doneHeader: (source: string, dest: string) => string;
+    catNew: string;
+    catUpdated: string;
+    catDeleted: string;
+    catUnchanged: string;
+    catDirectories: string;
+    labelToCopy: string;
+    labelCopied: string;
+    inSync: string;
+    syncError: (msg: string) => string;
+    listNew: string;
+    listUpdated: string;
+    listDeleted: string;
+    andMore: (count: number) => string;
+    skippedSpecial: (count: number) => string;
+    setDryRunFalse: string;
   };
 
   // ==================== fc_file_info ====================
@@ -80,12 +176,40 @@ export interface Translations {
     typeDirectory: string;
     typeFile: string;
     typeOther: string;
+    typeSymlink: string;
+    specialTypes: Record<'fifo' | 'socket' | 'block_device' | 'character_device', string>;
     propType: string;
     propSize: string;
     propCreated: string;
     propModified: string;
     propAccessed: string;
     propPath: string;
+    propHardLinks: string;
+    propPermissions: string;
+    propOwner: string;
+    propLinkTarget: string;
+    propResolvedTarget: string;
+    propTargetType: string;
+    propTargetSize: string;
+    brokenLink: string;
+  };
+
+  // ==================== fc_set_attributes ====================
+  fc_set_attributes: {
+    nothingToDo: string;
+    ownerUnsupported: string;
+    invalidMode: (spec: string) => string;
+    unknownOwner: (name: string) => string;
+    invalidTime: (value: string) => string;
+    previewHeader: (count: number) => string;
+    applied: (count: number) => string;
+    created: (path: string) => string;
+    andMore: (count: number) => string;
+    unchanged: (count: number) => string;
+    skippedSymlinks: (count: number) => string;
+    errors: (count: number) => string;
+    setDryRunFalse: string;
+    setError: (msg: string) => string;
   };
 
   // ==================== fc_search_files ====================
@@ -98,11 +222,25 @@ export interface Translations {
     searchError: (msg: string) => string;
   };
 
+  // ==================== fc_grep ====================
+  fc_grep: {
+    noResults: (pattern: string, scanned: number) => string;
+    resultsHeader: (pattern: string) => string;
+    inPath: (p: string) => string;
+    summary: (matches: number, files: number, scanned: number) => string;
+    maxReached: string;
+    binarySkipped: (count: number) => string;
+    invalidRegex: (msg: string) => string;
+    searchError: (msg: string) => string;
+  };
+
   // ==================== fc_start_search ====================
   fc_start_search: {
     started: (id: string, dir: string, pattern: string) => string;
+    contentRow: (contentPattern: string) => string;
     useGetResults: string;
     startError: (msg: string) => string;
+    invalidPattern: (msg: string) => string;
   };
 
   // ==================== fc_get_search_results ====================
@@ -116,6 +254,9 @@ export interface Translations {
     labelDirectory: string;
     labelScannedDirs: string;
     labelFound: (count: number) => string;
+    labelContentPattern: string;
+    labelScannedFiles: string;
+    labelMatches: (matches: number, files: number) => string;
     labelRuntime: (seconds: number) => string;
     resultsRange: (from: number, to: number, total: number) => string;
     moreResults: (id: string, offset: number) => string;
@@ -150,6 +291,42 @@ export interface Translations {
     removed: (id: string) => string;
   };
 
+  // ==================== fc_job_status ====================
+  fc_job_status: {
+    started: (id: string, tool: string, label: string) => string;
+    useJobStatus: (id: string) => string;
+    header: (tool: string, label: string, status: string) => string;
+    statusRunning: string;
+    statusDone: string;
+    statusCancelled: string;
+    statusFailed: string;
+    labelProgress: string;
+    labelCurrent: string;
+    labelEta: string;
+    notFound: (id: string) => string;
+    labelFiles: string;
+    labelRuntime: string;
+  };
+
+  // ==================== fc_job_cancel ====================
+  fc_job_cancel: {
+    cancelled: (id: string) => string;
+    cancelRequested: (id: string) => string;
+    notRunning: (id: string, status: string) => string;
+  };
+
+  // ==================== fc_job_list ====================
+  fc_job_list: {
+    noJobs: string;
+    header: (count: number) => string;
+    colJobId: string;
+    colTool: string;
+    colTask: string;
+    colStatus: string;
+    colProgress: string;
+    colRuntime: string;
+  };
+
   // ==================== fc_safe_delete ====================
   fc_safe_delete: {
     typeDirectory: string;
@@ -161,6 +338,36 @@ export interface Translations {
     propTrash: string;
     canRestore: string;
     trashError: (msg: string) => string;
+    useTrashRestore: string;
+  };
+
+  // ==================== fc_trash_list ====================
+  fc_trash_list: {
+    windowsUnsupported: string;
+    empty: (trashDir: string) => string;
+    header: (count: number, trashDir: string) => string;
+    colName: string;
+    colOriginal: string;
+    colDeleted: string;
+    colSize: string;
+    andMore: (count: number) => string;
+    useRestore: string;
+  };
+
+  // ==================== fc_trash_restore ====================
+  fc_trash_restore: {
+    nameOrPathRequired: string;
+    notFound: (nameOrPath: string) => string;
+    targetExists: (path: string) => string;
+    restored: (name: string, target: string) => string;
+  };
+
+  // ==================== fc_trash_empty ====================
+  fc_trash_empty: {
+    nothingToPurge: string;
+    previewHeader: (count: number, size: string) => string;
+    purgedHeader: (count: number, size: string) => string;
+    setDryRunFalse: string;
   };
 
   // ==================== fc_execute_command ====================
@@ -226,8 +433,60 @@ export interface Translations {
     removedLines: (count: number) => string;
     labelChange: string;
     labelFile: string;
-    contextLabel: string;
+    diffLabel: string;
+    editsOrOldStr: string;
+    editFailed: (index: number, total: number) => string;
+    editsApplied: (name: string, edits: number, replacements: number) => string;
+    noChanges: string;
+    replaceError: (msg: string) => string;
+    moreDiffLines: (count: number) => string;
+  };
+
+  // ==================== fc_replace_in_files ====================
+  fc_replace_in_files: {
+    noMatches: (pattern: string, searched: number) => string;
+    previewHeader: (files: number, replacements: number) => string;
+    replaced: (files: number, replacements: number) => string;
+    diffsOmitted: (count: number) => string;
+    notUtf8: string;
+    tooManyFiles: (max: number) => string;
     replaceError: (msg: string) => string;
+    inPath: (p: string) => string;
+    invalidPattern: (msg: string) => string;
+    moreDiffLines: (count: number) => string;
+    setDryRunFalse: string;
+  };
+
+  // ==================== fc_diff ====================
+  fc_diff: {
+    otherOrContent: string;
+    noDifferences: (a: string, b: string) => string;
+    binaryDiffer: (a: string, b: string) => string;
+    header: (added: number, removed: number) => string;
+    diffError: (msg: string) => string;
+    moreDiffLines: (count: number) => string;
+  };
+
+  // ==================== fc_apply_patch ====================
+  fc_apply_patch: {
+    patchOrFile: string;
+    noHunks: string;
+    hunkWithoutFile: (line: number) => string;
+    countMismatch: (line: number) => string;
+    pathNeedsSingleFile: string;
+    baseDirRequired: (p: string) => string;
+    stripTooLarge: (p: string, strip: number) => string;
+    previewHeader: (applied: number, total: number, files: number) => string;
+    appliedHeader: (applied: number, total: number, files: number) => string;
+    rejectedHeader: (rejected: number, total: number) => string;
+    nothingWritten: string;
+    actions: Record<'modify' | 'create' | 'delete', string>;
+    fileLine: (file: string, action: string, applied: number, total: number) => string;
+    hunkNote: (hunk: number, offset: number, fuzz: number) => string;
+    hunkRejected: (file: string, hunk: number, reason: string) => string;
+    reasons: Record<'context_mismatch' | 'already_applied' | 'file_exists' | 'file_not_found' | 'not_empty', string>;
+    applyError: (msg: string) => string;
+    setDryRunFalse: string;
   };
 
   // ==================== fc_list_processes ====================
@@ -365,6 +624,14 @@ export interface Translations {
     modifiedFiles: string;
     deletedFiles: string;
     andMore: (count: number) => string;
+    catRenamed: string;
+    catTouched: string;
+    renamedFiles: string;
+    touchedOnly: (count: number) => string;
+    diffsHeader: string;
+    diffsUnavailable: (count: number) => string;
+    moreDiffLines: (count: number) => string;
+    diffsOmitted: (count: number) => string;
   };
 
   // ==================== fc_batch_rename ====================
@@ -390,6 +657,8 @@ export interface Translations {
     csvNeedsArray: string;
     iniNeedsObject: string;
     unsupportedFormat: (format: string) => string;
+    targetFormatRequired: string;
+    invalidOutputFormat: (format: string) => string;
     converted: (from: string, to: string) => string;
     labelSource: string;
     labelTarget: string;
@@ -409,6 +678,26 @@ export interface Translations {
     useSafeDelete: string;
   };
 
+  // ==================== fc_disk_usage ====================
+  fc_disk_usage: {
+    header: (path: string) => string;
+    labelTotal: string;
+    labelFiles: string;
+    labelDirectories: string;
+    labelHardLinks: string;
+    labelErrors: string;
+    labelRuntime: string;
+    treeHeader: (depth: number) => string;
+    largestFiles: (count: number) => string;
+    byExtension: string;
+    colSize: string;
+    colFile: string;
+    colFiles: string;
+    colExtension: string;
+    noExtension: string;
+    scanError: (msg: string) => string;
+  };
+
   // ==================== fc_md_to_html ====================
   fc_md_to_html: {
     converted: (name: string) => string;
@@ -449,6 +738,8 @@ export interface Translations {
     listHeader: (path: string) => string;
     labelSize: string;
     labelFiles: string;
+    skipped: (count: number) => string;
+    unsafeEntry: (name: string) => string;
   };
 
   // ==================== fc_checksum ====================
@@ -469,9 +760,46 @@ export interface Translations {
     redirected: (originalAction: string) => string;
   };
 
+  // ==================== fc_set_output_format ====================
+  fc_set_output_format: {
+    description: string;
+    json: string;
+    text: string;
+  };
+
+  // ==================== fc_history ====================
+  fc_history: {
+    disabled: string;
+    empty: string;
+    header: (count: number) => string;
+    colStatus: string;
+    colId: string;
+    colTime: string;
+    colTool: string;
+    colTarget: string;
+    legend: string;
+    renameCount: (count: number) => string;
+    writeCount: (count: number) => string;
+  };
+
+  // ==================== fc_undo ====================
+  fc_undo: {
+    recorded: (id: string) => string;
+    notFound: (id: string) => string;
+    alreadyUndone: (id: string) => string;
+    notUndoable: string;
+    changedSince: (path: string) => string;
+    targetExists: (path: string) => string;
+    header: (undone: number, total: number) => string;
+    forceTip: string;
+  };
+
   // ==================== Server ====================
   server: {
     started: string;
+    sandboxRoots: (roots: string) => string;
+    clientRootsUpdated: (roots: string) => string;
+    clientRootsError: (msg: string) => string;
     languageSet: (lang: string) => string;
   };
 }
@@ -15,17 +15,22 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RootsListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { z } from "zod";
 import { t, setLanguage, getLanguage } from './i18n/index.js';
 import type { Lang } from './i18n/index.js';
 import * as fs from "fs/promises";
 import * as fsSync from "fs";
 import * as path from "path";
+import * as readline from "readline";
 import * as crypto from "crypto";
 import { createHash } from "crypto";
 import * as os from "os";
 import { exec, execSync, spawn } from "child_process";
 import { promisify } from "util";
+import { fileURLToPath, pathToFileURL } from "url";
 import * as yaml from 'js-yaml';
 import * as toml from 'smol-toml';
 import { XMLParser, XMLBuilder } from 'fast-xml-parser';
@@ -69,16 +74,30 @@ function generateSessionId(): string {
 // Async Search Management (für Hintergrund-Suchen)
 // ============================================================================
 
+interface ContentMatch {
+  file: string;
+  line: number;
+  snippet: string;
+}
+
 interface SearchSession {
   id: string;
   directory: string;
-  pattern: RegExp;
+  pattern: GlobMatcher[];
   patternString: string;
   results: string[];
   isRunning: boolean;
   startTime: Date;
   scannedDirs: number;
   abortController: AbortController;
+  /** Inhaltssuche: Dateinamen-Pattern filtert, contentPattern sucht im Inhalt */
+  contentPattern?: RegExp;
+  contentPatternString?: string;
+  maxMatchesPerFile?: number;
+  matches: ContentMatch[];
+  scannedFiles: number;
+  respectIgnore: boolean;
+  followSymlinks: boolean;
 }
 
 const searchSessions: Map<string, SearchSession> = new Map();
@@ -89,324 +108,3783 @@ function generateSearchId(): string {
 }
 
 // ============================================================================
-// Safe Mode (global toggle)
+// Disk Usage Scans (Hintergrund-Analyse fuer fc_disk_usage)
 // ============================================================================
 
-let safeMode = false;
+interface DiskUsageDirectory {
+  path: string;
+  relativePath: string;
+  depth: number;
+  size: number;
+  files: number;
+}
 
-/**
- * Asynchrone rekursive Suche mit AbortController
- */
-async function asyncSearchFiles(
-  session: SearchSession,
-  dirPath: string
-): Promise<void> {
-  if (!session.isRunning || session.abortController.signal.aborted) {
-    return;
-  }
+interface DiskUsageScan {
+  directory: string;
+  depth: number;
+  topN: number;
+  startTime: Date;
+  totalSize: number;
+  fileCount: number;
+  dirCount: number;
+  hardLinksSkipped: number;
+  errors: number;
+  /** Verzeichnisse bis zur gewuenschten Tiefe, erst nach Abschluss vollstaendig */
+  directories: DiskUsageDirectory[];
+  /** Absteigend nach Groesse, maximal topN Eintraege */
+  topFiles: { path: string; size: number }[];
+  extensions: Map<string, { size: number; files: number }>;
+  seenInodes: Set<string>;
+}
 
-  try {
-    const entries = await fs.readdir(dirPath, { withFileTypes: true });
-    session.scannedDirs++;
+// ============================================================================
+// Hintergrund-Jobs (fc_job_status, fc_job_cancel, fc_job_list)
+// ============================================================================
 
-    for (const entry of entries) {
-      if (!session.isRunning || session.abortController.signal.aborted) {
-        return;
-      }
+/** Fortschritt eines Laufs, wird waehrend der Arbeit fortgeschrieben */
+interface JobProgress {
+  unit: 'bytes' | 'items';
+  total: number;
+  done: number;
+  /** Dateizaehler zusaetzlich zum Byte-Fortschritt (Kopien) */
+  files?: { total: number; done: number };
+  current?: string;
+}
 
-      const fullPath = path.join(dirPath, entry.name);
+/** Ergebnis eines Laufs: Text und structuredContent wie beim Aufruf im Vordergrund */
+interface JobResult {
+  text: string;
+  data: Record<string, unknown>;
+}
 
-      if (entry.isDirectory()) {
-        // Skip system directories
-        if (!['node_modules', '.git', '$RECYCLE.BIN', 'System Volume Information', 'Windows', 'Program Files', 'Program Files (x86)'].includes(entry.name)) {
-          await asyncSearchFiles(session, fullPath);
-        }
-      } else if (session.pattern.test(entry.name)) {
-        session.results.push(fullPath);
-      }
-    }
-  } catch {
-    // Ignore permission errors silently
-  }
+interface Job {
+  id: string;
+  tool: string;
+  /** Kurzbeschreibung fuer fc_job_list, z.B. Quelle und Ziel */
+  label: string;
+  status: 'running' | 'done' | 'cancelled' | 'failed';
+  startTime: Date;
+  endTime?: Date;
+  abortController: AbortController;
+  progress: JobProgress;
+  error?: string;
+  result?: JobResult;
+  /** Erfuellt, sobald work beendet ist und der Status feststeht */
+  settled?: Promise<void>;
 }
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
+const jobs: Map<string, Job> = new Map();
+let jobCounter = 0;
+const MAX_JOBS = 50;
+/** So lange wartet fc_job_cancel auf das Ende des abgebrochenen Jobs */
+const CANCEL_WAIT_MS = 5000;
+
+function generateJobId(): string {
+  return `job_${++jobCounter}_${Date.now()}`;
+}
+
+function newJobProgress(unit: JobProgress['unit']): JobProgress {
+  return { unit, total: 0, done: 0 };
+}
+
+/** Kontext eines Tool-Aufrufs (progressToken, Abbruchsignal, Notifications) */
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Abbruchsignal und Fortschritt fuer rekursive Durchlaeufe und lange Schleifen */
+interface RunContext {
+  signal?: AbortSignal;
+  progress?: JobProgress;
+}
 
 /**
- * Verschiebt eine Datei/Verzeichnis in den Papierkorb (Windows) oder ~/.Trash (Unix).
- * Wiederverwendbare Funktion fuer fc_safe_delete und Safe Mode.
+ * Bricht ab, wenn der Client den Aufruf abgebrochen hat, und zaehlt einen Schritt
  */
-async function moveToTrash(targetPath: string): Promise<string> {
-  const stats = await fs.stat(targetPath);
-  const isWindows = process.platform === 'win32';
+function step(run: RunContext | undefined, current?: string): void {
+  run?.signal?.throwIfAborted();
+  if (run?.progress) {
+    run.progress.done++;
+    if (current !== undefined) run.progress.current = current;
+  }
+}
 
-  if (isWindows) {
-    const escapedPath = targetPath.replace(/'/g, "''");
-    const deleteMethod = stats.isDirectory() ? 'DeleteDirectory' : 'DeleteFile';
-    const psCommand = `Add-Type -AssemblyName Microsoft.VisualBasic; [Microsoft.VisualBasic.FileIO.FileSystem]::${deleteMethod}('${escapedPath}', 'OnlyErrorDialogs', 'SendToRecycleBin')`;
-    const windowsShell = getWindowsShell();
-    if (windowsShell.includes('powershell')) {
-      await execAsync(`"${windowsShell}" -Command "${psCommand}"`);
-    } else {
-      // cmd.exe kann kein PowerShell - normales Loeschen als Fallback
-      if (stats.isDirectory()) {
-        await fs.rm(targetPath, { recursive: true });
-      } else {
-        await fs.unlink(targetPath);
+/**
+ * Startet einen Lauf als Hintergrund-Job. Abbruch ueber fc_job_cancel, das Ergebnis
+ * liefert fc_job_status.
+ */
+function startJob(
+  tool: string,
+  label: string,
+  unit: JobProgress['unit'],
+  work: (progress: JobProgress, signal: AbortSignal) => Promise<JobResult>
+): Job {
+  const job: Job = {
+    id: generateJobId(),
+    tool,
+    label,
+    status: 'running',
+    startTime: new Date(),
+    abortController: new AbortController(),
+    progress: newJobProgress(unit)
+  };
+
+  // Aelteste abgeschlossene Jobs verwerfen
+  if (jobs.size >= MAX_JOBS) {
+    for (const [id, old] of jobs) {
+      if (old.status !== 'running') {
+        jobs.delete(id);
+        break;
       }
     }
-    return ''; // Windows Papierkorb, kein expliziter Pfad
-  } else {
-    const trashDir = path.join(process.env.HOME || '/tmp', '.Trash');
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const baseName = path.basename(targetPath);
-    const trashPath = path.join(trashDir, `${baseName}_${timestamp}`);
-    try {
-      await fs.access(trashDir);
-    } catch {
-      await fs.mkdir(trashDir, { recursive: true });
-    }
-    await fs.rename(targetPath, trashPath);
-    return trashPath;
   }
+  jobs.set(job.id, job);
+
+  // Der Status ergibt sich allein daraus, wie work endet: ein Abbruch zaehlt erst,
+  // wenn work mit einem AbortError aussteigt
+  job.settled = work(job.progress, job.abortController.signal).then(result => {
+    job.result = result;
+    job.status = 'done';
+  }).catch(error => {
+    if (job.abortController.signal.aborted && error instanceof Error && error.name === 'AbortError') {
+      job.status = 'cancelled';
+    } else {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+  }).finally(() => {
+    job.endTime = new Date();
+    job.progress.current = undefined;
+  });
+  return job;
 }
 
 /**
- * Normalisiert Pfade für Windows/Unix Kompatibilität
+ * Bereitet einen Job fuer structuredContent auf; ETA aus der bisherigen Rate
  */
-function normalizePath(inputPath: string): string {
-  return path.normalize(inputPath);
+function jobData(job: Job) {
+  const runtime = ((job.endTime ?? new Date()).getTime() - job.startTime.getTime()) / 1000;
+  const { unit, total, done, files, current } = job.progress;
+  return {
+    job_id: job.id,
+    tool: job.tool,
+    label: job.label,
+    status: job.status,
+    unit,
+    done,
+    total,
+    percent: total > 0 ? Math.min(100, Math.floor(done / total * 100)) : job.status === 'done' ? 100 : 0,
+    files_done: files?.done,
+    files_total: files?.total,
+    current,
+    runtime_seconds: Math.round(runtime),
+    eta_seconds: job.status === 'running' && done > 0 && total > done ? Math.round(runtime * (total - done) / done) : undefined,
+    error: job.error,
+    result: job.result?.data
+  };
+}
+
+const jobSchema = z.object({
+  job_id: z.string(),
+  tool: z.string(),
+  label: z.string(),
+  status: z.enum(["running", "done", "cancelled", "failed"]),
+  unit: z.enum(["bytes", "items"]),
+  done: z.number(),
+  total: z.number(),
+  percent: z.number(),
+  files_done: z.number().optional(),
+  files_total: z.number().optional(),
+  current: z.string().optional(),
+  runtime_seconds: z.number(),
+  eta_seconds: z.number().optional(),
+  error: z.string().optional(),
+  result: z.record(z.unknown()).optional()
+});
+
+/** Antworttext beim Start eines Hintergrund-Jobs */
+function jobStartedText(job: Job): string {
+  return `${t().fc_job_status.started(job.id, job.tool, job.label)}\n\n${t().fc_job_status.useJobStatus(job.id)}`;
 }
 
 /**
- * Prüft ob ein Pfad existiert
+ * Wartet auf einen Lauf und sendet dabei notifications/progress, sofern der Client
+ * ein progressToken mitgeschickt hat (hoechstens alle 500 ms, nur bei Aenderung)
  */
-async function pathExists(targetPath: string): Promise<boolean> {
+async function withProgress<T>(extra: ToolExtra, progress: JobProgress, run: Promise<T>): Promise<T> {
+  const token = extra._meta?.progressToken;
+  if (token === undefined) return run;
+
+  let last = -1;
+  const send = () => {
+    if (progress.done === last) return;
+    last = progress.done;
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken: token, progress: progress.done, total: progress.total || undefined, message: progress.current }
+    }).catch(() => {});
+  };
+  const timer = setInterval(send, 500);
   try {
-    await fs.access(targetPath);
-    return true;
-  } catch {
-    return false;
+    return await run;
+  } finally {
+    clearInterval(timer);
+    send();
   }
 }
 
 /**
- * Formatiert Dateigröße menschenlesbar
+ * Tool-Handler mit Fortschritt: der Handler zaehlt in progress, gemeldet wird per
+ * withProgress, solange der Aufruf laeuft
  */
-function formatFileSize(bytes: number): string {
-  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
-  let unitIndex = 0;
-  let size = bytes;
-  
-  while (size >= 1024 && unitIndex < units.length - 1) {
-    size /= 1024;
-    unitIndex++;
-  }
-  
-  return `${size.toFixed(2)} ${units[unitIndex]}`;
+function trackProgress<A, R>(
+  unit: JobProgress['unit'],
+  handler: (params: A, extra: ToolExtra, progress: JobProgress) => Promise<R>
+): (params: A, extra: ToolExtra) => Promise<R> {
+  return (params, extra) => {
+    const progress = newJobProgress(unit);
+    return withProgress(extra, progress, handler(params, extra, progress));
+  };
 }
 
+// ============================================================================
+// Safe Mode (global toggle)
+// ============================================================================
+
+let safeMode = false;
+
+// ============================================================================
+// Output Format (Markdown + structuredContent)
+// ============================================================================
+
 /**
- * Prüft ob ein Pfad Windows-Sonderzeichen enthält die Probleme machen
+ * "text": Markdown fuer Menschen plus structuredContent,
+ * "json": nur die strukturierten Daten (auch als JSON-Text im Content-Block)
  */
-function hasWindowsSpecialChars(inputPath: string): boolean {
-  return /[&^%$#@!]/.test(inputPath);
+type OutputFormat = 'text' | 'json';
+
+let outputFormat: OutputFormat =
+  process.env.FC_OUTPUT_FORMAT === 'json' || process.argv.includes('--json') ? 'json' : 'text';
+
+/** Per-Call-Schalter, wird in jedes inputSchema eingemischt */
+const outputFormatParam = {
+  output_format: z.enum(["text", "json"]).optional().describe("Override output format: text (Markdown) or json (structured data only)")
+};
+
+/**
+ * Baut ein Tool-Ergebnis mit structuredContent. Im JSON-Modus ersetzt die
+ * serialisierte Struktur den Markdown-Text.
+ */
+function structuredResult<T extends Record<string, unknown>>(text: string, data: T, format?: OutputFormat) {
+  const json = (format ?? outputFormat) === 'json';
+  return {
+    content: [{ type: "text" as const, text: json ? JSON.stringify(data, null, 2) : text }],
+    structuredContent: data
+  };
 }
 
+/** Gemeinsames Schema fuer Datei-/Verzeichniseintraege in structuredContent */
+const fileEntrySchema = z.object({
+  name: z.string(),
+  path: z.string(),
+  type: z.enum(["file", "directory", "symlink", "other"]),
+  size: z.number(),
+  mtime: z.string()
+});
+
+type FileEntryType = 'file' | 'directory' | 'symlink' | 'other';
+type SpecialFileType = 'fifo' | 'socket' | 'block_device' | 'character_device';
+
 /**
- * Escaped einen Pfad für PowerShell-Nutzung
- * Behandelt & und andere Sonderzeichen korrekt
+ * Ermittelt den Eintragstyp aus Dirent oder Stats
  */
-function escapeForPowerShell(inputPath: string): string {
-  // In PowerShell: & ist der Call-Operator, muss in Quotes oder escaped werden
-  // Backtick (`) ist das Escape-Zeichen in PowerShell
-  return inputPath
-    .replace(/`/g, '``')      // Backtick zuerst escapen
-    .replace(/\$/g, '`$')     // Dollar-Zeichen
-    .replace(/"/g, '`"')      // Anführungszeichen
-    .replace(/'/g, "''");     // Single quotes verdoppeln
+function getEntryType(entry: fsSync.Dirent | fsSync.Stats): FileEntryType {
+  if (entry.isSymbolicLink()) return 'symlink';
+  if (entry.isDirectory()) return 'directory';
+  if (entry.isFile()) return 'file';
+  return 'other';
 }
 
 /**
- * Escaped einen Pfad für cmd.exe-Nutzung
- * Behandelt & ^ % und andere Sonderzeichen
+ * Erkennt Sonderdateien (Pipes, Sockets, Geraete), die nicht wie Dateien gelesen werden duerfen
  */
-function escapeForCmd(inputPath: string): string {
-  // In cmd.exe: ^ ist das Escape-Zeichen
-  return inputPath
-    .replace(/([&^%!<>|])/g, '^$1');  // Sonderzeichen mit ^ escapen
+function getSpecialType(entry: fsSync.Dirent | fsSync.Stats): SpecialFileType | undefined {
+  if (entry.isFIFO()) return 'fifo';
+  if (entry.isSocket()) return 'socket';
+  if (entry.isBlockDevice()) return 'block_device';
+  if (entry.isCharacterDevice()) return 'character_device';
+  return undefined;
 }
 
+// ============================================================================
+// Sandbox (erlaubte Wurzelverzeichnisse)
+// ============================================================================
+
 /**
- * Ermittelt den PowerShell-Pfad auf Windows
- * Fallback-Kette: pwsh -> powershell.exe im System32 -> cmd.exe
+ * Zugriffsart fuer die Sandbox-Pruefung: "read" fuer lesende Tools,
+ * "write" fuer alles, was Dateien anlegt, aendert oder loescht.
  */
-function getWindowsShell(): string {
-  const systemRoot = process.env.SystemRoot || 'C:\\Windows';
-  const ps7Path = `${systemRoot}\\System32\\WindowsPowerShell\\v1.0\\powershell.exe`;
+type PathAccess = 'read' | 'write';
 
-  // Prüfe ob PowerShell im System32 existiert
-  try {
-    if (fsSync.existsSync(ps7Path)) {
-      return ps7Path;
-    }
-  } catch {
-    // Ignore
+interface AllowedRoot {
+  path: string;
+  readOnly: boolean;
+}
+
+/**
+ * Liest die erlaubten Wurzeln aus CLI-Argumenten und Umgebungsvariablen.
+ *
+ * CLI:  --root <dir>, --root=<dir>, --readonly-root <dir>, --readonly-root=<dir>
+ * Env:  FC_ALLOWED_ROOTS, FC_READONLY_ROOTS (getrennt mit path.delimiter)
+ *
+ * Ohne Eintraege bleibt die Sandbox inaktiv (voller Dateisystemzugriff).
+ */
+function loadAllowedRoots(argv: string[] = process.argv.slice(2)): AllowedRoot[] {
+  const entries: { dir: string; readOnly: boolean }[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--(root|readonly-root)(?:=(.*))?$/);
+    if (!match) continue;
+    const dir = match[2] ?? argv[++i];
+    if (dir) entries.push({ dir, readOnly: match[1] === 'readonly-root' });
   }
 
-  // Fallback zu cmd.exe
-  return `${systemRoot}\\System32\\cmd.exe`;
+  const fromEnv = (value: string | undefined): string[] =>
+    (value || '').split(path.delimiter).map(s => s.trim()).filter(Boolean);
+  for (const dir of fromEnv(process.env.FC_ALLOWED_ROOTS)) entries.push({ dir, readOnly: false });
+  for (const dir of fromEnv(process.env.FC_READONLY_ROOTS)) entries.push({ dir, readOnly: true });
+
+  return entries.map(({ dir, readOnly }) => {
+    const resolved = path.resolve(dir);
+    let real = resolved;
+    try {
+      real = fsSync.realpathSync(resolved);
+    } catch {
+      // Wurzel existiert (noch) nicht - aufgeloesten Pfad verwenden
+    }
+    return { path: real, readOnly };
+  });
 }
 
+const allowedRoots: AllowedRoot[] = loadAllowedRoots();
+
 /**
- * Führt einen Befehl aus - auf Windows mit korrektem Escaping für Sonderzeichen
- * Erkennt automatisch & und andere problematische Zeichen in Pfaden
+ * Vom Client ueber die MCP-Roots-Capability gemeldete Workspace-Wurzeln.
+ * Werden nach der Initialisierung und bei roots/list_changed neu geladen;
+ * null, solange noch keine Antwort auf roots/list vorliegt.
+ * Mit --ignore-client-roots bzw. FC_IGNORE_CLIENT_ROOTS=1 deaktivierbar.
  */
-async function executeCommand(
-  command: string,
-  options: { cwd?: string; timeout?: number } = {}
-): Promise<{ stdout: string; stderr: string }> {
-  const isWindows = process.platform === 'win32';
-  const cwd = options.cwd;
+let clientRoots: AllowedRoot[] | null = null;
+/** Laufende roots/list-Abfrage, auf die Pfadpruefungen warten */
+let clientRootsRequest: Promise<void> | null = null;
+const ignoreClientRoots = process.argv.includes('--ignore-client-roots')
+  || ['1', 'true'].includes((process.env.FC_IGNORE_CLIENT_ROOTS || '').toLowerCase());
 
-  // Auf Windows bei Sonderzeichen im Pfad oder Befehl: Spezielles Handling
-  const cwdHasSpecialChars = cwd && hasWindowsSpecialChars(cwd);
-  const cmdHasSpecialChars = hasWindowsSpecialChars(command);
+/**
+ * Prueft ob child gleich parent ist oder darunter liegt.
+ */
+function isPathInside(child: string, parent: string): boolean {
+  const a = process.platform === 'win32' ? child.toLowerCase() : child;
+  const b = process.platform === 'win32' ? parent.toLowerCase() : parent;
+  const rel = path.relative(b, a);
+  return rel === '' || (rel !== '..' && !rel.startsWith('..' + path.sep) && !path.isAbsolute(rel));
+}
 
-  if (isWindows && (cwdHasSpecialChars || cmdHasSpecialChars)) {
-    const windowsShell = getWindowsShell();
+/**
+ * Loest Symlinks auch fuer (noch) nicht existierende Pfade auf: der naechste
+ * existierende Vorfahre wird per realpath aufgeloest, der Rest angehaengt.
+ * Haengende Symlinks werden ueber readlink verfolgt, damit ein Schreibzugriff
+ * nicht ueber einen Link ausserhalb der Wurzeln landet.
+ */
+async function resolveRealPath(targetPath: string): Promise<string> {
+  let current = path.resolve(targetPath);
+  const rest: string[] = [];
 
-    if (windowsShell.includes('powershell')) {
-      // PowerShell: Nutze -LiteralPath für Pfade mit Sonderzeichen
-      const escapedCwd = cwd ? escapeForPowerShell(cwd) : '';
+  for (let hops = 0; hops < 40; hops++) {
+    try {
+      const real = await fs.realpath(current);
+      return rest.length > 0 ? path.join(real, ...[...rest].reverse()) : real;
+    } catch {
+      try {
+        const stats = await fs.lstat(current);
+        if (stats.isSymbolicLink()) {
+          current = path.resolve(path.dirname(current), await fs.readlink(current));
+          continue;
+        }
+      } catch {
+        // Pfad existiert nicht - zum Elternverzeichnis wechseln
+      }
+      const parent = path.dirname(current);
+      if (parent === current) break;
+      rest.push(path.basename(current));
+      current = parent;
+    }
+  }
 
-      // Befehl für PowerShell vorbereiten
-      // Bei Pfaden mit & den Call-Operator nutzen: & "pfad mit &"
-      let psCommand: string;
+  return path.resolve(targetPath);
+}
 
-      if (cwd) {
-        psCommand = `Set-Location -LiteralPath '${escapedCwd}'; ${command}`;
-      } else {
-        psCommand = command;
-      }
+/**
+ * Normalisiert einen Pfad und prueft ihn gegen die erlaubten Wurzeln.
+ * Wirft einen Fehler, wenn der Pfad (nach Symlink-Aufloesung) ausserhalb
+ * aller Wurzeln liegt oder ein Schreibzugriff eine schreibgeschuetzte Wurzel trifft.
+ */
+async function resolvePath(inputPath: string, access: PathAccess = 'read'): Promise<string> {
+  const roots = await currentClientRoots();
+  let normalized = normalizePath(inputPath);
+  if (roots && roots.length > 0 && !path.isAbsolute(normalized)) {
+    normalized = await resolveAgainstClientRoots(roots, normalized);
+  }
+  if (allowedRoots.length === 0 && roots === null) {
+    return normalized;
+  }
 
-      // Wenn der Befehl selbst Pfade mit & enthält, diese in Quotes wrappen
-      // Erkennt Muster wie: python "C:\path\with & special\script.py"
-      psCommand = psCommand.replace(
-        /(?<!["`'])([A-Za-z]:\\[^"'`\n]*&[^"'`\n]*?)(?=\s|$)/g,
-        '"$1"'
-      );
+  const absolute = path.resolve(normalized);
+  const real = await resolveRealPath(absolute);
 
-      return execAsync(`"${windowsShell}" -Command "${psCommand.replace(/"/g, '\\"')}"`, {
-        timeout: options.timeout
-      });
-    } else {
-      // cmd.exe: Escape mit ^
-      const escapedCmd = escapeForCmd(command);
-      const escapedCwd = cwd ? escapeForCmd(cwd) : undefined;
+  if (allowedRoots.length > 0) {
+    // Spezifischste Wurzel gewinnt (z.B. beschreibbares Unterverzeichnis einer read-only Wurzel)
+    const root = allowedRoots
+      .filter(r => isPathInside(real, r.path))
+      .sort((a, b) => b.path.length - a.path.length)[0];
 
-      return execAsync(escapedCmd, {
-        ...options,
-        cwd: escapedCwd || cwd,
-        shell: windowsShell
-      });
+    if (!root) {
+      throw new Error(t().common.pathOutsideRoots(absolute, allowedRoots.map(r => r.path).join(', ')));
     }
+    if (access === 'write' && root.readOnly) {
+      throw new Error(t().common.pathReadOnly(absolute, root.path));
+    }
+  }
+
+  // Meldet der Client Wurzeln, ist ohne Wurzel nichts erlaubt
+  if (roots !== null && !roots.some(r => isPathInside(real, r.path))) {
+    throw new Error(t().common.pathOutsideClientRoots(absolute, roots.length > 0 ? roots.map(r => r.path).join(', ') : '-'));
   }
 
-  return execAsync(command, options);
+  return absolute;
 }
-async function listDirectoryRecursive(
-  dirPath: string, 
-  maxDepth: number, 
-  currentDepth: number = 0
-): Promise<string[]> {
-  const results: string[] = [];
-  
-  if (currentDepth > maxDepth) return results;
-  
-  const entries = await fs.readdir(dirPath, { withFileTypes: true });
-  
-  for (const entry of entries) {
-    const fullPath = path.join(dirPath, entry.name);
-    const indent = "  ".repeat(currentDepth);
-    
-    if (entry.isDirectory()) {
-      results.push(`${indent}📁 ${entry.name}/`);
-      if (currentDepth < maxDepth) {
-        const subEntries = await listDirectoryRecursive(fullPath, maxDepth, currentDepth + 1);
-        results.push(...subEntries);
-      }
-    } else {
-      results.push(`${indent}📄 ${entry.name}`);
+
+/**
+ * Loest einen relativen Pfad gegen die Client-Wurzeln auf: bevorzugt die erste
+ * Wurzel, in der der Pfad existiert, sonst die erste Wurzel.
+ */
+async function resolveAgainstClientRoots(roots: AllowedRoot[], relativePath: string): Promise<string> {
+  for (const root of roots) {
+    const candidate = path.join(root.path, relativePath);
+    if (await pathExists(candidate)) {
+      return candidate;
     }
   }
-  
-  return results;
+  return path.join(roots[0].path, relativePath);
 }
 
 /**
- * Rekursive Dateisuche
+ * Arbeitsverzeichnis fuer gestartete Befehle. Ohne Angabe das Prozessverzeichnis,
+ * sofern es in der Sandbox liegt, sonst die erste Client- bzw. erlaubte Wurzel.
  */
-async function searchFilesRecursive(
-  dirPath: string,
-  pattern: RegExp,
-  maxResults: number,
-  results: string[] = []
-): Promise<string[]> {
-  if (results.length >= maxResults) return results;
-  
+async function resolveWorkingDirectory(cwd?: string): Promise<string> {
+  if (cwd) {
+    return resolvePath(cwd, 'read');
+  }
   try {
-    const entries = await fs.readdir(dirPath, { withFileTypes: true });
-    
-    for (const entry of entries) {
-      if (results.length >= maxResults) break;
-      
-      const fullPath = path.join(dirPath, entry.name);
-      
-      if (entry.isDirectory()) {
-        // Skip system directories
-        if (!['node_modules', '.git', '$RECYCLE.BIN', 'System Volume Information'].includes(entry.name)) {
-          await searchFilesRecursive(fullPath, pattern, maxResults, results);
-        }
-      } else if (pattern.test(entry.name)) {
-        results.push(fullPath);
-      }
-    }
-  } catch {
-    // Ignore permission errors
+    return await resolvePath(process.cwd(), 'read');
+  } catch (error) {
+    const fallback = clientRoots?.[0]?.path ?? allowedRoots[0]?.path;
+    if (!fallback) throw error;
+    return resolvePath(fallback, 'read');
   }
-  
-  return results;
 }
 
-// ============================================================================
-// Tool: Read File
-// ============================================================================
+/** Ob die Client-Wurzeln gelten: der Client hat die roots-Capability angekuendigt */
+function clientRootsDeclared(): boolean {
+  return !ignoreClientRoots && !!server.server.getClientCapabilities()?.roots;
+}
 
-server.registerTool(
+/**
+ * Aktuelle Client-Wurzeln fuer die Pfadpruefung; null ohne roots-Capability.
+ * Vor der ersten Antwort wird auf roots/list gewartet, scheitert die Abfrage,
+ * wird der Zugriff verweigert statt ohne Sandbox weiterzumachen.
+ */
+async function currentClientRoots(): Promise<AllowedRoot[] | null> {
+  if (!clientRootsDeclared()) return null;
+  if (clientRoots === null) {
+    await (clientRootsRequest ?? refreshClientRoots());
+  }
+  if (clientRoots === null) {
+    throw new Error(t().common.clientRootsUnavailable);
+  }
+  return clientRoots;
+}
+
+/**
+ * Fragt die Workspace-Wurzeln beim Client ab (roots/list). Gleichzeitige
+ * Aufrufe teilen sich eine laufende Abfrage.
+ */
+function refreshClientRoots(): Promise<void> {
+  if (!clientRootsDeclared()) {
+    return Promise.resolve();
+  }
+  const request = fetchClientRoots().finally(() => {
+    if (clientRootsRequest === request) clientRootsRequest = null;
+  });
+  clientRootsRequest = request;
+  return request;
+}
+
+/**
+ * Uebernimmt alle file://-URIs aus roots/list, andere Schemata werden ignoriert.
+ * Bei einem Fehler bleibt die bisherige Liste bestehen.
+ */
+async function fetchClientRoots(): Promise<void> {
+  try {
+    const { roots } = await server.server.listRoots();
+    const updated: AllowedRoot[] = [];
+    for (const root of roots) {
+      if (!root.uri.startsWith('file://')) continue;
+      const rootPath = fileURLToPath(root.uri);
+      updated.push({ path: await resolveRealPath(rootPath), readOnly: false });
+    }
+    clientRoots = updated;
+    console.error(t().server.clientRootsUpdated(updated.length > 0 ? updated.map(r => r.path).join(', ') : '-'));
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(t().server.clientRootsError(errorMsg));
+  }
+}
+
+/**
+ * Asynchrone rekursive Suche mit AbortController
+ */
+async function asyncSearchFiles(
+  session: SearchSession,
+  dirPath: string
+): Promise<void> {
+  const walker = walkFiles(dirPath, {
+    respectIgnore: session.respectIgnore,
+    followSymlinks: session.followSymlinks,
+    signal: session.abortController.signal,
+    onDirectory: () => { session.scannedDirs++; }
+  });
+
+  for await (const entry of walker) {
+    if (!session.isRunning) return;
+    if (!matchesGlobs(entry.relativePath, session.pattern)) continue;
+
+    const fullPath = entry.fullPath;
+    if (!session.contentPattern) {
+      session.results.push(fullPath);
+      continue;
+    }
+    try {
+      if (!entry.isFile || detectFileType(await readByteRange(fullPath, 0, 8192)).binary) continue;
+      session.scannedFiles++;
+      const result = await grepFile(fullPath, session.contentPattern, {
+        contextBefore: 0,
+        contextAfter: 0,
+        maxMatches: session.maxMatchesPerFile ?? 20,
+        signal: session.abortController.signal
+      });
+      if (result.matches > 0) {
+        session.results.push(fullPath);
+        session.matches.push(...result.lines.map(l => ({ file: fullPath, line: l.line, snippet: l.text })));
+      }
+    } catch {
+      // Unlesbare Dateien ueberspringen
+    }
+  }
+}
+
+/**
+ * Summiert Groessen unterhalb von dirPath (ohne Symlinks zu folgen).
+ * Hardlinks zaehlen nur einmal; Verzeichnisse bis scan.depth werden einzeln erfasst.
+ */
+async function asyncDiskUsage(
+  scan: DiskUsageScan,
+  dirPath: string,
+  run?: RunContext,
+  level: number = 0
+): Promise<{ size: number; files: number }> {
+  const totals = { size: 0, files: 0 };
+
+  let entries: fsSync.Dirent[];
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true });
+  } catch {
+    scan.errors++;
+    return totals;
+  }
+  scan.dirCount++;
+
+  for (const entry of entries) {
+    const fullPath = path.join(dirPath, entry.name);
+    step(run, fullPath);
+
+    if (entry.isDirectory()) {
+      const sub = await asyncDiskUsage(scan, fullPath, run, level + 1);
+      totals.size += sub.size;
+      totals.files += sub.files;
+      continue;
+    }
+
+    let stats: fsSync.Stats;
+    try {
+      stats = await fs.lstat(fullPath);
+    } catch {
+      scan.errors++;
+      continue;
+    }
+    if (stats.nlink > 1) {
+      const key = `${stats.dev}:${stats.ino}`;
+      if (scan.seenInodes.has(key)) {
+        scan.hardLinksSkipped++;
+        continue;
+      }
+      scan.seenInodes.add(key);
+    }
+
+    totals.size += stats.size;
+    totals.files++;
+    scan.totalSize += stats.size;
+    scan.fileCount++;
+
+    const ext = entry.isFile() ? path.extname(entry.name).toLowerCase() : '';
+    const bucket = scan.extensions.get(ext) ?? { size: 0, files: 0 };
+    bucket.size += stats.size;
+    bucket.files++;
+    scan.extensions.set(ext, bucket);
+
+    if (scan.topFiles.length < scan.topN || stats.size > scan.topFiles[scan.topFiles.length - 1].size) {
+      scan.topFiles.push({ path: fullPath, size: stats.size });
+      scan.topFiles.sort((a, b) => b.size - a.size);
+      if (scan.topFiles.length > scan.topN) scan.topFiles.pop();
+    }
+  }
+
+  if (level <= scan.depth) {
+    scan.directories.push({
+      path: dirPath,
+      relativePath: path.relative(scan.directory, dirPath).split(path.sep).join('/'),
+      depth: level,
+      size: totals.size,
+      files: totals.files
+    });
+  }
+  return totals;
+}
+
+// ============================================================================
+// Operation Journal (Undo fuer veraendernde Tools)
+// ============================================================================
+
+/**
+ * Ein Journal-Eintrag beschreibt eine Aenderung mit genug Vorher-Zustand,
+ * um sie rueckgaengig zu machen. Sicherungskopien liegen unter blobs/<id>.
+ */
+interface JournalEntry {
+  id: string;
+  tool: string;
+  timestamp: string;
+  type: 'write' | 'write_batch' | 'move' | 'rename_batch' | 'delete' | 'trash';
+  path?: string;
+  existed?: boolean;
+  backup?: boolean;
+  afterHash?: string;
+  from?: string;
+  to?: string;
+  renames?: { from: string; to: string }[];
+  files?: { path: string; existed: boolean; afterHash?: string }[];
+  isDirectory?: boolean;
+  trashPath?: string;
+  /** Groesse der Sicherungskopie unter blobs/<id>, wird beim ersten Speichern ermittelt */
+  backupBytes?: number;
+  undoable: boolean;
+  undone: boolean;
+}
+
+type NewJournalEntry = Omit<JournalEntry, 'timestamp' | 'undone' | 'undoable'> & { undoable?: boolean };
+
+const journalEnabled = !['0', 'off', 'false'].includes((process.env.FC_JOURNAL || '').toLowerCase());
+const journalDir = process.env.FC_JOURNAL_DIR || path.join(os.homedir(), '.fc_journal');
+const journalFile = path.join(journalDir, 'journal.json');
+const journalBlobDir = path.join(journalDir, 'blobs');
+const journalMaxEntries = 500;
+const journalMaxBackupBytes = Number(process.env.FC_JOURNAL_MAX_BACKUP_MB || 100) * 1024 * 1024;
+const journalMaxTotalBytes = Number(process.env.FC_JOURNAL_MAX_TOTAL_MB || 1024) * 1024 * 1024;
+
+let journalCounter = 0;
+// Serialisiert Lese-/Schreibzugriffe auf journal.json innerhalb des Prozesses
+let journalQueue: Promise<unknown> = Promise.resolve();
+
+function generateOperationId(): string {
+  return `op_${++journalCounter}_${Date.now()}`;
+}
+
+async function loadJournal(): Promise<JournalEntry[]> {
+  try {
+    return JSON.parse(await fs.readFile(journalFile, "utf-8"));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Fuehrt eine Aenderung am Journal exklusiv aus (read-modify-write).
+ */
+function updateJournal<T>(fn: (entries: JournalEntry[]) => Promise<T> | T): Promise<T> {
+  const run = journalQueue.then(async () => {
+    const entries = await loadJournal();
+    const result = await fn(entries);
+
+    // Aelteste Eintraege samt Sicherungskopien verwerfen
+    const dropped = entries.splice(0, Math.max(0, entries.length - journalMaxEntries));
+    for (const entry of dropped) {
+      await fs.rm(path.join(journalBlobDir, entry.id), { recursive: true, force: true });
+    }
+
+    // Gesamtbudget (FC_JOURNAL_MAX_TOTAL_MB): aelteste Sicherungskopien verwerfen,
+    // bis es eingehalten wird; die Eintraege bleiben ohne Undo in der Historie
+    let total = 0;
+    for (const entry of entries) {
+      entry.backupBytes ??= await getTotalSize(path.join(journalBlobDir, entry.id)).catch(() => 0);
+      if (!entry.undone) total += entry.backupBytes;
+    }
+    for (const entry of entries) {
+      if (total <= journalMaxTotalBytes) break;
+      if (entry.undone || !entry.backupBytes) continue;
+      await fs.rm(path.join(journalBlobDir, entry.id), { recursive: true, force: true });
+      total -= entry.backupBytes;
+      entry.backupBytes = 0;
+      entry.undoable = false;
+    }
+
+    await fs.mkdir(journalDir, { recursive: true });
+    await fs.writeFile(journalFile, JSON.stringify(entries, null, 2), "utf-8");
+    return result;
+  });
+  journalQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Gesamtgroesse einer Datei oder eines Verzeichnisbaums in Bytes.
+ */
+async function getTotalSize(targetPath: string, run?: RunContext): Promise<number> {
+  const stats = await fs.lstat(targetPath);
+  if (!stats.isDirectory()) return stats.size;
+  let total = 0;
+  for (const entry of await fs.readdir(targetPath)) {
+    step(run);
+    total += await getTotalSize(path.join(targetPath, entry), run);
+  }
+  return total;
+}
+
+/**
+ * Sichert den aktuellen Zustand einer Datei/eines Verzeichnisses fuer das Journal.
+ * Gibt false zurueck, wenn das Journal aus ist, der Pfad fehlt oder das
+ * Groessenlimit (FC_JOURNAL_MAX_BACKUP_MB) ueberschritten wird.
+ */
+async function journalBackup(opId: string, targetPath: string): Promise<boolean> {
+  if (!journalEnabled) return false;
+  try {
+    if (await getTotalSize(targetPath) > journalMaxBackupBytes) return false;
+    await fs.mkdir(journalBlobDir, { recursive: true });
+    await fs.cp(targetPath, path.join(journalBlobDir, opId), { recursive: true, preserveTimestamps: true, verbatimSymlinks: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Schreibt einen Eintrag ins Journal. Fehler beim Journal brechen das
+ * eigentliche Tool nicht ab; dann wird undefined zurueckgegeben.
+ */
+async function recordOperation(entry: NewJournalEntry): Promise<string | undefined> {
+  if (!journalEnabled) return undefined;
+  try {
+    if (entry.type === 'write' && entry.path && !entry.afterHash) {
+      entry.afterHash = await hashFile(entry.path);
+    }
+    await updateJournal(entries => {
+      entries.push({ undoable: true, ...entry, timestamp: new Date().toISOString(), undone: false });
+    });
+    return entry.id;
+  } catch (error) {
+    console.error(`Journal error: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Bereitet einen Journal-Eintrag fuer eine Datei-Aenderung vor und sichert
+ * den Inhalt vor dem Schreiben. Nach erfolgreichem Schreiben recordOperation() aufrufen.
+ */
+async function prepareWriteEntry(tool: string, filePath: string): Promise<NewJournalEntry> {
+  const id = generateOperationId();
+  const existed = await pathExists(filePath);
+  const backup = existed && await journalBackup(id, filePath);
+  return { id, tool, type: 'write', path: filePath, existed, backup, undoable: !existed || backup };
+}
+
+/**
+ * Hinweiszeile mit der Operations-ID fuer die Tool-Antwort.
+ */
+function journalNote(opId: string | undefined): string {
+  return opId ? `\n${t().fc_undo.recorded(opId)}` : '';
+}
+
+/**
+ * Kurzbeschreibung eines Eintrags fuer fc_history und fc_undo.
+ */
+function describeJournalEntry(entry: JournalEntry): string {
+  switch (entry.type) {
+    case 'move':
+      return `${entry.from} \u2192 ${entry.to}`;
+    case 'rename_batch':
+      return t().fc_history.renameCount(entry.renames?.length ?? 0);
+    case 'write_batch':
+      return t().fc_history.writeCount(entry.files?.length ?? 0);
+    default:
+      return entry.path ?? '';
+  }
+}
+
+const journalEntrySchema = z.object({
+  operation_id: z.string(),
+  tool: z.string(),
+  timestamp: z.string(),
+  type: z.enum(['write', 'write_batch', 'move', 'rename_batch', 'delete', 'trash']),
+  target: z.string(),
+  undoable: z.boolean(),
+  undone: z.boolean()
+});
+
+/** Journal-Eintrag fuer structuredContent (ohne interne Felder) */
+function toJournalRecord(entry: JournalEntry): z.infer<typeof journalEntrySchema> {
+  return {
+    operation_id: entry.id,
+    tool: entry.tool,
+    timestamp: entry.timestamp,
+    type: entry.type,
+    target: describeJournalEntry(entry),
+    undoable: entry.undoable,
+    undone: entry.undone
+  };
+}
+
+/**
+ * Macht einen Journal-Eintrag rueckgaengig. Prueft vorher, ob der aktuelle
+ * Zustand noch dem protokollierten Nachher-Zustand entspricht (ausser force).
+ */
+async function undoJournalEntry(entry: JournalEntry, force: boolean): Promise<void> {
+  const blobPath = path.join(journalBlobDir, entry.id);
+
+  if (!entry.undoable) {
+    throw new Error(t().fc_undo.notUndoable);
+  }
+
+  switch (entry.type) {
+    case 'write': {
+      const filePath = await resolvePath(entry.path!, 'write');
+      if (!force && entry.afterHash && await pathExists(filePath) && await hashFile(filePath) !== entry.afterHash) {
+        throw new Error(t().fc_undo.changedSince(filePath));
+      }
+      if (entry.existed) {
+        await fs.copyFile(blobPath, filePath);
+      } else if (await pathExists(filePath)) {
+        await fs.unlink(filePath);
+      }
+      break;
+    }
+    case 'write_batch': {
+      // Erst alle Dateien pruefen, dann zuruecksetzen; Sicherungen liegen unter blobs/<id>/<index>.
+      // Ohne afterHash wurde die Datei vom Batch geloescht
+      const files = entry.files ?? [];
+      const filePaths: string[] = [];
+      for (const file of files) {
+        const filePath = await resolvePath(file.path, 'write');
+        if (!force && await pathExists(filePath)) {
+          if (file.afterHash === undefined) throw new Error(t().fc_undo.targetExists(filePath));
+          if (await hashFile(filePath) !== file.afterHash) throw new Error(t().fc_undo.changedSince(filePath));
+        }
+        filePaths.push(filePath);
+      }
+      for (const [index, filePath] of filePaths.entries()) {
+        if (files[index].existed) {
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.copyFile(path.join(blobPath, String(index)), filePath);
+        } else {
+          await fs.rm(filePath, { force: true });
+        }
+      }
+      break;
+    }
+    case 'move': {
+      const fromPath = await resolvePath(entry.from!, 'write');
+      const toPath = await resolvePath(entry.to!, 'write');
+      if (!await pathExists(toPath)) throw new Error(t().common.pathNotFound(toPath));
+      if (await pathExists(fromPath)) throw new Error(t().fc_undo.targetExists(fromPath));
+      await fs.mkdir(path.dirname(fromPath), { recursive: true });
+      await renameAcrossDevices(toPath, fromPath);
+      if (entry.backup) {
+        await fs.cp(blobPath, toPath, { recursive: true, preserveTimestamps: true, verbatimSymlinks: true });
+      }
+      break;
+    }
+    case 'rename_batch': {
+      // Scheitert eine Umbenennung, werden die bereits zurueckgenommenen wieder hergestellt
+      const reverted: { fromPath: string; toPath: string }[] = [];
+      try {
+        for (const r of [...(entry.renames ?? [])].reverse()) {
+          const fromPath = await resolvePath(r.from, 'write');
+          const toPath = await resolvePath(r.to, 'write');
+          if (!await pathExists(toPath)) throw new Error(t().common.pathNotFound(toPath));
+          if (await pathExists(fromPath)) throw new Error(t().fc_undo.targetExists(fromPath));
+          await fs.rename(toPath, fromPath);
+          reverted.push({ fromPath, toPath });
+        }
+      } catch (error) {
+        for (const r of reverted.reverse()) {
+          await fs.rename(r.fromPath, r.toPath).catch(() => {});
+        }
+        throw error;
+      }
+      break;
+    }
+    case 'delete': {
+      const targetPath = await resolvePath(entry.path!, 'write');
+      if (await pathExists(targetPath)) throw new Error(t().fc_undo.targetExists(targetPath));
+      await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.cp(blobPath, targetPath, { recursive: true, preserveTimestamps: true, verbatimSymlinks: true });
+      break;
+    }
+    case 'trash': {
+      const targetPath = await resolvePath(entry.path!, 'write');
+      if (await fs.lstat(targetPath).catch(() => null)) throw new Error(t().fc_undo.targetExists(targetPath));
+      if (!entry.trashPath || !await fs.lstat(entry.trashPath).catch(() => null)) throw new Error(t().fc_undo.notUndoable);
+      await restoreFromTrash(entry.trashPath, targetPath);
+      break;
+    }
+  }
+}
+
+// ============================================================================
+// Trash (Papierkorb nach freedesktop.org Trash-Spezifikation)
+// ============================================================================
+
+/**
+ * Eintrag im Papierkorb: Datei/Verzeichnis unter files/ plus Metadaten
+ * unter info/<name>.trashinfo (Originalpfad und Loeschzeitpunkt).
+ */
+interface TrashItem {
+  name: string;
+  originalPath: string;
+  deletedAt: Date;
+  trashPath: string;
+  infoPath: string;
+}
+
+/**
+ * Papierkorb-Verzeichnis: FC_TRASH_DIR, sonst $XDG_DATA_HOME/Trash bzw. ~/.local/share/Trash
+ */
+function getTrashDir(): string {
+  if (process.env.FC_TRASH_DIR) return process.env.FC_TRASH_DIR;
+  const dataHome = process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share');
+  return path.join(dataHome, 'Trash');
+}
+
+/**
+ * DeletionDate im Format der Spezifikation (lokale Zeit, YYYY-MM-DDThh:mm:ss)
+ */
+function formatTrashDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Liest eine .trashinfo-Datei. Gibt null zurueck, wenn sie nicht lesbar ist.
+ */
+async function readTrashInfo(infoPath: string): Promise<TrashItem | null> {
+  try {
+    const content = await fs.readFile(infoPath, "utf-8");
+    const pathMatch = content.match(/^Path=(.*)$/m);
+    const dateMatch = content.match(/^DeletionDate=(.*)$/m);
+    if (!pathMatch) return null;
+    const name = path.basename(infoPath, '.trashinfo');
+    const rawPath = decodeURIComponent(pathMatch[1].trim());
+    return {
+      name,
+      originalPath: path.isAbsolute(rawPath) ? rawPath : path.join(path.dirname(getTrashDir()), rawPath),
+      deletedAt: dateMatch ? new Date(dateMatch[1].trim()) : new Date(0),
+      trashPath: path.join(getTrashDir(), 'files', name),
+      infoPath
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Alle Eintraege im Papierkorb, neueste zuerst.
+ */
+async function listTrash(): Promise<TrashItem[]> {
+  const infoDir = path.join(getTrashDir(), 'info');
+  let names: string[];
+  try {
+    names = await fs.readdir(infoDir);
+  } catch {
+    return [];
+  }
+
+  const items: TrashItem[] = [];
+  for (const name of names) {
+    if (!name.endsWith('.trashinfo')) continue;
+    const item = await readTrashInfo(path.join(infoDir, name));
+    if (item && await fs.lstat(item.trashPath).catch(() => null)) items.push(item);
+  }
+  return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
+
+/**
+ * Verschiebt eine Datei/Verzeichnis in den Papierkorb (Windows) bzw. in den
+ * freedesktop.org-Papierkorb (Unix) und schreibt dort die .trashinfo.
+ * Gibt den Pfad im Papierkorb zurueck (Windows: leerer String).
+ * Wiederverwendbare Funktion fuer fc_safe_delete und Safe Mode.
+ */
+async function moveToTrash(targetPath: string): Promise<string> {
+  // lstat: Symlinks (auch defekte) wandern als Link in den Papierkorb
+  const stats = await fs.lstat(targetPath);
+  const isWindows = process.platform === 'win32';
+
+  if (isWindows) {
+    const escapedPath = targetPath.replace(/'/g, "''");
+    const deleteMethod = stats.isDirectory() ? 'DeleteDirectory' : 'DeleteFile';
+    const psCommand = `Add-Type -AssemblyName Microsoft.VisualBasic; [Microsoft.VisualBasic.FileIO.FileSystem]::${deleteMethod}('${escapedPath}', 'OnlyErrorDialogs', 'SendToRecycleBin')`;
+    const windowsShell = getWindowsShell();
+    if (windowsShell.includes('powershell')) {
+      await execAsync(`"${windowsShell}" -Command "${psCommand}"`);
+    } else {
+      // cmd.exe kann kein PowerShell - normales Loeschen als Fallback
+      if (stats.isDirectory()) {
+        await fs.rm(targetPath, { recursive: true });
+      } else {
+        await fs.unlink(targetPath);
+      }
+    }
+    return ''; // Windows Papierkorb, kein expliziter Pfad
+  }
+
+  const trashDir = getTrashDir();
+  const filesDir = path.join(trashDir, 'files');
+  const infoDir = path.join(trashDir, 'info');
+  await fs.mkdir(filesDir, { recursive: true });
+  await fs.mkdir(infoDir, { recursive: true });
+
+  // Eindeutigen Namen reservieren: .trashinfo exklusiv anlegen (laut Spezifikation)
+  const absolute = path.resolve(targetPath);
+  const parsed = path.parse(absolute);
+  const info = `[Trash Info]\nPath=${absolute.split(path.sep).map(encodeURIComponent).join('/')}\nDeletionDate=${formatTrashDate(new Date())}\n`;
+  let name = parsed.base;
+  let infoPath = '';
+  for (let i = 2; ; i++) {
+    infoPath = path.join(infoDir, `${name}.trashinfo`);
+    try {
+      await fs.writeFile(infoPath, info, { encoding: "utf-8", flag: 'wx' });
+      if (!await fs.lstat(path.join(filesDir, name)).catch(() => null)) break;
+      await fs.unlink(infoPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    name = `${parsed.name}.${i}${parsed.ext}`;
+  }
+
+  const trashPath = path.join(filesDir, name);
+  try {
+    await fs.rename(absolute, trashPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      await fs.rm(infoPath, { force: true });
+      throw error;
+    }
+    // Anderes Dateisystem: kopieren und Original entfernen
+    await fs.cp(absolute, trashPath, { recursive: true, preserveTimestamps: true, verbatimSymlinks: true });
+    await fs.rm(absolute, { recursive: true, force: true });
+  }
+  return trashPath;
+}
+
+/**
+ * Stellt einen Papierkorb-Eintrag wieder her und entfernt seine .trashinfo.
+ */
+async function restoreFromTrash(trashPath: string, destination: string): Promise<void> {
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+  try {
+    await fs.rename(trashPath, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    await fs.cp(trashPath, destination, { recursive: true, preserveTimestamps: true, verbatimSymlinks: true });
+    await fs.rm(trashPath, { recursive: true, force: true });
+  }
+  const infoPath = path.join(path.dirname(path.dirname(trashPath)), 'info', `${path.basename(trashPath)}.trashinfo`);
+  await fs.rm(infoPath, { force: true });
+}
+
+// ============================================================================
+// Verzeichnis-Traversierung (.gitignore / .ignore / .fcignore)
+// ============================================================================
+
+/** Verzeichnisse, die nie durchlaufen werden (auch mit respect_ignore: false) */
+const ALWAYS_SKIP_DIRS = ['.git', '$RECYCLE.BIN', 'System Volume Information'];
+
+/** Eingebaute Ignore-Regeln mit niedrigster Prioritaet (per .gitignore mit ! ueberschreibbar) */
+const DEFAULT_IGNORE_PATTERNS = ['node_modules/', '__pycache__/'];
+
+/** Ignore-Dateien, die in jedem durchlaufenen Verzeichnis gelesen werden (spaetere haben Vorrang) */
+const IGNORE_FILE_NAMES = ['.gitignore', '.ignore'];
+
+/** Server-weite Ignore-Datei, gilt relativ zum Startverzeichnis jedes Durchlaufs */
+const GLOBAL_IGNORE_FILE = process.env.FC_IGNORE_FILE || path.join(os.homedir(), '.fcignore');
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  /** Verzeichnis der Ignore-Datei; Muster gelten relativ dazu */
+  base: string;
+}
+
+interface WalkEntry {
+  fullPath: string;
+  relativePath: string;
+  dirent: fsSync.Dirent;
+  /** Regulaere Datei (bei followSymlinks auch ein Link auf eine Datei) */
+  isFile: boolean;
+}
+
+interface WalkOptions {
+  /** .gitignore, .ignore, .fcignore und Standardregeln beachten (default: true) */
+  respectIgnore?: boolean;
+  /** Unterverzeichnisse durchlaufen (default: true) */
+  recursive?: boolean;
+  /** Symlinks auf Verzeichnisse betreten und auf Dateien als Datei liefern (default: false) */
+  followSymlinks?: boolean;
+  signal?: AbortSignal;
+  /** Zaehlt untersuchte Eintraege (notifications/progress) */
+  progress?: JobProgress;
+  onDirectory?: (dirPath: string) => void;
+}
+
+/**
+ * Wandelt ein gitignore-Muster (ohne "!" und abschliessendes "/") in eine RegExp um
+ */
+function ignorePatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) pattern = pattern.slice(1);
+
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      regex += pattern[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else if (char === '*') {
+      const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+      if (pattern[i + 1] === '*' && atSegmentStart && (i + 2 === pattern.length || pattern[i + 2] === '/')) {
+        if (i + 2 === pattern.length) {
+          regex += '.*';
+          i++;
+        } else {
+          regex += '(?:.*/)?';
+          i += 2;
+        }
+      } else {
+        while (pattern[i + 1] === '*') i++;
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 2);
+      if (close === -1) {
+        regex += '\\[';
+      } else {
+        let cls = pattern.slice(i + 1, close);
+        if (cls.startsWith('!')) cls = '^' + cls.slice(1);
+        regex += `[${cls.replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else {
+      regex += char.replace(/[.+^${}()|\]\\/]/g, '\\$&');
+    }
+  }
+
+  const flags = process.platform === 'win32' ? 'i' : '';
+  return new RegExp(anchored ? `^${regex}$` : `^(?:.*/)?${regex}$`, flags);
+}
+
+/**
+ * Parst den Inhalt einer Ignore-Datei (gitignore-Syntax)
+ */
+function parseIgnoreRules(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\) +$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    rules.push({ regex: ignorePatternToRegExp(line), negate, dirOnly, base });
+  }
+  return rules;
+}
+
+/**
+ * Liest die Ignore-Dateien eines Verzeichnisses
+ */
+async function loadDirectoryIgnoreRules(dirPath: string): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = [];
+  for (const name of IGNORE_FILE_NAMES) {
+    try {
+      rules.push(...parseIgnoreRules(await fs.readFile(path.join(dirPath, name), 'utf-8'), dirPath));
+    } catch {
+      // Keine Ignore-Datei vorhanden
+    }
+  }
+  return rules;
+}
+
+/**
+ * Regeln, die vor dem Startverzeichnis gelten: Standardregeln, .fcignore und
+ * Ignore-Dateien uebergeordneter Verzeichnisse bis zur Wurzel des Git-Repositorys
+ */
+async function loadBaseIgnoreRules(rootDir: string): Promise<IgnoreRule[]> {
+  const rules = parseIgnoreRules(DEFAULT_IGNORE_PATTERNS.join('\n'), rootDir);
+
+  try {
+    rules.push(...parseIgnoreRules(await fs.readFile(GLOBAL_IGNORE_FILE, 'utf-8'), rootDir));
+  } catch {
+    // Keine server-weite Ignore-Datei
+  }
+
+  // Uebergeordnete Verzeichnisse nur innerhalb eines Git-Repositorys
+  const ancestors: string[] = [];
+  let current = rootDir;
+  let inRepository = await pathExists(path.join(current, '.git'));
+  while (!inRepository) {
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+    ancestors.unshift(current);
+    inRepository = await pathExists(path.join(current, '.git'));
+  }
+  if (inRepository) {
+    for (const dir of ancestors) {
+      rules.push(...await loadDirectoryIgnoreRules(dir));
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Prueft einen Pfad gegen Ignore-Regeln; die letzte passende Regel gewinnt
+ */
+function isIgnored(rules: IgnoreRule[], fullPath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    const relative = path.relative(rule.base, fullPath);
+    if (!relative || relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) continue;
+    if (rule.regex.test(relative.split(path.sep).join('/'))) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+interface SymlinkTarget {
+  realPath: string;
+  stats: fsSync.Stats;
+  /** Grund, warum ein rekursiver Durchlauf dem Link nicht folgen darf */
+  skipReason?: 'loop' | 'outside_roots';
+}
+
+/**
+ * Loest einen Symlink fuer rekursive Durchlaeufe auf. null bei defekten Links
+ * (Ziel fehlt oder Link-Kette ohne Ende). ancestors enthaelt die realen Pfade
+ * aller Elternverzeichnisse; zeigt der Link auf eines davon, ist es eine Schleife.
+ */
+async function resolveSymlinkTarget(linkPath: string, ancestors: string[]): Promise<SymlinkTarget | null> {
+  let realPath: string;
+  let stats: fsSync.Stats;
+  try {
+    realPath = await fs.realpath(linkPath);
+    stats = await fs.stat(realPath);
+  } catch {
+    return null;
+  }
+  if (stats.isDirectory() && ancestors.some(a => isPathInside(a, realPath))) {
+    return { realPath, stats, skipReason: 'loop' };
+  }
+  try {
+    await resolvePath(realPath);
+  } catch {
+    return { realPath, stats, skipReason: 'outside_roots' };
+  }
+  return { realPath, stats };
+}
+
+/**
+ * Gemeinsamer rekursiver Verzeichnis-Durchlauf fuer alle suchenden Tools.
+ * Liefert alle Nicht-Verzeichnis-Eintraege; ignorierte Verzeichnisse werden nicht betreten.
+ * Symlinks werden ohne followSymlinks als Eintrag geliefert, aber nie betreten.
+ */
+async function* walkFiles(rootDir: string, options: WalkOptions = {}): AsyncGenerator<WalkEntry> {
+  const respectIgnore = options.respectIgnore ?? true;
+  const baseRules = respectIgnore ? await loadBaseIgnoreRules(rootDir) : [];
+  const rootReal = await fs.realpath(rootDir).catch(() => rootDir);
+
+  async function* walk(dir: string, inherited: IgnoreRule[], ancestors: string[]): AsyncGenerator<WalkEntry> {
+    if (options.signal?.aborted) return;
+
+    let entries: fsSync.Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // Ignore permission errors
+    }
+    options.onDirectory?.(dir);
+
+    const rules = respectIgnore ? inherited.concat(await loadDirectoryIgnoreRules(dir)) : inherited;
+
+    for (const entry of entries) {
+      if (options.signal?.aborted) return;
+      const fullPath = path.join(dir, entry.name);
+      if (options.progress) {
+        options.progress.done++;
+        options.progress.current = fullPath;
+      }
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+      let realPath = path.join(ancestors[ancestors.length - 1], entry.name);
+
+      if (options.followSymlinks && entry.isSymbolicLink()) {
+        const target = await resolveSymlinkTarget(fullPath, ancestors);
+        if (target && !target.skipReason) {
+          isDirectory = target.stats.isDirectory();
+          isFile = target.stats.isFile();
+          realPath = target.realPath;
+        }
+      }
+
+      if (isDirectory) {
+        if (ALWAYS_SKIP_DIRS.includes(entry.name) || isIgnored(rules, fullPath, true)) continue;
+        if (options.recursive !== false) yield* walk(fullPath, rules, [...ancestors, realPath]);
+      } else if (!isIgnored(rules, fullPath, false)) {
+        yield { fullPath, relativePath: path.relative(rootDir, fullPath), dirent: entry, isFile };
+      }
+    }
+  }
+
+  yield* walk(rootDir, baseRules, [rootReal]);
+}
+
+/**
+ * Prueft einen Baum vor dem Kopieren. Sonderdateien (Pipes, Sockets, Geraete) werden
+ * gesammelt und uebersprungen. Mit followSymlinks werden Links aufgeloest: Schleifen
+ * und Ziele ausserhalb der erlaubten Wurzeln brechen ab, defekte Links werden gesammelt.
+ */
+async function scanCopyTree(root: string, followSymlinks: boolean): Promise<{ broken: string[]; special: string[] }> {
+  const broken: string[] = [];
+  const special: string[] = [];
+  const visit = async (dir: string, ancestors: string[]): Promise<void> => {
+    for (const dirent of await fs.readdir(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        await visit(fullPath, [...ancestors, path.join(ancestors[ancestors.length - 1], dirent.name)]);
+      } else if (getSpecialType(dirent)) {
+        special.push(fullPath);
+      } else if (dirent.isSymbolicLink() && followSymlinks) {
+        const target = await resolveSymlinkTarget(fullPath, ancestors);
+        if (!target) {
+          broken.push(fullPath);
+        } else if (target.skipReason === 'loop') {
+          throw new Error(t().fc_copy.symlinkLoop(fullPath, target.realPath));
+        } else if (target.skipReason === 'outside_roots') {
+          await resolvePath(target.realPath); // wirft die passende Sandbox-Meldung
+        } else if (target.stats.isDirectory()) {
+          await visit(fullPath, [...ancestors, target.realPath]);
+        } else if (getSpecialType(target.stats)) {
+          special.push(fullPath);
+        }
+      }
+    }
+  };
+  await visit(root, [await fs.realpath(root)]);
+  return { broken, special };
+}
+
+/**
+ * Legt einen Symlink an. Windows braucht den Linktyp, er wird am Ziel
+ * (relativ zum Verzeichnis des Links) bestimmt.
+ */
+async function createSymlink(target: string, linkPath: string): Promise<void> {
+  let type: 'dir' | 'file' | undefined;
+  if (process.platform === 'win32') {
+    const stats = await fs.stat(path.resolve(path.dirname(linkPath), target)).catch(() => null);
+    type = stats?.isDirectory() ? 'dir' : 'file';
+  }
+  await fs.symlink(target, linkPath, type);
+}
+
+// ============================================================================
+// Kopieren und Verschieben (Konfliktregeln, Zeitstempel, Dateisystemwechsel)
+// ============================================================================
+
+type ConflictPolicy = 'overwrite' | 'replace' | 'skip' | 'rename' | 'fail' | 'newer';
+
+interface TransferItem {
+  source: string;
+  target: string;
+  type: 'file' | 'directory' | 'symlink';
+  size: number;
+  mode: number;
+  atime: Date;
+  mtime: Date;
+  /** Vorhandenes Ziel wird vorher entfernt (anderer Typ oder Symlink) */
+  replace: boolean;
+}
+
+interface TransferPlan {
+  items: TransferItem[];
+  /** Vorhandene Ziele, die wegen skip/newer erhalten bleiben */
+  kept: string[];
+  totalBytes: number;
+  totalFiles: number;
+  broken: number;
+  special: number;
+}
+
+/**
+ * Ob ein Ziel nur mit on_conflict="replace" ersetzt werden darf: Datei gegen Verzeichnis
+ * (in beide Richtungen) und, ohne Zusammenfuehren, ein nicht leeres Verzeichnis
+ */
+async function needsReplaceOptIn(sourceIsDirectory: boolean, existing: fsSync.Stats, targetPath: string, merge: boolean): Promise<boolean> {
+  if (existing.isDirectory() !== sourceIsDirectory) return true;
+  return !merge && existing.isDirectory() && (await fs.readdir(targetPath)).length > 0;
+}
+
+/**
+ * Entfernt ein Ziel, das ersetzt wird; im Safe Mode landet es im Papierkorb
+ */
+async function removeReplaced(targetPath: string): Promise<void> {
+  if (safeMode) {
+    await moveToTrash(targetPath);
+  } else {
+    await fs.rm(targetPath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Naechster freier Name neben dem Ziel: "bericht (1).txt", "bericht (2).txt", ...
+ * Verzeichnisse bekommen den Zaehler ans Ende des Namens.
+ */
+async function findFreeName(targetPath: string, isDirectory: boolean): Promise<string> {
+  const parsed = path.parse(targetPath);
+  const stem = isDirectory ? parsed.base : parsed.name;
+  const ext = isDirectory ? '' : parsed.ext;
+  for (let i = 1; ; i++) {
+    const candidate = path.join(parsed.dir, `${stem} (${i})${ext}`);
+    if (!await fs.lstat(candidate).catch(() => null)) return candidate;
+  }
+}
+
+/**
+ * Plant eine Kopie: bestehende Verzeichnisse werden zusammengefuehrt, Konflikte
+ * einzelner Dateien nach skip/newer/overwrite entschieden. Datei gegen Verzeichnis
+ * bricht ohne on_conflict="replace" ab, bevor etwas geaendert wird. fail und rename
+ * wertet der Aufrufer fuer das oberste Ziel aus.
+ */
+async function planTransfer(
+  source: string,
+  target: string,
+  options: { policy: ConflictPolicy; recursive: boolean; followSymlinks: boolean; signal?: AbortSignal }
+): Promise<TransferPlan> {
+  const rootStats = options.followSymlinks ? await fs.stat(source) : await fs.lstat(source);
+  const skipped = rootStats.isDirectory() && options.recursive
+    ? await scanCopyTree(source, options.followSymlinks)
+    : { broken: [], special: [] };
+  const skip = new Set([...skipped.broken, ...skipped.special]);
+  const plan: TransferPlan = { items: [], kept: [], totalBytes: 0, totalFiles: 0, broken: skipped.broken.length, special: skipped.special.length };
+
+  const visit = async (src: string, dst: string, stats: fsSync.Stats): Promise<void> => {
+    options.signal?.throwIfAborted();
+    const type = stats.isSymbolicLink() ? 'symlink' as const : stats.isDirectory() ? 'directory' as const : 'file' as const;
+    const existing = await fs.lstat(dst).catch(() => null);
+    // Verzeichnis auf Verzeichnis wird zusammengefuehrt, alles andere ist ein Konflikt
+    if (existing && !(type === 'directory' && existing.isDirectory())) {
+      if (options.policy === 'skip' || (options.policy === 'newer' && stats.mtimeMs <= existing.mtimeMs)) {
+        plan.kept.push(dst);
+        return;
+      }
+      if (options.policy !== 'replace' && await needsReplaceOptIn(type === 'directory', existing, dst, true)) {
+        throw new Error(t().common.replaceRequired(dst));
+      }
+    }
+    plan.items.push({
+      source: src,
+      target: dst,
+      type,
+      size: type === 'file' ? stats.size : 0,
+      mode: stats.mode,
+      atime: stats.atime,
+      mtime: stats.mtime,
+      // copyFile wuerde einem Symlink im Ziel folgen
+      replace: !!existing && !(type === 'file' && existing.isFile()) && !(type === 'directory' && existing.isDirectory())
+    });
+    if (type === 'file') {
+      plan.totalBytes += stats.size;
+      plan.totalFiles++;
+    }
+    if (type === 'directory' && options.recursive) {
+      for (const name of (await fs.readdir(src)).sort()) {
+        const child = path.join(src, name);
+        if (skip.has(child)) continue;
+        await visit(child, path.join(dst, name), options.followSymlinks ? await fs.stat(child) : await fs.lstat(child));
+      }
+    }
+  };
+
+  await visit(source, target, rootStats);
+  return plan;
+}
+
+/**
+ * Fuehrt einen Kopierplan aus: Dateien mit Rechten und Zeitstempeln, Links als Links.
+ * Verzeichnisse erhalten ihre Zeitstempel zuletzt, weil jede neue Datei sie aendert.
+ */
+async function runTransfer(plan: TransferPlan, progress: JobProgress, signal?: AbortSignal): Promise<void> {
+  progress.total = plan.totalBytes;
+  progress.files = { total: plan.totalFiles, done: 0 };
+  const directories: TransferItem[] = [];
+  for (const item of plan.items) {
+    signal?.throwIfAborted();
+    progress.current = item.source;
+    if (item.replace) await removeReplaced(item.target);
+    if (item.type === 'directory') {
+      await fs.mkdir(item.target, { recursive: true });
+      directories.push(item);
+    } else if (item.type === 'symlink') {
+      await createSymlink(await fs.readlink(item.source), item.target);
+    } else {
+      await fs.copyFile(item.source, item.target);
+      await fs.chmod(item.target, item.mode);
+      await fs.utimes(item.target, item.atime, item.mtime);
+      progress.done += item.size;
+      progress.files.done++;
+    }
+  }
+  for (const item of directories.reverse()) {
+    await fs.chmod(item.target, item.mode);
+    await fs.utimes(item.target, item.atime, item.mtime);
+  }
+  progress.current = undefined;
+}
+
+/**
+ * Vergleicht jede kopierte Datei (Groesse und sha256) und jeden Link mit der Quelle
+ */
+async function verifyTransfer(plan: TransferPlan): Promise<void> {
+  for (const item of plan.items) {
+    if (item.type === 'file') {
+      const stats = await fs.stat(item.target);
+      if (stats.size !== item.size || await hashFile(item.target) !== await hashFile(item.source)) {
+        throw new Error(t().fc_move.verifyFailed(item.target));
+      }
+    } else if (item.type === 'symlink' && await fs.readlink(item.target) !== await fs.readlink(item.source)) {
+      throw new Error(t().fc_move.verifyFailed(item.target));
+    }
+  }
+}
+
+/**
+ * Verschiebt ueber Dateisystemgrenzen: in ein verstecktes Geschwister des Ziels kopieren,
+ * pruefen, an den Zielnamen umbenennen und erst dann die Quelle loeschen.
+ * Bei Fehler oder Abbruch bleibt die Quelle unveraendert.
+ */
+async function moveAcrossDevices(source: string, target: string, progress: JobProgress, signal?: AbortSignal): Promise<void> {
+  const tempPath = path.join(path.dirname(target), `.${path.basename(target)}.fc-move-${process.pid}-${Date.now()}`);
+  try {
+    const plan = await planTransfer(source, tempPath, { policy: 'overwrite', recursive: true, followSymlinks: false });
+    if (plan.special > 0) throw new Error(t().fc_move.specialFiles(plan.special));
+    await runTransfer(plan, progress, signal);
+    await verifyTransfer(plan);
+    signal?.throwIfAborted();
+    if (await fs.lstat(target).catch(() => null)) await removeReplaced(target);
+    await fs.rename(tempPath, target);
+  } catch (error) {
+    await fs.rm(tempPath, { recursive: true, force: true });
+    throw error;
+  }
+  await fs.rm(source, { recursive: true, force: true });
+}
+
+/**
+ * Verschiebt per rename und ersetzt dabei ein vorhandenes Ziel. Gibt false zurueck,
+ * wenn Quelle und Ziel auf verschiedenen Dateisystemen liegen (dann moveAcrossDevices).
+ */
+async function renameReplacing(source: string, target: string, sourceStats: fsSync.Stats, existing: fsSync.Stats | null): Promise<boolean> {
+  if ((await fs.stat(path.dirname(target))).dev !== sourceStats.dev) return false;
+  try {
+    // rename ersetzt keine Verzeichnisse und keine Datei durch ein Verzeichnis
+    if (existing && (existing.isDirectory() || sourceStats.isDirectory())) {
+      await removeReplaced(target);
+    }
+    await fs.rename(source, target);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    return false;
+  }
+}
+
+/**
+ * fs.rename mit Fallback auf Kopieren, Pruefen und Loeschen bei EXDEV
+ */
+async function renameAcrossDevices(source: string, target: string): Promise<void> {
+  try {
+    await fs.rename(source, target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    await moveAcrossDevices(source, target, newJobProgress('bytes'));
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Normalisiert Pfade für Windows/Unix Kompatibilität
+ */
+function normalizePath(inputPath: string): string {
+  return path.normalize(inputPath);
+}
+
+/**
+ * Prüft ob ein Pfad existiert
+ */
+async function pathExists(targetPath: string): Promise<boolean> {
+  try {
+    await fs.access(targetPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formatiert Dateigröße menschenlesbar
+ */
+function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let unitIndex = 0;
+  let size = bytes;
+  
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+  
+  return `${size.toFixed(2)} ${units[unitIndex]}`;
+}
+
+/**
+ * Berechnet den Hash einer Datei per Stream (auch fuer grosse Dateien)
+ */
+async function hashFile(filePath: string, algorithm: string = 'sha256', progress?: JobProgress, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash(algorithm);
+    fsSync.createReadStream(filePath, { signal })
+      .on('data', chunk => {
+        hash.update(chunk);
+        if (progress) progress.done += chunk.length;
+      })
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Vorbereiteter atomarer Schreibvorgang: der Inhalt liegt bereits in einer
+ * temporaeren Datei, commit() ersetzt das Ziel, discard() raeumt auf.
+ */
+interface StagedWrite {
+  target: string;
+  commit(): Promise<void>;
+  discard(): Promise<void>;
+}
+
+/**
+ * Schreibt den Inhalt in eine temporaere Datei im selben Verzeichnis wie das Ziel.
+ * Rechte (und Eigentuemer, soweit erlaubt) einer bestehenden Datei bleiben erhalten.
+ * Symlinks werden aufgeloest, damit der Link nicht durch eine Datei ersetzt wird.
+ * Auch Dateien mit mehreren harten Links werden ersetzt: der geschriebene Pfad loest
+ * sich aus dem Verbund, die anderen Links (womoeglich ausserhalb der erlaubten
+ * Wurzeln oder schreibgeschuetzt) behalten den alten Inhalt.
+ */
+async function stageFileWrite(filePath: string, content: string): Promise<StagedWrite> {
+  const target = await fs.realpath(filePath).catch(() => filePath);
+  const existing = await fs.stat(target).catch(() => null);
+
+  const tempPath = path.join(path.dirname(target), `.${path.basename(target)}.fc-tmp-${process.pid}-${Date.now()}`);
+  const discard = () => fs.unlink(tempPath).catch(() => {});
+  try {
+    const handle = await fs.open(tempPath, 'wx');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    if (existing) {
+      await fs.chmod(tempPath, existing.mode & 0o7777);
+      await fs.chown(tempPath, existing.uid, existing.gid).catch(() => {}); // nur mit Rechten moeglich
+    }
+  } catch (error) {
+    await discard();
+    throw error;
+  }
+  return { target, commit: () => fs.rename(tempPath, target), discard };
+}
+
+/**
+ * Schreibt atomar: temporaere Datei im selben Verzeichnis, dann rename (siehe stageFileWrite).
+ */
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const staged = await stageFileWrite(filePath, content);
+  try {
+    await staged.commit();
+  } catch (error) {
+    await staged.discard();
+    throw error;
+  }
+}
+
+/**
+ * Aenderung einer Datei in einem Batch; null steht fuer "Datei existiert nicht"
+ * (oldContent: wird angelegt, newContent: wird geloescht)
+ */
+interface BatchFileChange {
+  filePath: string;
+  oldContent: string | null;
+  newContent: string | null;
+}
+
+/**
+ * Schreibt mehrere Dateien alles-oder-nichts: alle neuen Inhalte werden zuerst als
+ * temporaere Dateien abgelegt und dann ausgetauscht. Schlaegt ein Austausch fehl, werden
+ * die bereits geaenderten Dateien zurueckgesetzt und der Fehler weitergereicht.
+ * Ein Journal-Eintrag (write_batch) deckt den ganzen Batch ab; gibt dessen ID zurueck.
+ */
+async function writeFileBatch(tool: string, changes: BatchFileChange[]): Promise<string | undefined> {
+  const opId = generateOperationId();
+  const discardBackups = () => fs.rm(path.join(journalBlobDir, opId), { recursive: true, force: true });
+  let backedUp = journalEnabled;
+  for (const [index, change] of changes.entries()) {
+    if (backedUp && change.oldContent !== null) backedUp = await journalBackup(`${opId}/${index}`, change.filePath);
+  }
+
+  const staged: (StagedWrite | null)[] = [];
+  try {
+    for (const change of changes) {
+      if (change.newContent === null) {
+        staged.push(null);
+        continue;
+      }
+      await fs.mkdir(path.dirname(change.filePath), { recursive: true });
+      staged.push(await stageFileWrite(change.filePath, change.newContent));
+    }
+  } catch (error) {
+    for (const pending of staged) await pending?.discard();
+    await discardBackups();
+    throw error;
+  }
+
+  for (const [index, change] of changes.entries()) {
+    try {
+      const pending = staged[index];
+      if (pending) {
+        await pending.commit();
+      } else {
+        await fs.unlink(change.filePath);
+      }
+    } catch (error) {
+      for (const pending of staged.slice(index)) await pending?.discard();
+      const notRestored: string[] = [];
+      for (const done of changes.slice(0, index)) {
+        const restore = done.oldContent === null ? fs.unlink(done.filePath) : writeFileAtomic(done.filePath, done.oldContent);
+        await restore.catch(() => notRestored.push(done.filePath));
+      }
+      await discardBackups();
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      throw new Error(notRestored.length > 0
+        ? t().common.batchRollbackIncomplete(errorMsg, notRestored.join(', '))
+        : t().common.batchRolledBack(errorMsg));
+    }
+  }
+
+  return recordOperation({
+    id: opId,
+    tool,
+    type: 'write_batch',
+    files: changes.map(change => ({
+      path: change.filePath,
+      existed: change.oldContent !== null,
+      afterHash: change.newContent === null ? undefined : createHash('sha256').update(change.newContent, 'utf-8').digest('hex')
+    })),
+    undoable: backedUp
+  });
+}
+
+interface ExpectedVersion {
+  hash?: string;
+  mtime?: string;
+}
+
+/**
+ * Optimistische Nebenlaeufigkeit: prueft expected_hash (sha256) und expected_mtime
+ * gegen den aktuellen Stand. readBytes sind die bereits gelesenen Bytes, dann wird
+ * genau der Stand geprueft, der bearbeitet wird. Liefert eine Fehlermeldung oder null.
+ */
+async function checkExpectedVersion(filePath: string, expected: ExpectedVersion, readBytes?: Buffer): Promise<string | null> {
+  if (!expected.hash && !expected.mtime) return null;
+
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!stats) return t().common.fileNotFound(filePath);
+
+  if (expected.mtime) {
+    const expectedTime = new Date(expected.mtime);
+    if (isNaN(expectedTime.getTime())) return t().common.invalidExpectedMtime(expected.mtime);
+    if (stats.mtime.toISOString() !== expectedTime.toISOString()) {
+      return t().common.fileChanged(filePath, stats.mtime.toISOString());
+    }
+  }
+  if (expected.hash) {
+    const actual = readBytes ? createHash('sha256').update(readBytes).digest('hex') : await hashFile(filePath);
+    if (actual !== expected.hash.toLowerCase()) {
+      return t().common.fileChanged(filePath, stats.mtime.toISOString());
+    }
+  }
+  return null;
+}
+
+/**
+ * Aktueller Stand einer Datei fuer expected_hash/expected_mtime des naechsten Schreibzugriffs
+ */
+async function fileVersion(filePath: string): Promise<{ sha256: string; mtime: string }> {
+  const stats = await fs.stat(filePath);
+  return { sha256: await hashFile(filePath), mtime: stats.mtime.toISOString() };
+}
+
+interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/** Ab dieser Zahl von Aenderungen wird der Mittelteil eines Diffs komplett ersetzt */
+const MAX_DIFF_EDIT_DISTANCE = 4000;
+
+/** Max. Diff-Zeilen in der Textausgabe (structuredContent enthaelt immer den ganzen Diff) */
+const MAX_INLINE_DIFF_LINES = 200;
+
+/**
+ * Zerlegt Text in Zeilen inklusive Zeilenende; eine letzte Zeile ohne "\n" bleibt
+ * so unterscheidbar (wichtig fuer "No newline at end of file")
+ */
+function splitLinesKeepEnds(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Zeilendiff nach Myers (O(ND)). Gemeinsamer Anfang und Ende werden vorab
+ * abgeschnitten; bei sehr vielen Unterschieden wird der Mittelteil komplett ersetzt.
+ * normalize bestimmt, welche Zeilen als gleich gelten (z.B. ohne Leerraum);
+ * gleiche Zeilen erscheinen mit ihrem Text aus a.
+ */
+function diffLines(a: string[], b: string[], normalize?: (line: string) => string): DiffOp[] {
+  const keysA = normalize ? a.map(normalize) : a;
+  const keysB = normalize ? b.map(normalize) : b;
+  let start = 0;
+  while (start < a.length && start < b.length && keysA[start] === keysB[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && keysA[endA - 1] === keysB[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const midKeysA = keysA.slice(start, endA);
+  const midKeysB = keysB.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  // trace[d][k + d] = weitestes x auf Diagonale k nach d Aenderungen
+  const trace: Int32Array[] = [];
+  let found = false;
+  for (let d = 0; d <= Math.min(n + m, MAX_DIFF_EDIT_DISTANCE) && !found; d++) {
+    const prev = trace[d - 1];
+    const current = new Int32Array(2 * d + 1);
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (d === 0) {
+        x = 0;
+      } else if (k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1])) {
+        x = prev[k + 1 + d - 1];
+      } else {
+        x = prev[k - 1 + d - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && midKeysA[x] === midKeysB[y]) {
+        x++;
+        y++;
+      }
+      current[k + d] = x;
+      if (x >= n && y >= m) found = true;
+    }
+    trace.push(current);
+  }
+
+  let middle: DiffOp[];
+  if (!found) {
+    middle = [
+      ...midA.map(line => ({ type: 'delete' as const, line })),
+      ...midB.map(line => ({ type: 'insert' as const, line }))
+    ];
+  } else {
+    middle = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+      const prev = trace[d - 1];
+      const k = x - y;
+      const down = k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1]);
+      const prevK = down ? k + 1 : k - 1;
+      const prevX = prev[prevK + d - 1];
+      const prevY = prevX - prevK;
+      const snakeX = down ? prevX : prevX + 1;
+      while (x > snakeX) {
+        middle.push({ type: 'equal', line: midA[--x] });
+        y--;
+      }
+      middle.push(down ? { type: 'insert', line: midB[prevY] } : { type: 'delete', line: midA[prevX] });
+      x = prevX;
+      y = prevY;
+    }
+    while (x > 0) middle.push({ type: 'equal', line: midA[--x] });
+    middle.reverse();
+  }
+
+  return [
+    ...a.slice(0, start).map(line => ({ type: 'equal' as const, line })),
+    ...middle,
+    ...a.slice(endA).map(line => ({ type: 'equal' as const, line }))
+  ];
+}
+
+/**
+ * Erzeugt einen Unified Diff (wie diff -u / git diff) zweier Texte.
+ * Leerer String, wenn die Texte gleich sind.
+ */
+function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context: number = 3,
+  normalize?: (line: string) => string
+): { diff: string; added: number; removed: number } {
+  const ops = diffLines(splitLinesKeepEnds(oldText), splitLinesKeepEnds(newText), normalize);
+  const added = ops.filter(op => op.type === 'insert').length;
+  const removed = ops.filter(op => op.type === 'delete').length;
+  if (added === 0 && removed === 0) return { diff: '', added, removed };
+
+  // Zeilennummern (1-basiert) vor jeder Operation
+  const oldNo: number[] = [];
+  const newNo: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldNo.push(oldLine);
+    newNo.push(newLine);
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  const out = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let index = 0;
+  while (index < ops.length) {
+    while (index < ops.length && ops[index].type === 'equal') index++;
+    if (index >= ops.length) break;
+
+    // Aenderungen mit hoechstens 2*context gleichen Zeilen dazwischen bilden einen Hunk
+    const start = Math.max(0, index - context);
+    let end = index;
+    let j = index;
+    while (j < ops.length) {
+      if (ops[j].type !== 'equal') {
+        end = ++j;
+        continue;
+      }
+      let runEnd = j;
+      while (runEnd < ops.length && ops[runEnd].type === 'equal') runEnd++;
+      if (runEnd >= ops.length || runEnd - j > 2 * context) break;
+      j = runEnd;
+    }
+    const stop = Math.min(ops.length, end + context);
+    const hunk = ops.slice(start, stop);
+
+    const oldCount = hunk.filter(op => op.type !== 'insert').length;
+    const newCount = hunk.filter(op => op.type !== 'delete').length;
+    out.push(`@@ -${oldCount === 0 ? oldNo[start] - 1 : oldNo[start]},${oldCount} +${newCount === 0 ? newNo[start] - 1 : newNo[start]},${newCount} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      if (op.line.endsWith('\n')) {
+        out.push(prefix + op.line.slice(0, -1));
+      } else {
+        out.push(prefix + op.line, '\\ No newline at end of file');
+      }
+    }
+    index = stop;
+  }
+
+  return { diff: out.join('\n') + '\n', added, removed };
+}
+
+type WhitespaceMode = 'none' | 'change' | 'all';
+
+/**
+ * Vergleichsschluessel fuer Zeilen: "change" wie diff -b (Menge an Leerraum egal,
+ * Leerraum am Zeilenende ignoriert), "all" wie diff -w (jeglicher Leerraum ignoriert)
+ */
+function whitespaceNormalizer(mode: WhitespaceMode): ((line: string) => string) | undefined {
+  switch (mode) {
+    case 'change':
+      return line => line.replace(/\s+$/, '').replace(/\s+/g, ' ');
+    case 'all':
+      return line => line.replace(/\s+/g, '');
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Entfernt genau einen abschliessenden Zeilenumbruch (LF oder CRLF)
+ */
+function stripFinalNewline(text: string): string {
+  return text.replace(/\r?\n$/, '');
+}
+
+/**
+ * Zaehlt die Zeilen einer Datei per Stream (letzte Zeile ohne Umbruch zaehlt mit)
+ */
+async function countFileLines(filePath: string): Promise<number> {
+  let newlines = 0;
+  let lastByte = -1;
+  for await (const chunk of fsSync.createReadStream(filePath)) {
+    const buf = chunk as Buffer;
+    let pos = buf.indexOf(0x0A);
+    while (pos !== -1) {
+      newlines++;
+      pos = buf.indexOf(0x0A, pos + 1);
+    }
+    lastByte = buf[buf.length - 1];
+  }
+  return newlines + (lastByte !== -1 && lastByte !== 0x0A ? 1 : 0);
+}
+
+/**
+ * Liest einen Zeilenbereich (1-basiert) per Stream, ohne die Datei komplett zu laden.
+ * Mit countAll wird bis zum Ende gelesen und die Gesamtzahl der Zeilen gezaehlt,
+ * sonst ist totalLines nur bekannt, wenn der Bereich bis ans Dateiende reicht.
+ */
+async function readLineRange(
+  filePath: string,
+  startLine: number,
+  lineCount: number,
+  encoding: BufferEncoding,
+  countAll = true
+): Promise<{ content: string; totalLines?: number }> {
+  const first = startLine - 1;
+  const last = first + lineCount;
+  const parts: Buffer[] = [];
+  let line = 0;
+  let lastByte = -1;
+
+  for await (const chunk of fsSync.createReadStream(filePath)) {
+    const buf = chunk as Buffer;
+    let pos = 0;
+    while (pos < buf.length) {
+      const nl = buf.indexOf(0x0A, pos);
+      const end = nl === -1 ? buf.length : nl + 1;
+      if (line >= first && line < last) parts.push(buf.subarray(pos, end));
+      if (nl === -1) break;
+      line++;
+      pos = end;
+    }
+    lastByte = buf[buf.length - 1];
+    if (!countAll && line >= last) {
+      return { content: stripFinalNewline(Buffer.concat(parts).toString(encoding)) };
+    }
+  }
+
+  const totalLines = line + (lastByte !== -1 && lastByte !== 0x0A ? 1 : 0);
+  return { content: stripFinalNewline(Buffer.concat(parts).toString(encoding)), totalLines };
+}
+
+/**
+ * Liest die letzten N Zeilen einer Datei, blockweise vom Dateiende her
+ */
+async function readTailLines(
+  filePath: string,
+  lineCount: number,
+  encoding: BufferEncoding
+): Promise<string> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const blockSize = 64 * 1024;
+    const blocks: Buffer[] = [];
+    let position = size;
+    let newlines = 0;
+    let skipFinal = true;
+
+    while (position > 0 && newlines <= lineCount) {
+      const length = Math.min(blockSize, position);
+      position -= length;
+      const buf = Buffer.alloc(length);
+      await handle.read(buf, 0, length, position);
+      blocks.unshift(buf);
+
+      for (let i = length - 1; i >= 0; i--) {
+        if (buf[i] !== 0x0A) {
+          skipFinal = false;
+          continue;
+        }
+        if (skipFinal) {
+          // Abschliessender Umbruch am Dateiende beginnt keine neue Zeile
+          skipFinal = false;
+          continue;
+        }
+        newlines++;
+        if (newlines === lineCount) break;
+      }
+      if (newlines === lineCount) break;
+    }
+
+    const data = Buffer.concat(blocks);
+    let start = 0;
+    let seen = 0;
+    let end = data.length;
+    if (end > 0 && data[end - 1] === 0x0A) end--;
+    for (let i = end - 1; i >= 0; i--) {
+      if (data[i] === 0x0A && ++seen === lineCount) {
+        start = i + 1;
+        break;
+      }
+    }
+    return stripFinalNewline(data.subarray(start).toString(encoding));
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Liest einen Bytebereich einer Datei
+ */
+async function readByteRange(
+  filePath: string,
+  offset: number,
+  length: number
+): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buf = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buf, 0, length, offset);
+    return buf.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Max. Groesse fuer Binaerdateien, die inline (Base64) zurueckgegeben werden */
+const MAX_BINARY_INLINE_BYTES = 2 * 1024 * 1024;
+
+/** Max. Bytes pro Hex-Dump */
+const MAX_HEX_DUMP_BYTES = 64 * 1024;
+
+/** Bis zu dieser Groesse liefert fc_read_file den sha256 der ganzen Datei */
+const MAX_READ_HASH_BYTES = 64 * 1024 * 1024;
+
+interface FileSignature {
+  mime: string;
+  offset: number;
+  bytes: number[];
+  /** Zusaetzliche Signatur ab Offset 8 (RIFF-Container) */
+  riffType?: string;
+  /** Kurze Signatur, die auch Text sein koennte - nur mit NUL-Bytes gueltig */
+  weak?: boolean;
+}
+
+const FILE_SIGNATURES: FileSignature[] = [
+  { mime: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] },
+  { mime: 'image/jpeg', offset: 0, bytes: [0xFF, 0xD8, 0xFF] },
+  { mime: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38], weak: true },
+  { mime: 'image/webp', offset: 0, bytes: [0x52, 0x49, 0x46, 0x46], riffType: 'WEBP' },
+  { mime: 'audio/wav', offset: 0, bytes: [0x52, 0x49, 0x46, 0x46], riffType: 'WAVE' },
+  { mime: 'video/x-msvideo', offset: 0, bytes: [0x52, 0x49, 0x46, 0x46], riffType: 'AVI ' },
+  { mime: 'image/bmp', offset: 0, bytes: [0x42, 0x4D], weak: true },
+  { mime: 'image/x-icon', offset: 0, bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mime: 'image/tiff', offset: 0, bytes: [0x49, 0x49, 0x2A, 0x00] },
+  { mime: 'image/tiff', offset: 0, bytes: [0x4D, 0x4D, 0x00, 0x2A] },
+  { mime: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2D] },
+  { mime: 'application/zip', offset: 0, bytes: [0x50, 0x4B, 0x03, 0x04] },
+  { mime: 'application/gzip', offset: 0, bytes: [0x1F, 0x8B] },
+  { mime: 'application/x-7z-compressed', offset: 0, bytes: [0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C] },
+  { mime: 'application/vnd.rar', offset: 0, bytes: [0x52, 0x61, 0x72, 0x21, 0x1A, 0x07] },
+  { mime: 'application/x-bzip2', offset: 0, bytes: [0x42, 0x5A, 0x68], weak: true },
+  { mime: 'application/x-xz', offset: 0, bytes: [0xFD, 0x37, 0x7A, 0x58, 0x5A, 0x00] },
+  { mime: 'application/x-tar', offset: 257, bytes: [0x75, 0x73, 0x74, 0x61, 0x72] },
+  { mime: 'application/vnd.sqlite3', offset: 0, bytes: [...Buffer.from('SQLite format 3\0')] },
+  { mime: 'application/x-elf', offset: 0, bytes: [0x7F, 0x45, 0x4C, 0x46] },
+  { mime: 'application/x-msdownload', offset: 0, bytes: [0x4D, 0x5A], weak: true },
+  { mime: 'application/x-mach-binary', offset: 0, bytes: [0xCF, 0xFA, 0xED, 0xFE] },
+  { mime: 'application/wasm', offset: 0, bytes: [0x00, 0x61, 0x73, 0x6D] },
+  { mime: 'application/java-vm', offset: 0, bytes: [0xCA, 0xFE, 0xBA, 0xBE] },
+  { mime: 'audio/mpeg', offset: 0, bytes: [0x49, 0x44, 0x33], weak: true },
+  { mime: 'audio/ogg', offset: 0, bytes: [0x4F, 0x67, 0x67, 0x53], weak: true },
+  { mime: 'audio/flac', offset: 0, bytes: [0x66, 0x4C, 0x61, 0x43], weak: true },
+  { mime: 'video/mp4', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+  { mime: 'video/webm', offset: 0, bytes: [0x1A, 0x45, 0xDF, 0xA3] },
+  { mime: 'font/woff', offset: 0, bytes: [0x77, 0x4F, 0x46, 0x46], weak: true },
+  { mime: 'font/woff2', offset: 0, bytes: [0x77, 0x4F, 0x46, 0x32] },
+];
+
+/** Bildformate, die als MCP-Image-Block zurueckgegeben werden */
+const INLINE_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+/**
+ * Erkennt den Dateityp anhand der Magic Numbers im Dateianfang.
+ * Unbekannte Inhalte mit NUL-Bytes oder vielen Steuerzeichen gelten als Binaerdaten.
+ */
+function detectFileType(head: Buffer): { mime: string; binary: boolean } {
+  for (const sig of FILE_SIGNATURES) {
+    if (head.length < sig.offset + sig.bytes.length) continue;
+    if (!sig.bytes.every((b, i) => head[sig.offset + i] === b)) continue;
+    if (sig.riffType && head.toString('latin1', 8, 12) !== sig.riffType) continue;
+    if (sig.weak && !head.includes(0x00)) continue;
+    return { mime: sig.mime, binary: true };
+  }
+
+  // BOMs kennzeichnen Text, auch UTF-16 mit NUL-Bytes
+  if (head[0] === 0xEF && head[1] === 0xBB && head[2] === 0xBF) return { mime: 'text/plain', binary: false };
+  if ((head[0] === 0xFF && head[1] === 0xFE) || (head[0] === 0xFE && head[1] === 0xFF)) {
+    return { mime: 'text/plain', binary: false };
+  }
+
+  let control = 0;
+  for (const byte of head) {
+    if (byte === 0x00) return { mime: 'application/octet-stream', binary: true };
+    if (byte < 0x09 || (byte > 0x0D && byte < 0x20)) control++;
+  }
+  if (head.length > 0 && control / head.length > 0.1) {
+    return { mime: 'application/octet-stream', binary: true };
+  }
+  return { mime: 'text/plain', binary: false };
+}
+
+/**
+ * Formatiert Bytes als Hex-Dump (Offset, 16 Bytes Hex, ASCII)
+ */
+function formatHexDump(data: Buffer, startOffset: number): string {
+  const rows: string[] = [];
+  for (let i = 0; i < data.length; i += 16) {
+    const row = data.subarray(i, i + 16);
+    const hex = [...row].map(b => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = [...row].map(b => (b >= 0x20 && b < 0x7F ? String.fromCharCode(b) : '.')).join('');
+    rows.push(`${(startOffset + i).toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return rows.join('\n');
+}
+
+/**
+ * Prüft ob ein Pfad Windows-Sonderzeichen enthält die Probleme machen
+ */
+function hasWindowsSpecialChars(inputPath: string): boolean {
+  return /[&^%$#@!]/.test(inputPath);
+}
+
+/**
+ * Escaped einen Pfad für PowerShell-Nutzung
+ * Behandelt & und andere Sonderzeichen korrekt
+ */
+function escapeForPowerShell(inputPath: string): string {
+  // In PowerShell: & ist der Call-Operator, muss in Quotes oder escaped werden
+  // Backtick (`) ist das Escape-Zeichen in PowerShell
+  return inputPath
+    .replace(/`/g, '``')      // Backtick zuerst escapen
+    .replace(/\$/g, '`$')     // Dollar-Zeichen
+    .replace(/"/g, '`"')      // Anführungszeichen
+    .replace(/'/g, "''");     // Single quotes verdoppeln
+}
+
+/**
+ * Escaped einen Pfad für cmd.exe-Nutzung
+ * Behandelt & ^ % und andere Sonderzeichen
+ */
+function escapeForCmd(inputPath: string): string {
+  // In cmd.exe: ^ ist das Escape-Zeichen
+  return inputPath
+    .replace(/([&^%!<>|])/g, '^$1');  // Sonderzeichen mit ^ escapen
+}
+
+/**
+ * Ermittelt den PowerShell-Pfad auf Windows
+ * Fallback-Kette: pwsh -> powershell.exe im System32 -> cmd.exe
+ */
+function getWindowsShell(): string {
+  const systemRoot = process.env.SystemRoot || 'C:\\Windows';
+  const ps7Path = `${systemRoot}\\System32\\WindowsPowerShell\\v1.0\\powershell.exe`;
+
+  // Prüfe ob PowerShell im System32 existiert
+  try {
+    if (fsSync.existsSync(ps7Path)) {
+      return ps7Path;
+    }
+  } catch {
+    // Ignore
+  }
+
+  // Fallback zu cmd.exe
+  return `${systemRoot}\\System32\\cmd.exe`;
+}
+
+/** Ausgabegrenze je Stream wie bei exec (maxBuffer) */
+const MAX_COMMAND_OUTPUT = 1024 * 1024;
+
+/**
+ * Beendet einen Prozess samt Kindern: auf Windows per taskkill /T, sonst die
+ * Prozessgruppe des mit detached gestarteten Prozesses
+ */
+function killProcessTree(pid: number | undefined): void {
+  if (pid === undefined) return;
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore', windowsHide: true }).on('error', () => {});
+    return;
+  }
+  try {
+    process.kill(-pid, 'SIGTERM');
+  } catch {
+    // Prozessgruppe bereits beendet
+  }
+}
+
+/**
+ * Wie exec, startet die Shell aber in einer eigenen Prozessgruppe, damit Zeitlimit und
+ * Abbruch auch die von ihr gestarteten Prozesse beenden und nicht nur /bin/sh
+ */
+function runShellCommand(
+  command: string,
+  options: { cwd?: string; timeout?: number; signal?: AbortSignal; shell?: string } = {}
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    options.signal?.throwIfAborted();
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: options.shell ?? true,
+      detached: process.platform !== 'win32',
+      windowsHide: true,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+    let stdout = '';
+    let stderr = '';
+    let failure: Error | null = null;
+    const stop = (error: Error) => {
+      failure ??= error;
+      killProcessTree(child.pid);
+    };
+
+    child.stdout.setEncoding('utf-8').on('data', (chunk: string) => {
+      stdout += chunk;
+      if (stdout.length > MAX_COMMAND_OUTPUT) stop(new Error('stdout maxBuffer length exceeded'));
+    });
+    child.stderr.setEncoding('utf-8').on('data', (chunk: string) => {
+      stderr += chunk;
+      if (stderr.length > MAX_COMMAND_OUTPUT) stop(new Error('stderr maxBuffer length exceeded'));
+    });
+
+    const timer = options.timeout
+      ? setTimeout(() => stop(new Error(`Command timed out after ${options.timeout} ms: ${command}`)), options.timeout)
+      : undefined;
+    const onAbort = () => stop(options.signal!.reason instanceof Error ? options.signal!.reason : new Error('The operation was aborted'));
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', (error) => {
+      cleanup();
+      reject(error);
+    });
+    child.on('close', (code, signal) => {
+      cleanup();
+      if (failure) {
+        reject(failure);
+      } else if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(new Error(`Command failed${code !== null ? ` (exit code ${code})` : ` (${signal})`}: ${command}\n${stderr}`));
+      }
+    });
+  });
+}
+
+/**
+ * Führt einen Befehl aus - auf Windows mit korrektem Escaping für Sonderzeichen
+ * Erkennt automatisch & und andere problematische Zeichen in Pfaden
+ */
+async function executeCommand(
+  command: string,
+  options: { cwd?: string; timeout?: number; signal?: AbortSignal } = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const isWindows = process.platform === 'win32';
+  const cwd = options.cwd;
+
+  // Auf Windows bei Sonderzeichen im Pfad oder Befehl: Spezielles Handling
+  const cwdHasSpecialChars = cwd && hasWindowsSpecialChars(cwd);
+  const cmdHasSpecialChars = hasWindowsSpecialChars(command);
+
+  if (isWindows && (cwdHasSpecialChars || cmdHasSpecialChars)) {
+    const windowsShell = getWindowsShell();
+
+    if (windowsShell.includes('powershell')) {
+      // PowerShell: Nutze -LiteralPath für Pfade mit Sonderzeichen
+      const escapedCwd = cwd ? escapeForPowerShell(cwd) : '';
+
+      // Befehl für PowerShell vorbereiten
+      // Bei Pfaden mit & den Call-Operator nutzen: & "pfad mit &"
+      let psCommand: string;
+
+      if (cwd) {
+        psCommand = `Set-Location -LiteralPath '${escapedCwd}'; ${command}`;
+      } else {
+        psCommand = command;
+      }
+
+      // Wenn der Befehl selbst Pfade mit & enthält, diese in Quotes wrappen
+      // Erkennt Muster wie: python "C:\path\with & special\script.py"
+      psCommand = psCommand.replace(
+        /(?<!["`'])([A-Za-z]:\\[^"'`\n]*&[^"'`\n]*?)(?=\s|$)/g,
+        '"$1"'
+      );
+
+      return runShellCommand(`"${windowsShell}" -Command "${psCommand.replace(/"/g, '\\"')}"`, {
+        timeout: options.timeout,
+        signal: options.signal
+      });
+    } else {
+      // cmd.exe: Escape mit ^
+      const escapedCmd = escapeForCmd(command);
+      const escapedCwd = cwd ? escapeForCmd(cwd) : undefined;
+
+      return runShellCommand(escapedCmd, {
+        ...options,
+        cwd: escapedCwd || cwd,
+        shell: windowsShell
+      });
+    }
+  }
+
+  return runShellCommand(command, options);
+}
+interface DirectoryEntry {
+  name: string;
+  path: string;
+  relative_path: string;
+  type: FileEntryType;
+  size: number;
+  mtime: string;
+  depth: number;
+  permissions?: string;
+  mode?: string;
+  owner?: string;
+  target?: string;
+  broken?: boolean;
+  special?: SpecialFileType;
+  children?: number;
+}
+
+const LIST_COLUMNS = ['size', 'mtime', 'permissions', 'owner', 'target', 'children'] as const;
+type ListColumn = typeof LIST_COLUMNS[number];
+type ListSortKey = 'name' | 'size' | 'mtime' | 'extension';
+
+interface ListOptions {
+  maxDepth: number;
+  showHidden: boolean;
+  sortBy: ListSortKey;
+  descending: boolean;
+  dirsFirst: boolean;
+  include: GlobMatcher[] | null;
+  exclude: GlobMatcher[] | null;
+  types: FileEntryType[] | null;
+  columns: ListColumn[];
+  dirSizes: boolean;
+  maxEntries: number;
+  followSymlinks: boolean;
+}
+
+/**
+ * Unix-Rechte als "rwxr-xr-x"
+ */
+function formatPermissions(mode: number): string {
+  const chars = 'rwxrwxrwx';
+  let out = '';
+  for (let i = 0; i < 9; i++) {
+    out += mode & (0o400 >> i) ? chars[i] : '-';
+  }
+  return out;
+}
+
+/**
+ * Oktaler Modus, mit setuid/setgid/sticky vierstellig ("755", "4755")
+ */
+function formatMode(mode: number): string {
+  return (mode & 0o7777).toString(8).padStart(3, '0');
+}
+
+/**
+ * Wendet einen chmod-Modus an: oktal ("755", "0644") oder symbolisch ("u+x",
+ * "go-w", "a=rX,u+s"). Ohne ugoa gilt die Klausel fuer alle (ohne umask).
+ * X setzt Ausfuehrungsrechte nur fuer Verzeichnisse und bereits ausfuehrbare Dateien.
+ */
+function applyModeSpec(current: number, spec: string, isDirectory: boolean): number {
+  if (/^[0-7]{3,4}$/.test(spec)) return parseInt(spec, 8);
+
+  let mode = current & 0o7777;
+  for (const clause of spec.split(',')) {
+    const match = /^([ugoa]*)((?:[+\-=][rwxXst]*)+)$/.exec(clause);
+    if (!match) throw new Error(t().fc_set_attributes.invalidMode(spec));
+    const who = match[1] === '' || match[1].includes('a') ? 'ugo' : match[1];
+
+    for (const [, op, perms] of match[2].matchAll(/([+\-=])([rwxXst]*)/g)) {
+      const execute = perms.includes('x') || (perms.includes('X') && (isDirectory || (mode & 0o111) !== 0));
+      let bits = 0;
+      let mask = 0;
+      for (const w of who) {
+        const shift = w === 'u' ? 6 : w === 'g' ? 3 : 0;
+        if (perms.includes('r')) bits |= 4 << shift;
+        if (perms.includes('w')) bits |= 2 << shift;
+        if (execute) bits |= 1 << shift;
+        if (perms.includes('s') && w === 'u') bits |= 0o4000;
+        if (perms.includes('s') && w === 'g') bits |= 0o2000;
+        if (perms.includes('t') && w === 'o') bits |= 0o1000;
+        mask |= w === 'u' ? 0o4700 : w === 'g' ? 0o2070 : 0o1007;
+      }
+      if (op === '+') mode |= bits;
+      else if (op === '-') mode &= ~bits;
+      else mode = (mode & ~mask) | bits;
+    }
+  }
+  return mode;
+}
+
+let ownerNames: { users: Map<number, string>; groups: Map<number, string> } | null = null;
+
+/**
+ * Laedt die Benutzer- und Gruppennamen aus /etc/passwd und /etc/group (einmalig)
+ */
+async function loadOwnerNames(): Promise<{ users: Map<number, string>; groups: Map<number, string> }> {
+  if (!ownerNames) {
+    const parse = async (file: string): Promise<Map<number, string>> => {
+      const names = new Map<number, string>();
+      try {
+        for (const line of (await fs.readFile(file, 'utf-8')).split('\n')) {
+          const [name, , id] = line.split(':');
+          if (name && id && !isNaN(Number(id))) names.set(Number(id), name);
+        }
+      } catch { /* keine Namensaufloesung moeglich */ }
+      return names;
+    };
+    ownerNames = { users: await parse('/etc/passwd'), groups: await parse('/etc/group') };
+  }
+  return ownerNames;
+}
+
+/**
+ * Loest uid/gid zu "user:group" auf (nur Unix)
+ */
+async function lookupOwner(uid: number, gid: number): Promise<string> {
+  if (process.platform === 'win32') return '-';
+  const names = await loadOwnerNames();
+  return `${names.users.get(uid) ?? uid}:${names.groups.get(gid) ?? gid}`;
+}
+
+/**
+ * Loest "user", "user:group", ":group" oder numerische IDs fuer chown auf (-1 = unveraendert)
+ */
+async function parseOwnerSpec(spec: string): Promise<{ uid: number; gid: number }> {
+  const [userPart, groupPart] = spec.split(':');
+  const names = await loadOwnerNames();
+  const resolveId = (name: string | undefined, known: Map<number, string>): number => {
+    if (!name) return -1;
+    if (/^\d+$/.test(name)) return Number(name);
+    for (const [id, knownName] of known) {
+      if (knownName === name) return id;
+    }
+    throw new Error(t().fc_set_attributes.unknownOwner(name));
+  };
+  return { uid: resolveId(userPart, names.users), gid: resolveId(groupPart, names.groups) };
+}
+
+/**
+ * Vergleicht zwei Eintraege einer Ebene nach Sortierschluessel (Name als Tiebreaker)
+ */
+function compareEntries(a: DirectoryEntry, b: DirectoryEntry, options: ListOptions): number {
+  if (options.dirsFirst && (a.type === 'directory') !== (b.type === 'directory')) {
+    return a.type === 'directory' ? -1 : 1;
+  }
+  const byName = a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+  let result: number;
+  switch (options.sortBy) {
+    case 'size': result = a.size - b.size; break;
+    case 'mtime': result = a.mtime.localeCompare(b.mtime); break;
+    case 'extension': result = path.extname(a.name).toLowerCase().localeCompare(path.extname(b.name).toLowerCase()); break;
+    default: result = 0;
+  }
+  result = result || byName;
+  return options.descending ? -result : result;
+}
+
+/**
+ * Listet ein Verzeichnis rekursiv bis maxDepth. Sortiert wird je Ebene;
+ * include und types filtern nur die Ausgabe (Verzeichnisse werden trotzdem
+ * durchlaufen), exclude schneidet ganze Teilbaeume ab. Symlinks auf
+ * Verzeichnisse werden nur mit followSymlinks und ohne Schleifen betreten.
+ */
+async function listDirectoryRecursive(
+  root: string,
+  options: ListOptions,
+  run?: RunContext
+): Promise<{ entries: DirectoryEntry[]; truncated: boolean }> {
+  const entries: DirectoryEntry[] = [];
+  let truncated = false;
+
+  const visit = async (dirPath: string, depth: number, ancestors: string[]): Promise<void> => {
+    let dirents: fsSync.Dirent[];
+    try {
+      dirents = await fs.readdir(dirPath, { withFileTypes: true });
+    } catch (error) {
+      if (depth === 0) throw error;
+      return; // Unterverzeichnis nicht lesbar
+    }
+
+    const level: DirectoryEntry[] = [];
+    const descend = new Map<DirectoryEntry, string>();
+    for (const dirent of dirents) {
+      if (!options.showHidden && dirent.name.startsWith('.')) continue;
+      const fullPath = path.join(dirPath, dirent.name);
+      step(run, fullPath);
+      const relativePath = path.relative(root, fullPath).split(path.sep).join('/');
+      if (options.exclude && matchesGlobs(relativePath, options.exclude)) continue;
+
+      const entry: DirectoryEntry = { name: dirent.name, path: fullPath, relative_path: relativePath, type: getEntryType(dirent), size: 0, mtime: '', depth };
+      try {
+        const stats = await fs.lstat(fullPath);
+        entry.size = entry.type === 'directory' && options.dirSizes
+          ? await getTotalSize(fullPath, run).catch(() => stats.size)
+          : stats.size;
+        entry.mtime = stats.mtime.toISOString();
+        if (options.columns.includes('permissions')) {
+          entry.permissions = formatPermissions(stats.mode);
+          entry.mode = formatMode(stats.mode);
+        }
+        if (options.columns.includes('owner')) {
+          entry.owner = await lookupOwner(stats.uid, stats.gid);
+        }
+      } catch {
+        // Eintrag inzwischen verschwunden oder nicht lesbar
+      }
+      if (entry.type === 'directory') {
+        descend.set(entry, path.join(ancestors[ancestors.length - 1], dirent.name));
+      } else if (entry.type === 'symlink') {
+        entry.target = await fs.readlink(fullPath).catch(() => undefined);
+        const target = await resolveSymlinkTarget(fullPath, ancestors);
+        if (!target) {
+          entry.broken = true;
+        } else if (options.followSymlinks && target.stats.isDirectory() && !target.skipReason) {
+          descend.set(entry, target.realPath);
+        }
+      } else if (entry.type === 'other') {
+        entry.special = getSpecialType(dirent);
+      }
+      if (entry.type === 'directory' && options.columns.includes('children')) {
+        entry.children = await fs.readdir(fullPath)
+          .then(names => names.filter(n => options.showHidden || !n.startsWith('.')).length)
+          .catch(() => undefined);
+      }
+      level.push(entry);
+    }
+
+    level.sort((a, b) => compareEntries(a, b, options));
+
+    for (const entry of level) {
+      const visible = (!options.types || options.types.includes(entry.type))
+        && (entry.type === 'directory' || !options.include || matchesGlobs(entry.relative_path, options.include));
+      if (visible) {
+        if (entries.length >= options.maxEntries) {
+          truncated = true;
+          return;
+        }
+        entries.push(entry);
+      }
+      const realPath = descend.get(entry);
+      if (realPath && depth < options.maxDepth) {
+        await visit(entry.path, depth + 1, [...ancestors, realPath]);
+        if (truncated) return;
+      }
+    }
+  };
+
+  await visit(root, 0, [await fs.realpath(root).catch(() => root)]);
+  return { entries, truncated };
+}
+
+/**
+ * Rekursive Dateisuche
+ */
+async function searchFilesRecursive(
+  dirPath: string,
+  pattern: GlobMatcher[],
+  maxResults: number,
+  respectIgnore: boolean = true,
+  followSymlinks: boolean = false,
+  run: RunContext = {}
+): Promise<string[]> {
+  const results: string[] = [];
+  for await (const entry of walkFiles(dirPath, { respectIgnore, followSymlinks, ...run })) {
+    if (!matchesGlobs(entry.relativePath, pattern)) continue;
+    results.push(entry.fullPath);
+    if (results.length >= maxResults) break;
+  }
+  run.signal?.throwIfAborted();
+  return results;
+}
+
+interface GlobMatcher {
+  negate: boolean;
+  /** Muster mit "/" gelten fuer den relativen Pfad, sonst nur fuer den Dateinamen */
+  matchPath: boolean;
+  /** Eine RegExp pro Alternative nach Klammer-Expansion */
+  regexes: RegExp[];
+}
+
+/**
+ * Teilt einen String an Trennzeichen auf oberster Klammerebene
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && i + 1 < text.length) {
+      current += char + text[++i];
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Expandiert Klammer-Alternativen: "*.{ts,tsx}" -> ["*.ts", "*.tsx"] (auch verschachtelt)
+ */
+function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth > 0) continue;
+      const alternatives = splitTopLevel(pattern.slice(start + 1, i), ',');
+      if (alternatives.length < 2) continue;
+      const prefix = pattern.slice(0, start);
+      const suffix = pattern.slice(i + 1);
+      return alternatives.flatMap(alt => expandBraces(prefix + alt + suffix));
+    }
+  }
+  return [pattern];
+}
+
+/**
+ * Wandelt ein Glob-Muster ohne Klammern in eine RegExp um
+ * (* = ohne /, ** = beliebig tief, ? = ein Zeichen, [abc] / [!abc] = Zeichenklassen)
+ */
+function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      regex += pattern[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        while (pattern[i + 1] === '*') i++;
+        if (pattern[i + 1] === '/') {
+          i++;
+          regex += '(?:.*/)?';
+        } else {
+          regex += '.*';
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 2);
+      if (close === -1) {
+        regex += '\\[';
+      } else {
+        let cls = pattern.slice(i + 1, close);
+        if (cls.startsWith('!')) cls = '^' + cls.slice(1);
+        regex += `[${cls.replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else {
+      regex += char.replace(/[.+^${}()|\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`, 'i');
+}
+
+/**
+ * Kompiliert Glob-Muster; ein fuehrendes "!" negiert, ein fuehrendes "/" verankert am Startverzeichnis
+ */
+function compileGlobs(patterns: string[]): GlobMatcher[] {
+  return patterns.filter(p => p.length > 0).map(raw => {
+    let pattern = raw;
+    const negate = pattern.startsWith('!');
+    if (negate) pattern = pattern.slice(1);
+    if (pattern.startsWith('./')) pattern = pattern.slice(2);
+    const anchored = pattern.startsWith('/');
+    if (anchored) pattern = pattern.slice(1);
+    return {
+      negate,
+      matchPath: anchored || pattern.includes('/'),
+      regexes: expandBraces(pattern).map(globToRegExp)
+    };
+  });
+}
+
+/**
+ * Prueft einen relativen Pfad: er muss einem positiven Muster entsprechen
+ * (falls vorhanden) und darf keinem negierten Muster entsprechen
+ */
+function matchesGlobs(relativePath: string, matchers: GlobMatcher[]): boolean {
+  const normalized = relativePath.split(path.sep).join('/');
+  const name = path.posix.basename(normalized);
+  const test = (m: GlobMatcher) => m.regexes.some(r => r.test(m.matchPath ? normalized : name));
+
+  const positives = matchers.filter(m => !m.negate);
+  if (positives.length > 0 && !positives.some(test)) return false;
+  return !matchers.some(m => m.negate && test(m));
+}
+
+/**
+ * Baut einen Dateifilter aus include-Globs und der alten Komma-Liste von Endungen (".txt,.json")
+ */
+function buildFileFilter(include?: string[], extensions?: string): GlobMatcher[] | null {
+  const patterns = [...(include ?? [])];
+  if (extensions) {
+    for (const ext of extensions.split(',').map(e => e.trim()).filter(Boolean)) {
+      patterns.push(`*${ext.startsWith('.') ? ext : '.' + ext}`);
+    }
+  }
+  return patterns.length > 0 ? compileGlobs(patterns) : null;
+}
+
+interface GrepLine {
+  line: number;
+  text: string;
+  match: boolean;
+}
+
+interface GrepOptions {
+  contextBefore: number;
+  contextAfter: number;
+  maxMatches: number;
+  signal?: AbortSignal;
+}
+
+/** Maximale Laenge einer ausgegebenen Trefferzeile */
+const MAX_GREP_LINE_LENGTH = 500;
+
+/**
+ * Durchsucht eine Datei zeilenweise per Stream und sammelt Treffer mit Kontextzeilen
+ */
+async function grepFile(
+  filePath: string,
+  regex: RegExp,
+  options: GrepOptions
+): Promise<{ lines: GrepLine[]; matches: number }> {
+  const stream = fsSync.createReadStream(filePath, { encoding: 'utf-8' });
+  const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  const lines: GrepLine[] = [];
+  const before: GrepLine[] = [];
+  let lineNo = 0;
+  let matches = 0;
+  let afterLeft = 0;
+
+  try {
+    for await (const rawText of rl) {
+      if (options.signal?.aborted) break;
+      lineNo++;
+      const text = rawText.length > MAX_GREP_LINE_LENGTH ? rawText.slice(0, MAX_GREP_LINE_LENGTH) + '...' : rawText;
+
+      if (matches < options.maxMatches && regex.test(rawText)) {
+        lines.push(...before.splice(0), { line: lineNo, text, match: true });
+        matches++;
+        afterLeft = options.contextAfter;
+      } else if (afterLeft > 0) {
+        lines.push({ line: lineNo, text, match: false });
+        afterLeft--;
+      } else if (matches >= options.maxMatches) {
+        break;
+      } else if (options.contextBefore > 0) {
+        before.push({ line: lineNo, text, match: false });
+        if (before.length > options.contextBefore) before.shift();
+      }
+    }
+  } finally {
+    rl.close();
+    stream.destroy();
+  }
+
+  return { lines, matches };
+}
+
+/**
+ * Formatiert Grep-Zeilen im grep-Stil (Treffer mit ":", Kontext mit "-", Luecken mit "--")
+ */
+function formatGrepLines(lines: GrepLine[]): string[] {
+  const output: string[] = [];
+  let previous = 0;
+  for (const entry of lines) {
+    if (previous > 0 && entry.line > previous + 1) output.push('  --');
+    output.push(`  ${entry.line}${entry.match ? ':' : '-'} ${entry.text}`);
+    previous = entry.line;
+  }
+  return output;
+}
+
+// ============================================================================
+// Unified-Diff-Patches (fc_apply_patch)
+// ============================================================================
+
+interface PatchLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  noNewline: boolean;
+}
+
+interface PatchHunk {
+  header: string;
+  oldStart: number;
+  newStart: number;
+  lines: PatchLine[];
+}
+
+/** Patch fuer eine Datei; null steht fuer /dev/null (Datei neu bzw. geloescht) */
+interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+type PatchRejectReason = 'context_mismatch' | 'already_applied' | 'file_exists' | 'file_not_found' | 'not_empty';
+
+interface HunkResult {
+  applied: boolean;
+  offset: number;
+  fuzz: number;
+  reason?: PatchRejectReason;
+}
+
+/**
+ * Dateiname aus einer ---/+++ Zeile ohne Zeitstempel; null fuer /dev/null
+ */
+function parsePatchPath(raw: string): string | null {
+  let name = raw.split('\t')[0].trimEnd();
+  if (name.length > 1 && name.startsWith('"') && name.endsWith('"')) name = name.slice(1, -1);
+  return name === '/dev/null' ? null : name;
+}
+
+/**
+ * Liest einen Unified Diff (diff -u, git diff) mit beliebig vielen Dateien.
+ * Kopfzeilen wie "diff --git" oder "index" werden uebersprungen; leere Zeilen in einem
+ * Hunk gelten als leere Kontextzeilen (Editoren entfernen das fuehrende Leerzeichen).
+ * Mit headerless duerfen Hunks ohne ---/+++ Kopf stehen (Zieldatei ist dann vorgegeben).
+ */
+function parseUnifiedPatch(text: string, headerless: boolean = false): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  const isFileHeader = (index: number) => lines[index].startsWith('--- ') && (lines[index + 1] ?? '').startsWith('+++ ');
+  let current: FilePatch | null = null;
+  let afterHunk = false;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isFileHeader(i)) {
+      current = { oldPath: parsePatchPath(line.slice(4)), newPath: parsePatchPath(lines[i + 1].slice(4)), hunks: [] };
+      patches.push(current);
+      afterHunk = false;
+      i += 2;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (!header) {
+      // Hunk-Zeilen direkt nach einem Hunk: die Zaehler im Kopf sind zu klein
+      if (afterHunk && /^[-+ ]/.test(line) && line !== '-- ') {
+        throw new Error(t().fc_apply_patch.countMismatch(i + 1));
+      }
+      afterHunk = false;
+      i++;
+      continue;
+    }
+    if (!current && headerless) {
+      current = { oldPath: '', newPath: '', hunks: [] };
+      patches.push(current);
+    }
+    if (!current) throw new Error(t().fc_apply_patch.hunkWithoutFile(i + 1));
+
+    const hunk: PatchHunk = { header: line, oldStart: Number(header[1]), newStart: Number(header[3]), lines: [] };
+    let oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+    let newRemaining = header[4] === undefined ? 1 : Number(header[4]);
+    i++;
+    while (i < lines.length && (oldRemaining > 0 || newRemaining > 0 || lines[i].startsWith('\\'))) {
+      const body = lines[i];
+      if (body.startsWith('\\')) {
+        const last = hunk.lines[hunk.lines.length - 1];
+        if (last) last.noNewline = true;
+        i++;
+        continue;
+      }
+      if (body.startsWith('@@ ') || body.startsWith('diff ') || isFileHeader(i)) break;
+      const type = body === '' ? ' ' : body[0];
+      if (type !== ' ' && type !== '-' && type !== '+') break;
+      hunk.lines.push({ type, text: body.slice(1), noNewline: false });
+      if (type !== '+') oldRemaining--;
+      if (type !== '-') newRemaining--;
+      i++;
+    }
+    if (hunk.lines.length > 0) current.hunks.push(hunk);
+    afterHunk = true;
+  }
+
+  return patches.filter(p => p.hunks.length > 0);
+}
+
+/**
+ * Kehrt einen Datei-Patch um (wie patch -R)
+ */
+function reverseFilePatch(patch: FilePatch): FilePatch {
+  return {
+    oldPath: patch.newPath,
+    newPath: patch.oldPath,
+    hunks: patch.hunks.map(hunk => ({
+      header: hunk.header,
+      oldStart: hunk.newStart,
+      newStart: hunk.oldStart,
+      lines: hunk.lines.map(line => ({ ...line, type: line.type === '+' ? '-' : line.type === '-' ? '+' : ' ' }))
+    }))
+  };
+}
+
+/**
+ * Hunk wieder als Patch-Text (fuer Reject-Ausgaben)
+ */
+function formatPatchHunk(hunk: PatchHunk): string {
+  const out = [hunk.header];
+  for (const line of hunk.lines) {
+    out.push(line.type + line.text);
+    if (line.noNewline) out.push('\\ No newline at end of file');
+  }
+  return out.join('\n');
+}
+
+/**
+ * Wendet die Hunks eines Datei-Patches an. Wie bei GNU patch wird jeder Hunk zuerst an
+ * der angegebenen Zeile und dann mit wachsendem Versatz gesucht; fuzz erlaubt, bis zu so
+ * viele Kontextzeilen am Anfang und Ende eines Hunks zu ignorieren. Zeilenenden (LF/CRLF)
+ * zaehlen beim Vergleich nicht, neue Zeilen bekommen das ueberwiegende Zeilenende der Datei.
+ */
+function applyPatchHunks(
+  content: string,
+  hunks: PatchHunk[],
+  options: { fuzz: number; normalize?: (line: string) => string }
+): { content: string; results: HunkResult[] } {
+  const fileLines = splitLinesKeepEnds(content);
+  const crlf = content.match(/\r\n/g)?.length ?? 0;
+  const eol = crlf > 0 && crlf * 2 >= (content.match(/\n/g)?.length ?? 0) ? '\r\n' : '\n';
+  const key = (line: string) => {
+    const text = line.replace(/\r?\n$/, '');
+    return options.normalize ? options.normalize(text) : text;
+  };
+  const fileKeys = fileLines.map(key);
+  const matchesAt = (pos: number, pattern: string[]) => pattern.every((k, index) => fileKeys[pos + index] === k);
+
+  const output: string[] = [];
+  const results: HunkResult[] = [];
+  let cursor = 0; // erste noch nicht uebernommene Zeile der Datei
+  let offset = 0;
+
+  for (const hunk of hunks) {
+    const oldLines = hunk.lines.filter(line => line.type !== '+');
+    let leading = 0;
+    while (leading < hunk.lines.length && hunk.lines[leading].type === ' ') leading++;
+    let trailing = 0;
+    while (trailing < hunk.lines.length - leading && hunk.lines[hunk.lines.length - 1 - trailing].type === ' ') trailing++;
+    const base = oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+
+    let match: { pos: number; lead: number; trail: number; fuzz: number } | null = null;
+    for (let fuzz = 0; fuzz <= options.fuzz && !match; fuzz++) {
+      const lead = Math.min(fuzz, leading);
+      const trail = Math.min(fuzz, trailing);
+      if (fuzz > 0 && lead === Math.min(fuzz - 1, leading) && trail === Math.min(fuzz - 1, trailing)) break;
+      const pattern = oldLines.slice(lead, oldLines.length - trail).map(line => key(line.text));
+      const maxPos = fileLines.length - pattern.length;
+      if (maxPos < cursor) continue;
+      const expected = Math.min(Math.max(base + offset + lead, cursor), maxPos);
+
+      // Von der erwarteten Position abwechselnd nach oben und unten suchen
+      for (let delta = 0; expected - delta >= cursor || expected + delta <= maxPos; delta++) {
+        const candidates = delta === 0 ? [expected] : [expected - delta, expected + delta];
+        const pos = candidates.find(p => p >= cursor && p <= maxPos && matchesAt(p, pattern));
+        if (pos !== undefined) {
+          match = { pos, lead, trail, fuzz };
+          break;
+        }
+      }
+    }
+
+    if (!match) {
+      // Ist der Hunk schon enthalten, passt der Nachher-Zustand
+      const newPattern = hunk.lines.filter(line => line.type !== '-').map(line => key(line.text));
+      let applied = false;
+      for (let pos = cursor; newPattern.length > 0 && pos <= fileLines.length - newPattern.length && !applied; pos++) {
+        applied = matchesAt(pos, newPattern);
+      }
+      results.push({ applied: false, offset: 0, fuzz: 0, reason: applied ? 'already_applied' : 'context_mismatch' });
+      continue;
+    }
+
+    output.push(...fileLines.slice(cursor, match.pos));
+    let filePos = match.pos;
+    for (const line of hunk.lines.slice(match.lead, hunk.lines.length - match.trail)) {
+      if (line.type === ' ') {
+        output.push(fileLines[filePos++]);
+      } else if (line.type === '-') {
+        filePos++;
+      } else {
+        output.push(line.text + (line.noNewline ? '' : eol));
+      }
+    }
+    cursor = filePos;
+    offset = match.pos - match.lead - base;
+    results.push({ applied: true, offset, fuzz: match.fuzz });
+  }
+
+  output.push(...fileLines.slice(cursor));
+  // Zeilen mitten in der Datei brauchen ein Zeilenende, auch wenn der Patch es weglaesst
+  for (let index = 0; index < output.length - 1; index++) {
+    if (!output[index].endsWith('\n')) output[index] += eol;
+  }
+  return { content: output.join(''), results };
+}
+
+// ============================================================================
+// Folder-Snapshots (fc_folder_diff)
+// ============================================================================
+
+/** Bis zu dieser Groesse werden Textdateien fuer Diffs im Snapshot abgelegt */
+const MAX_FOLDER_DIFF_TEXT_BYTES = 256 * 1024;
+
+/** Zustand einer Datei im Snapshot; hash nur bei inhaltlichem Vergleich */
+interface FolderSnapshotEntry {
+  size: number;
+  mtime: number;
+  hash?: string;
+}
+
+/**
+ * Erfasst Groesse und mtime aller Dateien unter dirPath (relative Pfade als Schluessel)
+ */
+async function scanFolderState(
+  dirPath: string,
+  fileFilter: GlobMatcher[] | null,
+  respectIgnore: boolean,
+  run: RunContext = {}
+): Promise<Record<string, FolderSnapshotEntry>> {
+  const state: Record<string, FolderSnapshotEntry> = {};
+  for await (const entry of walkFiles(dirPath, { respectIgnore, ...run })) {
+    if (!entry.isFile) continue;
+    if (!fileFilter || matchesGlobs(entry.relativePath, fileFilter)) {
+      try {
+        const stats = await fs.stat(entry.fullPath);
+        state[entry.relativePath] = { size: stats.size, mtime: stats.mtimeMs };
+      } catch { /* skip inaccessible files */ }
+    }
+  }
+  run.signal?.throwIfAborted();
+  return state;
+}
+
+/**
+ * Inhalt einer Datei fuer einen Diff; null bei Binaerdateien, zu grossen oder fehlenden Dateien
+ */
+async function readDiffText(filePath: string): Promise<string | null> {
+  try {
+    const stats = await fs.stat(filePath);
+    if (stats.size > MAX_FOLDER_DIFF_TEXT_BYTES) return null;
+    const raw = await fs.readFile(filePath);
+    return detectFileType(raw.subarray(0, 8192)).binary ? null : raw.toString('utf-8');
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Verzeichnis-Synchronisation (fc_sync)
+// ============================================================================
+
+interface SyncEntry {
+  type: 'file' | 'directory' | 'symlink';
+  size: number;
+  mtimeMs: number;
+  linkTarget?: string;
+}
+
+/**
+ * Erfasst einen Baum fuer fc_sync: Dateien, Verzeichnisse und Symlinks (als Links, nicht
+ * aufgeloest) mit "/"-getrennten relativen Pfaden. Sonderdateien werden nur gezaehlt.
+ * exclude schneidet auch Verzeichnisse ab, include gilt fuer Dateien und Links.
+ */
+async function scanSyncTree(
+  root: string,
+  options: { include: GlobMatcher[] | null; exclude: GlobMatcher[] | null; respectIgnore: boolean },
+  run?: RunContext
+): Promise<{ entries: Map<string, SyncEntry>; special: number }> {
+  const entries = new Map<string, SyncEntry>();
+  let special = 0;
+
+  const visit = async (dir: string, inherited: IgnoreRule[]): Promise<void> => {
+    const rules = options.respectIgnore ? inherited.concat(await loadDirectoryIgnoreRules(dir)) : inherited;
+    for (const dirent of await fs.readdir(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, dirent.name);
+      step(run, fullPath);
+      const rel = path.relative(root, fullPath).split(path.sep).join('/');
+      const isDirectory = dirent.isDirectory();
+      if (options.respectIgnore && (isIgnored(rules, fullPath, isDirectory) || (isDirectory && ALWAYS_SKIP_DIRS.includes(dirent.name)))) continue;
+      if (options.exclude && matchesGlobs(rel, options.exclude)) continue;
+
+      if (isDirectory) {
+        const stats = await fs.stat(fullPath);
+        entries.set(rel, { type: 'directory', size: 0, mtimeMs: stats.mtimeMs });
+        await visit(fullPath, rules);
+      } else if (getSpecialType(dirent)) {
+        special++;
+      } else if (!options.include || matchesGlobs(rel, options.include)) {
+        const stats = await fs.lstat(fullPath);
+        entries.set(rel, dirent.isSymbolicLink()
+          ? { type: 'symlink', size: 0, mtimeMs: stats.mtimeMs, linkTarget: await fs.readlink(fullPath) }
+          : { type: 'file', size: stats.size, mtimeMs: stats.mtimeMs });
+      }
+    }
+  };
+
+  await visit(root, options.respectIgnore ? await loadBaseIgnoreRules(root) : []);
+  return { entries, special };
+}
+
+/**
+ * Kopiert eine Datei ueber eine temporaere Datei (Rechte und mtime der Quelle), damit ein
+ * abgebrochener Lauf keine halbe Zieldatei hinterlaesst
+ */
+async function syncCopyFile(source: string, target: string, mtimeMs: number): Promise<void> {
+  const tempPath = path.join(path.dirname(target), `.${path.basename(target)}.fc-sync-${process.pid}-${Date.now()}`);
+  try {
+    await fs.copyFile(source, tempPath);
+    await fs.utimes(tempPath, new Date(), new Date(mtimeMs));
+    await fs.rename(tempPath, target);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+// ============================================================================
+// Tool: Read File
+// ============================================================================
+
+server.registerTool(
   "fc_read_file",
   {
-    title: "Read File",
-    description: `Reads the content of a file.
+    title: "Read File",
+    description: `Reads the content of a file.
+
+Line and byte ranges are streamed from disk, so large files are never loaded completely.
+
+Args:
+  - path (string): Full path to the file
+  - encoding (string, optional): Character encoding (default: utf-8)
+  - max_lines (number, optional): Maximum number of lines from the top (0 = all)
+  - offset_line (number, optional): First line to read (1-based)
+  - line_count (number, optional): Number of lines to read (default: 100 if offset_line is set)
+  - byte_offset (number, optional): First byte to read (0-based)
+  - byte_length (number, optional): Number of bytes to read (default: 65536)
+  - tail_lines (number, optional): Read the last N lines of the file
+  - binary_mode ('auto' | 'hex' | 'text', optional): Handling of binary files (default: auto)
+  - include_hash (boolean, optional): Also hash the whole file for range, tail and hex reads (default: false)
+  - count_lines (boolean, optional): Also count the total lines for range, tail and hex reads (default: false)
+
+Only one mode may be used: offset_line/line_count, byte_offset/byte_length or tail_lines.
+
+Binary files are detected by their content (magic numbers), not by extension.
+With binary_mode 'auto', images (PNG, JPEG, GIF, WebP) are returned as image content
+and other binaries as a base64 resource (up to 2 MB); a byte range returns a hex dump.
+'hex' always returns a hex dump (byte_offset/byte_length, default 1024 bytes, max 64 KB),
+'text' always decodes with the given encoding.
+
+Returns:
+  - File content as text
+  - sha256 (files up to 64 MB) and mtime of the whole file, for expected_hash/expected_mtime of the editing tools;
+    range, tail and hex reads only include sha256 with include_hash
+  - For binary files: image content, base64 resource or hex dump
+  - For range and tail reads: the returned range and total bytes of the file; total lines with count_lines.
+    Without count_lines a tail read reports no line numbers.
+
+Examples:
+  - path: "C:\\Users\\User\\test.txt"
+  - path: "/home/user/config.json"
+  - path: "/var/log/app.log", tail_lines: 50
+  - path: "/data/big.csv", offset_line: 1000, line_count: 20`,
+    inputSchema: {
+      path: z.string().min(1).describe("Full path to the file"),
+      encoding: z.string().default("utf-8").describe("Character encoding"),
+      max_lines: z.number().int().min(0).default(0).describe("Max lines (0 = all)"),
+      offset_line: z.number().int().min(1).optional().describe("First line to read (1-based)"),
+      line_count: z.number().int().min(1).optional().describe("Number of lines to read"),
+      byte_offset: z.number().int().min(0).optional().describe("First byte to read (0-based)"),
+      byte_length: z.number().int().min(1).optional().describe("Number of bytes to read (default: 65536)"),
+      tail_lines: z.number().int().min(1).optional().describe("Read the last N lines"),
+      binary_mode: z.enum(["auto", "hex", "text"]).default("auto").describe("Handling of binary files"),
+      include_hash: z.boolean().default(false).describe("Hash the whole file for partial reads"),
+      count_lines: z.boolean().default(false).describe("Count total lines for partial reads"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      size: z.number(),
+      sha256: z.string().optional(),
+      mtime: z.string(),
+      mode: z.enum(["full", "lines", "bytes", "tail", "hex", "binary"]),
+      content: z.string().optional(),
+      mime_type: z.string().optional(),
+      start_line: z.number().optional(),
+      end_line: z.number().optional(),
+      start_byte: z.number().optional(),
+      end_byte: z.number().optional(),
+      total_lines: z.number().optional(),
+      truncated: z.boolean().optional(),
+      beyond_end: z.boolean().optional()
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    try {
+      const filePath = await resolvePath(params.path, 'read');
+      
+      if (!await pathExists(filePath)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.fileNotFound(filePath) }]
+        };
+      }
+
+      const stats = await fs.stat(filePath);
+      if (stats.isDirectory()) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.pathIsDirectoryUseListDir(filePath) }]
+        };
+      }
+
+      const special = getSpecialType(stats);
+      if (special) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.specialFile(filePath, special) }]
+        };
+      }
+
+      const encoding = params.encoding as BufferEncoding;
+      const lineMode = params.offset_line !== undefined || params.line_count !== undefined;
+      const byteMode = params.byte_offset !== undefined || params.byte_length !== undefined;
+      const tailMode = params.tail_lines !== undefined;
+
+      if ([lineMode, byteMode, tailMode].filter(Boolean).length > 1) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().fc_read_file.conflictingModes }]
+        };
+      }
+
+      // Teil-Lesezugriffe lesen die ganze Datei nur auf Wunsch (Hash, Zeilenzahl)
+      const partial = lineMode || byteMode || tailMode || params.binary_mode === 'hex';
+      const countLines = !partial || params.count_lines;
+
+      // Hash vor dem Inhalt lesen: aendert sich die Datei dazwischen, passt der Hash nicht mehr und ein Schreibzugriff wird abgelehnt
+      const sha256 = (!partial || params.include_hash) && stats.size <= MAX_READ_HASH_BYTES ? await hashFile(filePath) : undefined;
+      const mtime = stats.mtime.toISOString();
+      const header = `${t().fc_read_file.fileHeader(path.basename(filePath), formatFileSize(stats.size))}\n${t().common.versionInfo(mtime, sha256)}`;
+      const base = { path: filePath, size: stats.size, sha256, mtime };
+
+      if (params.binary_mode !== 'text') {
+        const fileType = detectFileType(await readByteRange(filePath, 0, 8192));
+        const mime = fileType.binary ? { mime_type: fileType.mime } : {};
+
+        if (params.binary_mode === 'hex' || (fileType.binary && byteMode)) {
+          const offset = params.byte_offset ?? 0;
+          if (offset >= stats.size) {
+            const totalLines = countLines ? await countFileLines(filePath) : undefined;
+            return structuredResult(
+              `${header}\n\n${t().fc_read_file.beyondEnd(totalLines, stats.size)}`,
+              { ...base, mode: 'hex' as const, ...mime, total_lines: totalLines, beyond_end: true },
+              params.output_format
+            );
+          }
+          const data = await readByteRange(filePath, offset, Math.min(params.byte_length ?? 1024, MAX_HEX_DUMP_BYTES));
+          const dump = formatHexDump(data, offset);
+          return structuredResult(
+            `${header}\n${fileType.binary ? t().fc_read_file.binaryInfo(fileType.mime) + '\n' : ''}` +
+              `${t().fc_read_file.hexDumpInfo(offset, offset + data.length - 1, stats.size)}\n\n${dump}`,
+            { ...base, mode: 'hex' as const, ...mime, content: dump, start_byte: offset, end_byte: offset + data.length - 1 },
+            params.output_format
+          );
+        }
+
+        if (fileType.binary) {
+          const info = `${header}\n${t().fc_read_file.binaryInfo(fileType.mime)}`;
+          const structured = { ...base, mode: 'binary' as const, mime_type: fileType.mime };
+          if (stats.size > MAX_BINARY_INLINE_BYTES) {
+            return structuredResult(
+              `${info}\n\n${t().fc_read_file.binaryTooLarge(formatFileSize(MAX_BINARY_INLINE_BYTES))}`,
+              { ...structured, truncated: true },
+              params.output_format
+            );
+          }
+          const data = (await fs.readFile(filePath)).toString('base64');
+          const result = structuredResult(info, structured, params.output_format);
+          if (INLINE_IMAGE_TYPES.has(fileType.mime)) {
+            return {
+              ...result,
+              content: [...result.content, { type: "image" as const, data, mimeType: fileType.mime }]
+            };
+          }
+          return {
+            ...result,
+            content: [
+              ...result.content,
+              { type: "resource" as const, resource: { uri: pathToFileURL(filePath).href, mimeType: fileType.mime, blob: data } }
+            ]
+          };
+        }
+      }
+
+      if (lineMode) {
+        const startLine = params.offset_line ?? 1;
+        const lineCount = params.line_count ?? 100;
+        const { content, totalLines } = await readLineRange(filePath, startLine, lineCount, encoding, countLines);
+        if (totalLines !== undefined && startLine > totalLines) {
+          return structuredResult(
+            `${header}\n\n${t().fc_read_file.beyondEnd(totalLines, stats.size)}`,
+            { ...base, mode: 'lines' as const, total_lines: totalLines, beyond_end: true },
+            params.output_format
+          );
+        }
+        const endLine = Math.min(startLine + lineCount - 1, totalLines ?? Infinity);
+        return structuredResult(
+          `${header}\n${t().fc_read_file.lineRangeInfo(startLine, endLine, totalLines, stats.size)}\n\n${content}`,
+          { ...base, mode: 'lines' as const, content, start_line: startLine, end_line: endLine, total_lines: totalLines },
+          params.output_format
+        );
+      }
+
+      if (byteMode) {
+        const offset = params.byte_offset ?? 0;
+        const totalLines = countLines ? await countFileLines(filePath) : undefined;
+        if (offset >= stats.size) {
+          return structuredResult(
+            `${header}\n\n${t().fc_read_file.beyondEnd(totalLines, stats.size)}`,
+            { ...base, mode: 'bytes' as const, total_lines: totalLines, beyond_end: true },
+            params.output_format
+          );
+        }
+        const data = await readByteRange(filePath, offset, params.byte_length ?? 65536);
+        const content = data.toString(encoding);
+        return structuredResult(
+          `${header}\n${t().fc_read_file.byteRangeInfo(offset, offset + data.length - 1, stats.size, totalLines)}\n\n${content}`,
+          { ...base, mode: 'bytes' as const, content, start_byte: offset, end_byte: offset + data.length - 1, total_lines: totalLines },
+          params.output_format
+        );
+      }
+
+      if (tailMode) {
+        const tailLines = params.tail_lines as number;
+        const totalLines = countLines ? await countFileLines(filePath) : undefined;
+        if (stats.size === 0) {
+          return structuredResult(
+            `${header}\n\n${t().fc_read_file.beyondEnd(0, stats.size)}`,
+            { ...base, mode: 'tail' as const, total_lines: 0, beyond_end: true },
+            params.output_format
+          );
+        }
+        const content = await readTailLines(filePath, tailLines, encoding);
+        if (totalLines === undefined) {
+          return structuredResult(
+            `${header}\n${t().fc_read_file.tailCountInfo(content.split('\n').length, stats.size)}\n\n${content}`,
+            { ...base, mode: 'tail' as const, content },
+            params.output_format
+          );
+        }
+        const fromLine = Math.max(totalLines - tailLines + 1, 1);
+        return structuredResult(
+          `${header}\n${t().fc_read_file.tailInfo(fromLine, totalLines, totalLines, stats.size)}\n\n${content}`,
+          { ...base, mode: 'tail' as const, content, start_line: fromLine, end_line: totalLines, total_lines: totalLines },
+          params.output_format
+        );
+      }
+
+      if (params.max_lines > 0) {
+        const { content, totalLines = 0 } = await readLineRange(filePath, 1, params.max_lines, encoding);
+        const truncated = totalLines > params.max_lines;
+        const text = truncated
+          ? content + t().fc_read_file.moreLines(totalLines - params.max_lines)
+          : content;
+        return structuredResult(
+          `${header}\n\n${text}`,
+          {
+            ...base, mode: 'lines' as const, content, start_line: 1,
+            end_line: Math.min(params.max_lines, totalLines), total_lines: totalLines, truncated
+          },
+          params.output_format
+        );
+      }
+
+      const content = await fs.readFile(filePath, encoding);
+      return structuredResult(
+        `${header}\n\n${content}`,
+        { ...base, mode: 'full' as const, content },
+        params.output_format
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        isError: true,
+        content: [{ type: "text", text: t().fc_read_file.readError(errorMsg) }]
+      };
+    }
+  }
+);
+
+// ============================================================================
+// Tool: Write File
+// ============================================================================
+
+server.registerTool(
+  "fc_write_file",
+  {
+    title: "Write File",
+    description: `Writes content to a file. Creates the file if it does not exist.
+
+Overwrites are atomic (temporary file + rename), so a crash never leaves a truncated
+file; permissions of the existing file are kept.
 
 Args:
   - path (string): Full path to the file
-  - encoding (string, optional): Character encoding (default: utf-8)
-  - max_lines (number, optional): Maximum number of lines (0 = all)
+  - content (string): Content to write
+  - append (boolean, optional): Append to file instead of overwriting
+  - create_dirs (boolean, optional): Create missing directories
+  - expected_hash (string, optional): sha256 from fc_read_file; the write is rejected if the file changed since
+  - expected_mtime (string, optional): Modification time (ISO) from fc_read_file, same check by timestamp
 
 Returns:
-  - File content as text
-  - For binary files: Base64-encoded content
+  - Confirmation with file size
 
-Examples:
-  - path: "C:\\Users\\User\\test.txt"
-  - path: "/home/user/config.json"`,
+Warning: Overwrites existing files without warning when append=false!`,
     inputSchema: {
       path: z.string().min(1).describe("Full path to the file"),
-      encoding: z.string().default("utf-8").describe("Character encoding"),
-      max_lines: z.number().int().min(0).default(0).describe("Max lines (0 = all)")
+      content: z.string().describe("Content to write"),
+      append: z.boolean().default(false).describe("Append to file"),
+      create_dirs: z.boolean().default(true).describe("Create missing directories"),
+      expected_hash: z.string().regex(/^[a-fA-F0-9]{64}$/).optional().describe("Reject if the sha256 differs"),
+      expected_mtime: z.string().optional().describe("Reject if the mtime differs"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      action: z.enum(["written", "appended"]),
+      size: z.number(),
+      sha256: z.string(),
+      mtime: z.string(),
+      operation_id: z.string().optional()
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    try {
+      const filePath = await resolvePath(params.path, 'write');
+      const dirPath = path.dirname(filePath);
+      
+      if (params.create_dirs && !await pathExists(dirPath)) {
+        await fs.mkdir(dirPath, { recursive: true });
+      }
+      
+      const conflict = await checkExpectedVersion(filePath, { hash: params.expected_hash, mtime: params.expected_mtime });
+      if (conflict) {
+        return { isError: true, content: [{ type: "text", text: conflict }] };
+      }
+
+      const journalEntry = await prepareWriteEntry('fc_write_file', filePath);
+
+      if (params.append) {
+        await fs.appendFile(filePath, params.content, "utf-8");
+      } else {
+        await writeFileAtomic(filePath, params.content);
+      }
+      
+      const stats = await fs.stat(filePath);
+      const version = await fileVersion(filePath);
+      const action = params.append ? t().fc_write_file.actionAppended : t().fc_write_file.actionWritten;
+      const opId = await recordOperation({ ...journalEntry, afterHash: version.sha256 });
+
+      return structuredResult(
+        `${t().fc_write_file.success(action, filePath)}\n${t().fc_write_file.sizeLabel(formatFileSize(stats.size))}\n${t().common.versionInfo(version.mtime, version.sha256)}${journalNote(opId)}`,
+        { path: filePath, action: params.append ? 'appended' as const : 'written' as const, size: stats.size, ...version, operation_id: opId },
+        params.output_format
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        isError: true,
+        content: [{ type: "text", text: t().fc_write_file.writeError(errorMsg) }]
+      };
+    }
+  }
+);
+
+// ============================================================================
+// Tool: List Directory
+// ============================================================================
+
+server.registerTool(
+  "fc_list_directory",
+  {
+    title: "List Directory",
+    description: `Lists files and subdirectories.
+
+Args:
+  - path (string): Path to the directory
+  - depth (number, optional): Maximum depth for recursive listing (default: 1)
+  - show_hidden (boolean, optional): Show hidden files
+  - columns (array, optional): Extra columns: "size", "mtime", "permissions", "owner", "target" (symlink target), "children" (entries per directory)
+  - sort_by (string, optional): "name" | "size" | "mtime" | "extension" (default: name, applied per level)
+  - order (string, optional): "asc" | "desc" (default: asc)
+  - dirs_first (boolean, optional): List directories before files
+  - include (string[], optional): Globs for files to show, e.g. ["*.ts"] (directories are still traversed)
+  - exclude (string[], optional): Globs for entries to hide, excluded directories are not traversed
+  - types (array, optional): Only show "file", "directory", "symlink" and/or "other"
+  - dir_sizes (boolean, optional): Compute recursive directory sizes (slower on large trees)
+  - max_entries (number, optional): Stop after this many entries and mark the result as truncated (default: 1000)
+  - follow_symlinks (boolean, optional): Descend into symlinked directories, loops are skipped (default: false)
+
+Returns:
+  - Tree of entries with icons, or a table when columns are requested
+  - Symlinks always show their target, broken links are marked
+
+Example:
+  - Biggest items: sort_by="size", order="desc", dir_sizes=true, columns=["size"], depth=0`,
+    inputSchema: {
+      path: z.string().min(1).describe("Path to the directory"),
+      depth: z.number().int().min(0).max(10).default(1).describe("Recursion depth"),
+      show_hidden: z.boolean().default(false).describe("Show hidden files"),
+      columns: z.array(z.enum(LIST_COLUMNS)).default([]).describe("Extra columns"),
+      sort_by: z.enum(["name", "size", "mtime", "extension"]).default("name").describe("Sort key"),
+      order: z.enum(["asc", "desc"]).default("asc").describe("Sort order"),
+      dirs_first: z.boolean().default(false).describe("Directories first"),
+      include: z.array(z.string()).optional().describe("Globs for files to show"),
+      exclude: z.array(z.string()).optional().describe("Globs for entries to hide"),
+      types: z.array(z.enum(["file", "directory", "symlink", "other"])).optional().describe("Entry types to show"),
+      dir_sizes: z.boolean().default(false).describe("Compute recursive directory sizes"),
+      max_entries: z.number().int().min(1).max(100000).default(1000).describe("Max entries"),
+      follow_symlinks: z.boolean().default(false).describe("Follow symlinked directories"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      entries: z.array(fileEntrySchema.extend({
+        relative_path: z.string(),
+        depth: z.number(),
+        permissions: z.string().optional(),
+        mode: z.string().optional(),
+        owner: z.string().optional(),
+        target: z.string().optional(),
+        broken: z.boolean().optional(),
+        special: z.enum(["fifo", "socket", "block_device", "character_device"]).optional(),
+        children: z.number().optional()
+      })),
+      truncated: z.boolean()
     },
     annotations: {
       readOnlyHint: true,
@@ -415,568 +3893,1618 @@ Examples:
       openWorldHint: false
     }
   },
+  trackProgress('items', async (params, extra, progress) => {
+    try {
+      const dirPath = await resolvePath(params.path, 'read');
+      
+      if (!await pathExists(dirPath)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.dirNotFound(dirPath) }]
+        };
+      }
+
+      const stats = await fs.stat(dirPath);
+      if (!stats.isDirectory()) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.pathIsNotDirUseReadFile(dirPath) }]
+        };
+      }
+
+      const { entries, truncated } = await listDirectoryRecursive(dirPath, {
+        maxDepth: params.depth,
+        showHidden: params.show_hidden,
+        sortBy: params.sort_by,
+        descending: params.order === 'desc',
+        dirsFirst: params.dirs_first,
+        include: params.include ? compileGlobs(params.include) : null,
+        exclude: params.exclude ? compileGlobs(params.exclude) : null,
+        types: params.types ?? null,
+        columns: params.columns,
+        dirSizes: params.dir_sizes,
+        maxEntries: params.max_entries,
+        followSymlinks: params.follow_symlinks
+      }, { signal: extra.signal, progress });
+
+      const icon = (e: DirectoryEntry) => e.type === 'directory' ? '\uD83D\uDCC1' : e.type === 'symlink' ? '\uD83D\uDD17' : '\uD83D\uDCC4';
+      const linkTarget = (e: DirectoryEntry) => e.target !== undefined
+        ? `\u2192 ${e.target}${e.broken ? ` \u26A0\uFE0F ${t().fc_list_directory.brokenLink}` : ''}`
+        : '';
+      let lines: string[];
+
+      if (params.columns.length === 0) {
+        lines = entries.map(e => `${"  ".repeat(e.depth)}${icon(e)} ${e.name}${e.type === 'directory' ? '/' : ''}${e.target !== undefined ? ' ' + linkTarget(e) : ''}`);
+      } else {
+        // Feste Spaltenreihenfolge, unabhaengig von der Reihenfolge im Aufruf
+        const columns = LIST_COLUMNS.filter(c => params.columns.includes(c));
+        const locale = getLanguage() === 'de' ? 'de-DE' : 'en-US';
+        const labels: Record<ListColumn, string> = {
+          size: t().fc_list_directory.colSize,
+          mtime: t().fc_list_directory.colModified,
+          permissions: t().fc_list_directory.colPermissions,
+          owner: t().fc_list_directory.colOwner,
+          target: t().fc_list_directory.colTarget,
+          children: t().fc_list_directory.colChildren
+        };
+        const cell = (e: DirectoryEntry, c: ListColumn): string => {
+          switch (c) {
+            case 'size': return e.type === 'directory' && !params.dir_sizes ? '-' : formatFileSize(e.size);
+            case 'mtime': return e.mtime ? new Date(e.mtime).toLocaleString(locale) : '-';
+            case 'permissions': return e.permissions ? `${e.permissions} (${e.mode})` : '-';
+            case 'owner': return e.owner ?? '-';
+            case 'target': return linkTarget(e);
+            case 'children': return e.children !== undefined ? String(e.children) : '';
+          }
+        };
+        lines = entries.length === 0 ? [] : [
+          `| ${t().fc_list_directory.colName} | ${columns.map(c => labels[c]).join(' | ')} |`,
+          `|---|${columns.map(() => '---').join('|')}|`,
+          ...entries.map(e => `| ${icon(e)} ${e.relative_path}${e.type === 'directory' ? '/' : ''} | ${columns.map(c => cell(e, c)).join(' | ')} |`)
+        ];
+      }
+
+      if (truncated) {
+        lines.push('', t().fc_list_directory.truncated(params.max_entries));
+      }
+
+      return structuredResult(
+        `${t().fc_list_directory.dirHeader(dirPath)}\n\n${lines.join('\n') || t().fc_list_directory.emptyDir}`,
+        { path: dirPath, entries, truncated },
+        params.output_format
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        isError: true,
+        content: [{ type: "text", text: t().fc_list_directory.listError(errorMsg) }]
+      };
+    }
+  })
+);
+
+// ============================================================================
+// Tool: Create Directory
+// ============================================================================
+
+server.registerTool(
+  "fc_create_directory",
+  {
+    title: "Create Directory",
+    description: `Creates a new directory (including parent directories).
+
+Args:
+  - path (string): Path to the new directory
+
+Returns:
+  - Confirmation of creation`,
+    inputSchema: {
+      path: z.string().min(1).describe("Path to the new directory"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      created: z.boolean()
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
   async (params) => {
     try {
-      const filePath = normalizePath(params.path);
+      const dirPath = await resolvePath(params.path, 'write');
       
-      if (!await pathExists(filePath)) {
+      if (await pathExists(dirPath)) {
+        return structuredResult(t().fc_create_directory.alreadyExists(dirPath), { path: dirPath, created: false }, params.output_format);
+      }
+
+      await fs.mkdir(dirPath, { recursive: true });
+
+      return structuredResult(t().fc_create_directory.created(dirPath), { path: dirPath, created: true }, params.output_format);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        isError: true,
+        content: [{ type: "text", text: t().fc_create_directory.createError(errorMsg) }]
+      };
+    }
+  }
+);
+
+// ============================================================================
+// Tool: Delete File
+// ============================================================================
+
+server.registerTool(
+  "fc_delete_file",
+  {
+    title: "Delete File",
+    description: `Deletes a file.
+
+Args:
+  - path (string): Path to the file
+
+Warning: Irreversible! No recycle bin.`,
+    inputSchema: {
+      path: z.string().min(1).describe("Path to the file"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      method: z.enum(["deleted", "trashed"]),
+      operation_id: z.string().optional()
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    try {
+      const filePath = await resolvePath(params.path, 'write');
+
+      // lstat: Symlinks (auch defekte oder auf Verzeichnisse) werden selbst entfernt, nie ihr Ziel
+      const stats = await fs.lstat(filePath).catch(() => null);
+      if (!stats) {
         return {
           isError: true,
           content: [{ type: "text", text: t().common.fileNotFound(filePath) }]
         };
       }
 
-      const stats = await fs.stat(filePath);
       if (stats.isDirectory()) {
         return {
           isError: true,
-          content: [{ type: "text", text: t().common.pathIsDirectoryUseListDir(filePath) }]
+          content: [{ type: "text", text: t().common.pathIsDirectoryUseDeleteDir }]
         };
       }
 
-      let content = await fs.readFile(filePath, params.encoding as BufferEncoding);
+      const opId = generateOperationId();
 
-      if (params.max_lines > 0) {
-        const lines = content.split('\n');
-        content = lines.slice(0, params.max_lines).join('\n');
-        if (lines.length > params.max_lines) {
-          content += t().fc_read_file.moreLines(lines.length - params.max_lines);
-        }
+      // Safe Mode: redirect to recycle bin
+      if (safeMode) {
+        const trashPath = await moveToTrash(filePath);
+        await recordOperation({ id: opId, tool: 'fc_delete_file', type: 'trash', path: filePath, trashPath: trashPath || undefined, undoable: !!trashPath });
+        return structuredResult(
+          t().fc_set_safe_mode.redirected('fc_delete_file') + `\n${t().fc_safe_delete.propPath}: ${filePath}` + journalNote(trashPath ? opId : undefined),
+          { path: filePath, method: 'trashed' as const, operation_id: trashPath ? opId : undefined },
+          params.output_format
+        );
       }
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_read_file.fileHeader(path.basename(filePath), formatFileSize(stats.size))}\n\n${content}`
-        }]
-      };
+      const backup = await journalBackup(opId, filePath);
+      await fs.unlink(filePath);
+      const recordedId = await recordOperation({ id: opId, tool: 'fc_delete_file', type: 'delete', path: filePath, backup, undoable: backup });
+
+      return structuredResult(
+        t().fc_delete_file.deleted(filePath) + journalNote(backup ? recordedId : undefined),
+        { path: filePath, method: 'deleted' as const, operation_id: backup ? recordedId : undefined },
+        params.output_format
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         isError: true,
-        content: [{ type: "text", text: t().fc_read_file.readError(errorMsg) }]
+        content: [{ type: "text", text: t().fc_delete_file.deleteError(errorMsg) }]
       };
     }
   }
 );
 
 // ============================================================================
-// Tool: Write File
+// Tool: Delete Directory
 // ============================================================================
 
 server.registerTool(
-  "fc_write_file",
+  "fc_delete_directory",
   {
-    title: "Write File",
-    description: `Writes content to a file. Creates the file if it does not exist.
+    title: "Delete Directory",
+    description: `Deletes a directory.
 
 Args:
-  - path (string): Full path to the file
-  - content (string): Content to write
-  - append (boolean, optional): Append to file instead of overwriting
-  - create_dirs (boolean, optional): Create missing directories
+  - path (string): Path to the directory
+  - recursive (boolean): Delete non-empty directories too
 
-Returns:
-  - Confirmation with file size
+Symlinks inside the directory are removed as links, their targets are never touched.
+A symlink passed as path is rejected, use fc_delete_file to remove the link itself.
 
-Warning: Overwrites existing files without warning when append=false!`,
+Warning: With recursive=true ALL contents are irreversibly deleted!`,
     inputSchema: {
-      path: z.string().min(1).describe("Full path to the file"),
-      content: z.string().describe("Content to write"),
-      append: z.boolean().default(false).describe("Append to file"),
-      create_dirs: z.boolean().default(true).describe("Create missing directories")
+      path: z.string().min(1).describe("Path to the directory"),
+      recursive: z.boolean().default(false).describe("Delete recursively"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      method: z.enum(["deleted", "trashed"]),
+      operation_id: z.string().optional()
     },
     annotations: {
       readOnlyHint: false,
       destructiveHint: true,
-      idempotentHint: false,
+      idempotentHint: true,
       openWorldHint: false
     }
   },
   async (params) => {
     try {
-      const filePath = normalizePath(params.path);
-      const dirPath = path.dirname(filePath);
-      
-      if (params.create_dirs && !await pathExists(dirPath)) {
-        await fs.mkdir(dirPath, { recursive: true });
+      const dirPath = await resolvePath(params.path, 'write');
+
+      const stats = await fs.lstat(dirPath).catch(() => null);
+      if (!stats) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.dirNotFound(dirPath) }]
+        };
       }
-      
-      if (params.append) {
-        await fs.appendFile(filePath, params.content, "utf-8");
-      } else {
-        await fs.writeFile(filePath, params.content, "utf-8");
+
+      if (stats.isSymbolicLink()) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().fc_delete_directory.isSymlink(dirPath) }]
+        };
       }
-      
-      const stats = await fs.stat(filePath);
-      const action = params.append ? t().fc_write_file.actionAppended : t().fc_write_file.actionWritten;
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_write_file.success(action, filePath)}\n${t().fc_write_file.sizeLabel(formatFileSize(stats.size))}`
-        }]
-      };
+      if (!stats.isDirectory()) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.pathIsNotDirectory(dirPath) }]
+        };
+      }
+
+      const opId = generateOperationId();
+
+      // Safe Mode: redirect to recycle bin
+      if (safeMode) {
+        const trashPath = await moveToTrash(dirPath);
+        await recordOperation({ id: opId, tool: 'fc_delete_directory', type: 'trash', path: dirPath, isDirectory: true, trashPath: trashPath || undefined, undoable: !!trashPath });
+        return structuredResult(
+          t().fc_set_safe_mode.redirected('fc_delete_directory') + `\n${t().fc_safe_delete.propPath}: ${dirPath}` + journalNote(trashPath ? opId : undefined),
+          { path: dirPath, method: 'trashed' as const, operation_id: trashPath ? opId : undefined },
+          params.output_format
+        );
+      }
+
+      // Nicht-leere Verzeichnisse ohne recursive gar nicht erst sichern
+      const isEmpty = (await fs.readdir(dirPath)).length === 0;
+      const backup = (params.recursive || isEmpty) && await journalBackup(opId, dirPath);
+      try {
+        await fs.rm(dirPath, { recursive: params.recursive });
+      } catch (error) {
+        await fs.rm(path.join(journalBlobDir, opId), { recursive: true, force: true });
+        throw error;
+      }
+      const recordedId = await recordOperation({ id: opId, tool: 'fc_delete_directory', type: 'delete', path: dirPath, isDirectory: true, backup, undoable: backup });
+
+      return structuredResult(
+        t().fc_delete_directory.deleted(dirPath) + journalNote(backup ? recordedId : undefined),
+        { path: dirPath, method: 'deleted' as const, operation_id: backup ? recordedId : undefined },
+        params.output_format
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
+      if (errorMsg.includes('ENOTEMPTY')) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().fc_delete_directory.notEmpty }]
+        };
+      }
       return {
         isError: true,
-        content: [{ type: "text", text: t().fc_write_file.writeError(errorMsg) }]
+        content: [{ type: "text", text: t().fc_delete_directory.deleteError(errorMsg) }]
       };
     }
   }
 );
 
 // ============================================================================
-// Tool: List Directory
+// Tool: Move/Rename
 // ============================================================================
 
 server.registerTool(
-  "fc_list_directory",
+  "fc_move",
   {
-    title: "List Directory",
-    description: `Lists files and subdirectories.
+    title: "Move/Rename",
+    description: `Moves or renames a file/directory.
+
+Across file systems (EXDEV) the source is copied with permissions and timestamps,
+verified by size and sha256 and only then deleted. Such moves larger than
+background_threshold_mb run as a background job (see fc_job_status); a cancelled
+move leaves the source untouched.
 
 Args:
-  - path (string): Path to the directory
-  - depth (number, optional): Maximum depth for recursive listing (default: 1)
-  - show_hidden (boolean, optional): Show hidden files
+  - source (string): Source path
+  - destination (string): Destination path
+  - on_conflict (string, optional): What to do if the destination exists (default: "overwrite")
+      "overwrite" replaces a file, "replace" also a directory or a file of the other type,
+      "skip" keeps it, "rename" moves to "name (1).ext", "fail" returns an error,
+      "newer" replaces it only if the source is newer
+  - background_threshold_mb (number, optional): Cross-device moves above this size run in the background (default: 100)
 
-Returns:
-  - Formatted list of all entries with icons`,
+Examples:
+  - Rename: source="test.txt", destination="test_new.txt"
+  - Move: source="C:\\a\\test.txt", destination="C:\\b\\test.txt"
+  - Keep an existing file: source="new.cfg", destination="app.cfg", on_conflict="rename"`,
     inputSchema: {
-      path: z.string().min(1).describe("Path to the directory"),
-      depth: z.number().int().min(0).max(10).default(1).describe("Recursion depth"),
-      show_hidden: z.boolean().default(false).describe("Show hidden files")
+      source: z.string().min(1).describe("Source path"),
+      destination: z.string().min(1).describe("Destination path"),
+      on_conflict: z.enum(["overwrite", "replace", "skip", "rename", "fail", "newer"]).default("overwrite").describe("Existing destination"),
+      background_threshold_mb: z.number().min(0).default(100).describe("Background job above this size (MB)"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      source: z.string(),
+      destination: z.string(),
+      on_conflict: z.enum(["overwrite", "replace", "skip", "rename", "fail", "newer"]).optional(),
+      moved: z.boolean().optional(),
+      cross_device: z.boolean().optional(),
+      operation_id: z.string().optional(),
+      job_id: z.string().optional()
     },
     annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('bytes', async (params, extra, progress) => {
     try {
-      const dirPath = normalizePath(params.path);
-      
-      if (!await pathExists(dirPath)) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: t().common.dirNotFound(dirPath) }]
-        };
-      }
+      const sourcePath = await resolvePath(params.source, 'write');
+      let destPath = await resolvePath(params.destination, 'write');
 
-      const stats = await fs.stat(dirPath);
-      if (!stats.isDirectory()) {
+      const sourceStats = await fs.lstat(sourcePath).catch(() => null);
+      if (!sourceStats) {
         return {
           isError: true,
-          content: [{ type: "text", text: t().common.pathIsNotDirUseReadFile(dirPath) }]
+          content: [{ type: "text", text: t().common.sourceNotFound(sourcePath) }]
         };
       }
 
-      const entries = await listDirectoryRecursive(dirPath, params.depth);
+      // Gleiche Datei (z.B. nur Gross-/Kleinschreibung geaendert) ist kein Konflikt
+      let existing = await fs.lstat(destPath).catch(() => null);
+      if (existing && existing.dev === sourceStats.dev && existing.ino === sourceStats.ino) existing = null;
+      if (existing) {
+        if (params.on_conflict === 'fail') {
+          return { isError: true, content: [{ type: "text", text: t().common.destinationExists(destPath) }] };
+        }
+        if (params.on_conflict === 'skip' || (params.on_conflict === 'newer' && sourceStats.mtimeMs <= existing.mtimeMs)) {
+          return structuredResult(
+            t().fc_move.notMoved(destPath, params.on_conflict),
+            { source: sourcePath, destination: destPath, on_conflict: params.on_conflict, moved: false },
+            params.output_format
+          );
+        }
+        if (params.on_conflict === 'rename') {
+          destPath = await findFreeName(destPath, existing.isDirectory());
+          existing = null;
+        } else if (params.on_conflict !== 'replace' && await needsReplaceOptIn(sourceStats.isDirectory(), existing, destPath, false)) {
+          throw new Error(t().common.replaceRequired(destPath));
+        }
+      }
 
-      // Filter hidden files if needed
-      const filteredEntries = params.show_hidden
-        ? entries
-        : entries.filter(e => !e.trim().startsWith('\uD83D\uDCC1 .') && !e.trim().startsWith('\uD83D\uDCC4 .'));
+      // Create destination directory if needed
+      const destDir = path.dirname(destPath);
+      if (!await pathExists(destDir)) {
+        await fs.mkdir(destDir, { recursive: true });
+      }
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_list_directory.dirHeader(dirPath)}\n\n${filteredEntries.join('\n') || t().fc_list_directory.emptyDir}`
-        }]
+      const opId = generateOperationId();
+      const backup = !!existing && await journalBackup(opId, destPath);
+      const finish = async (crossDevice: boolean) => {
+        // Ohne Sicherung des ueberschriebenen Ziels wuerde ein Undo es nicht wiederherstellen
+        const undoable = !existing || backup;
+        const recordedId = await recordOperation({ id: opId, tool: 'fc_move', type: 'move', from: sourcePath, to: destPath, backup, undoable });
+        return { source: sourcePath, destination: destPath, on_conflict: params.on_conflict, moved: true, cross_device: crossDevice, operation_id: undoable ? recordedId : undefined };
       };
+
+      const crossDevice = !await renameReplacing(sourcePath, destPath, sourceStats, existing);
+      if (crossDevice) {
+        if (await getTotalSize(sourcePath) > params.background_threshold_mb * 1024 * 1024) {
+          const job = startJob('fc_move', `${sourcePath} \u2192 ${destPath}`, 'bytes', async (progress, signal) => {
+            await moveAcrossDevices(sourcePath, destPath, progress, signal);
+            const data = await finish(true);
+            return { text: `${t().fc_move.moved(sourcePath, destPath)}\n${t().fc_move.crossDevice}${journalNote(data.operation_id)}`, data };
+          });
+          return structuredResult(jobStartedText(job), { source: sourcePath, destination: destPath, job_id: job.id }, params.output_format);
+        }
+        await moveAcrossDevices(sourcePath, destPath, progress, extra.signal);
+      }
+
+      const data = await finish(crossDevice);
+      return structuredResult(
+        t().fc_move.moved(sourcePath, destPath) + (crossDevice ? `\n${t().fc_move.crossDevice}` : '') + journalNote(data.operation_id),
+        data,
+        params.output_format
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         isError: true,
-        content: [{ type: "text", text: t().fc_list_directory.listError(errorMsg) }]
+        content: [{ type: "text", text: t().fc_move.moveError(errorMsg) }]
       };
     }
-  }
+  })
 );
 
 // ============================================================================
-// Tool: Create Directory
+// Tool: Copy
 // ============================================================================
 
 server.registerTool(
-  "fc_create_directory",
+  "fc_copy",
   {
-    title: "Create Directory",
-    description: `Creates a new directory (including parent directories).
+    title: "Copy",
+    description: `Copies a file or directory.
+
+By default symlinks are copied as links with their original (also relative) target,
+so symlinked release trees keep pointing where they did. With follow_symlinks=true
+the link targets are copied instead; symlink loops abort the copy and broken links
+are skipped. Special files (pipes, sockets, devices) are never copied.
+
+Files keep their permissions and timestamps. Copying into an existing directory merges
+the trees; skip and newer are then decided per file. Copies larger than
+background_threshold_mb run as a background job (see fc_job_status); a cancelled
+copy keeps the files copied so far.
 
 Args:
-  - path (string): Path to the new directory
+  - source (string): Source path
+  - destination (string): Destination path
+  - recursive (boolean): Copy directories recursively
+  - follow_symlinks (boolean, optional): Copy link targets instead of the links (default: false)
+  - on_conflict (string, optional): What to do with existing destination files (default: "overwrite")
+      "overwrite" replaces files, "replace" also directories and files of the other type,
+      "skip" keeps them, "rename" copies to "name (1).ext", "fail" returns an error,
+      "newer" replaces only files older than the source
+  - background_threshold_mb (number, optional): Copies above this size run in the background (default: 100)
 
-Returns:
-  - Confirmation of creation`,
+Examples:
+  - Update a backup: source="/data/project", destination="/backup/project", on_conflict="newer"
+  - Large tree: source="/data/images", destination="/mnt/usb/images", then fc_job_status(job_id="job_1_...")`,
     inputSchema: {
-      path: z.string().min(1).describe("Path to the new directory")
+      source: z.string().min(1).describe("Source path"),
+      destination: z.string().min(1).describe("Destination path"),
+      recursive: z.boolean().default(true).describe("Copy recursively"),
+      follow_symlinks: z.boolean().default(false).describe("Copy link targets instead of links"),
+      on_conflict: z.enum(["overwrite", "replace", "skip", "rename", "fail", "newer"]).default("overwrite").describe("Existing destination"),
+      background_threshold_mb: z.number().min(0).default(100).describe("Background job above this size (MB)"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      source: z.string(),
+      destination: z.string(),
+      type: z.enum(["file", "directory", "symlink"]).optional(),
+      on_conflict: z.enum(["overwrite", "replace", "skip", "rename", "fail", "newer"]).optional(),
+      files_copied: z.number().optional(),
+      bytes_copied: z.number().optional(),
+      kept: z.array(z.string()).optional(),
+      skipped_broken_links: z.number().optional(),
+      skipped_special_files: z.number().optional(),
+      job_id: z.string().optional()
     },
     annotations: {
       readOnlyHint: false,
       destructiveHint: false,
-      idempotentHint: true,
+      idempotentHint: false,
       openWorldHint: false
     }
   },
-  async (params) => {
+  async (params, extra) => {
     try {
-      const dirPath = normalizePath(params.path);
+      const sourcePath = await resolvePath(params.source, 'read');
+      let destPath = await resolvePath(params.destination, 'write');
       
-      if (await pathExists(dirPath)) {
+      const stats = await (params.follow_symlinks ? fs.stat(sourcePath) : fs.lstat(sourcePath)).catch(() => null);
+      if (!stats) {
         return {
-          content: [{ type: "text", text: t().fc_create_directory.alreadyExists(dirPath) }]
+          isError: true,
+          content: [{ type: "text", text: t().common.sourceNotFound(sourcePath) }]
         };
       }
 
-      await fs.mkdir(dirPath, { recursive: true });
+      const special = getSpecialType(stats);
+      if (special) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.specialFile(sourcePath, special) }]
+        };
+      }
 
-      return {
-        content: [{ type: "text", text: t().fc_create_directory.created(dirPath) }]
+      const existing = await fs.lstat(destPath).catch(() => null);
+      if (existing && params.on_conflict === 'fail') {
+        return { isError: true, content: [{ type: "text", text: t().common.destinationExists(destPath) }] };
+      }
+      if (existing && params.on_conflict === 'rename') {
+        destPath = await findFreeName(destPath, existing.isDirectory());
+      }
+
+      // Create destination directory if needed
+      const destDir = path.dirname(destPath);
+      if (!await pathExists(destDir)) {
+        await fs.mkdir(destDir, { recursive: true });
+      }
+
+      const plan = await planTransfer(sourcePath, destPath, {
+        policy: params.on_conflict,
+        recursive: params.recursive,
+        followSymlinks: params.follow_symlinks,
+        signal: extra.signal
+      });
+      const type = stats.isSymbolicLink() ? 'symlink' as const : stats.isDirectory() ? 'directory' as const : 'file' as const;
+      const summary = (progress: JobProgress) => ({
+        source: sourcePath,
+        destination: destPath,
+        type,
+        on_conflict: params.on_conflict,
+        files_copied: progress.files?.done ?? 0,
+        bytes_copied: progress.done,
+        kept: plan.kept,
+        skipped_broken_links: type === 'directory' ? plan.broken : undefined,
+        skipped_special_files: type === 'directory' ? plan.special : undefined
+      });
+
+      const copy = async (progress: JobProgress, signal?: AbortSignal): Promise<JobResult> => {
+        await runTransfer(plan, progress, signal);
+        if (plan.items.length === 0) {
+          return { text: t().fc_copy.nothingCopied(destPath, params.on_conflict), data: summary(progress) };
+        }
+
+        const notes: string[] = [];
+        if (existing && params.on_conflict === 'rename') notes.push(t().fc_copy.renamed);
+        if (plan.kept.length > 0) notes.push(t().fc_copy.keptExisting(plan.kept.length, params.on_conflict));
+        if (plan.broken > 0) notes.push(t().fc_copy.skippedBroken(plan.broken));
+        if (plan.special > 0) notes.push(t().fc_copy.skippedSpecial(plan.special));
+        return { text: [t().fc_copy.copied(sourcePath, destPath), ...notes].join('\n'), data: summary(progress) };
       };
+
+      if (plan.totalBytes > params.background_threshold_mb * 1024 * 1024) {
+        const job = startJob('fc_copy', `${sourcePath} \u2192 ${destPath}`, 'bytes', copy);
+        return structuredResult(jobStartedText(job), { source: sourcePath, destination: destPath, job_id: job.id }, params.output_format);
+      }
+
+      const progress = newJobProgress('bytes');
+      const result = await withProgress(extra, progress, copy(progress, extra.signal));
+      return structuredResult(result.text, result.data, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         isError: true,
-        content: [{ type: "text", text: t().fc_create_directory.createError(errorMsg) }]
+        content: [{ type: "text", text: t().fc_copy.copyError(errorMsg) }]
       };
     }
   }
 );
 
 // ============================================================================
-// Tool: Delete File
+// Tool: Batch Operation (Kopieren/Verschieben/Loeschen mehrerer Pfade)
 // ============================================================================
 
+const MAX_BATCH_ITEMS = 1000;
+
 server.registerTool(
-  "fc_delete_file",
+  "fc_batch_operation",
   {
-    title: "Delete File",
-    description: `Deletes a file.
+    title: "Batch Copy/Move/Delete",
+    description: `Copies, moves, deletes or trashes many paths in one call.
+
+Items come from a list of paths and/or from files in a directory matching glob filters.
+All items are validated first (existence, sandbox, name clashes in the destination,
+items nested in other items, on_conflict="fail"). With on_error="stop" nothing is
+changed if validation fails, and the run stops at the first failing item.
 
 Args:
-  - path (string): Path to the file
+  - operation (string): "copy" | "move" | "delete" | "trash"
+  - paths (string[], optional): Files or directories
+  - directory (string, optional): Directory to collect files from (together with include)
+  - include (string[], optional): Glob filters for files in directory, e.g. ["*.log", "!keep.log"]
+  - recursive (boolean, optional): Collect matches from subdirectories too; for delete also remove non-empty directories (default: false)
+  - respect_ignore (boolean, optional): Skip files excluded by .gitignore/.ignore/.fcignore when collecting (default: true)
+  - destination (string): Target directory for copy and move (created if missing)
+  - on_conflict (string, optional): Existing targets for copy/move: "overwrite" | "replace" | "skip" | "rename" | "fail" | "newer" (default: "overwrite");
+      only "replace" replaces a directory or a file of the other type
+  - on_error (string, optional): "stop" at the first error or "continue" with the remaining items (default: "stop")
+  - dry_run (boolean, optional): Only validate and list the items (default: false)
+
+Every moved or deleted item gets its own journal entry (see fc_undo). In safe mode
+"delete" moves to the trash.
 
-Warning: Irreversible! No recycle bin.`,
+Examples:
+  - Archive logs: operation="move", directory="/srv/app", include=["*.log"], destination="/srv/archive"
+  - Clean up: operation="trash", paths=["/tmp/a.txt", "/tmp/build"], on_error="continue"`,
     inputSchema: {
-      path: z.string().min(1).describe("Path to the file")
+      operation: z.enum(["copy", "move", "delete", "trash"]).describe("Operation"),
+      paths: z.array(z.string().min(1)).max(MAX_BATCH_ITEMS).optional().describe("Paths"),
+      directory: z.string().min(1).optional().describe("Directory for include globs"),
+      include: z.array(z.string()).optional().describe("Glob filters"),
+      recursive: z.boolean().default(false).describe("Search subdirectories / delete non-empty directories"),
+      respect_ignore: z.boolean().default(true).describe("Honor .gitignore/.ignore/.fcignore"),
+      destination: z.string().min(1).optional().describe("Target directory"),
+      on_conflict: z.enum(["overwrite", "replace", "skip", "rename", "fail", "newer"]).default("overwrite").describe("Existing targets"),
+      on_error: z.enum(["stop", "continue"]).default("stop").describe("Error handling"),
+      dry_run: z.boolean().default(false).describe("Validate only"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      operation: z.enum(["copy", "move", "delete", "trash"]),
+      dry_run: z.boolean(),
+      total: z.number(),
+      succeeded: z.number(),
+      failed: z.number(),
+      skipped: z.number(),
+      stopped: z.boolean(),
+      items: z.array(z.object({
+        path: z.string(),
+        target: z.string().optional(),
+        status: z.enum(["done", "planned", "skipped", "failed", "not_run"]),
+        error: z.string().optional(),
+        operation_id: z.string().optional()
+      }))
     },
     annotations: {
       readOnlyHint: false,
       destructiveHint: true,
-      idempotentHint: true,
+      idempotentHint: false,
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     try {
-      const filePath = normalizePath(params.path);
+      const operation = params.operation;
+      const needsDestination = operation === 'copy' || operation === 'move';
+      if (!params.paths?.length && !(params.directory && params.include?.length)) {
+        return { isError: true, content: [{ type: "text", text: t().fc_batch_operation.noItems }] };
+      }
+      if (needsDestination && !params.destination) {
+        return { isError: true, content: [{ type: "text", text: t().fc_batch_operation.destinationRequired(operation) }] };
+      }
+      const access = operation === 'copy' || params.dry_run ? 'read' : 'write';
+      const destDir = needsDestination ? await resolvePath(params.destination!, params.dry_run ? 'read' : 'write') : '';
+      if (destDir) {
+        const destStats = await fs.stat(destDir).catch(() => null);
+        if (destStats && !destStats.isDirectory()) {
+          return { isError: true, content: [{ type: "text", text: t().common.pathIsNotDirectory(destDir) }] };
+        }
+      }
 
-      if (!await pathExists(filePath)) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: t().common.fileNotFound(filePath) }]
-        };
+      // Eintraege sammeln: erst die Liste, dann die Glob-Treffer
+      const inputs: string[] = [...(params.paths ?? [])];
+      if (params.directory && params.include?.length) {
+        const dirPath = await resolvePath(params.directory, 'read');
+        if (!(await fs.stat(dirPath).catch(() => null))?.isDirectory()) {
+          return { isError: true, content: [{ type: "text", text: t().common.dirNotFound(dirPath) }] };
+        }
+        const filter = buildFileFilter(params.include)!;
+        const matches: string[] = [];
+        for await (const entry of walkFiles(dirPath, { recursive: params.recursive, respectIgnore: params.respect_ignore, signal: extra.signal, progress })) {
+          if (matchesGlobs(entry.relativePath, filter)) matches.push(entry.fullPath);
+          if (inputs.length + matches.length > MAX_BATCH_ITEMS) {
+            return { isError: true, content: [{ type: "text", text: t().fc_batch_operation.tooManyItems(MAX_BATCH_ITEMS) }] };
+          }
+        }
+        extra.signal.throwIfAborted();
+        inputs.push(...matches.sort());
       }
 
-      const stats = await fs.stat(filePath);
-      if (stats.isDirectory()) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: t().common.pathIsDirectoryUseDeleteDir }]
-        };
+      type BatchItem = {
+        path: string;
+        target?: string;
+        status: 'done' | 'planned' | 'skipped' | 'failed' | 'not_run';
+        error?: string;
+        operation_id?: string;
+        stats?: fsSync.Stats;
+      };
+      const items: BatchItem[] = [];
+
+      // Validierung aller Eintraege vor der ersten Aenderung
+      const seenTargets = new Map<string, string>();
+      for (const input of inputs) {
+        const item: BatchItem = { path: normalizePath(input), status: 'planned' };
+        items.push(item);
+        try {
+          item.path = await resolvePath(input, access);
+          const stats = await fs.lstat(item.path).catch(() => null);
+          if (!stats) throw new Error(t().fc_batch_operation.notFound);
+          if (getSpecialType(stats) && operation === 'copy') throw new Error(t().fc_batch_operation.specialFile);
+          item.stats = stats;
+
+          const duplicate = items.find(other => other !== item && other.stats && other.path === item.path);
+          if (duplicate) throw new Error(t().fc_batch_operation.listedTwice);
+          const parent = items.find(other => other !== item && other.stats && (isPathInside(item.path, other.path) || isPathInside(other.path, item.path)));
+          if (parent) throw new Error(t().fc_batch_operation.nested(parent.path));
+
+          if (operation === 'delete' && stats.isDirectory() && !params.recursive && (await fs.readdir(item.path)).length > 0) {
+            throw new Error(t().fc_batch_operation.dirNotEmpty);
+          }
+          if (needsDestination) {
+            if (isPathInside(destDir, item.path)) throw new Error(t().fc_batch_operation.destinationInside);
+            item.target = path.join(destDir, path.basename(item.path));
+            const clash = seenTargets.get(item.target);
+            if (clash) throw new Error(t().fc_batch_operation.nameClash(clash));
+            seenTargets.set(item.target, item.path);
+            const existing = await fs.lstat(item.target).catch(() => null);
+            if (existing && params.on_conflict === 'fail') {
+              throw new Error(t().fc_batch_operation.targetExists);
+            }
+            if (existing && (params.on_conflict === 'overwrite' || params.on_conflict === 'newer')
+              && await needsReplaceOptIn(stats.isDirectory(), existing, item.target, operation === 'copy')) {
+              throw new Error(t().common.replaceRequired(item.target));
+            }
+          }
+        } catch (error) {
+          item.status = 'failed';
+          item.error = error instanceof Error ? error.message : String(error);
+          item.stats = undefined;
+        }
       }
 
-      // Safe Mode: redirect to recycle bin
-      if (safeMode) {
-        await moveToTrash(filePath);
-        return {
-          content: [{ type: "text", text: t().fc_set_safe_mode.redirected('fc_delete_file') + `\n${t().fc_safe_delete.propPath}: ${filePath}` }]
-        };
+      const invalid = items.some(item => item.status === 'failed');
+      const stopped = invalid && params.on_error === 'stop' && !params.dry_run;
+      if (!params.dry_run && !stopped) {
+        if (destDir) await fs.mkdir(destDir, { recursive: true });
+        progress.total = progress.done + items.filter(item => item.status === 'planned').length;
+        let halted = false;
+        for (const item of items) {
+          if (item.status !== 'planned') continue;
+          // Abbruch durch den Client: bereits erledigte Eintraege bleiben im Journal
+          if (halted || extra.signal.aborted) {
+            item.status = 'not_run';
+            continue;
+          }
+          progress.done++;
+          progress.current = item.path;
+          try {
+            const stats = item.stats!;
+            if (operation === 'copy' || operation === 'move') {
+              // Gleiche Datei (z.B. Verschieben in das eigene Verzeichnis) ist kein Konflikt
+              let existing = await fs.lstat(item.target!).catch(() => null);
+              if (existing && existing.dev === stats.dev && existing.ino === stats.ino) existing = null;
+              if (existing && params.on_conflict === 'rename') {
+                item.target = await findFreeName(item.target!, existing.isDirectory());
+                existing = null;
+              }
+              if (operation === 'copy') {
+                const plan = await planTransfer(item.path, item.target!, { policy: params.on_conflict, recursive: true, followSymlinks: false, signal: extra.signal });
+                await runTransfer(plan, newJobProgress('bytes'), extra.signal);
+                item.status = plan.items.length > 0 ? 'done' : 'skipped';
+              } else if (existing && (params.on_conflict === 'skip' || (params.on_conflict === 'newer' && stats.mtimeMs <= existing.mtimeMs))) {
+                item.status = 'skipped';
+              } else {
+                const opId = generateOperationId();
+                const backup = !!existing && await journalBackup(opId, item.target!);
+                if (!await renameReplacing(item.path, item.target!, stats, existing)) {
+                  await moveAcrossDevices(item.path, item.target!, newJobProgress('bytes'), extra.signal);
+                }
+                const undoable = !existing || backup;
+                const recordedId = await recordOperation({ id: opId, tool: 'fc_batch_operation', type: 'move', from: item.path, to: item.target!, backup, undoable });
+                item.operation_id = undoable ? recordedId : undefined;
+                item.status = 'done';
+              }
+            } else if (operation === 'trash' || safeMode) {
+              const trashPath = await moveToTrash(item.path);
+              const opId = await recordOperation({ id: generateOperationId(), tool: 'fc_batch_operation', type: 'trash', path: item.path, isDirectory: stats.isDirectory(), trashPath: trashPath || undefined, undoable: !!trashPath });
+              item.operation_id = trashPath ? opId : undefined;
+              item.status = 'done';
+            } else {
+              const opId = generateOperationId();
+              const backup = await journalBackup(opId, item.path);
+              try {
+                await fs.rm(item.path, { recursive: stats.isDirectory() });
+              } catch (error) {
+                await fs.rm(path.join(journalBlobDir, opId), { recursive: true, force: true });
+                throw error;
+              }
+              const recordedId = await recordOperation({ id: opId, tool: 'fc_batch_operation', type: 'delete', path: item.path, isDirectory: stats.isDirectory(), backup, undoable: backup });
+              item.operation_id = backup ? recordedId : undefined;
+              item.status = 'done';
+            }
+          } catch (error) {
+            item.status = 'failed';
+            item.error = error instanceof Error ? error.message : String(error);
+            if (params.on_error === 'stop') halted = true;
+          }
+        }
+      } else if (stopped) {
+        for (const item of items) {
+          if (item.status === 'planned') item.status = 'not_run';
+        }
       }
 
-      await fs.unlink(filePath);
+      const count = (status: BatchItem['status']) => items.filter(item => item.status === status).length;
+      const data = {
+        operation,
+        dry_run: params.dry_run,
+        total: items.length,
+        succeeded: count('done'),
+        failed: count('failed'),
+        skipped: count('skipped'),
+        stopped: stopped || count('not_run') > 0,
+        items: items.map(({ stats: _stats, ...item }) => item)
+      };
 
-      return {
-        content: [{ type: "text", text: t().fc_delete_file.deleted(filePath) }]
+      const icons: Record<BatchItem['status'], string> = {
+        done: '\u2705', planned: '\uD83D\uDCCB', skipped: '\u23ED\uFE0F', failed: '\u274C', not_run: '\u23F8\uFE0F'
       };
+      const output = [
+        params.dry_run
+          ? t().fc_batch_operation.planHeader(operation, items.length - data.failed, data.failed)
+          : t().fc_batch_operation.header(operation, data.succeeded, data.failed, data.skipped), ''
+      ];
+      for (const item of items.slice(0, 100)) {
+        const target = item.target ? ` \u2192 ${item.target}` : '';
+        output.push(`  ${icons[item.status]} ${item.path}${target}${item.error ? ` - ${item.error}` : ''}`);
+      }
+      if (items.length > 100) output.push(`  ${t().fc_batch_operation.andMore(items.length - 100)}`);
+      if (stopped) output.push('', t().fc_batch_operation.stoppedInvalid);
+      else if (data.stopped) output.push('', t().fc_batch_operation.stoppedError(count('not_run')));
+      if (params.dry_run && !stopped && items.length > data.failed) output.push('', t().fc_batch_operation.setDryRunFalse);
+
+      return structuredResult(output.join('\n'), data, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      return {
-        isError: true,
-        content: [{ type: "text", text: t().fc_delete_file.deleteError(errorMsg) }]
-      };
+      return { isError: true, content: [{ type: "text", text: t().fc_batch_operation.batchError(errorMsg) }] };
     }
-  }
+  })
 );
 
 // ============================================================================
-// Tool: Delete Directory
+// Tool: Create Link
 // ============================================================================
 
 server.registerTool(
-  "fc_delete_directory",
+  "fc_create_link",
   {
-    title: "Delete Directory",
-    description: `Deletes a directory.
+    title: "Create Link",
+    description: `Creates a symbolic or hard link.
+
+Symbolic links may point to files or directories and may dangle. Relative targets
+are stored as given and resolve from the directory of the link. Hard links need an
+existing, writable file (no directory, not in a read-only root) on the same filesystem.
+With overwrite=true an existing file or link is replaced atomically, e.g. to switch a "current" release link.
 
 Args:
-  - path (string): Path to the directory
-  - recursive (boolean): Delete non-empty directories too
+  - target (string): What the link points to
+  - link_path (string): Path of the new link
+  - type (string, optional): "symbolic" | "hard" (default: symbolic)
+  - overwrite (boolean, optional): Replace an existing file or link, never a directory (default: false)
 
-Warning: With recursive=true ALL contents are irreversibly deleted!`,
+Returns:
+  - Link path, stored and resolved target, broken flag
+
+Example:
+  - Switch release: target="releases/v2", link_path="/srv/app/current", overwrite=true`,
     inputSchema: {
-      path: z.string().min(1).describe("Path to the directory"),
-      recursive: z.boolean().default(false).describe("Delete recursively")
+      target: z.string().min(1).describe("Link target"),
+      link_path: z.string().min(1).describe("Path of the new link"),
+      type: z.enum(["symbolic", "hard"]).default("symbolic").describe("Link type"),
+      overwrite: z.boolean().default(false).describe("Replace an existing file or link"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      link_path: z.string(),
+      target: z.string(),
+      resolved_target: z.string(),
+      type: z.enum(["symbolic", "hard"]),
+      broken: z.boolean(),
+      replaced: z.boolean()
     },
     annotations: {
       readOnlyHint: false,
       destructiveHint: true,
-      idempotentHint: true,
+      idempotentHint: false,
       openWorldHint: false
     }
   },
   async (params) => {
     try {
-      const dirPath = normalizePath(params.path);
-
-      if (!await pathExists(dirPath)) {
+      const linkPath = await resolvePath(params.link_path, 'write');
+      const resolvedTarget = path.resolve(path.dirname(linkPath), params.target);
+      // Auch das Ziel muss in den erlaubten Wurzeln liegen, sonst waere der Link ein Ausgang aus der Sandbox.
+      // Ein Hardlink teilt die Datei selbst: Schreiben ueber ihn aendert das Ziel, daher Schreibrecht
+      await resolvePath(resolvedTarget, params.type === 'hard' ? 'write' : 'read');
+
+      const existing = await fs.lstat(linkPath).catch(() => null);
+      if (existing?.isDirectory()) {
         return {
           isError: true,
-          content: [{ type: "text", text: t().common.dirNotFound(dirPath) }]
+          content: [{ type: "text", text: t().common.pathIsDirectory(linkPath) }]
         };
       }
-
-      const stats = await fs.stat(dirPath);
-      if (!stats.isDirectory()) {
+      if (existing && !params.overwrite) {
         return {
           isError: true,
-          content: [{ type: "text", text: t().common.pathIsNotDirectory(dirPath) }]
+          content: [{ type: "text", text: t().fc_create_link.exists(linkPath) }]
         };
       }
 
-      // Safe Mode: redirect to recycle bin
-      if (safeMode) {
-        await moveToTrash(dirPath);
+      const targetStats = await fs.stat(resolvedTarget).catch(() => null);
+      if (params.type === 'hard' && (!targetStats || targetStats.isDirectory())) {
         return {
-          content: [{ type: "text", text: t().fc_set_safe_mode.redirected('fc_delete_directory') + `\n${t().fc_safe_delete.propPath}: ${dirPath}` }]
+          isError: true,
+          content: [{ type: "text", text: t().fc_create_link.hardLinkTarget(resolvedTarget) }]
         };
       }
 
-      await fs.rm(dirPath, { recursive: params.recursive });
+      await fs.mkdir(path.dirname(linkPath), { recursive: true });
 
-      return {
-        content: [{ type: "text", text: t().fc_delete_directory.deleted(dirPath) }]
-      };
+      // Bestehende Eintraege per rename ersetzen, damit der Link nie fehlt
+      const createPath = existing ? `${linkPath}.fc-link-${process.pid}-${Date.now()}` : linkPath;
+      if (params.type === 'hard') {
+        await fs.link(resolvedTarget, createPath);
+      } else {
+        await createSymlink(params.target, createPath);
+      }
+      if (existing) {
+        try {
+          await fs.rename(createPath, linkPath);
+        } catch (error) {
+          await fs.unlink(createPath).catch(() => {});
+          throw error;
+        }
+      }
+
+      const broken = !targetStats;
+      const message = params.type === 'hard'
+        ? t().fc_create_link.hardCreated(linkPath, resolvedTarget)
+        : t().fc_create_link.symlinkCreated(linkPath, params.target);
+
+      return structuredResult(
+        message + (broken ? `\n${t().fc_create_link.dangling}` : ''),
+        { link_path: linkPath, target: params.target, resolved_target: resolvedTarget, type: params.type, broken, replaced: !!existing },
+        params.output_format
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      if (errorMsg.includes('ENOTEMPTY')) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: t().fc_delete_directory.notEmpty }]
-        };
-      }
       return {
         isError: true,
-        content: [{ type: "text", text: t().fc_delete_directory.deleteError(errorMsg) }]
+        content: [{ type: "text", text: t().fc_create_link.createError(errorMsg) }]
       };
     }
   }
 );
 
 // ============================================================================
-// Tool: Move/Rename
+// Tool: Sync
 // ============================================================================
 
 server.registerTool(
-  "fc_move",
+  "fc_sync",
   {
-    title: "Move/Rename",
-    description: `Moves or renames a file/directory.
+    title: "Sync Directories",
+    description: `Mirrors a source directory into a target (one-way, like rsync -a): copies only new
+and changed files and optionally deletes what is no longer in the source.
 
 Args:
-  - source (string): Source path
-  - destination (string): Destination path
+  - source (string): Source directory
+  - destination (string): Target directory (created if missing)
+  - compare (string, optional): "size_mtime" (fast) | "hash" (sha256 of files with equal size) (default: "size_mtime")
+  - delete (boolean, optional): Delete files and directories in the target that are not in the source (default: false)
+  - include (string[], optional): Only sync files matching these globs (e.g. ["*.{json,yaml}"])
+  - exclude (string[], optional): Skip files and directories matching these globs (e.g. ["*.log", "cache"])
+  - respect_ignore (boolean, optional): Skip paths excluded by .gitignore, .ignore and .fcignore (default: false)
+  - dry_run (boolean, optional): Only show the plan (default: true)
+
+Copied files keep their permissions and modification time, so the next run skips them. Symlinks are
+copied as links; pipes, sockets and devices are skipped. Excluded and ignored paths in the target are
+never deleted. In safe mode deletions go to the trash.
+
+Returns:
+  - Plan or summary: new, updated and deleted entries, unchanged files and bytes copied
 
 Examples:
-  - Rename: source="test.txt", destination="test_new.txt"
-  - Move: source="C:\\a\\test.txt", destination="C:\\b\\test.txt"`,
+  - Preview a backup: source: "/home/me/work", destination: "/mnt/backup/work"
+  - Deploy configs: source: "/repo/config", destination: "/etc/app", include: ["*.yaml"], delete: true, dry_run: false`,
     inputSchema: {
-      source: z.string().min(1).describe("Source path"),
-      destination: z.string().min(1).describe("Destination path")
+      source: z.string().min(1).describe("Source directory"),
+      destination: z.string().min(1).describe("Target directory"),
+      compare: z.enum(["size_mtime", "hash"]).default("size_mtime").describe("Change detection"),
+      delete: z.boolean().default(false).describe("Delete extra entries in the target"),
+      include: z.array(z.string()).optional().describe("Include globs"),
+      exclude: z.array(z.string()).optional().describe("Exclude globs"),
+      respect_ignore: z.boolean().default(false).describe("Honor .gitignore/.ignore/.fcignore"),
+      dry_run: z.boolean().default(true).describe("Preview only"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      source: z.string(),
+      destination: z.string(),
+      dry_run: z.boolean(),
+      created: z.array(z.string()),
+      updated: z.array(z.string()),
+      deleted: z.array(z.string()),
+      directories_created: z.number(),
+      unchanged: z.number(),
+      bytes_copied: z.number(),
+      skipped_special_files: z.number(),
+      errors: z.array(z.string())
     },
     annotations: {
       readOnlyHint: false,
       destructiveHint: true,
-      idempotentHint: false,
+      idempotentHint: true,
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     try {
-      const sourcePath = normalizePath(params.source);
-      const destPath = normalizePath(params.destination);
-      
-      if (!await pathExists(sourcePath)) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: t().common.sourceNotFound(sourcePath) }]
-        };
+      const sourcePath = await resolvePath(params.source, 'read');
+      const destPath = await resolvePath(params.destination, params.dry_run ? 'read' : 'write');
+
+      const sourceStats = await fs.stat(sourcePath).catch(() => null);
+      if (!sourceStats) {
+        return { isError: true, content: [{ type: "text", text: t().common.sourceNotFound(sourcePath) }] };
+      }
+      if (!sourceStats.isDirectory()) {
+        return { isError: true, content: [{ type: "text", text: t().common.pathIsNotDirectory(sourcePath) }] };
+      }
+      if (isPathInside(destPath, sourcePath) || isPathInside(sourcePath, destPath)) {
+        return { isError: true, content: [{ type: "text", text: t().fc_sync.nested(sourcePath, destPath) }] };
+      }
+      const destStats = await fs.stat(destPath).catch(() => null);
+      if (destStats && !destStats.isDirectory()) {
+        return { isError: true, content: [{ type: "text", text: t().common.pathIsNotDirectory(destPath) }] };
       }
 
-      // Create destination directory if needed
-      const destDir = path.dirname(destPath);
-      if (!await pathExists(destDir)) {
-        await fs.mkdir(destDir, { recursive: true });
+      const scanOptions = {
+        include: buildFileFilter(params.include),
+        exclude: buildFileFilter(params.exclude),
+        respectIgnore: params.respect_ignore
+      };
+      const run: RunContext = { signal: extra.signal, progress };
+      const source = await scanSyncTree(sourcePath, scanOptions, run);
+      const target = destStats ? await scanSyncTree(destPath, scanOptions, run) : { entries: new Map<string, SyncEntry>(), special: 0 };
+
+      // Plan: Eltern vor Kindern (sortierte Pfade)
+      const created: string[] = [];
+      const updated: string[] = [];
+      const replaced = new Set<string>();
+      const directories: string[] = [];
+      const errors: string[] = [];
+      let unchanged = 0;
+      let bytes = 0;
+
+      for (const rel of [...source.entries.keys()].sort()) {
+        extra.signal.throwIfAborted();
+        const entry = source.entries.get(rel)!;
+        const existing = target.entries.get(rel);
+
+        if (existing && existing.type !== entry.type) {
+          // Ein Verzeichnis im Ziel wird nur mit delete durch eine Datei ersetzt
+          if (existing.type === 'directory' && !params.delete) {
+            errors.push(t().fc_sync.typeConflict(rel));
+            continue;
+          }
+          replaced.add(rel);
+        }
+
+        if (entry.type === 'directory') {
+          if (!existing || replaced.has(rel)) directories.push(rel);
+          continue;
+        }
+
+        let changed: boolean;
+        if (!existing || replaced.has(rel)) {
+          changed = true;
+        } else if (entry.type === 'symlink') {
+          changed = entry.linkTarget !== existing.linkTarget;
+        } else if (entry.size !== existing.size) {
+          changed = true;
+        } else if (params.compare === 'hash') {
+          changed = await hashFile(path.join(sourcePath, rel), 'sha256', undefined, extra.signal)
+            !== await hashFile(path.join(destPath, rel), 'sha256', undefined, extra.signal);
+        } else {
+          // Sekundengenau wie rsync; Dateisysteme speichern mtime unterschiedlich fein
+          changed = Math.floor(entry.mtimeMs / 1000) !== Math.floor(existing.mtimeMs / 1000);
+        }
+
+        if (!changed) {
+          unchanged++;
+        } else {
+          (existing && !replaced.has(rel) ? updated : created).push(rel);
+          bytes += entry.size;
+        }
       }
 
-      await fs.rename(sourcePath, destPath);
+      // Ueberzaehlige Eintraege im Ziel; unterhalb geloeschter oder ersetzter Verzeichnisse nur den obersten
+      const deleted: string[] = [];
+      if (params.delete) {
+        for (const rel of [...target.entries.keys()].sort()) {
+          if (source.entries.has(rel)) continue;
+          if ([...deleted, ...replaced].some(parent => rel.startsWith(parent + '/'))) continue;
+          deleted.push(rel);
+        }
+      }
 
-      return {
-        content: [{ type: "text", text: t().fc_move.moved(sourcePath, destPath) }]
+      if (!params.dry_run) {
+        progress.total = progress.done + replaced.size + directories.length + created.length + updated.length + deleted.length;
+        await fs.mkdir(destPath, { recursive: true });
+        for (const rel of [...replaced].sort().reverse()) {
+          step(run, rel);
+          try {
+            await removeReplaced(path.join(destPath, rel));
+          } catch (error) {
+            errors.push(`${rel}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        for (const rel of directories) {
+          step(run, rel);
+          try {
+            await fs.mkdir(path.join(destPath, rel), { recursive: true });
+          } catch (error) {
+            errors.push(`${rel}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        for (const rel of [...created, ...updated]) {
+          step(run, rel);
+          const entry = source.entries.get(rel)!;
+          const targetFile = path.join(destPath, rel);
+          try {
+            await fs.mkdir(path.dirname(targetFile), { recursive: true });
+            if (entry.type === 'symlink') {
+              await fs.rm(targetFile, { force: true });
+              await createSymlink(entry.linkTarget!, targetFile);
+            } else {
+              await syncCopyFile(path.join(sourcePath, rel), targetFile, entry.mtimeMs);
+            }
+          } catch (error) {
+            errors.push(`${rel}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        for (const rel of deleted) {
+          step(run, rel);
+          const targetEntry = path.join(destPath, rel);
+          try {
+            await removeReplaced(targetEntry);
+          } catch (error) {
+            errors.push(`${rel}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      }
+
+      const structured = {
+        source: sourcePath,
+        destination: destPath,
+        dry_run: params.dry_run,
+        created,
+        updated,
+        deleted,
+        directories_created: directories.length,
+        unchanged,
+        bytes_copied: params.dry_run ? 0 : bytes,
+        skipped_special_files: source.special,
+        errors
+      };
+
+      const output = [
+        params.dry_run ? t().fc_sync.planHeader(sourcePath, destPath) : t().fc_sync.doneHeader(sourcePath, destPath), '',
+        `| | |`, `|---|---|`,
+        `| ${t().fc_sync.catNew} | ${created.length} |`,
+        `| ${t().fc_sync.catUpdated} | ${updated.length} |`,
+        `| ${t().fc_sync.catDeleted} | ${params.delete ? deleted.length : '-'} |`,
+        `| ${t().fc_sync.catUnchanged} | ${unchanged} |`,
+        `| ${t().fc_sync.catDirectories} | ${directories.length} |`,
+        `| ${params.dry_run ? t().fc_sync.labelToCopy : t().fc_sync.labelCopied} | ${formatFileSize(bytes)} |`
+      ];
+      const list = (title: string, icon: string, items: string[]) => {
+        if (items.length === 0) return;
+        output.push('', title, ...items.slice(0, 50).map(item => `  ${icon} ${item}`));
+        if (items.length > 50) output.push(`  ${t().fc_sync.andMore(items.length - 50)}`);
       };
+      list(t().fc_sync.listNew, '\uD83D\uDFE2', created);
+      list(t().fc_sync.listUpdated, '\uD83D\uDFE1', updated);
+      list(t().fc_sync.listDeleted, '\uD83D\uDD34', deleted);
+      if (source.special > 0) output.push('', t().fc_sync.skippedSpecial(source.special));
+      if (errors.length > 0) output.push('', ...errors.map(e => `  \u274C ${e}`));
+
+      if (params.dry_run) {
+        output.push('', created.length + updated.length + deleted.length + directories.length > 0
+          ? t().fc_sync.setDryRunFalse
+          : t().fc_sync.inSync);
+      }
+
+      return structuredResult(output.join('\n'), structured, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      return {
-        isError: true,
-        content: [{ type: "text", text: t().fc_move.moveError(errorMsg) }]
-      };
+      return { isError: true, content: [{ type: "text", text: t().fc_sync.syncError(errorMsg) }] };
     }
-  }
+  })
 );
 
 // ============================================================================
-// Tool: Copy
+// Tool: File Info
 // ============================================================================
 
 server.registerTool(
-  "fc_copy",
+  "fc_file_info",
   {
-    title: "Copy",
-    description: `Copies a file or directory.
+    title: "File Information",
+    description: `Shows detailed information about a file/directory.
+
+Symlinks are not followed: the link itself is described together with its
+target, the resolved path and whether the link is broken.
 
 Args:
-  - source (string): Source path
-  - destination (string): Destination path
-  - recursive (boolean): Copy directories recursively`,
+  - path (string): Path to the file/directory/link
+
+Returns:
+  - Size, type, creation/modification date, hard link count, inode
+  - Permissions (symbolic and octal), owner and group with uid/gid
+  - For symlinks: link target, resolved target, target type and size, broken flag
+  - For special files: fifo, socket, block_device or character_device`,
     inputSchema: {
-      source: z.string().min(1).describe("Source path"),
-      destination: z.string().min(1).describe("Destination path"),
-      recursive: z.boolean().default(true).describe("Copy recursively")
+      path: z.string().min(1).describe("Path to the file/directory"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      name: z.string(),
+      path: z.string(),
+      type: z.enum(["file", "directory", "symlink", "other"]),
+      size: z.number(),
+      created: z.string(),
+      modified: z.string(),
+      accessed: z.string(),
+      hard_links: z.number(),
+      inode: z.number(),
+      permissions: z.string(),
+      mode: z.string(),
+      owner: z.string(),
+      uid: z.number(),
+      gid: z.number(),
+      special: z.enum(["fifo", "socket", "block_device", "character_device"]).optional(),
+      link_target: z.string().optional(),
+      resolved_target: z.string().optional(),
+      broken: z.boolean().optional(),
+      target_type: z.enum(["file", "directory", "symlink", "other"]).optional(),
+      target_size: z.number().optional()
     },
     annotations: {
-      readOnlyHint: false,
+      readOnlyHint: true,
       destructiveHint: false,
-      idempotentHint: false,
+      idempotentHint: true,
       openWorldHint: false
     }
   },
   async (params) => {
     try {
-      const sourcePath = normalizePath(params.source);
-      const destPath = normalizePath(params.destination);
+      const targetPath = await resolvePath(params.path, 'read');
       
-      if (!await pathExists(sourcePath)) {
+      // lstat statt stat: Links selbst beschreiben, auch defekte
+      const stats = await fs.lstat(targetPath).catch(() => null);
+      if (!stats) {
         return {
           isError: true,
-          content: [{ type: "text", text: t().common.sourceNotFound(sourcePath) }]
+          content: [{ type: "text", text: t().common.pathNotFound(targetPath) }]
         };
       }
 
-      // Create destination directory if needed
-      const destDir = path.dirname(destPath);
-      if (!await pathExists(destDir)) {
-        await fs.mkdir(destDir, { recursive: true });
-      }
+      const type = getEntryType(stats);
+      const special = getSpecialType(stats);
+      const typeLabel = (entryType: FileEntryType): string => {
+        switch (entryType) {
+          case 'directory': return t().fc_file_info.typeDirectory;
+          case 'file': return t().fc_file_info.typeFile;
+          case 'symlink': return t().fc_file_info.typeSymlink;
+          default: return t().fc_file_info.typeOther;
+        }
+      };
+      const locale = getLanguage() === 'de' ? 'de-DE' : 'en-US';
+      const owner = await lookupOwner(stats.uid, stats.gid);
 
-      const stats = await fs.stat(sourcePath);
+      const info = [
+        t().fc_file_info.header(path.basename(targetPath)),
+        ``,
+        `| ${t().fc_file_info.propType} | ${special ? t().fc_file_info.specialTypes[special] : typeLabel(type)} |`,
+        `|-------------|------|`,
+        `| ${t().fc_file_info.propSize} | ${formatFileSize(stats.size)} |`,
+        `| ${t().fc_file_info.propCreated} | ${stats.birthtime.toLocaleString(locale)} |`,
+        `| ${t().fc_file_info.propModified} | ${stats.mtime.toLocaleString(locale)} |`,
+        `| ${t().fc_file_info.propAccessed} | ${stats.atime.toLocaleString(locale)} |`,
+        `| ${t().fc_file_info.propPermissions} | ${formatPermissions(stats.mode)} (${formatMode(stats.mode)}) |`,
+        `| ${t().fc_file_info.propOwner} | ${owner} (${stats.uid}:${stats.gid}) |`,
+        `| ${t().fc_file_info.propPath} | ${targetPath} |`
+      ];
 
-      if (stats.isDirectory()) {
-        await fs.cp(sourcePath, destPath, { recursive: params.recursive });
-      } else {
-        await fs.copyFile(sourcePath, destPath);
+      const data: {
+        link_target?: string;
+        resolved_target?: string;
+        broken?: boolean;
+        target_type?: FileEntryType;
+        target_size?: number;
+      } = {};
+
+      if (type === 'symlink') {
+        data.link_target = await fs.readlink(targetPath);
+        info.push(`| ${t().fc_file_info.propLinkTarget} | ${data.link_target} |`);
+        try {
+          data.resolved_target = await fs.realpath(targetPath);
+          const targetStats = await fs.stat(data.resolved_target);
+          data.broken = false;
+          data.target_type = getEntryType(targetStats);
+          data.target_size = targetStats.size;
+          info.push(
+            `| ${t().fc_file_info.propResolvedTarget} | ${data.resolved_target} |`,
+            `| ${t().fc_file_info.propTargetType} | ${typeLabel(data.target_type)} |`,
+            `| ${t().fc_file_info.propTargetSize} | ${formatFileSize(data.target_size)} |`
+          );
+        } catch {
+          data.resolved_target = undefined;
+          data.broken = true;
+          info.push('', t().fc_file_info.brokenLink);
+        }
+      } else if (type !== 'directory') {
+        // Bei Verzeichnissen zaehlt nlink die Unterverzeichnisse, das waere irrefuehrend
+        info.splice(info.length - 1, 0, `| ${t().fc_file_info.propHardLinks} | ${stats.nlink} |`);
       }
 
-      return {
-        content: [{ type: "text", text: t().fc_copy.copied(sourcePath, destPath) }]
-      };
+      return structuredResult(info.join('\n'), {
+        name: path.basename(targetPath),
+        path: targetPath,
+        type,
+        size: stats.size,
+        created: stats.birthtime.toISOString(),
+        modified: stats.mtime.toISOString(),
+        accessed: stats.atime.toISOString(),
+        hard_links: stats.nlink,
+        inode: stats.ino,
+        permissions: formatPermissions(stats.mode),
+        mode: formatMode(stats.mode),
+        owner,
+        uid: stats.uid,
+        gid: stats.gid,
+        special,
+        ...data
+      }, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         isError: true,
-        content: [{ type: "text", text: t().fc_copy.copyError(errorMsg) }]
+        content: [{ type: "text", text: t().common.errorGeneric(errorMsg) }]
       };
     }
   }
 );
 
 // ============================================================================
-// Tool: File Info
+// Tool: Set Attributes
 // ============================================================================
 
 server.registerTool(
-  "fc_file_info",
+  "fc_set_attributes",
   {
-    title: "File Information",
-    description: `Shows detailed information about a file/directory.
+    title: "Set Attributes",
+    description: `Changes permissions, owner and timestamps of a file or directory (chmod, chown, touch).
 
 Args:
   - path (string): Path to the file/directory
+  - mode (string, optional): Octal ("755", "0644") or symbolic ("+x", "u+x,go-w", "a=rX"); without u/g/o/a a clause applies to all, the umask is not used
+  - owner (string, optional): "user", "user:group" or ":group", names or numeric ids (needs privileges, not on Windows)
+  - touch (boolean, optional): Set access and modification time to now, creates a missing file (default: false)
+  - mtime (string, optional): Modification time as ISO date
+  - atime (string, optional): Access time as ISO date
+  - recursive (boolean, optional): Apply to all entries below a directory, symlinks are skipped (default: false)
+  - dry_run (boolean, optional): Only show what would change (default: false)
+
+Symlinks passed as path are followed, like chmod does. "X" sets execute only on
+directories and files that are already executable, e.g. mode="a+rX" with recursive=true.
 
 Returns:
-  - Size, type, creation/modification date, permissions`,
+  - Changed entries with old and new mode/owner/times
+
+Examples:
+  - Make a script executable: path="deploy.sh", mode="+x"
+  - Fix a tree: path="/srv/app", mode="u=rwX,go=rX", recursive=true, dry_run=true`,
     inputSchema: {
-      path: z.string().min(1).describe("Path to the file/directory")
+      path: z.string().min(1).describe("Path to the file/directory"),
+      mode: z.string().min(1).optional().describe("Octal or symbolic mode"),
+      owner: z.string().min(1).optional().describe("user, user:group or :group"),
+      touch: z.boolean().default(false).describe("Set times to now, create if missing"),
+      mtime: z.string().optional().describe("Modification time (ISO)"),
+      atime: z.string().optional().describe("Access time (ISO)"),
+      recursive: z.boolean().default(false).describe("Apply recursively"),
+      dry_run: z.boolean().default(false).describe("Preview only"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      dry_run: z.boolean(),
+      created: z.boolean(),
+      changes: z.array(z.object({
+        path: z.string(),
+        old_mode: z.string().optional(),
+        new_mode: z.string().optional(),
+        old_owner: z.string().optional(),
+        new_owner: z.string().optional(),
+        mtime: z.string().optional(),
+        atime: z.string().optional()
+      })),
+      unchanged: z.number(),
+      skipped_symlinks: z.number(),
+      errors: z.array(z.string())
     },
     annotations: {
-      readOnlyHint: true,
+      readOnlyHint: false,
       destructiveHint: false,
       idempotentHint: true,
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     try {
-      const targetPath = normalizePath(params.path);
-      
+      const targetPath = await resolvePath(params.path, params.dry_run ? 'read' : 'write');
+
+      if (!params.mode && !params.owner && !params.touch && !params.mtime && !params.atime) {
+        return { isError: true, content: [{ type: "text", text: t().fc_set_attributes.nothingToDo }] };
+      }
+      if (params.owner && process.platform === 'win32') {
+        return { isError: true, content: [{ type: "text", text: t().fc_set_attributes.ownerUnsupported }] };
+      }
+
+      // Eingaben vor dem ersten Zugriff pruefen, damit ein Tippfehler nichts halb aendert
+      if (params.mode) applyModeSpec(0, params.mode, false);
+      const owner = params.owner ? await parseOwnerSpec(params.owner) : undefined;
+      const parseTime = (value: string | undefined): Date | undefined => {
+        if (!value) return undefined;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) throw new Error(t().fc_set_attributes.invalidTime(value));
+        return date;
+      };
+      const now = new Date();
+      const mtime = parseTime(params.mtime) ?? (params.touch ? now : undefined);
+      const atime = parseTime(params.atime) ?? (params.touch ? now : undefined);
+
+      let created = false;
       if (!await pathExists(targetPath)) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: t().common.pathNotFound(targetPath) }]
+        if (!params.touch) {
+          return { isError: true, content: [{ type: "text", text: t().common.pathNotFound(targetPath) }] };
+        }
+        created = true;
+        if (!params.dry_run) {
+          await fs.writeFile(targetPath, '', { flag: 'a' });
+        }
+      }
+
+      const run: RunContext = { signal: extra.signal, progress };
+      const errors: string[] = [];
+      const targets: string[] = [];
+      let skippedSymlinks = 0;
+      if (!created || !params.dry_run) {
+        targets.push(targetPath);
+      }
+      if (params.recursive && !created && (await fs.stat(targetPath)).isDirectory()) {
+        const collect = async (dir: string): Promise<void> => {
+          let dirents: fsSync.Dirent[];
+          try {
+            dirents = await fs.readdir(dir, { withFileTypes: true });
+          } catch (error) {
+            errors.push(`${dir}: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+          }
+          for (const dirent of dirents) {
+            const fullPath = path.join(dir, dirent.name);
+            step(run, fullPath);
+            // chmod/chown auf Links wirkt auf das Ziel, das koennte ausserhalb des Baums liegen
+            if (dirent.isSymbolicLink()) {
+              skippedSymlinks++;
+              continue;
+            }
+            targets.push(fullPath);
+            if (dirent.isDirectory()) await collect(fullPath);
+          }
         };
+        await collect(targetPath);
       }
 
-      const stats = await fs.stat(targetPath);
-      const fileType = stats.isDirectory() ? t().fc_file_info.typeDirectory : stats.isFile() ? t().fc_file_info.typeFile : t().fc_file_info.typeOther;
-      const locale = getLanguage() === 'de' ? 'de-DE' : 'en-US';
+      const changes: {
+        path: string;
+        old_mode?: string;
+        new_mode?: string;
+        old_owner?: string;
+        new_owner?: string;
+        mtime?: string;
+        atime?: string;
+      }[] = [];
+      let unchanged = 0;
+
+      progress.total = progress.done + targets.length;
+      for (const entryPath of targets) {
+        step(run, entryPath);
+        try {
+          const stats = await fs.stat(entryPath);
+          const change: typeof changes[number] = { path: entryPath };
+
+          if (owner) {
+            const uid = owner.uid === -1 ? stats.uid : owner.uid;
+            const gid = owner.gid === -1 ? stats.gid : owner.gid;
+            if (uid !== stats.uid || gid !== stats.gid) {
+              change.old_owner = await lookupOwner(stats.uid, stats.gid);
+              change.new_owner = await lookupOwner(uid, gid);
+              if (!params.dry_run) await fs.chown(entryPath, uid, gid);
+            }
+          }
+          if (params.mode) {
+            const newMode = applyModeSpec(stats.mode, params.mode, stats.isDirectory());
+            if (newMode !== (stats.mode & 0o7777)) {
+              change.old_mode = formatMode(stats.mode);
+              change.new_mode = formatMode(newMode);
+              if (!params.dry_run) await fs.chmod(entryPath, newMode);
+            }
+          }
+          if (mtime || atime) {
+            change.mtime = (mtime ?? stats.mtime).toISOString();
+            change.atime = (atime ?? stats.atime).toISOString();
+            if (!params.dry_run) await fs.utimes(entryPath, atime ?? stats.atime, mtime ?? stats.mtime);
+          }
 
-      const info = [
-        t().fc_file_info.header(path.basename(targetPath)),
-        ``,
-        `| ${t().fc_file_info.propType} | ${fileType} |`,
-        `|-------------|------|`,
-        `| ${t().fc_file_info.propSize} | ${formatFileSize(stats.size)} |`,
-        `| ${t().fc_file_info.propCreated} | ${stats.birthtime.toLocaleString(locale)} |`,
-        `| ${t().fc_file_info.propModified} | ${stats.mtime.toLocaleString(locale)} |`,
-        `| ${t().fc_file_info.propAccessed} | ${stats.atime.toLocaleString(locale)} |`,
-        `| ${t().fc_file_info.propPath} | ${targetPath} |`
-      ];
+          if (Object.keys(change).length > 1) {
+            changes.push(change);
+          } else {
+            unchanged++;
+          }
+        } catch (error) {
+          errors.push(`${entryPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
 
-      return {
-        content: [{ type: "text", text: info.join('\n') }]
+      const describe = (change: typeof changes[number]): string => {
+        const parts: string[] = [];
+        if (change.new_mode) {
+          parts.push(`${formatPermissions(parseInt(change.old_mode!, 8))} (${change.old_mode}) \u2192 ${formatPermissions(parseInt(change.new_mode, 8))} (${change.new_mode})`);
+        }
+        if (change.new_owner) parts.push(`${change.old_owner} \u2192 ${change.new_owner}`);
+        if (change.mtime) parts.push(`mtime ${change.mtime}`);
+        return `  ${change.path}: ${parts.join(', ')}`;
       };
+
+      const lines = [params.dry_run ? t().fc_set_attributes.previewHeader(changes.length) : t().fc_set_attributes.applied(changes.length)];
+      if (created) lines.push(t().fc_set_attributes.created(targetPath));
+      lines.push(...changes.slice(0, 50).map(describe));
+      if (changes.length > 50) lines.push(`  ${t().fc_set_attributes.andMore(changes.length - 50)}`);
+      if (unchanged > 0) lines.push(t().fc_set_attributes.unchanged(unchanged));
+      if (skippedSymlinks > 0) lines.push(t().fc_set_attributes.skippedSymlinks(skippedSymlinks));
+      if (errors.length > 0) lines.push('', t().fc_set_attributes.errors(errors.length), ...errors.slice(0, 20).map(e => `  ${e}`));
+      if (params.dry_run && (changes.length > 0 || created)) lines.push('', t().fc_set_attributes.setDryRunFalse);
+
+      return structuredResult(lines.join('\n'), {
+        path: targetPath,
+        dry_run: params.dry_run,
+        created,
+        changes,
+        unchanged,
+        skipped_symlinks: skippedSymlinks,
+        errors
+      }, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         isError: true,
-        content: [{ type: "text", text: t().common.errorGeneric(errorMsg) }]
+        content: [{ type: "text", text: t().fc_set_attributes.setError(errorMsg) }]
       };
     }
-  }
+  })
 );
 
 // ============================================================================
@@ -991,17 +5519,33 @@ server.registerTool(
 
 Args:
   - directory (string): Start directory for the search
-  - pattern (string): Search pattern (supports * and ? wildcards)
+  - pattern (string | string[]): Glob pattern(s), case-insensitive
   - max_results (number, optional): Maximum results (default: 50)
+  - respect_ignore (boolean, optional): Skip paths excluded by .gitignore, .ignore and .fcignore (default: true)
+  - follow_symlinks (boolean, optional): Descend into symlinked directories, loops and links outside the allowed roots are skipped (default: false)
+
+Glob syntax: * (within a path segment), ** (any depth), ?, [abc] / [!abc], {a,b}.
+Patterns without "/" match the file name, patterns with "/" the path relative to the directory.
+A leading "!" excludes matches; a list of only negated patterns matches everything else.
 
 Examples:
   - pattern: "*.txt" - All text files
   - pattern: "test*" - Files starting with "test"
-  - pattern: "*.py" - All Python files`,
+  - pattern: "src/**/*.{ts,tsx}" - TypeScript files below src
+  - pattern: ["*.py", "!**/test/**"] - Python files outside test directories`,
     inputSchema: {
       directory: z.string().min(1).describe("Start directory"),
-      pattern: z.string().min(1).describe("Search pattern with wildcards"),
-      max_results: z.number().int().min(1).max(500).default(50).describe("Max results")
+      pattern: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).describe("Glob pattern(s)"),
+      max_results: z.number().int().min(1).max(500).default(50).describe("Max results"),
+      respect_ignore: z.boolean().default(true).describe("Honor .gitignore/.ignore/.fcignore"),
+      follow_symlinks: z.boolean().default(false).describe("Follow symlinked directories"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      directory: z.string(),
+      pattern: z.array(z.string()),
+      results: z.array(z.string()),
+      truncated: z.boolean()
     },
     annotations: {
       readOnlyHint: true,
@@ -1010,9 +5554,9 @@ Examples:
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     try {
-      const dirPath = normalizePath(params.directory);
+      const dirPath = await resolvePath(params.directory, 'read');
       
       if (!await pathExists(dirPath)) {
         return {
@@ -1021,40 +5565,214 @@ Examples:
         };
       }
 
-      // Convert wildcard pattern to regex
-      const regexPattern = params.pattern
-        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-        .replace(/\*/g, '.*')
-        .replace(/\?/g, '.');
-      const regex = new RegExp(`^${regexPattern}$`, 'i');
+      const patterns = Array.isArray(params.pattern) ? params.pattern : [params.pattern];
+      const patternString = patterns.join(', ');
+      const matchers = compileGlobs(patterns);
+
+      const results = await searchFilesRecursive(dirPath, matchers, params.max_results, params.respect_ignore, params.follow_symlinks, { signal: extra.signal, progress });
 
-      const results = await searchFilesRecursive(dirPath, regex, params.max_results);
+      const structured = { directory: dirPath, pattern: patterns, results, truncated: results.length >= params.max_results };
 
       if (results.length === 0) {
-        return {
-          content: [{ type: "text", text: t().fc_search_files.noResults(params.pattern) }]
-        };
+        return structuredResult(t().fc_search_files.noResults(patternString), structured, params.output_format);
       }
 
       const output = [
-        t().fc_search_files.resultsHeader(params.pattern),
+        t().fc_search_files.resultsHeader(patternString),
         t().fc_search_files.inDir(dirPath),
         `${t().fc_search_files.found(results.length)} ${results.length >= params.max_results ? t().fc_search_files.maxReached : ''}`,
         ``,
         ...results.map(r => `  \uD83D\uDCC4 ${r}`)
       ];
 
+      return structuredResult(output.join('\n'), structured, params.output_format);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
       return {
-        content: [{ type: "text", text: output.join('\n') }]
+        isError: true,
+        content: [{ type: "text", text: t().fc_search_files.searchError(errorMsg) }]
       };
+    }
+  })
+);
+
+// ============================================================================
+// Tool: Grep (Inhaltssuche)
+// ============================================================================
+
+server.registerTool(
+  "fc_grep",
+  {
+    title: "Search File Contents",
+    description: `Searches file contents for a literal string or regular expression.
+
+Args:
+  - path (string): File or start directory
+  - pattern (string): Search text or regex
+  - regex (boolean, optional): Treat pattern as regular expression (default: false)
+  - case_sensitive (boolean, optional): Case-sensitive matching (default: false)
+  - include (string[], optional): Only search files matching these globs (e.g. ["*.{ts,tsx}", "!**/test/**"])
+  - exclude (string[], optional): Skip files matching these globs
+  - context_before (number, optional): Lines of context before each match (default: 0)
+  - context_after (number, optional): Lines of context after each match (default: 0)
+  - max_matches_per_file (number, optional): Maximum matches per file (default: 20)
+  - max_results (number, optional): Maximum matches in total (default: 200)
+  - skip_binary (boolean, optional): Skip binary files (default: true)
+  - respect_ignore (boolean, optional): Skip paths excluded by .gitignore, .ignore and .fcignore (default: true)
+  - follow_symlinks (boolean, optional): Descend into symlinked directories, loops and links outside the allowed roots are skipped (default: false)
+
+Globs support **, {a,b}, [abc] and "!" negation (see fc_search_files). Globs without "/" match
+the file name, globs with "/" match the path relative to the start directory.
+
+Returns:
+  - Matches grouped by file with line numbers ("12:" = match, "13-" = context)
+
+Examples:
+  - path: "/project/src", pattern: "TODO", include: ["*.ts"]
+  - path: "/project", pattern: "def \\w+\\(", regex: true, context_after: 2`,
+    inputSchema: {
+      path: z.string().min(1).describe("File or start directory"),
+      pattern: z.string().min(1).describe("Search text or regex"),
+      regex: z.boolean().default(false).describe("Pattern is a regular expression"),
+      case_sensitive: z.boolean().default(false).describe("Case-sensitive"),
+      include: z.array(z.string()).optional().describe("Include globs"),
+      exclude: z.array(z.string()).optional().describe("Exclude globs"),
+      context_before: z.number().int().min(0).max(20).default(0).describe("Context lines before"),
+      context_after: z.number().int().min(0).max(20).default(0).describe("Context lines after"),
+      max_matches_per_file: z.number().int().min(1).max(1000).default(20).describe("Max matches per file"),
+      max_results: z.number().int().min(1).max(5000).default(200).describe("Max matches total"),
+      skip_binary: z.boolean().default(true).describe("Skip binary files"),
+      respect_ignore: z.boolean().default(true).describe("Honor .gitignore/.ignore/.fcignore"),
+      follow_symlinks: z.boolean().default(false).describe("Follow symlinked directories"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      pattern: z.string(),
+      total_matches: z.number(),
+      files_searched: z.number(),
+      binary_skipped: z.number(),
+      truncated: z.boolean(),
+      files: z.array(z.object({
+        file: z.string(),
+        matches: z.number(),
+        lines: z.array(z.object({ line: z.number(), text: z.string(), match: z.boolean() }))
+      }))
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  trackProgress('items', async (params, extra, progress) => {
+    try {
+      const targetPath = await resolvePath(params.path, 'read');
+
+      if (!await pathExists(targetPath)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.pathNotFound(targetPath) }]
+        };
+      }
+
+      let regex: RegExp;
+      try {
+        const source = params.regex ? params.pattern : params.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        regex = new RegExp(source, params.case_sensitive ? '' : 'i');
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().fc_grep.invalidRegex(errorMsg) }]
+        };
+      }
+
+      // Collect files
+      const stats = await fs.stat(targetPath);
+      const baseDir = stats.isDirectory() ? targetPath : path.dirname(targetPath);
+      const files: string[] = [];
+      const includeFilter = buildFileFilter(params.include);
+      const excludeFilter = buildFileFilter(params.exclude);
+      if (stats.isDirectory()) {
+        for await (const entry of walkFiles(targetPath, { respectIgnore: params.respect_ignore, followSymlinks: params.follow_symlinks, signal: extra.signal, progress })) {
+          if (!entry.isFile) continue;
+          if (includeFilter && !matchesGlobs(entry.relativePath, includeFilter)) continue;
+          if (excludeFilter && matchesGlobs(entry.relativePath, excludeFilter)) continue;
+          files.push(entry.fullPath);
+        }
+      } else {
+        files.push(targetPath);
+      }
+
+      const output: string[] = [];
+      let totalMatches = 0;
+      let matchedFiles = 0;
+      let scannedFiles = 0;
+      let skippedBinary = 0;
+      const fileResults: { file: string; matches: number; lines: GrepLine[] }[] = [];
+
+      // Nach dem Durchlauf eine Einheit pro Datei, der Fortschritt steigt weiter an
+      progress.total = progress.done + files.length;
+      for (const filePath of files) {
+        if (totalMatches >= params.max_results) break;
+        step({ signal: extra.signal, progress }, filePath);
+        try {
+          if (params.skip_binary && detectFileType(await readByteRange(filePath, 0, 8192)).binary) {
+            skippedBinary++;
+            continue;
+          }
+          scannedFiles++;
+          const result = await grepFile(filePath, regex, {
+            contextBefore: params.context_before,
+            contextAfter: params.context_after,
+            maxMatches: Math.min(params.max_matches_per_file, params.max_results - totalMatches),
+            signal: extra.signal
+          });
+          if (result.matches === 0) continue;
+
+          totalMatches += result.matches;
+          matchedFiles++;
+          const displayPath = stats.isDirectory() ? path.relative(baseDir, filePath) : filePath;
+          fileResults.push({ file: displayPath, matches: result.matches, lines: result.lines });
+          output.push(``, `\uD83D\uDCC4 ${displayPath}`);
+          output.push(...formatGrepLines(result.lines));
+        } catch {
+          // Unlesbare Dateien ueberspringen
+        }
+      }
+
+      const structured = {
+        path: targetPath,
+        pattern: params.pattern,
+        total_matches: totalMatches,
+        files_searched: scannedFiles,
+        binary_skipped: skippedBinary,
+        truncated: totalMatches >= params.max_results,
+        files: fileResults
+      };
+
+      if (totalMatches === 0) {
+        return structuredResult(t().fc_grep.noResults(params.pattern, scannedFiles), structured, params.output_format);
+      }
+
+      const header = [
+        t().fc_grep.resultsHeader(params.pattern),
+        t().fc_grep.inPath(targetPath),
+        `${t().fc_grep.summary(totalMatches, matchedFiles, scannedFiles)} ${totalMatches >= params.max_results ? t().fc_grep.maxReached : ''}`
+      ];
+      if (skippedBinary > 0) header.push(t().fc_grep.binarySkipped(skippedBinary));
+
+      return structuredResult([...header, ...output].join('\n'), structured, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         isError: true,
-        content: [{ type: "text", text: t().fc_search_files.searchError(errorMsg) }]
+        content: [{ type: "text", text: t().fc_grep.searchError(errorMsg) }]
       };
     }
-  }
+  })
 );
 
 // ============================================================================
@@ -1069,17 +5787,40 @@ server.registerTool(
 
 Args:
   - directory (string): Start directory
-  - pattern (string): Search pattern (wildcards: * and ?)
+  - pattern (string | string[]): Glob pattern(s) as in fc_search_files (**, {a,b}, [abc], !negation)
+  - content_pattern (string, optional): Also search file contents (files matching pattern only)
+  - regex (boolean, optional): content_pattern is a regular expression (default: false)
+  - case_sensitive (boolean, optional): Case-sensitive content matching (default: false)
+  - max_matches_per_file (number, optional): Maximum content matches per file (default: 20)
+  - respect_ignore (boolean, optional): Skip paths excluded by .gitignore, .ignore and .fcignore (default: true)
+  - follow_symlinks (boolean, optional): Descend into symlinked directories, loops and links outside the allowed roots are skipped (default: false)
+
+With content_pattern, binary files are skipped and each match is collected
+with file, line number and snippet.
 
 Returns:
   - Search ID for fc_get_search_results, fc_stop_search
 
 Example:
   Start search: fc_start_search("C:\\Users", "*.pdf")
+  Content search: fc_start_search("/repo", "*.ts", content_pattern: "TODO")
   Get results later: fc_get_search_results(search_id)`,
     inputSchema: {
       directory: z.string().min(1).describe("Start directory"),
-      pattern: z.string().min(1).describe("Search pattern with wildcards")
+      pattern: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).describe("Glob pattern(s)"),
+      content_pattern: z.string().min(1).optional().describe("Search text/regex for file contents"),
+      regex: z.boolean().default(false).describe("content_pattern is a regular expression"),
+      case_sensitive: z.boolean().default(false).describe("Case-sensitive content matching"),
+      max_matches_per_file: z.number().int().min(1).max(1000).default(20).describe("Max content matches per file"),
+      respect_ignore: z.boolean().default(true).describe("Honor .gitignore/.ignore/.fcignore"),
+      follow_symlinks: z.boolean().default(false).describe("Follow symlinked directories"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      search_id: z.string(),
+      directory: z.string(),
+      pattern: z.array(z.string()),
+      content_pattern: z.string().optional()
     },
     annotations: {
       readOnlyHint: true,
@@ -1090,7 +5831,7 @@ Example:
   },
   async (params) => {
     try {
-      const dirPath = normalizePath(params.directory);
+      const dirPath = await resolvePath(params.directory, 'read');
       
       if (!await pathExists(dirPath)) {
         return {
@@ -1099,12 +5840,23 @@ Example:
         };
       }
 
-      // Convert wildcard pattern to regex
-      const regexPattern = params.pattern
-        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-        .replace(/\*/g, '.*')
-        .replace(/\?/g, '.');
-      const regex = new RegExp(`^${regexPattern}$`, 'i');
+      const patterns = Array.isArray(params.pattern) ? params.pattern : [params.pattern];
+      const patternString = patterns.join(', ');
+      const matchers = compileGlobs(patterns);
+
+      let contentRegex: RegExp | undefined;
+      if (params.content_pattern) {
+        try {
+          const source = params.regex ? params.content_pattern : params.content_pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+          contentRegex = new RegExp(source, params.case_sensitive ? '' : 'i');
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: t().fc_start_search.invalidPattern(errorMsg) }]
+          };
+        }
+      }
 
       const searchId = generateSearchId();
       const abortController = new AbortController();
@@ -1112,13 +5864,20 @@ Example:
       const session: SearchSession = {
         id: searchId,
         directory: dirPath,
-        pattern: regex,
-        patternString: params.pattern,
+        pattern: matchers,
+        patternString,
         results: [],
         isRunning: true,
         startTime: new Date(),
         scannedDirs: 0,
-        abortController
+        abortController,
+        contentPattern: contentRegex,
+        contentPatternString: params.content_pattern,
+        maxMatchesPerFile: params.max_matches_per_file,
+        matches: [],
+        scannedFiles: 0,
+        respectIgnore: params.respect_ignore,
+        followSymlinks: params.follow_symlinks
       };
 
       searchSessions.set(searchId, session);
@@ -1130,12 +5889,12 @@ Example:
         session.isRunning = false;
       });
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_start_search.started(searchId, dirPath, params.pattern)}\n\n${t().fc_start_search.useGetResults}`
-        }]
-      };
+      return structuredResult(
+        `${t().fc_start_search.started(searchId, dirPath, patternString)}` +
+          `${params.content_pattern ? '\n' + t().fc_start_search.contentRow(params.content_pattern) : ''}\n\n${t().fc_start_search.useGetResults}`,
+        { search_id: searchId, directory: dirPath, pattern: patterns, content_pattern: params.content_pattern },
+        params.output_format
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
@@ -1166,7 +5925,23 @@ Returns:
     inputSchema: {
       search_id: z.string().min(1).describe("Search ID"),
       offset: z.number().int().min(0).default(0).describe("Start offset"),
-      limit: z.number().int().min(1).max(200).default(50).describe("Max results")
+      limit: z.number().int().min(1).max(200).default(50).describe("Max results"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      search_id: z.string(),
+      status: z.enum(["running", "done"]),
+      directory: z.string(),
+      pattern: z.string(),
+      content_pattern: z.string().optional(),
+      scanned_dirs: z.number(),
+      scanned_files: z.number().optional(),
+      total: z.number(),
+      runtime_seconds: z.number(),
+      offset: z.number(),
+      results: z.array(z.string()).optional(),
+      matches: z.array(z.object({ file: z.string(), line: z.number(), snippet: z.string() })).optional(),
+      has_more: z.boolean()
     },
     annotations: {
       readOnlyHint: true,
@@ -1187,8 +5962,13 @@ Returns:
 
     const status = session.isRunning ? t().fc_get_search_results.statusRunning : t().fc_get_search_results.statusDone;
     const runtime = Math.round((Date.now() - session.startTime.getTime()) / 1000);
-    const totalResults = session.results.length;
-    const paginatedResults = session.results.slice(params.offset, params.offset + params.limit);
+    const isContentSearch = session.contentPattern !== undefined;
+    const totalResults = isContentSearch ? session.matches.length : session.results.length;
+    const pageMatches = isContentSearch ? session.matches.slice(params.offset, params.offset + params.limit) : [];
+    const pageResults = isContentSearch ? [] : session.results.slice(params.offset, params.offset + params.limit);
+    const paginatedResults = isContentSearch
+      ? pageMatches.map(m => `  \uD83D\uDCC4 ${m.file}:${m.line}: ${m.snippet}`)
+      : pageResults.map(r => `  \uD83D\uDCC4 ${r}`);
     const hasMore = totalResults > params.offset + params.limit;
 
     const output = [
@@ -1197,23 +5977,37 @@ Returns:
       `| | |`,
       `|---|---|`,
       `| ${t().fc_get_search_results.labelPattern} | ${session.patternString} |`,
+      ...(isContentSearch ? [`| ${t().fc_get_search_results.labelContentPattern} | ${session.contentPatternString} |`] : []),
       `| ${t().fc_get_search_results.labelDirectory} | ${session.directory} |`,
       `| ${t().fc_get_search_results.labelScannedDirs} | ${session.scannedDirs} |`,
-      `| ${t().fc_get_search_results.labelFound(totalResults)} | |`,
+      ...(isContentSearch ? [`| ${t().fc_get_search_results.labelScannedFiles} | ${session.scannedFiles} |`] : []),
+      `| ${isContentSearch ? t().fc_get_search_results.labelMatches(totalResults, session.results.length) : t().fc_get_search_results.labelFound(totalResults)} | |`,
       `| ${t().fc_get_search_results.labelRuntime(runtime)} | |`,
       ``,
       t().fc_get_search_results.resultsRange(params.offset + 1, Math.min(params.offset + params.limit, totalResults), totalResults),
       ``,
-      ...paginatedResults.map(r => `  \uD83D\uDCC4 ${r}`)
+      ...paginatedResults
     ];
 
     if (hasMore) {
       output.push(``, t().fc_get_search_results.moreResults(params.search_id, params.offset + params.limit));
     }
 
-    return {
-      content: [{ type: "text", text: output.join('\n') }]
-    };
+    return structuredResult(output.join('\n'), {
+      search_id: session.id,
+      status: session.isRunning ? 'running' as const : 'done' as const,
+      directory: session.directory,
+      pattern: session.patternString,
+      content_pattern: session.contentPatternString,
+      scanned_dirs: session.scannedDirs,
+      scanned_files: isContentSearch ? session.scannedFiles : undefined,
+      total: totalResults,
+      runtime_seconds: runtime,
+      offset: params.offset,
+      results: isContentSearch ? undefined : pageResults,
+      matches: isContentSearch ? pageMatches : undefined,
+      has_more: hasMore
+    }, params.output_format);
   }
 );
 
@@ -1230,7 +6024,13 @@ server.registerTool(
 Args:
   - search_id (string): Search ID`,
     inputSchema: {
-      search_id: z.string().min(1).describe("Search ID")
+      search_id: z.string().min(1).describe("Search ID"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      search_id: z.string(),
+      stopped: z.boolean(),
+      total: z.number()
     },
     annotations: {
       readOnlyHint: false,
@@ -1249,18 +6049,24 @@ Args:
       };
     }
 
+    const total = session.contentPattern ? session.matches.length : session.results.length;
+
     if (!session.isRunning) {
-      return {
-        content: [{ type: "text", text: t().fc_stop_search.alreadyDone(session.results.length) }]
-      };
+      return structuredResult(
+        t().fc_stop_search.alreadyDone(total),
+        { search_id: session.id, stopped: false, total },
+        params.output_format
+      );
     }
 
     session.isRunning = false;
     session.abortController.abort();
 
-    return {
-      content: [{ type: "text", text: `${t().fc_stop_search.stopped(params.search_id)}\n${t().fc_stop_search.resultsSoFar(session.results.length)}` }]
-    };
+    return structuredResult(
+      `${t().fc_stop_search.stopped(params.search_id)}\n${t().fc_stop_search.resultsSoFar(total)}`,
+      { search_id: session.id, stopped: true, total },
+      params.output_format
+    );
   }
 );
 
@@ -1273,7 +6079,19 @@ server.registerTool(
   {
     title: "List Searches",
     description: `Lists all active and completed background searches.`,
-    inputSchema: {},
+    inputSchema: {
+      ...outputFormatParam
+    },
+    outputSchema: {
+      searches: z.array(z.object({
+        search_id: z.string(),
+        status: z.enum(["running", "done"]),
+        pattern: z.string(),
+        content_pattern: z.string().optional(),
+        total: z.number(),
+        runtime_seconds: z.number()
+      }))
+    },
     annotations: {
       readOnlyHint: true,
       destructiveHint: false,
@@ -1281,19 +6099,34 @@ server.registerTool(
       openWorldHint: false
     }
   },
-  async () => {
+  async (params) => {
     if (searchSessions.size === 0) {
-      return {
-        content: [{ type: "text", text: `${t().fc_list_searches.noSearches}\n\n${t().fc_list_searches.useStartSearch}` }]
-      };
+      return structuredResult(
+        `${t().fc_list_searches.noSearches}\n\n${t().fc_list_searches.useStartSearch}`,
+        { searches: [] },
+        params.output_format
+      );
     }
 
     const rows: string[] = [];
+    const searches = [];
 
     for (const [id, session] of searchSessions) {
       const status = session.isRunning ? '\uD83D\uDD04' : '\u2705';
       const runtime = Math.round((Date.now() - session.startTime.getTime()) / 1000);
-      rows.push(`| ${status} | \`${id}\` | ${session.patternString} | ${session.results.length} | ${runtime}s |`);
+      const pattern = session.contentPatternString
+        ? `${session.patternString} \u2192 "${session.contentPatternString}"`
+        : session.patternString;
+      const count = session.contentPattern ? session.matches.length : session.results.length;
+      rows.push(`| ${status} | \`${id}\` | ${pattern} | ${count} | ${runtime}s |`);
+      searches.push({
+        search_id: id,
+        status: session.isRunning ? 'running' as const : 'done' as const,
+        pattern: session.patternString,
+        content_pattern: session.contentPatternString,
+        total: count,
+        runtime_seconds: runtime
+      });
     }
 
     const output = [
@@ -1304,9 +6137,7 @@ server.registerTool(
       ...rows
     ];
 
-    return {
-      content: [{ type: "text", text: output.join('\n') }]
-    };
+    return structuredResult(output.join('\n'), { searches }, params.output_format);
   }
 );
 
@@ -1323,7 +6154,11 @@ server.registerTool(
 Args:
   - search_id (string): Search ID (or "all" for all completed)`,
     inputSchema: {
-      search_id: z.string().min(1).describe("Search ID or 'all'")
+      search_id: z.string().min(1).describe("Search ID or 'all'"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      removed: z.array(z.string())
     },
     annotations: {
       readOnlyHint: false,
@@ -1334,16 +6169,14 @@ Args:
   },
   async (params) => {
     if (params.search_id === "all") {
-      let count = 0;
+      const removed: string[] = [];
       for (const [id, session] of searchSessions) {
         if (!session.isRunning) {
           searchSessions.delete(id);
-          count++;
+          removed.push(id);
         }
       }
-      return {
-        content: [{ type: "text", text: t().fc_clear_search.cleared(count) }]
-      };
+      return structuredResult(t().fc_clear_search.cleared(removed.length), { removed }, params.output_format);
     }
 
     const session = searchSessions.get(params.search_id);
@@ -1364,9 +6197,192 @@ Args:
 
     searchSessions.delete(params.search_id);
 
-    return {
-      content: [{ type: "text", text: t().fc_clear_search.removed(params.search_id) }]
-    };
+    return structuredResult(t().fc_clear_search.removed(params.search_id), { removed: [params.search_id] }, params.output_format);
+  }
+);
+
+// ============================================================================
+// Tool: Job Status
+// ============================================================================
+
+/** Statusanzeige fuer Jobs */
+function jobStatusLabel(status: Job['status']): string {
+  return status === 'running' ? t().fc_job_status.statusRunning
+    : status === 'done' ? t().fc_job_status.statusDone
+    : status === 'cancelled' ? t().fc_job_status.statusCancelled
+    : t().fc_job_status.statusFailed;
+}
+
+/** Fortschritt als "42% (1.2 MB / 2.9 MB)" bzw. "42% (420 / 1000)", ohne bekannte Gesamtmenge nur "420" */
+function formatJobProgress(data: Omit<ReturnType<typeof jobData>, 'result'>): string {
+  if (data.total === 0) {
+    return data.unit === 'bytes' ? formatFileSize(data.done) : String(data.done);
+  }
+  const amount = data.unit === 'bytes'
+    ? `${formatFileSize(data.done)} / ${formatFileSize(data.total)}`
+    : `${data.done} / ${data.total}`;
+  return `${data.percent}% (${amount})`;
+}
+
+server.registerTool(
+  "fc_job_status",
+  {
+    title: "Job Status",
+    description: `Shows the progress and, once finished, the result of a background job.
+
+Long-running tools start jobs: fc_copy and fc_move above background_threshold_mb,
+and fc_detect_duplicates, fc_checksum and fc_archive with background=true.
+
+Args:
+  - job_id (string): Job ID
+  - wait_seconds (number, optional): Wait up to this long for the job to finish (default: 0);
+    sends progress notifications meanwhile if the request carries a progress token
+
+Returns:
+  - Status, progress (bytes or items), ETA and the tool's result when done`,
+    inputSchema: {
+      job_id: z.string().min(1).describe("Job ID"),
+      wait_seconds: z.number().int().min(0).max(300).default(0).describe("Wait for completion"),
+      ...outputFormatParam
+    },
+    outputSchema: jobSchema.shape,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params, extra) => {
+    const job = jobs.get(params.job_id);
+    if (!job) {
+      return { isError: true, content: [{ type: "text", text: t().fc_job_status.notFound(params.job_id) }] };
+    }
+
+    if (params.wait_seconds > 0 && job.status === 'running') {
+      const deadline = Date.now() + params.wait_seconds * 1000;
+      const waitForJob = async () => {
+        while (job.status === 'running' && Date.now() < deadline && !extra.signal.aborted) {
+          await new Promise(resolve => setTimeout(resolve, 200));
+        }
+      };
+      await withProgress(extra, job.progress, waitForJob());
+    }
+
+    const data = jobData(job);
+    const output = [
+      t().fc_job_status.header(job.tool, job.label, jobStatusLabel(job.status)), '',
+      `| | |`, `|---|---|`,
+      `| ${t().fc_job_status.labelProgress} | ${formatJobProgress(data)} |`,
+      ...(data.files_total !== undefined ? [`| ${t().fc_job_status.labelFiles} | ${data.files_done} / ${data.files_total} |`] : []),
+      ...(data.current ? [`| ${t().fc_job_status.labelCurrent} | ${data.current} |`] : []),
+      `| ${t().fc_job_status.labelRuntime} | ${data.runtime_seconds}s |`,
+      ...(data.eta_seconds !== undefined ? [`| ${t().fc_job_status.labelEta} | ${data.eta_seconds}s |`] : [])
+    ];
+    if (job.error) output.push('', `\u274c ${job.error}`);
+    if (job.result) output.push('', job.result.text);
+    if (job.status === 'running') output.push('', t().fc_job_status.useJobStatus(job.id));
+
+    return structuredResult(output.join('\n'), data, params.output_format);
+  }
+);
+
+// ============================================================================
+// Tool: Job Cancel
+// ============================================================================
+
+server.registerTool(
+  "fc_job_cancel",
+  {
+    title: "Cancel Job",
+    description: `Cancels a running background job.
+
+Args:
+  - job_id (string): Job ID
+
+The job stops at its next checkpoint; the reported status is the one it actually ended
+with, so a job that was already finishing is reported as completed. A cancelled copy keeps
+the files copied so far, a cancelled cross-device move leaves the source untouched.`,
+    inputSchema: {
+      job_id: z.string().min(1).describe("Job ID"),
+      ...outputFormatParam
+    },
+    outputSchema: jobSchema.shape,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    const job = jobs.get(params.job_id);
+    if (!job) {
+      return { isError: true, content: [{ type: "text", text: t().fc_job_status.notFound(params.job_id) }] };
+    }
+
+    if (job.status !== 'running') {
+      return structuredResult(t().fc_job_cancel.notRunning(job.id, jobStatusLabel(job.status)), jobData(job), params.output_format);
+    }
+
+    // Nur abbrechen und kurz auf das tatsaechliche Ende warten; den Status setzt startJob
+    job.abortController.abort();
+    await Promise.race([job.settled, new Promise(resolve => setTimeout(resolve, CANCEL_WAIT_MS))]);
+
+    const status: Job['status'] = job.status as Job['status'];
+    const text = status === 'cancelled' ? t().fc_job_cancel.cancelled(job.id)
+      : status === 'running' ? t().fc_job_cancel.cancelRequested(job.id)
+      : t().fc_job_cancel.notRunning(job.id, jobStatusLabel(status));
+    return structuredResult(text, jobData(job), params.output_format);
+  }
+);
+
+// ============================================================================
+// Tool: Job List
+// ============================================================================
+
+server.registerTool(
+  "fc_job_list",
+  {
+    title: "List Jobs",
+    description: `Lists background jobs with their progress (the last ${MAX_JOBS} are kept).
+
+Args:
+  - status (string, optional): Only jobs with this status: "running" | "done" | "cancelled" | "failed"`,
+    inputSchema: {
+      status: z.enum(["running", "done", "cancelled", "failed"]).optional().describe("Status filter"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      jobs: z.array(jobSchema.omit({ result: true }))
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    const list = [...jobs.values()]
+      .filter(job => !params.status || job.status === params.status)
+      .map(job => {
+        const { result: _result, ...data } = jobData(job);
+        return data;
+      });
+
+    if (list.length === 0) {
+      return structuredResult(t().fc_job_list.noJobs, { jobs: [] }, params.output_format);
+    }
+
+    const output = [
+      t().fc_job_list.header(list.length), '',
+      `| ${t().fc_job_list.colStatus} | ${t().fc_job_list.colJobId} | ${t().fc_job_list.colTool} | ${t().fc_job_list.colTask} | ${t().fc_job_list.colProgress} | ${t().fc_job_list.colRuntime} |`,
+      `|---|---|---|---|---|---|`,
+      ...list.map(job => `| ${jobStatusLabel(job.status)} | \`${job.job_id}\` | ${job.tool} | ${job.label} | ${formatJobProgress(job)} | ${job.runtime_seconds}s |`)
+    ];
+
+    return structuredResult(output.join('\n'), { jobs: list }, params.output_format);
   }
 );
 
@@ -1377,94 +6393,322 @@ Args:
 server.registerTool(
   "fc_safe_delete",
   {
-    title: "Safe Delete (Recycle Bin)",
-    description: `Moves files/directories to recycle bin instead of deleting them.
+    title: "Safe Delete (Recycle Bin)",
+    description: `Moves files/directories to recycle bin instead of deleting them.
+
+Args:
+  - path (string): Path to the file/directory
+
+SAFE: Can be restored from the recycle bin!
+
+Note: Uses the Windows recycle bin, on other systems the freedesktop.org
+trash (~/.local/share/Trash). Restore with fc_trash_restore.`,
+    inputSchema: {
+      path: z.string().min(1).describe("Path to the file/directory"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      type: z.enum(["file", "directory"]),
+      trash_path: z.string().optional(),
+      operation_id: z.string().optional()
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,  // Nicht destructive weil wiederherstellbar!
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    try {
+      const targetPath = await resolvePath(params.path, 'write');
+      
+      const stats = await fs.lstat(targetPath).catch(() => null);
+      if (!stats) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.pathNotFound(targetPath) }]
+        };
+      }
+
+      const itemType = stats.isDirectory() ? t().fc_safe_delete.typeDirectory : t().fc_safe_delete.typeFile;
+      const type = stats.isDirectory() ? 'directory' as const : 'file' as const;
+      const trashPath = await moveToTrash(targetPath);
+
+      if (!trashPath) {
+        // Windows Papierkorb
+        return structuredResult(
+          `${t().fc_safe_delete.movedToTrash}\n\n| | |\n|---|---|\n| ${t().fc_safe_delete.propType} | ${itemType} |\n| ${t().fc_safe_delete.propPath} | ${targetPath} |\n\n${t().fc_safe_delete.canRestore}`,
+          { path: targetPath, type },
+          params.output_format
+        );
+      }
+
+      const opId = await recordOperation({ id: generateOperationId(), tool: 'fc_safe_delete', type: 'trash', path: targetPath, isDirectory: stats.isDirectory(), trashPath });
+
+      return structuredResult(
+        `${t().fc_safe_delete.movedToTrash}\n\n| | |\n|---|---|\n| ${t().fc_safe_delete.propType} | ${itemType} |\n| ${t().fc_safe_delete.propOriginal} | ${targetPath} |\n| ${t().fc_safe_delete.propTrash} | ${trashPath} |\n\n${t().fc_safe_delete.canRestore}\n${t().fc_safe_delete.useTrashRestore}${journalNote(opId)}`,
+        { path: targetPath, type, trash_path: trashPath, operation_id: opId },
+        params.output_format
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        isError: true,
+        content: [{ type: "text", text: t().fc_safe_delete.trashError(errorMsg) }]
+      };
+    }
+  }
+);
+
+// ============================================================================
+// Tool: Trash List
+// ============================================================================
+
+server.registerTool(
+  "fc_trash_list",
+  {
+    title: "List Trash",
+    description: `Lists items in the trash with their original location and deletion time.
+
+Args:
+  - filter (string, optional): Only show items whose original path contains this text
+  - limit (number, optional): Maximum number of items (default: 50)
+
+Returns:
+  - Table with trash name, original path, deletion date and size
+
+Note: Unix only (freedesktop.org trash). The Windows recycle bin is managed by Explorer.`,
+    inputSchema: {
+      filter: z.string().optional().describe("Filter by original path"),
+      limit: z.number().int().min(1).max(500).default(50).describe("Max items"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      trash_dir: z.string(),
+      total: z.number(),
+      items: z.array(z.object({
+        name: z.string(),
+        original_path: z.string(),
+        deleted_at: z.string(),
+        size: z.number()
+      }))
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  trackProgress('items', async (params, extra, progress) => {
+    try {
+      if (process.platform === 'win32') {
+        return { isError: true, content: [{ type: "text", text: t().fc_trash_list.windowsUnsupported }] };
+      }
+
+      const needle = params.filter?.toLowerCase();
+      const items = (await listTrash()).filter(i => !needle || i.originalPath.toLowerCase().includes(needle));
+
+      if (items.length === 0) {
+        return structuredResult(t().fc_trash_list.empty(getTrashDir()), { trash_dir: getTrashDir(), total: 0, items: [] }, params.output_format);
+      }
+
+      const locale = getLanguage() === 'de' ? 'de-DE' : 'en-US';
+      const rows: string[] = [];
+      const listed: { name: string; original_path: string; deleted_at: string; size: number }[] = [];
+      let totalSize = 0;
+      progress.total = Math.min(items.length, params.limit);
+      for (const item of items.slice(0, params.limit)) {
+        step({ signal: extra.signal, progress }, item.originalPath);
+        const size = await getTotalSize(item.trashPath, { signal: extra.signal }).catch(() => 0);
+        totalSize += size;
+        rows.push(`| \`${item.name}\` | ${item.originalPath} | ${item.deletedAt.toLocaleString(locale)} | ${formatFileSize(size)} |`);
+        listed.push({ name: item.name, original_path: item.originalPath, deleted_at: item.deletedAt.toISOString(), size });
+      }
+
+      const output = [
+        t().fc_trash_list.header(items.length, getTrashDir()), '',
+        `| ${t().fc_trash_list.colName} | ${t().fc_trash_list.colOriginal} | ${t().fc_trash_list.colDeleted} | ${t().fc_trash_list.colSize} |`,
+        `|---|---|---|---|`,
+        ...rows
+      ];
+      if (items.length > params.limit) {
+        output.push('', t().fc_trash_list.andMore(items.length - params.limit));
+      }
+      output.push('', t().fc_trash_list.useRestore);
+
+      return structuredResult(output.join('\n'), { trash_dir: getTrashDir(), total: items.length, items: listed }, params.output_format);
+    } catch (error) {
+      return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
+    }
+  })
+);
+
+// ============================================================================
+// Tool: Trash Restore
+// ============================================================================
+
+server.registerTool(
+  "fc_trash_restore",
+  {
+    title: "Restore from Trash",
+    description: `Restores an item from the trash to its original location (or a new one).
+
+Args:
+  - name (string, optional): Name of the item in the trash (see fc_trash_list)
+  - original_path (string, optional): Original path; the most recently deleted match is restored
+  - destination (string, optional): Restore to this path instead of the original location
+  - overwrite (boolean, optional): Replace an existing file at the target (default: false)
+
+One of name or original_path is required. In safe mode a replaced target goes to the trash.`,
+    inputSchema: {
+      name: z.string().optional().describe("Name in the trash"),
+      original_path: z.string().optional().describe("Original path"),
+      destination: z.string().optional().describe("Alternative target path"),
+      overwrite: z.boolean().default(false).describe("Overwrite existing target"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      name: z.string(),
+      restored_to: z.string()
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    try {
+      if (process.platform === 'win32') {
+        return { isError: true, content: [{ type: "text", text: t().fc_trash_list.windowsUnsupported }] };
+      }
+      if (!params.name && !params.original_path) {
+        return { isError: true, content: [{ type: "text", text: t().fc_trash_restore.nameOrPathRequired }] };
+      }
+
+      const items = await listTrash();
+      const wanted = params.original_path ? path.resolve(normalizePath(params.original_path)) : null;
+      const item = items.find(i => params.name ? i.name === params.name : i.originalPath === wanted);
+
+      if (!item) {
+        return { isError: true, content: [{ type: "text", text: t().fc_trash_restore.notFound(params.name ?? params.original_path!) }] };
+      }
+
+      const target = await resolvePath(params.destination ?? item.originalPath, 'write');
+      if (await fs.lstat(target).catch(() => null)) {
+        if (!params.overwrite) {
+          return { isError: true, content: [{ type: "text", text: t().fc_trash_restore.targetExists(target) }] };
+        }
+        await removeReplaced(target);
+      }
+
+      await restoreFromTrash(item.trashPath, target);
+
+      // Der zugehoerige trash-Eintrag im Journal ist damit erledigt
+      if (journalEnabled) {
+        await updateJournal(entries => {
+          for (const entry of entries) {
+            if (entry.type === 'trash' && entry.trashPath === item.trashPath) entry.undone = true;
+          }
+        }).catch(() => {});
+      }
+
+      return structuredResult(t().fc_trash_restore.restored(item.name, target), { name: item.name, restored_to: target }, params.output_format);
+    } catch (error) {
+      return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
+    }
+  }
+);
+
+// ============================================================================
+// Tool: Trash Empty
+// ============================================================================
+
+server.registerTool(
+  "fc_trash_empty",
+  {
+    title: "Empty Trash",
+    description: `Permanently deletes items from the trash.
 
 Args:
-  - path (string): Path to the file/directory
-
-SAFE: Can be restored from the recycle bin!
+  - older_than_days (number, optional): Only purge items deleted more than N days ago
+  - name (string, optional): Only purge this single item
+  - dry_run (boolean): Only show what would be purged (default: true)
 
-Note: Uses Windows recycle bin or creates backup on other systems.`,
+Warning: Purged items cannot be restored!`,
     inputSchema: {
-      path: z.string().min(1).describe("Path to the file/directory")
+      older_than_days: z.number().min(0).optional().describe("Minimum age in days"),
+      name: z.string().optional().describe("Single item name"),
+      dry_run: z.boolean().default(true).describe("Preview only"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      dry_run: z.boolean(),
+      total_size: z.number(),
+      items: z.array(z.object({
+        name: z.string(),
+        original_path: z.string(),
+        deleted_at: z.string(),
+        size: z.number()
+      }))
     },
     annotations: {
       readOnlyHint: false,
-      destructiveHint: false,  // Nicht destructive weil wiederherstellbar!
+      destructiveHint: true,
       idempotentHint: true,
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     try {
-      const targetPath = normalizePath(params.path);
-      
-      if (!await pathExists(targetPath)) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: t().common.pathNotFound(targetPath) }]
-        };
+      if (process.platform === 'win32') {
+        return { isError: true, content: [{ type: "text", text: t().fc_trash_list.windowsUnsupported }] };
       }
 
-      const stats = await fs.stat(targetPath);
-      const itemType = stats.isDirectory() ? t().fc_safe_delete.typeDirectory : t().fc_safe_delete.typeFile;
-      const isWindows = process.platform === 'win32';
-        // Windows: PowerShell mit VisualBasic für echten Papierkorb
-      if (isWindows) {
-        // Windows: PowerShell mit VisualBasic für echten Papierkorb
-        const escapedPath = targetPath.replace(/'/g, "''");
-        const deleteMethod = stats.isDirectory() ? 'DeleteDirectory' : 'DeleteFile';
-        
-        const psCommand = `Add-Type -AssemblyName Microsoft.VisualBasic; [Microsoft.VisualBasic.FileIO.FileSystem]::${deleteMethod}('${escapedPath}', 'OnlyErrorDialogs', 'SendToRecycleBin')`;
-
-        const windowsShell = getWindowsShell();
-        if (windowsShell.includes('powershell')) {
-          await execAsync(`"${windowsShell}" -Command "${psCommand}"`);
-        } else {
-          // cmd.exe kann kein PowerShell - normales Löschen als Fallback
-          if (stats.isDirectory()) {
-            await fs.rm(targetPath, { recursive: true });
-          } else {
-            await fs.unlink(targetPath);
-          }
-        }
-        return {
-          content: [{
-            type: "text",
-            text: `${t().fc_safe_delete.movedToTrash}\n\n| | |\n|---|---|\n| ${t().fc_safe_delete.propType} | ${itemType} |\n| ${t().fc_safe_delete.propPath} | ${targetPath} |\n\n${t().fc_safe_delete.canRestore}`
-          }]
-        };
-      } else {
-        // Unix/Mac: Verschiebe in ~/.Trash oder erstelle Backup
-        const trashDir = path.join(process.env.HOME || '/tmp', '.Trash');
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const baseName = path.basename(targetPath);
-        const trashPath = path.join(trashDir, `${baseName}_${timestamp}`);
+      const cutoff = params.older_than_days !== undefined ? Date.now() - params.older_than_days * 86400000 : Infinity;
+      const items = (await listTrash()).filter(i =>
+        (!params.name || i.name === params.name) && i.deletedAt.getTime() <= cutoff
+      );
 
-        try {
-          await fs.access(trashDir);
-        } catch {
-          await fs.mkdir(trashDir, { recursive: true });
+      if (items.length === 0) {
+        return structuredResult(t().fc_trash_empty.nothingToPurge, { dry_run: params.dry_run, total_size: 0, items: [] }, params.output_format);
+      }
+
+      let totalSize = 0;
+      const lines: string[] = [];
+      const purged: { name: string; original_path: string; deleted_at: string; size: number }[] = [];
+      progress.total = items.length;
+      for (const item of items) {
+        step({ signal: extra.signal, progress }, item.originalPath);
+        const size = await getTotalSize(item.trashPath, { signal: extra.signal }).catch(() => 0);
+        totalSize += size;
+        lines.push(`  🗑️ ${item.name} ← ${item.originalPath} (${formatFileSize(size)})`);
+        purged.push({ name: item.name, original_path: item.originalPath, deleted_at: item.deletedAt.toISOString(), size });
+        if (!params.dry_run) {
+          await fs.rm(item.trashPath, { recursive: true, force: true });
+          await fs.rm(item.infoPath, { force: true });
         }
+      }
 
-        await fs.rename(targetPath, trashPath);
+      const output = [
+        params.dry_run
+          ? t().fc_trash_empty.previewHeader(items.length, formatFileSize(totalSize))
+          : t().fc_trash_empty.purgedHeader(items.length, formatFileSize(totalSize)),
+        '',
+        ...lines.slice(0, 100)
+      ];
+      if (items.length > 100) output.push(`  ${t().fc_trash_list.andMore(items.length - 100)}`);
+      if (params.dry_run) output.push('', t().fc_trash_empty.setDryRunFalse);
 
-        return {
-          content: [{
-            type: "text",
-            text: `${t().fc_safe_delete.movedToTrash}\n\n| | |\n|---|---|\n| ${t().fc_safe_delete.propType} | ${itemType} |\n| ${t().fc_safe_delete.propOriginal} | ${targetPath} |\n| ${t().fc_safe_delete.propTrash} | ${trashPath} |\n\n${t().fc_safe_delete.canRestore}`
-          }]
-        };
-      }
+      return structuredResult(output.join('\n'), { dry_run: params.dry_run, total_size: totalSize, items: purged }, params.output_format);
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      return {
-        isError: true,
-        content: [{ type: "text", text: t().fc_safe_delete.trashError(errorMsg) }]
-      };
+      return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
     }
-  }
+  })
 );
 
 // ============================================================================
@@ -1491,7 +6735,14 @@ Examples:
     inputSchema: {
       command: z.string().min(1).describe("Command to execute"),
       cwd: z.string().optional().describe("Working directory"),
-      timeout: z.number().int().min(1000).max(300000).default(30000).describe("Timeout in ms")
+      timeout: z.number().int().min(1000).max(300000).default(30000).describe("Timeout in ms"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      command: z.string(),
+      cwd: z.string().optional(),
+      stdout: z.string(),
+      stderr: z.string()
     },
     annotations: {
       readOnlyHint: false,
@@ -1500,16 +6751,23 @@ Examples:
       openWorldHint: true
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     try {
-      const options: { cwd?: string; timeout: number } = {
-        timeout: params.timeout
+      const options: { cwd?: string; timeout: number; signal: AbortSignal } = {
+        timeout: params.timeout,
+        signal: extra.signal
       };
       
-      if (params.cwd) {
-        options.cwd = normalizePath(params.cwd);
-      }
-      const { stdout, stderr } = await executeCommand(params.command, options);
+      options.cwd = await resolveWorkingDirectory(params.cwd);
+
+      // Laufzeit in Sekunden als Fortschritt, das Zeitlimit als Gesamtwert
+      const started = Date.now();
+      progress.total = Math.ceil(params.timeout / 1000);
+      progress.current = params.command;
+      const timer = setInterval(() => {
+        progress.done = Math.floor((Date.now() - started) / 1000);
+      }, 1000);
+      const { stdout, stderr } = await executeCommand(params.command, options).finally(() => clearInterval(timer));
 
       const output: string[] = [t().fc_execute_command.commandLabel(params.command)];
 
@@ -1524,10 +6782,8 @@ Examples:
       if (!stdout.trim() && !stderr.trim()) {
         output.push(`\n${t().fc_execute_command.noOutput}`);
       }
-      
-      return {
-        content: [{ type: "text", text: output.join('') }]
-      };
+
+      return structuredResult(output.join(''), { command: params.command, cwd: options.cwd, stdout, stderr }, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
@@ -1535,7 +6791,7 @@ Examples:
         content: [{ type: "text", text: t().fc_execute_command.execError(errorMsg) }]
       };
     }
-  }
+  })
 );
 
 // ============================================================================
@@ -1560,7 +6816,13 @@ Examples:
     inputSchema: {
       program: z.string().min(1).describe("Program/Executable"),
       args: z.array(z.string()).default([]).describe("Arguments"),
-      cwd: z.string().optional().describe("Working directory")
+      cwd: z.string().optional().describe("Working directory"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      program: z.string(),
+      args: z.array(z.string()),
+      pid: z.number().optional()
     },
     annotations: {
       readOnlyHint: false,
@@ -1576,21 +6838,18 @@ Examples:
         stdio: 'ignore'
       };
       
-      if (params.cwd) {
-        options.cwd = normalizePath(params.cwd);
-      }
+      options.cwd = await resolveWorkingDirectory(params.cwd);
       
       const child = spawn(params.program, params.args, options);
       child.unref();
       
       const argsStr = params.args.length > 0 ? ` ${params.args.join(' ')}` : '';
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_start_process.started(params.program, argsStr)}\n${t().fc_start_process.pidLabel(child.pid)}`
-        }]
-      };
+      return structuredResult(
+        `${t().fc_start_process.started(params.program, argsStr)}\n${t().fc_start_process.pidLabel(child.pid)}`,
+        { program: params.program, args: params.args, pid: child.pid },
+        params.output_format
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
@@ -1613,7 +6872,16 @@ server.registerTool(
 
 Returns:
   - Date, time, weekday, timezone`,
-    inputSchema: {},
+    inputSchema: {
+      ...outputFormatParam
+    },
+    outputSchema: {
+      iso: z.string(),
+      epoch_ms: z.number(),
+      weekday: z.number(),
+      timezone: z.string(),
+      utc_offset_minutes: z.number()
+    },
     annotations: {
       readOnlyHint: true,
       destructiveHint: false,
@@ -1621,9 +6889,10 @@ Returns:
       openWorldHint: false
     }
   },
-  async () => {
+  async (params) => {
     const now = new Date();
     const locale = getLanguage() === 'de' ? 'de-DE' : 'en-US';
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
     const output = [
       t().fc_get_time.header,
@@ -1634,12 +6903,16 @@ Returns:
       `| ${t().fc_get_time.labelTime} | ${now.toLocaleTimeString(locale)} |`,
       `| ${t().fc_get_time.labelWeekday} | ${t().common.weekdays[now.getDay()]} |`,
       `| ${t().fc_get_time.labelISO} | ${now.toISOString()} |`,
-      `| ${t().fc_get_time.labelTimezone} | ${Intl.DateTimeFormat().resolvedOptions().timeZone} |`
+      `| ${t().fc_get_time.labelTimezone} | ${timezone} |`
     ];
-    
-    return {
-      content: [{ type: "text", text: output.join('\n') }]
-    };
+
+    return structuredResult(output.join('\n'), {
+      iso: now.toISOString(),
+      epoch_ms: now.getTime(),
+      weekday: now.getDay(),
+      timezone,
+      utc_offset_minutes: -now.getTimezoneOffset()
+    }, params.output_format);
   }
 );
 
@@ -1664,7 +6937,20 @@ Example:
   paths: ["C:\\config.json", "C:\\readme.md"]`,
     inputSchema: {
       paths: z.array(z.string().min(1)).min(1).max(20).describe("Array of file paths"),
-      max_lines_per_file: z.number().int().min(0).default(0).describe("Max lines per file")
+      max_lines_per_file: z.number().int().min(0).default(0).describe("Max lines per file"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      success_count: z.number(),
+      error_count: z.number(),
+      files: z.array(z.object({
+        path: z.string(),
+        size: z.number().optional(),
+        content: z.string().optional(),
+        total_lines: z.number().optional(),
+        truncated: z.boolean().optional(),
+        error: z.string().optional()
+      }))
     },
     annotations: {
       readOnlyHint: true,
@@ -1673,17 +6959,23 @@ Example:
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     const results: string[] = [];
+    const files: { path: string; size?: number; content?: string; total_lines?: number; truncated?: boolean; error?: string }[] = [];
     let successCount = 0;
     let errorCount = 0;
 
+    progress.total = params.paths.length;
     for (const filePath of params.paths) {
-      const normalizedPath = normalizePath(filePath);
-      
+      let normalizedPath = normalizePath(filePath);
+      step({ signal: extra.signal, progress }, normalizedPath);
+
       try {
+        normalizedPath = await resolvePath(filePath, 'read');
+
         if (!await pathExists(normalizedPath)) {
           results.push(`\n\u274C **${path.basename(normalizedPath)}** - ${t().fc_read_multiple_files.notFound}\n`);
+          files.push({ path: normalizedPath, error: t().fc_read_multiple_files.notFound });
           errorCount++;
           continue;
         }
@@ -1691,35 +6983,45 @@ Example:
         const stats = await fs.stat(normalizedPath);
         if (stats.isDirectory()) {
           results.push(`\n\u274C **${path.basename(normalizedPath)}** - ${t().fc_read_multiple_files.isDirectory}\n`);
+          files.push({ path: normalizedPath, error: t().fc_read_multiple_files.isDirectory });
           errorCount++;
           continue;
         }
 
         let content = await fs.readFile(normalizedPath, "utf-8");
-        
+        const totalLines = content.split('\n').length;
+        let truncatedContent = content;
+
         if (params.max_lines_per_file > 0) {
           const lines = content.split('\n');
-          content = lines.slice(0, params.max_lines_per_file).join('\n');
+          truncatedContent = lines.slice(0, params.max_lines_per_file).join('\n');
+          content = truncatedContent;
           if (lines.length > params.max_lines_per_file) {
             content += `\n${t().fc_read_multiple_files.moreLines(lines.length - params.max_lines_per_file)}`;
           }
         }
 
         results.push(`\n📄 **${normalizedPath}** (${formatFileSize(stats.size)})\n${'─'.repeat(60)}\n${content}\n`);
+        files.push({
+          path: normalizedPath,
+          size: stats.size,
+          content: truncatedContent,
+          total_lines: totalLines,
+          truncated: params.max_lines_per_file > 0 && totalLines > params.max_lines_per_file
+        });
         successCount++;
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
         results.push(`\n❌ **${path.basename(normalizedPath)}** - ${errorMsg}\n`);
+        files.push({ path: normalizedPath, error: errorMsg });
         errorCount++;
       }
     }
 
     const summary = `${t().fc_read_multiple_files.summary(successCount, errorCount)}\n${'═'.repeat(60)}`;
-    
-    return {
-      content: [{ type: "text", text: summary + results.join('') }]
-    };
-  }
+
+    return structuredResult(summary + results.join(''), { success_count: successCount, error_count: errorCount, files }, params.output_format);
+  })
 );
 
 // ============================================================================
@@ -1738,6 +7040,8 @@ Args:
   - start_line (number): Start line (1-based)
   - end_line (number, optional): End line for replace/delete
   - content (string, optional): New content for replace/insert
+  - expected_hash (string, optional): sha256 from fc_read_file; the write is rejected if the file changed since
+  - expected_mtime (string, optional): Modification time (ISO) from fc_read_file, same check by timestamp
 
 Examples:
   - Replace lines 5-10: operation="replace", start_line=5, end_line=10, content="new text"
@@ -1748,7 +7052,19 @@ Examples:
       operation: z.enum(["replace", "insert", "delete"]).describe("Operation"),
       start_line: z.number().int().min(1).describe("Start line (1-based)"),
       end_line: z.number().int().min(1).optional().describe("End line"),
-      content: z.string().optional().describe("New content")
+      content: z.string().optional().describe("New content"),
+      expected_hash: z.string().regex(/^[a-fA-F0-9]{64}$/).optional().describe("Reject if the sha256 differs"),
+      expected_mtime: z.string().optional().describe("Reject if the mtime differs"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      operation: z.enum(["replace", "insert", "delete"]),
+      lines_before: z.number(),
+      lines_after: z.number(),
+      sha256: z.string(),
+      mtime: z.string(),
+      operation_id: z.string().optional()
     },
     annotations: {
       readOnlyHint: false,
@@ -1759,7 +7075,7 @@ Examples:
   },
   async (params) => {
     try {
-      const filePath = normalizePath(params.path);
+      const filePath = await resolvePath(params.path, 'write');
       
       if (!await pathExists(filePath)) {
         return {
@@ -1768,7 +7084,13 @@ Examples:
         };
       }
 
-      const originalContent = await fs.readFile(filePath, "utf-8");
+      const rawContent = await fs.readFile(filePath);
+      const conflict = await checkExpectedVersion(filePath, { hash: params.expected_hash, mtime: params.expected_mtime }, rawContent);
+      if (conflict) {
+        return { isError: true, content: [{ type: "text", text: conflict }] };
+      }
+
+      const originalContent = rawContent.toString("utf-8");
       const lines = originalContent.split('\n');
       const totalLines = lines.length;
 
@@ -1833,60 +7155,640 @@ Examples:
           actionDesc = t().fc_edit_file.deletedLines(params.start_line, endIdx + 1);
           break;
 
-        default:
-          return {
-            isError: true,
-            content: [{ type: "text", text: t().fc_edit_file.unknownOperation(params.operation) }]
-          };
+        default:
+          return {
+            isError: true,
+            content: [{ type: "text", text: t().fc_edit_file.unknownOperation(params.operation) }]
+          };
+      }
+
+      const journalEntry = await prepareWriteEntry('fc_edit_file', filePath);
+      await writeFileAtomic(filePath, newLines.join('\n'));
+      const version = await fileVersion(filePath);
+      const opId = await recordOperation({ ...journalEntry, afterHash: version.sha256 });
+
+      return structuredResult(
+        `${t().fc_edit_file.edited(path.basename(filePath))}\n\uD83D\uDCDD ${actionDesc}\n${t().fc_edit_file.lineChange(totalLines, newLines.length)}\n${t().common.versionInfo(version.mtime, version.sha256)}${journalNote(opId)}`,
+        { path: filePath, operation: params.operation, lines_before: totalLines, lines_after: newLines.length, ...version, operation_id: opId },
+        params.output_format
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        isError: true,
+        content: [{ type: "text", text: t().fc_edit_file.editError(errorMsg) }]
+      };
+    }
+  }
+);
+
+// ============================================================================
+// Tool: String Replace in File
+// ============================================================================
+
+server.registerTool(
+  "fc_str_replace",
+  {
+    title: "String Replace in File",
+    description: `Replaces a unique string in a file with another, or applies a batch of edits.
+
+Args:
+  - path (string): Path to the file
+  - old_str (string): String to replace (must occur exactly once)
+  - new_str (string): New string (empty = delete)
+  - replace_all (boolean, optional): Replace every occurrence of old_str instead of requiring exactly one
+  - edits (array, optional): Instead of old_str/new_str: list of {old_str, new_str, replace_all?} applied in order
+  - expected_hash (string, optional): sha256 from fc_read_file; the write is rejected if the file changed since
+  - expected_mtime (string, optional): Modification time (ISO) from fc_read_file, same check by timestamp
+
+Returns:
+  - Confirmation with a unified diff of the change
+
+IMPORTANT: old_str must occur EXACTLY once in the file (unless replace_all is set)!
+An error is returned for 0 or >1 occurrences.
+
+Edits in a batch see the result of the previous edits. All edits are validated
+first and the file is only written if every edit matches; otherwise nothing changes.
+
+Examples:
+  - Rename function: old_str="def old_name", new_str="def new_name"
+  - Add import: old_str="import os", new_str="import os\\nimport sys"
+  - Delete line: old_str="# TODO: remove this\\n", new_str=""
+  - Batch: edits=[{old_str: "foo(", new_str: "bar(", replace_all: true}, {old_str: "import foo", new_str: "import bar"}]`,
+    inputSchema: {
+      path: z.string().min(1).describe("Path to the file"),
+      old_str: z.string().min(1).optional().describe("String to replace (must be unique)"),
+      new_str: z.string().default("").describe("New string (empty = delete)"),
+      replace_all: z.boolean().default(false).describe("Replace every occurrence"),
+      edits: z.array(z.object({
+        old_str: z.string().min(1).describe("String to replace"),
+        new_str: z.string().default("").describe("New string"),
+        replace_all: z.boolean().default(false).describe("Replace every occurrence")
+      })).min(1).max(100).optional().describe("Edits applied in order, all or nothing"),
+      expected_hash: z.string().regex(/^[a-fA-F0-9]{64}$/).optional().describe("Reject if the sha256 differs"),
+      expected_mtime: z.string().optional().describe("Reject if the mtime differs"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      edits: z.number(),
+      replacements: z.number(),
+      line_change: z.number(),
+      diff: z.string(),
+      sha256: z.string(),
+      mtime: z.string(),
+      operation_id: z.string().optional()
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    try {
+      const filePath = await resolvePath(params.path, 'write');
+
+      const edits = params.edits ?? (params.old_str !== undefined
+        ? [{ old_str: params.old_str, new_str: params.new_str, replace_all: params.replace_all }]
+        : []);
+      if (edits.length === 0 || (params.edits && params.old_str !== undefined)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().fc_str_replace.editsOrOldStr }]
+        };
+      }
+      
+      if (!await pathExists(filePath)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.fileNotFound(filePath) }]
+        };
+      }
+
+      const stats = await fs.stat(filePath);
+      if (stats.isDirectory()) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().fc_str_replace.pathIsDirectory(filePath) }]
+        };
+      }
+
+      const rawContent = await fs.readFile(filePath);
+      const conflict = await checkExpectedVersion(filePath, { hash: params.expected_hash, mtime: params.expected_mtime }, rawContent);
+      if (conflict) {
+        return { isError: true, content: [{ type: "text", text: conflict }] };
+      }
+
+      const content = rawContent.toString("utf-8");
+
+      // Alle Edits zuerst im Speicher anwenden; geschrieben wird nur, wenn jedes passt
+      let newContent = content;
+      let replacements = 0;
+      for (const [index, edit] of edits.entries()) {
+        const occurrences = newContent.split(edit.old_str).length - 1;
+        const failedEdit = edits.length > 1 ? `${t().fc_str_replace.editFailed(index + 1, edits.length)}\n` : '';
+
+        if (occurrences === 0) {
+          // Show a snippet of the file to help debug
+          const preview = newContent.length > 500 ? newContent.substring(0, 500) + "..." : newContent;
+          return {
+            isError: true,
+            content: [{
+              type: "text",
+              text: `${failedEdit}${t().fc_str_replace.notFoundInFile(path.basename(filePath))}\n\n${t().fc_str_replace.searchedFor}\n\`\`\`\n${edit.old_str}\n\`\`\`\n\n${t().fc_str_replace.fileStart}\n\`\`\`\n${preview}\n\`\`\``
+            }]
+          };
+        }
+
+        if (occurrences > 1 && !edit.replace_all) {
+          return {
+            isError: true,
+            content: [{
+              type: "text",
+              text: `${failedEdit}${t().fc_str_replace.multipleOccurrences(occurrences)}\n\n${t().fc_str_replace.searchedFor}\n\`\`\`\n${edit.old_str}\n\`\`\`\n\n${t().fc_str_replace.tip}`
+            }]
+          };
+        }
+
+        // split/join bzw. slice statt String.replace, damit "$&" & Co. im neuen Text woertlich bleiben
+        if (edit.replace_all) {
+          newContent = newContent.split(edit.old_str).join(edit.new_str);
+        } else {
+          const changeIndex = newContent.indexOf(edit.old_str);
+          newContent = newContent.slice(0, changeIndex) + edit.new_str + newContent.slice(changeIndex + edit.old_str.length);
+        }
+        replacements += occurrences;
+      }
+
+      const name = path.basename(filePath);
+      const { diff } = createUnifiedDiff(content, newContent, `a/${name}`, `b/${name}`);
+      const lineChange = newContent.split('\n').length - content.split('\n').length;
+      const lineInfo = lineChange === 0 ? t().fc_str_replace.sameLineCount :
+                       lineChange > 0 ? t().fc_str_replace.addedLines(lineChange) : t().fc_str_replace.removedLines(lineChange);
+
+      let version = { sha256: createHash('sha256').update(rawContent).digest('hex'), mtime: stats.mtime.toISOString() };
+      let opId: string | undefined;
+      if (newContent !== content) {
+        const journalEntry = await prepareWriteEntry('fc_str_replace', filePath);
+        await writeFileAtomic(filePath, newContent);
+        version = await fileVersion(filePath);
+        opId = await recordOperation({ ...journalEntry, afterHash: version.sha256 });
+      }
+
+      const diffOutput = diff.split('\n');
+      const diffText = diff === ''
+        ? t().fc_str_replace.noChanges
+        : `\`\`\`diff\n${diffOutput.slice(0, MAX_INLINE_DIFF_LINES).join('\n').trimEnd()}\n\`\`\`` +
+          (diffOutput.length > MAX_INLINE_DIFF_LINES ? t().fc_str_replace.moreDiffLines(diffOutput.length - MAX_INLINE_DIFF_LINES) : '');
+      const header = edits.length > 1
+        ? t().fc_str_replace.editsApplied(name, edits.length, replacements)
+        : t().fc_str_replace.replaced(name);
+
+      return structuredResult(
+        `${header}\n\n| | |\n|---|---|\n| ${t().fc_str_replace.labelChange} | ${lineInfo} |\n| ${t().fc_str_replace.labelFile} | ${filePath} |\n\n${t().fc_str_replace.diffLabel}\n${diffText}\n${t().common.versionInfo(version.mtime, version.sha256)}${journalNote(opId)}`,
+        { path: filePath, edits: edits.length, replacements, line_change: lineChange, diff, ...version, operation_id: opId },
+        params.output_format
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        isError: true,
+        content: [{ type: "text", text: t().fc_str_replace.replaceError(errorMsg) }]
+      };
+    }
+  }
+)
+
+// ============================================================================
+// Tool: Replace in Files
+// ============================================================================
+
+server.registerTool(
+  "fc_replace_in_files",
+  {
+    title: "Replace in Files",
+    description: `Search and replace across many files, with a diff preview and all-or-nothing apply.
+
+Args:
+  - path (string): Start directory or a single file
+  - pattern (string): Search text or regex
+  - replacement (string): Replacement text; with regex=true, $1, $<name>, $& and $$ are expanded
+  - regex (boolean, optional): Treat pattern as regular expression, ^ and $ match at line boundaries (default: false)
+  - case_sensitive (boolean, optional): Case-sensitive matching (default: true)
+  - include (string[], optional): Only files matching these globs (e.g. ["*.{ts,tsx}", "!**/dist/**"])
+  - exclude (string[], optional): Skip files matching these globs
+  - respect_ignore (boolean, optional): Skip paths excluded by .gitignore, .ignore and .fcignore (default: true)
+  - follow_symlinks (boolean, optional): Descend into symlinked directories (default: false)
+  - max_files (number, optional): Abort if more files would change (default: 500)
+  - dry_run (boolean, optional): Only show the per-file diff preview (default: true)
+
+Binary files and files that are not valid UTF-8 are never modified. With dry_run=false all
+changed files are staged first and then swapped in; if any write fails, the files already
+written are restored and nothing is left half-applied. One journal entry covers the whole
+batch, so fc_undo reverts all files at once.
+
+Returns:
+  - Per-file unified diffs and the number of replacements
+
+Examples:
+  - Rename an API: path: "/project/src", pattern: "fetchUser(", replacement: "loadUser(", include: ["*.ts"]
+  - Capture groups: pattern: "import (\\w+) from '\\.\\./lib'", replacement: "import $1 from '@lib'", regex: true`,
+    inputSchema: {
+      path: z.string().min(1).describe("Start directory or file"),
+      pattern: z.string().min(1).describe("Search text or regex"),
+      replacement: z.string().default("").describe("Replacement text"),
+      regex: z.boolean().default(false).describe("Pattern is a regular expression"),
+      case_sensitive: z.boolean().default(true).describe("Case-sensitive"),
+      include: z.array(z.string()).optional().describe("Include globs"),
+      exclude: z.array(z.string()).optional().describe("Exclude globs"),
+      respect_ignore: z.boolean().default(true).describe("Honor .gitignore/.ignore/.fcignore"),
+      follow_symlinks: z.boolean().default(false).describe("Follow symlinked directories"),
+      max_files: z.number().int().min(1).max(5000).default(500).describe("Max files to change"),
+      dry_run: z.boolean().default(true).describe("Preview only"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      pattern: z.string(),
+      replacement: z.string(),
+      dry_run: z.boolean(),
+      files_searched: z.number(),
+      binary_skipped: z.number(),
+      files_changed: z.number(),
+      replacements: z.number(),
+      files: z.array(z.object({
+        file: z.string(),
+        replacements: z.number(),
+        diff: z.string()
+      })),
+      errors: z.array(z.string()),
+      operation_id: z.string().optional()
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  trackProgress('items', async (params, extra, progress) => {
+    try {
+      const targetPath = await resolvePath(params.path, params.dry_run ? 'read' : 'write');
+
+      if (!await pathExists(targetPath)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().common.pathNotFound(targetPath) }]
+        };
+      }
+
+      let regex: RegExp;
+      try {
+        const source = params.regex ? params.pattern : params.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        regex = new RegExp(source, `g${params.case_sensitive ? '' : 'i'}${params.regex ? 'm' : ''}`);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{ type: "text", text: t().fc_replace_in_files.invalidPattern(errorMsg) }]
+        };
+      }
+
+      // Collect files (wie fc_grep)
+      const stats = await fs.stat(targetPath);
+      const baseDir = stats.isDirectory() ? targetPath : path.dirname(targetPath);
+      const files: string[] = [];
+      const includeFilter = buildFileFilter(params.include);
+      const excludeFilter = buildFileFilter(params.exclude);
+      if (stats.isDirectory()) {
+        for await (const entry of walkFiles(targetPath, { respectIgnore: params.respect_ignore, followSymlinks: params.follow_symlinks, signal: extra.signal, progress })) {
+          if (!entry.isFile) continue;
+          if (includeFilter && !matchesGlobs(entry.relativePath, includeFilter)) continue;
+          if (excludeFilter && matchesGlobs(entry.relativePath, excludeFilter)) continue;
+          files.push(entry.fullPath);
+        }
+      } else {
+        files.push(targetPath);
+      }
+
+      // Alle Aenderungen zuerst im Speicher berechnen
+      const changes: { filePath: string; file: string; content: string; newContent: string; mtimeMs: number; replacements: number; diff: string }[] = [];
+      const seen = new Set<string>();
+      const errors: string[] = [];
+      let scannedFiles = 0;
+      let skippedBinary = 0;
+      let totalReplacements = 0;
+
+      progress.total = progress.done + files.length;
+      for (const filePath of files) {
+        step({ signal: extra.signal, progress }, filePath);
+        const displayPath = stats.isDirectory() ? path.relative(baseDir, filePath) : filePath;
+        try {
+          // Ueber Symlinks mehrfach erreichbare Dateien nur einmal bearbeiten
+          const realPath = await fs.realpath(filePath);
+          if (seen.has(realPath)) continue;
+          seen.add(realPath);
+
+          const raw = await fs.readFile(filePath);
+          if (detectFileType(raw.subarray(0, 8192)).binary) {
+            skippedBinary++;
+            continue;
+          }
+          scannedFiles++;
+
+          const content = raw.toString('utf-8');
+          const replacements = [...content.matchAll(regex)].length;
+          if (replacements === 0) continue;
+          if (!Buffer.from(content, 'utf-8').equals(raw)) {
+            errors.push(`${displayPath}: ${t().fc_replace_in_files.notUtf8}`);
+            continue;
+          }
+
+          // Ohne regex wird der Ersatztext woertlich eingesetzt ($& & Co. nicht expandiert)
+          const newContent = params.regex
+            ? content.replace(regex, params.replacement)
+            : content.replace(regex, () => params.replacement);
+          if (newContent === content) continue;
+
+          if (changes.length >= params.max_files) {
+            return {
+              isError: true,
+              content: [{ type: "text", text: t().fc_replace_in_files.tooManyFiles(params.max_files) }]
+            };
+          }
+
+          const label = stats.isDirectory() ? displayPath.split(path.sep).join('/') : path.basename(filePath);
+          const { diff } = createUnifiedDiff(content, newContent, `a/${label}`, `b/${label}`);
+          const fileStats = await fs.stat(filePath);
+          changes.push({ filePath, file: displayPath, content, newContent, mtimeMs: fileStats.mtimeMs, replacements, diff });
+          totalReplacements += replacements;
+        } catch (error) {
+          errors.push(`${displayPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      const structured = {
+        path: targetPath,
+        pattern: params.pattern,
+        replacement: params.replacement,
+        dry_run: params.dry_run,
+        files_searched: scannedFiles,
+        binary_skipped: skippedBinary,
+        files_changed: changes.length,
+        replacements: totalReplacements,
+        files: changes.map(c => ({ file: c.file, replacements: c.replacements, diff: c.diff })),
+        errors
+      };
+      const errorLines = errors.map(e => `  \u274C ${e}`);
+
+      if (changes.length === 0) {
+        return structuredResult(
+          [t().fc_replace_in_files.noMatches(params.pattern, scannedFiles), ...errorLines].join('\n'),
+          structured,
+          params.output_format
+        );
       }
 
-      await fs.writeFile(filePath, newLines.join('\n'), "utf-8");
+      // Diff-Vorschau, insgesamt auf MAX_INLINE_DIFF_LINES Zeilen begrenzt
+      const preview: string[] = [];
+      let previewLines = 0;
+      let omitted = 0;
+      for (const change of changes) {
+        const diffOutput = change.diff.trimEnd().split('\n');
+        if (previewLines > 0 && previewLines + diffOutput.length > MAX_INLINE_DIFF_LINES) {
+          omitted++;
+          continue;
+        }
+        preview.push('', `\uD83D\uDCC4 ${change.file} (${change.replacements})`, '```diff', ...diffOutput.slice(0, MAX_INLINE_DIFF_LINES), '```');
+        if (diffOutput.length > MAX_INLINE_DIFF_LINES) {
+          preview.push(t().fc_replace_in_files.moreDiffLines(diffOutput.length - MAX_INLINE_DIFF_LINES));
+        }
+        previewLines += diffOutput.length;
+      }
+      if (omitted > 0) preview.push('', t().fc_replace_in_files.diffsOmitted(omitted));
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_edit_file.edited(path.basename(filePath))}\n\uD83D\uDCDD ${actionDesc}\n${t().fc_edit_file.lineChange(totalLines, newLines.length)}`
-        }]
-      };
+      if (params.dry_run) {
+        return structuredResult([
+          t().fc_replace_in_files.previewHeader(changes.length, totalReplacements),
+          t().fc_replace_in_files.inPath(targetPath),
+          ...preview,
+          ...(errorLines.length > 0 ? ['', ...errorLines] : []),
+          '',
+          t().fc_replace_in_files.setDryRunFalse
+        ].join('\n'), structured, params.output_format);
+      }
+
+      // Zwischen Vorschau-Berechnung und Schreiben geaenderte Dateien nicht ueberschreiben
+      extra.signal.throwIfAborted();
+      for (const change of changes) {
+        const current = await fs.stat(change.filePath);
+        if (current.mtimeMs !== change.mtimeMs) {
+          return { isError: true, content: [{ type: "text", text: t().common.fileChanged(change.filePath, current.mtime.toISOString()) }] };
+        }
+      }
+
+      const recordedId = await writeFileBatch('fc_replace_in_files', changes.map(c => ({
+        filePath: c.filePath,
+        oldContent: c.content,
+        newContent: c.newContent
+      })));
+
+      return structuredResult([
+        t().fc_replace_in_files.replaced(changes.length, totalReplacements),
+        t().fc_replace_in_files.inPath(targetPath),
+        ...preview,
+        ...(errorLines.length > 0 ? ['', ...errorLines] : [])
+      ].join('\n') + journalNote(recordedId), { ...structured, operation_id: recordedId }, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         isError: true,
-        content: [{ type: "text", text: t().fc_edit_file.editError(errorMsg) }]
+        content: [{ type: "text", text: t().fc_replace_in_files.replaceError(errorMsg) }]
       };
     }
-  }
+  })
 );
 
 // ============================================================================
-// Tool: String Replace in File
+// Tool: Diff
 // ============================================================================
 
 server.registerTool(
-  "fc_str_replace",
+  "fc_diff",
   {
-    title: "String Replace in File",
-    description: `Replaces a unique string in a file with another.
+    title: "Diff Files",
+    description: `Creates a unified diff (like diff -u) between two files, or between a file and a given text.
 
 Args:
-  - path (string): Path to the file
-  - old_str (string): String to replace (must occur exactly once)
-  - new_str (string): New string (empty = delete)
+  - path (string): Original file (the "---" side)
+  - other_path (string, optional): File to compare against (the "+++" side)
+  - content (string, optional): Text to compare against instead of other_path
+  - context (number, optional): Context lines around each change (default: 3)
+  - ignore_whitespace (string, optional): "none" | "change" (amount of whitespace, like diff -b) | "all" (like diff -w) (default: "none")
+
+Exactly one of other_path or content is required. The diff can be applied with fc_apply_patch.
 
 Returns:
-  - Confirmation with context
+  - Unified diff and the number of added and removed lines
 
-IMPORTANT: old_str must occur EXACTLY once in the file!
-An error is returned for 0 or >1 occurrences.
+Examples:
+  - Compare two files: path: "/project/config.old.json", other_path: "/project/config.json"
+  - Preview a rewrite: path: "/project/src/app.ts", content: "<new file content>"`,
+    inputSchema: {
+      path: z.string().min(1).describe("Original file"),
+      other_path: z.string().min(1).optional().describe("File to compare against"),
+      content: z.string().optional().describe("Text to compare against"),
+      context: z.number().int().min(0).max(100).default(3).describe("Context lines"),
+      ignore_whitespace: z.enum(["none", "change", "all"]).default("none").describe("Whitespace handling"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      other_path: z.string().optional(),
+      identical: z.boolean(),
+      binary: z.boolean(),
+      added: z.number(),
+      removed: z.number(),
+      diff: z.string()
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    try {
+      if ((params.other_path === undefined) === (params.content === undefined)) {
+        return { isError: true, content: [{ type: "text", text: t().fc_diff.otherOrContent }] };
+      }
+
+      const filePath = await resolvePath(params.path, 'read');
+      const otherPath = params.other_path !== undefined ? await resolvePath(params.other_path, 'read') : undefined;
+      for (const p of otherPath ? [filePath, otherPath] : [filePath]) {
+        if (!await pathExists(p)) {
+          return { isError: true, content: [{ type: "text", text: t().common.fileNotFound(p) }] };
+        }
+        if ((await fs.stat(p)).isDirectory()) {
+          return { isError: true, content: [{ type: "text", text: t().common.pathIsDirectory(p) }] };
+        }
+      }
+
+      const oldRaw = await fs.readFile(filePath);
+      const newRaw = otherPath ? await fs.readFile(otherPath) : Buffer.from(params.content!, 'utf-8');
+      const otherLabel = otherPath ?? filePath;
+
+      if (detectFileType(oldRaw.subarray(0, 8192)).binary || detectFileType(newRaw.subarray(0, 8192)).binary) {
+        const identical = oldRaw.equals(newRaw);
+        return structuredResult(
+          identical ? t().fc_diff.noDifferences(filePath, otherLabel) : t().fc_diff.binaryDiffer(filePath, otherLabel),
+          { path: filePath, other_path: otherPath, identical, binary: true, added: 0, removed: 0, diff: '' },
+          params.output_format
+        );
+      }
+
+      const { diff, added, removed } = createUnifiedDiff(
+        oldRaw.toString('utf-8'),
+        newRaw.toString('utf-8'),
+        filePath,
+        otherLabel,
+        params.context,
+        whitespaceNormalizer(params.ignore_whitespace)
+      );
+      const structured = { path: filePath, other_path: otherPath, identical: diff === '', binary: false, added, removed, diff };
+
+      if (diff === '') {
+        return structuredResult(t().fc_diff.noDifferences(filePath, otherLabel), structured, params.output_format);
+      }
+
+      const diffOutput = diff.trimEnd().split('\n');
+      return structuredResult(
+        `${t().fc_diff.header(added, removed)}\n\n\`\`\`diff\n${diffOutput.slice(0, MAX_INLINE_DIFF_LINES).join('\n')}\n\`\`\`` +
+          (diffOutput.length > MAX_INLINE_DIFF_LINES ? t().fc_diff.moreDiffLines(diffOutput.length - MAX_INLINE_DIFF_LINES) : ''),
+        structured,
+        params.output_format
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return { isError: true, content: [{ type: "text", text: t().fc_diff.diffError(errorMsg) }] };
+    }
+  }
+);
+
+// ============================================================================
+// Tool: Apply Patch
+// ============================================================================
+
+server.registerTool(
+  "fc_apply_patch",
+  {
+    title: "Apply Patch",
+    description: `Applies a unified diff (diff -u, git diff) to one or many files, like the patch command.
+
+Args:
+  - patch (string, optional): Patch text
+  - patch_file (string, optional): Read the patch from this file instead
+  - base_dir (string, optional): Directory that relative paths in the patch refer to
+  - path (string, optional): Apply a single-file patch to this file, ignoring the names in the patch (the ---/+++ lines may then be omitted)
+  - strip (number, optional): Leading path components to remove, like patch -p (default: 1 for a/ b/ prefixes, else 0)
+  - fuzz (number, optional): Context lines at the start and end of a hunk that may be ignored (default: 2)
+  - ignore_whitespace (boolean, optional): Match lines ignoring indentation and runs of whitespace (default: false)
+  - reverse (boolean, optional): Revert the patch instead of applying it (default: false)
+  - partial (boolean, optional): Apply the hunks that fit even if others are rejected (default: false)
+  - dry_run (boolean, optional): Only check which hunks apply (default: false)
+
+Hunks are searched at their line number first and then at growing distance, so patches still
+apply after nearby edits. Line endings (LF/CRLF) do not matter; "--- /dev/null" creates a file and
+"+++ /dev/null" deletes it. By default nothing is written if a hunk is rejected; all files are
+written together and one journal entry lets fc_undo revert the whole patch.
+
+Returns:
+  - Per-file hunk results with offsets and fuzz, and the rejected hunks with the reason
 
 Examples:
-  - Rename function: old_str="def old_name", new_str="def new_name"
-  - Add import: old_str="import os", new_str="import os\\nimport sys"
-  - Delete line: old_str="# TODO: remove this\\n", new_str=""`,
+  - Git-style patch: patch: "--- a/src/app.ts\\n+++ b/src/app.ts\\n@@ -1,3 +1,3 @@\\n...", base_dir: "/project"
+  - Check first: patch_file: "/tmp/fix.patch", base_dir: "/project", dry_run: true`,
     inputSchema: {
-      path: z.string().min(1).describe("Path to the file"),
-      old_str: z.string().min(1).describe("String to replace (must be unique)"),
-      new_str: z.string().default("").describe("New string (empty = delete)")
+      patch: z.string().min(1).optional().describe("Unified diff text"),
+      patch_file: z.string().min(1).optional().describe("File containing the patch"),
+      base_dir: z.string().min(1).optional().describe("Base directory for relative paths"),
+      path: z.string().min(1).optional().describe("Target file for a single-file patch"),
+      strip: z.number().int().min(0).max(20).optional().describe("Path components to strip"),
+      fuzz: z.number().int().min(0).max(3).default(2).describe("Ignorable context lines"),
+      ignore_whitespace: z.boolean().default(false).describe("Ignore whitespace changes in context"),
+      reverse: z.boolean().default(false).describe("Revert the patch"),
+      partial: z.boolean().default(false).describe("Apply the hunks that fit"),
+      dry_run: z.boolean().default(false).describe("Check only"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      dry_run: z.boolean(),
+      written: z.boolean(),
+      total_hunks: z.number(),
+      applied_hunks: z.number(),
+      files: z.array(z.object({
+        path: z.string(),
+        action: z.enum(["modify", "create", "delete"]),
+        hunks: z.number(),
+        applied_hunks: z.number(),
+        hunk_results: z.array(z.object({
+          hunk: z.number(),
+          applied: z.boolean(),
+          offset: z.number(),
+          fuzz: z.number(),
+          reason: z.string().optional()
+        }))
+      })),
+      rejects: z.array(z.object({
+        path: z.string(),
+        hunk: z.number(),
+        reason: z.string(),
+        text: z.string()
+      })),
+      operation_id: z.string().optional()
     },
     annotations: {
       readOnlyHint: false,
@@ -1897,83 +7799,168 @@ Examples:
   },
   async (params) => {
     try {
-      const filePath = normalizePath(params.path);
-      
-      if (!await pathExists(filePath)) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: t().common.fileNotFound(filePath) }]
-        };
+      if ((params.patch === undefined) === (params.patch_file === undefined)) {
+        return { isError: true, content: [{ type: "text", text: t().fc_apply_patch.patchOrFile }] };
       }
+      const patchText = params.patch ?? await fs.readFile(await resolvePath(params.patch_file!, 'read'), 'utf-8');
 
-      const stats = await fs.stat(filePath);
-      if (stats.isDirectory()) {
-        return {
-          isError: true,
-          content: [{ type: "text", text: t().fc_str_replace.pathIsDirectory(filePath) }]
-        };
+      let filePatches: FilePatch[];
+      try {
+        filePatches = parseUnifiedPatch(patchText, params.path !== undefined);
+      } catch (error) {
+        return { isError: true, content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }] };
+      }
+      if (filePatches.length === 0) {
+        return { isError: true, content: [{ type: "text", text: t().fc_apply_patch.noHunks }] };
+      }
+      if (params.path && filePatches.length > 1) {
+        return { isError: true, content: [{ type: "text", text: t().fc_apply_patch.pathNeedsSingleFile }] };
       }
 
-      const content = await fs.readFile(filePath, "utf-8");
+      // Ohne strip: git-Praefixe a/ und b/ automatisch entfernen
+      const strip = params.strip ?? (filePatches.every(fp =>
+        (fp.oldPath === null || fp.oldPath.startsWith('a/')) && (fp.newPath === null || fp.newPath.startsWith('b/'))
+      ) ? 1 : 0);
+      if (params.reverse) filePatches = filePatches.map(reverseFilePatch);
+
+      const access = params.dry_run ? 'read' : 'write';
+      const baseDir = params.base_dir ? await resolvePath(params.base_dir, access) : undefined;
+      // Lose wie patch -l: Einrueckung und Leerraum-Folgen zaehlen nicht
+      const normalize = params.ignore_whitespace ? (line: string) => line.trim().replace(/\s+/g, ' ') : undefined;
+
+      // Mehrere Patches fuer dieselbe Datei bauen aufeinander auf
+      const states = new Map<string, { oldContent: string | null; content: string | null }>();
+      const fileResults: {
+        path: string;
+        action: 'modify' | 'create' | 'delete';
+        hunks: number;
+        applied_hunks: number;
+        hunk_results: { hunk: number; applied: boolean; offset: number; fuzz: number; reason?: PatchRejectReason }[];
+      }[] = [];
+      const rejects: { path: string; hunk: number; reason: PatchRejectReason; text: string }[] = [];
+      let totalHunks = 0;
+      let appliedHunks = 0;
+
+      for (const filePatch of filePatches) {
+        const name = (filePatch.oldPath ?? filePatch.newPath)!;
+        let target = params.path;
+        if (!target) {
+          const parts = name.split('/');
+          if (strip >= parts.length) {
+            return { isError: true, content: [{ type: "text", text: t().fc_apply_patch.stripTooLarge(name, strip) }] };
+          }
+          const stripped = parts.slice(strip).join('/');
+          if (!path.isAbsolute(stripped) && !baseDir) {
+            return { isError: true, content: [{ type: "text", text: t().fc_apply_patch.baseDirRequired(stripped) }] };
+          }
+          target = path.isAbsolute(stripped) ? stripped : path.join(baseDir!, stripped);
+        }
+        const filePath = await resolvePath(target, access);
+        const displayPath = baseDir ? path.relative(baseDir, filePath) : filePath;
+        const action = filePatch.oldPath === null ? 'create' : filePatch.newPath === null ? 'delete' : 'modify';
+
+        if (!states.has(filePath)) {
+          const content = await pathExists(filePath) ? await fs.readFile(filePath, 'utf-8') : null;
+          states.set(filePath, { oldContent: content, content });
+        }
+        const state = states.get(filePath)!;
+
+        let results: HunkResult[];
+        let newContent = state.content;
+        const fileReason: PatchRejectReason | undefined =
+          action === 'create' && state.content !== null ? 'file_exists' :
+          action !== 'create' && state.content === null ? 'file_not_found' : undefined;
+        if (fileReason) {
+          results = filePatch.hunks.map(() => ({ applied: false, offset: 0, fuzz: 0, reason: fileReason }));
+        } else {
+          const applied = applyPatchHunks(state.content ?? '', filePatch.hunks, { fuzz: params.fuzz, normalize });
+          results = applied.results;
+          newContent = applied.content;
+          // Geloescht wird nur, wenn alle Hunks passen und nichts uebrig bleibt
+          if (action === 'delete') {
+            const complete = results.every(r => r.applied);
+            if (complete && newContent.trim() !== '') {
+              rejects.push({ path: displayPath, hunk: 0, reason: 'not_empty', text: '' });
+            }
+            newContent = complete && newContent.trim() === '' ? null : state.content;
+          }
+        }
+        state.content = newContent;
 
-      // Count occurrences
-      const occurrences = content.split(params.old_str).length - 1;
+        for (const [index, result] of results.entries()) {
+          if (!result.applied) {
+            rejects.push({ path: displayPath, hunk: index + 1, reason: result.reason!, text: formatPatchHunk(filePatch.hunks[index]) });
+          }
+        }
+        const appliedCount = results.filter(r => r.applied).length;
+        totalHunks += results.length;
+        appliedHunks += appliedCount;
+        fileResults.push({
+          path: displayPath,
+          action,
+          hunks: results.length,
+          applied_hunks: appliedCount,
+          hunk_results: results.map((r, index) => ({ hunk: index + 1, ...r }))
+        });
+      }
 
-      if (occurrences === 0) {
-        // Show a snippet of the file to help debug
-        const preview = content.length > 500 ? content.substring(0, 500) + "..." : content;
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: `${t().fc_str_replace.notFoundInFile(path.basename(filePath))}\n\n${t().fc_str_replace.searchedFor}\n\`\`\`\n${params.old_str}\n\`\`\`\n\n${t().fc_str_replace.fileStart}\n\`\`\`\n${preview}\n\`\`\``
-          }]
-        };
+      const changes: BatchFileChange[] = [...states.entries()]
+        .filter(([, state]) => state.content !== state.oldContent)
+        .map(([filePath, state]) => ({ filePath, oldContent: state.oldContent, newContent: state.content }));
+
+      // Bericht: je Datei die Hunks, danach die abgelehnten Hunks
+      const report: string[] = [];
+      for (const file of fileResults) {
+        const icon = file.applied_hunks === file.hunks ? '\u2705' : file.applied_hunks > 0 ? '\u26A0\uFE0F' : '\u274C';
+        report.push(`${icon} ${t().fc_apply_patch.fileLine(file.path, t().fc_apply_patch.actions[file.action], file.applied_hunks, file.hunks)}`);
+        for (const r of file.hunk_results) {
+          if (r.applied && (r.offset !== 0 || r.fuzz > 0)) report.push(`   ${t().fc_apply_patch.hunkNote(r.hunk, r.offset, r.fuzz)}`);
+        }
+      }
+      for (const reject of rejects) {
+        report.push('', `\u274C ${t().fc_apply_patch.hunkRejected(reject.path, reject.hunk, t().fc_apply_patch.reasons[reject.reason])}`);
+        if (reject.text) report.push('```diff', reject.text, '```');
+      }
+
+      const structured = {
+        dry_run: params.dry_run,
+        written: false,
+        total_hunks: totalHunks,
+        applied_hunks: appliedHunks,
+        files: fileResults,
+        rejects
+      };
+
+      if (params.dry_run) {
+        return structuredResult([
+          t().fc_apply_patch.previewHeader(appliedHunks, totalHunks, changes.length), '',
+          ...report,
+          ...(appliedHunks > 0 ? ['', t().fc_apply_patch.setDryRunFalse] : [])
+        ].join('\n'), structured, params.output_format);
       }
 
-      if (occurrences > 1) {
+      if (rejects.length > 0 && !params.partial) {
         return {
           isError: true,
           content: [{
             type: "text",
-            text: `${t().fc_str_replace.multipleOccurrences(occurrences)}\n\n${t().fc_str_replace.searchedFor}\n\`\`\`\n${params.old_str}\n\`\`\`\n\n${t().fc_str_replace.tip}`
+            text: [t().fc_apply_patch.rejectedHeader(rejects.length, totalHunks), '', ...report, '', t().fc_apply_patch.nothingWritten].join('\n')
           }]
         };
       }
 
-      // Perform replacement
-      const newContent = content.replace(params.old_str, params.new_str);
-      await fs.writeFile(filePath, newContent, "utf-8");
-
-      // Calculate change info
-      const oldLines = params.old_str.split('\n').length;
-      const newLines = params.new_str.split('\n').length;
-      const lineChange = newLines - oldLines;
-      const lineInfo = lineChange === 0 ? t().fc_str_replace.sameLineCount :
-                       lineChange > 0 ? t().fc_str_replace.addedLines(lineChange) : t().fc_str_replace.removedLines(lineChange);
-
-      // Show context around the change
-      const changeIndex = content.indexOf(params.old_str);
-      const contextStart = Math.max(0, changeIndex - 50);
-      const contextEnd = Math.min(content.length, changeIndex + params.old_str.length + 50);
-      const beforeContext = content.substring(contextStart, changeIndex);
-      const afterContext = content.substring(changeIndex + params.old_str.length, contextEnd);
+      const operationId = changes.length > 0 ? await writeFileBatch('fc_apply_patch', changes) : undefined;
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_str_replace.replaced(path.basename(filePath))}\n\n| | |\n|---|---|\n| ${t().fc_str_replace.labelChange} | ${lineInfo} |\n| ${t().fc_str_replace.labelFile} | ${filePath} |\n\n${t().fc_str_replace.contextLabel}\n\`\`\`\n...${beforeContext}\u25B6${params.new_str}\u25C0${afterContext}...\n\`\`\``
-        }]
-      };
+      return structuredResult([
+        t().fc_apply_patch.appliedHeader(appliedHunks, totalHunks, changes.length), '',
+        ...report
+      ].join('\n') + journalNote(operationId), { ...structured, written: changes.length > 0, operation_id: operationId }, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      return {
-        isError: true,
-        content: [{ type: "text", text: t().fc_str_replace.replaceError(errorMsg) }]
-      };
+      return { isError: true, content: [{ type: "text", text: t().fc_apply_patch.applyError(errorMsg) }] };
     }
   }
-)
+);
 
 // ============================================================================
 // Tool: List Processes
@@ -1993,7 +7980,16 @@ Returns:
 
 Note: Uses 'tasklist' (Windows) or 'ps' (Unix)`,
     inputSchema: {
-      filter: z.string().optional().describe("Filter by process name")
+      filter: z.string().optional().describe("Filter by process name"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      filter: z.string().optional(),
+      processes: z.array(z.object({
+        pid: z.number(),
+        name: z.string(),
+        memory: z.string()
+      }))
     },
     annotations: {
       readOnlyHint: true,
@@ -2020,18 +8016,18 @@ Note: Uses 'tasklist' (Windows) or 'ps' (Unix)`,
       const { stdout } = await execAsync(command);
 
       if (!stdout.trim()) {
-        return {
-          content: [{ type: "text", text: t().fc_list_processes.noProcesses(params.filter) }]
-        };
+        return structuredResult(t().fc_list_processes.noProcesses(params.filter), { filter: params.filter, processes: [] }, params.output_format);
       }
 
       let output: string;
+      const entries: { pid: number; name: string; memory: string }[] = [];
 
       if (isWindows) {
         // Parse CSV output from tasklist
         const lines = stdout.trim().split('\n').filter(l => l.trim());
         const processes = lines.map(line => {
           const parts = line.split('","').map(p => p.replace(/"/g, ''));
+          entries.push({ pid: parseInt(parts[1], 10) || 0, name: parts[0] || '', memory: (parts[4] || '').trim() });
           return `| ${parts[0] || '-'} | ${parts[1] || '-'} | ${parts[4] || '-'} |`;
         });
 
@@ -2043,6 +8039,14 @@ Note: Uses 'tasklist' (Windows) or 'ps' (Unix)`,
           ...processes.slice(0, 50)
         ].join('\n');
       } else {
+        // ps aux: USER PID %CPU %MEM VSZ RSS TTY STAT START TIME COMMAND
+        for (const line of stdout.trim().split('\n')) {
+          const parts = line.trim().split(/\s+/);
+          const pid = parseInt(parts[1], 10);
+          if (parts.length < 11 || isNaN(pid)) continue;
+          entries.push({ pid, name: parts.slice(10).join(' '), memory: `${parts[3]}%` });
+        }
+
         output = [
           t().fc_list_processes.header(params.filter),
           ``,
@@ -2052,9 +8056,7 @@ Note: Uses 'tasklist' (Windows) or 'ps' (Unix)`,
         ].join('\n');
       }
 
-      return {
-        content: [{ type: "text", text: output }]
-      };
+      return structuredResult(output, { filter: params.filter, processes: entries.slice(0, 50) }, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
@@ -2084,7 +8086,13 @@ Warning: May cause data loss!`,
     inputSchema: {
       pid: z.number().int().optional().describe("Process ID"),
       name: z.string().optional().describe("Process name"),
-      force: z.boolean().default(false).describe("Force")
+      force: z.boolean().default(false).describe("Force"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      target: z.string(),
+      force: z.boolean(),
+      output: z.string()
     },
     annotations: {
       readOnlyHint: false,
@@ -2130,12 +8138,11 @@ Warning: May cause data loss!`,
       const { stdout, stderr } = await execAsync(command);
       const target = params.pid ? `PID ${params.pid}` : `"${params.name}"`;
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_kill_process.killed(target)}\n${stdout || stderr || ''}`.trim()
-        }]
-      };
+      return structuredResult(
+        `${t().fc_kill_process.killed(target)}\n${stdout || stderr || ''}`.trim(),
+        { target, force: params.force, output: (stdout || stderr || '').trim() },
+        params.output_format
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
@@ -2171,7 +8178,15 @@ Examples:
     inputSchema: {
       command: z.string().min(1).describe("Command/Program"),
       args: z.array(z.string()).default([]).describe("Arguments"),
-      cwd: z.string().optional().describe("Working directory")
+      cwd: z.string().optional().describe("Working directory"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      session_id: z.string(),
+      command: z.string(),
+      args: z.array(z.string()),
+      pid: z.number().optional(),
+      cwd: z.string()
     },
     annotations: {
       readOnlyHint: false,
@@ -2183,7 +8198,7 @@ Examples:
   async (params) => {
     try {
       const sessionId = generateSessionId();
-      const cwd = params.cwd ? normalizePath(params.cwd) : process.cwd();
+      const cwd = await resolveWorkingDirectory(params.cwd);
 
       const proc = spawn(params.command, params.args, {
         cwd,
@@ -2227,12 +8242,11 @@ Examples:
 
       processSessions.set(sessionId, session);
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_start_session.started(sessionId, `${params.command} ${params.args.join(' ')}`, proc.pid, cwd)}\n\n${t().fc_start_session.useReadAndSend}`
-        }]
-      };
+      return structuredResult(
+        `${t().fc_start_session.started(sessionId, `${params.command} ${params.args.join(' ')}`, proc.pid, cwd)}\n\n${t().fc_start_session.useReadAndSend}`,
+        { session_id: sessionId, command: params.command, args: params.args, pid: proc.pid, cwd },
+        params.output_format
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
@@ -2261,7 +8275,14 @@ Returns:
   - Collected output since start/last clear`,
     inputSchema: {
       session_id: z.string().min(1).describe("Session ID"),
-      clear: z.boolean().default(false).describe("Clear output")
+      clear: z.boolean().default(false).describe("Clear output"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      session_id: z.string(),
+      status: z.enum(["running", "ended"]),
+      output: z.string(),
+      cleared: z.boolean()
     },
     annotations: {
       readOnlyHint: true,
@@ -2287,12 +8308,11 @@ Returns:
       session.output = [];
     }
 
-    return {
-      content: [{
-        type: "text",
-        text: `${t().fc_read_output.header(status)}\n\`\`\`\n${output || t().fc_read_output.noOutput}\n\`\`\``
-      }]
-    };
+    return structuredResult(
+      `${t().fc_read_output.header(status)}\n\`\`\`\n${output || t().fc_read_output.noOutput}\n\`\`\``,
+      { session_id: session.id, status: session.isRunning ? 'running' as const : 'ended' as const, output, cleared: params.clear },
+      params.output_format
+    );
   }
 );
 
@@ -2317,7 +8337,12 @@ Examples:
     inputSchema: {
       session_id: z.string().min(1).describe("Session ID"),
       input: z.string().describe("Input to send"),
-      newline: z.boolean().default(true).describe("Append newline")
+      newline: z.boolean().default(true).describe("Append newline"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      session_id: z.string(),
+      bytes: z.number()
     },
     annotations: {
       readOnlyHint: false,
@@ -2347,12 +8372,11 @@ Examples:
       const inputText = params.newline ? params.input + '\n' : params.input;
       session.process.stdin?.write(inputText);
 
-      return {
-        content: [{
-          type: "text",
-          text: `${t().fc_send_input.sent(params.session_id)}\n\`\`\`\n${params.input}\n\`\`\`\n${t().fc_send_input.useReadOutput}`
-        }]
-      };
+      return structuredResult(
+        `${t().fc_send_input.sent(params.session_id)}\n\`\`\`\n${params.input}\n\`\`\`\n${t().fc_send_input.useReadOutput}`,
+        { session_id: params.session_id, bytes: Buffer.byteLength(inputText) },
+        params.output_format
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
@@ -2375,7 +8399,18 @@ server.registerTool(
 
 Returns:
   - Table of all sessions with status`,
-    inputSchema: {},
+    inputSchema: {
+      ...outputFormatParam
+    },
+    outputSchema: {
+      sessions: z.array(z.object({
+        session_id: z.string(),
+        status: z.enum(["running", "ended"]),
+        command: z.string(),
+        pid: z.number().optional(),
+        runtime_seconds: z.number()
+      }))
+    },
     annotations: {
       readOnlyHint: true,
       destructiveHint: false,
@@ -2383,19 +8418,19 @@ Returns:
       openWorldHint: false
     }
   },
-  async () => {
+  async (params) => {
     if (processSessions.size === 0) {
-      return {
-        content: [{ type: "text", text: `${t().fc_list_sessions.noSessions}\n\n${t().fc_list_sessions.useStartSession}` }]
-      };
+      return structuredResult(`${t().fc_list_sessions.noSessions}\n\n${t().fc_list_sessions.useStartSession}`, { sessions: [] }, params.output_format);
     }
 
     const rows: string[] = [];
+    const sessions: { session_id: string; status: 'running' | 'ended'; command: string; pid?: number; runtime_seconds: number }[] = [];
 
     for (const [id, session] of processSessions) {
       const status = session.isRunning ? '\uD83D\uDFE2' : '\uD83D\uDD34';
       const runtime = Math.round((Date.now() - session.startTime.getTime()) / 1000);
       rows.push(`| ${status} | \`${id}\` | ${session.command} | ${session.process.pid || '-'} | ${runtime}s |`);
+      sessions.push({ session_id: id, status: session.isRunning ? 'running' : 'ended', command: session.command, pid: session.process.pid, runtime_seconds: runtime });
     }
 
     const output = [
@@ -2406,9 +8441,7 @@ Returns:
       ...rows
     ];
 
-    return {
-      content: [{ type: "text", text: output.join('\n') }]
-    };
+    return structuredResult(output.join('\n'), { sessions }, params.output_format);
   }
 );
 
@@ -2427,7 +8460,12 @@ Args:
   - force (boolean, optional): Force termination`,
     inputSchema: {
       session_id: z.string().min(1).describe("Session ID"),
-      force: z.boolean().default(false).describe("Force")
+      force: z.boolean().default(false).describe("Force"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      session_id: z.string(),
+      closed: z.boolean()
     },
     annotations: {
       readOnlyHint: false,
@@ -2457,9 +8495,7 @@ Args:
 
       processSessions.delete(params.session_id);
 
-      return {
-        content: [{ type: "text", text: t().fc_close_session.closed(params.session_id) }]
-      };
+      return structuredResult(t().fc_close_session.closed(params.session_id), { session_id: params.session_id, closed: true }, params.output_format);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
@@ -2489,7 +8525,16 @@ Repairs: BOM, trailing commas, single quotes, comments, NUL bytes`,
     inputSchema: {
       path: z.string().min(1).describe("Path to the JSON file"),
       dry_run: z.boolean().default(false).describe("Only show problems"),
-      create_backup: z.boolean().default(true).describe("Create backup")
+      create_backup: z.boolean().default(true).describe("Create backup"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      dry_run: z.boolean(),
+      fixes: z.array(z.string()),
+      valid: z.boolean(),
+      parse_error: z.string().optional(),
+      backup_path: z.string().optional()
     },
     annotations: {
       readOnlyHint: false,
@@ -2500,7 +8545,7 @@ Repairs: BOM, trailing commas, single quotes, comments, NUL bytes`,
   },
   async (params) => {
     try {
-      const filePath = normalizePath(params.path);
+      const filePath = await resolvePath(params.path, params.dry_run ? 'read' : 'write');
       if (!await pathExists(filePath)) {
         return { isError: true, content: [{ type: "text", text: t().common.fileNotFound(filePath) }] };
       }
@@ -2547,19 +8592,19 @@ Repairs: BOM, trailing commas, single quotes, comments, NUL bytes`,
       let parseError = '';
       try { JSON.parse(content); isValid = true; } catch (e) { parseError = e instanceof Error ? e.message : String(e); }
 
+      const data = { path: filePath, dry_run: params.dry_run, fixes, valid: isValid, parse_error: parseError || undefined };
+
       if (fixes.length === 0 && isValid) {
-        return { content: [{ type: "text", text: t().fc_fix_json.alreadyValid(path.basename(filePath)) }] };
+        return structuredResult(t().fc_fix_json.alreadyValid(path.basename(filePath)), data, params.output_format);
       }
 
       if (params.dry_run) {
-        return {
-          content: [{ type: "text", text: [
-            t().fc_fix_json.analysisHeader(path.basename(filePath)), '',
-            fixes.length > 0 ? t().fc_fix_json.foundProblems : t().fc_fix_json.noAutoFixable,
-            ...fixes.map(f => `  - ${f}`), '',
-            isValid ? t().fc_fix_json.afterFixValid : t().fc_fix_json.afterFixInvalid(parseError)
-          ].join('\n') }]
-        };
+        return structuredResult([
+          t().fc_fix_json.analysisHeader(path.basename(filePath)), '',
+          fixes.length > 0 ? t().fc_fix_json.foundProblems : t().fc_fix_json.noAutoFixable,
+          ...fixes.map(f => `  - ${f}`), '',
+          isValid ? t().fc_fix_json.afterFixValid : t().fc_fix_json.afterFixInvalid(parseError)
+        ].join('\n'), data, params.output_format);
       }
 
       if (params.create_backup && fixes.length > 0) {
@@ -2571,14 +8616,15 @@ Repairs: BOM, trailing commas, single quotes, comments, NUL bytes`,
       }
       await fs.writeFile(filePath, content, "utf-8");
 
-      return {
-        content: [{ type: "text", text: [
-          t().fc_fix_json.repairedHeader(path.basename(filePath)), '',
-          ...fixes.map(f => `  - ${f}`), '',
-          isValid ? t().fc_fix_json.validJson : t().fc_fix_json.stillInvalid(parseError),
-          params.create_backup ? t().fc_fix_json.backupCreated(`${filePath}.bak`) : ''
-        ].join('\n') }]
-      };
+      return structuredResult([
+        t().fc_fix_json.repairedHeader(path.basename(filePath)), '',
+        ...fixes.map(f => `  - ${f}`), '',
+        isValid ? t().fc_fix_json.validJson : t().fc_fix_json.stillInvalid(parseError),
+        params.create_backup ? t().fc_fix_json.backupCreated(`${filePath}.bak`) : ''
+      ].join('\n'), {
+        ...data,
+        backup_path: params.create_backup && fixes.length > 0 ? `${filePath}.bak` : undefined
+      }, params.output_format);
     } catch (error) {
       return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
     }
@@ -2601,7 +8647,18 @@ Args:
 Returns:
   - Validation status with line/column on errors`,
     inputSchema: {
-      path: z.string().min(1).describe("Path to the JSON file")
+      path: z.string().min(1).describe("Path to the JSON file"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      valid: z.boolean(),
+      size: z.number(),
+      bom: z.boolean(),
+      json_type: z.enum(["object", "array", "string", "number", "boolean", "null"]).optional(),
+      error: z.string().optional(),
+      line: z.number().optional(),
+      column: z.number().optional()
     },
     annotations: {
       readOnlyHint: true,
@@ -2612,46 +8669,52 @@ Returns:
   },
   async (params) => {
     try {
-      const filePath = normalizePath(params.path);
+      const filePath = await resolvePath(params.path, 'read');
       if (!await pathExists(filePath)) {
         return { isError: true, content: [{ type: "text", text: t().common.fileNotFound(filePath) }] };
       }
 
       const content = await fs.readFile(filePath, "utf-8");
       const stats = await fs.stat(filePath);
+      const hasBom = content.charCodeAt(0) === 0xFEFF;
 
       try {
         const parsed = JSON.parse(content);
         const keyCount = typeof parsed === 'object' && parsed !== null ? Object.keys(parsed).length : 0;
         const jsonType = Array.isArray(parsed) ? t().fc_validate_json.typeArray(parsed.length) : typeof parsed === 'object' && parsed !== null ? t().fc_validate_json.typeObject(keyCount) : typeof parsed;
-
-        return {
-          content: [{ type: "text", text: [
-            t().fc_validate_json.validHeader(path.basename(filePath)), '',
-            `| ${t().fc_validate_json.propType} | ${jsonType} |`, `|---|---|`,
-            `| ${t().fc_validate_json.propSize} | ${formatFileSize(stats.size)} |`,
-            `| ${t().fc_validate_json.propBom} | ${content.charCodeAt(0) === 0xFEFF ? t().fc_validate_json.propBomYes : t().fc_validate_json.propBomNo} |`,
-            `| ${t().fc_validate_json.propEncoding} | UTF-8 |`
-          ].join('\n') }]
-        };
+        const rawType = parsed === null ? 'null' as const : Array.isArray(parsed) ? 'array' as const : typeof parsed as 'object' | 'string' | 'number' | 'boolean';
+
+        return structuredResult([
+          t().fc_validate_json.validHeader(path.basename(filePath)), '',
+          `| ${t().fc_validate_json.propType} | ${jsonType} |`, `|---|---|`,
+          `| ${t().fc_validate_json.propSize} | ${formatFileSize(stats.size)} |`,
+          `| ${t().fc_validate_json.propBom} | ${hasBom ? t().fc_validate_json.propBomYes : t().fc_validate_json.propBomNo} |`,
+          `| ${t().fc_validate_json.propEncoding} | UTF-8 |`
+        ].join('\n'), { path: filePath, valid: true, size: stats.size, bom: hasBom, json_type: rawType }, params.output_format);
       } catch (e) {
         const errorMsg = e instanceof Error ? e.message : String(e);
         // Extract position from error message
         const posMatch = errorMsg.match(/position\s+(\d+)/i);
         let lineInfo = '';
+        let errorLine: number | undefined;
+        let errorColumn: number | undefined;
         if (posMatch) {
           const pos = parseInt(posMatch[1]);
           const before = content.substring(0, pos);
           const line = before.split('\n').length;
           const col = pos - before.lastIndexOf('\n');
+          errorLine = line;
+          errorColumn = col;
           const lines = content.split('\n');
           const contextLines = lines.slice(Math.max(0, line - 3), line + 2);
           lineInfo = `\n${t().fc_validate_json.errorPosition(line, col)}\n\n\`\`\`\n${contextLines.map((l, i) => `${Math.max(1, line - 2) + i}: ${l}`).join('\n')}\n\`\`\``;
         }
 
-        return {
-          content: [{ type: "text", text: `${t().fc_validate_json.invalidHeader(path.basename(filePath))}\n\n${t().fc_validate_json.errorLabel} ${errorMsg}${lineInfo}\n\n${t().fc_validate_json.useFcFixJson}` }]
-        };
+        return structuredResult(
+          `${t().fc_validate_json.invalidHeader(path.basename(filePath))}\n\n${t().fc_validate_json.errorLabel} ${errorMsg}${lineInfo}\n\n${t().fc_validate_json.useFcFixJson}`,
+          { path: filePath, valid: false, size: stats.size, bom: hasBom, error: errorMsg, line: errorLine, column: errorColumn },
+          params.output_format
+        );
       }
     } catch (error) {
       return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
@@ -2672,23 +8735,37 @@ server.registerTool(
 Args:
   - path (string): Path to file or directory
   - recursive (boolean, optional): Recursive for directories
-  - extensions (string, optional): Filter file extensions (e.g. ".txt,.json,.py")
+  - include (string[], optional): Glob filters, e.g. ["*.{txt,json}", "!**/vendor/**"]
+  - extensions (string, optional): Filter file extensions (e.g. ".txt,.json,.py"), shorthand for include
   - remove_bom (boolean): Remove UTF-8 BOM
   - remove_trailing_whitespace (boolean): Remove trailing whitespace
   - normalize_line_endings (string, optional): "lf" | "crlf" | null
   - remove_nul_bytes (boolean): Remove NUL bytes
   - dry_run (boolean): Preview only
+  - respect_ignore (boolean, optional): Skip paths excluded by .gitignore, .ignore and .fcignore (default: true)
 
 Cleans: BOM, NUL bytes, trailing whitespace, line endings`,
     inputSchema: {
       path: z.string().min(1).describe("Path to file/directory"),
       recursive: z.boolean().default(false).describe("Recursive"),
+      include: z.array(z.string()).optional().describe("Glob filters"),
       extensions: z.string().optional().describe("Filter extensions (.txt,.json)"),
       remove_bom: z.boolean().default(true).describe("Remove BOM"),
       remove_trailing_whitespace: z.boolean().default(true).describe("Trailing whitespace"),
       normalize_line_endings: z.enum(["lf", "crlf"]).optional().describe("Line endings"),
       remove_nul_bytes: z.boolean().default(true).describe("Remove NUL bytes"),
-      dry_run: z.boolean().default(false).describe("Preview only")
+      dry_run: z.boolean().default(false).describe("Preview only"),
+      respect_ignore: z.boolean().default(true).describe("Honor .gitignore/.ignore/.fcignore"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      dry_run: z.boolean(),
+      files_scanned: z.number(),
+      files: z.array(z.object({
+        file: z.string(),
+        fixes: z.array(z.string())
+      }))
     },
     annotations: {
       readOnlyHint: false,
@@ -2697,43 +8774,36 @@ Cleans: BOM, NUL bytes, trailing whitespace, line endings`,
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     try {
-      const targetPath = normalizePath(params.path);
+      const targetPath = await resolvePath(params.path, params.dry_run ? 'read' : 'write');
       if (!await pathExists(targetPath)) {
         return { isError: true, content: [{ type: "text", text: t().common.pathNotFound(targetPath) }] };
       }
 
       const stats = await fs.stat(targetPath);
-      const extFilter = params.extensions ? params.extensions.split(',').map(e => e.trim().toLowerCase()) : null;
+      const fileFilter = buildFileFilter(params.include, params.extensions);
 
       // Collect files
       const files: string[] = [];
       if (stats.isDirectory()) {
-        async function collectFiles(dir: string): Promise<void> {
-          const entries = await fs.readdir(dir, { withFileTypes: true });
-          for (const entry of entries) {
-            const full = path.join(dir, entry.name);
-            if (entry.isDirectory() && params.recursive) {
-              if (!['node_modules', '.git', '$RECYCLE.BIN'].includes(entry.name)) {
-                await collectFiles(full);
-              }
-            } else if (entry.isFile()) {
-              if (!extFilter || extFilter.includes(path.extname(entry.name).toLowerCase())) {
-                files.push(full);
-              }
-            }
+        for await (const entry of walkFiles(targetPath, { recursive: params.recursive, respectIgnore: params.respect_ignore, signal: extra.signal, progress })) {
+          if (!entry.isFile) continue;
+          if (!fileFilter || matchesGlobs(entry.relativePath, fileFilter)) {
+            files.push(entry.fullPath);
           }
         }
-        await collectFiles(targetPath);
       } else {
         files.push(targetPath);
       }
 
       const results: string[] = [];
+      const cleaned: { file: string; fixes: string[] }[] = [];
       let totalFixed = 0;
 
+      progress.total = progress.done + files.length;
       for (const filePath of files) {
+        step({ signal: extra.signal, progress }, filePath);
         try {
           const raw = await fs.readFile(filePath, "utf-8");
           let content = raw;
@@ -2766,6 +8836,7 @@ Cleans: BOM, NUL bytes, trailing whitespace, line endings`,
               await fs.writeFile(filePath, content, "utf-8");
             }
             results.push(`  ✅ ${path.relative(targetPath, filePath) || path.basename(filePath)} [${fixes.join(', ')}]`);
+            cleaned.push({ file: filePath, fixes });
             totalFixed++;
           }
         } catch {
@@ -2773,20 +8844,20 @@ Cleans: BOM, NUL bytes, trailing whitespace, line endings`,
         }
       }
 
+      const data = { path: targetPath, dry_run: params.dry_run, files_scanned: files.length, files: cleaned };
+
       if (totalFixed === 0) {
-        return { content: [{ type: "text", text: t().fc_cleanup_file.noCleanupNeeded(files.length) }] };
+        return structuredResult(t().fc_cleanup_file.noCleanupNeeded(files.length), data, params.output_format);
       }
 
-      return {
-        content: [{ type: "text", text: [
-          `${params.dry_run ? t().fc_cleanup_file.previewHeader : t().fc_cleanup_file.cleanedHeader}: ${t().fc_cleanup_file.cleanedCount(totalFixed, files.length)}`, '',
-          ...results
-        ].join('\n') }]
-      };
+      return structuredResult([
+        `${params.dry_run ? t().fc_cleanup_file.previewHeader : t().fc_cleanup_file.cleanedHeader}: ${t().fc_cleanup_file.cleanedCount(totalFixed, files.length)}`, '',
+        ...results
+      ].join('\n'), data, params.output_format);
     } catch (error) {
       return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
     }
-  }
+  })
 );
 
 // ============================================================================
@@ -2810,7 +8881,14 @@ Repairs common mojibake patterns like:
     inputSchema: {
       path: z.string().min(1).describe("Path to the file"),
       dry_run: z.boolean().default(false).describe("Preview only"),
-      create_backup: z.boolean().default(true).describe("Create backup")
+      create_backup: z.boolean().default(true).describe("Create backup"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      dry_run: z.boolean(),
+      fixes: z.array(z.string()),
+      backup_path: z.string().optional()
     },
     annotations: {
       readOnlyHint: false,
@@ -2821,7 +8899,7 @@ Repairs common mojibake patterns like:
   },
   async (params) => {
     try {
-      const filePath = normalizePath(params.path);
+      const filePath = await resolvePath(params.path, params.dry_run ? 'read' : 'write');
       if (!await pathExists(filePath)) {
         return { isError: true, content: [{ type: "text", text: t().common.fileNotFound(filePath) }] };
       }
@@ -2857,18 +8935,18 @@ Repairs common mojibake patterns like:
         }
       }
 
+      const data = { path: filePath, dry_run: params.dry_run, fixes };
+
       if (fixes.length === 0) {
-        return { content: [{ type: "text", text: t().fc_fix_encoding.noErrors(path.basename(filePath)) }] };
+        return structuredResult(t().fc_fix_encoding.noErrors(path.basename(filePath)), data, params.output_format);
       }
 
       if (params.dry_run) {
-        return {
-          content: [{ type: "text", text: [
-            t().fc_fix_encoding.analysisHeader(path.basename(filePath)), '',
-            t().fc_fix_encoding.foundMojibake,
-            ...fixes.map(f => `  - ${f}`)
-          ].join('\n') }]
-        };
+        return structuredResult([
+          t().fc_fix_encoding.analysisHeader(path.basename(filePath)), '',
+          t().fc_fix_encoding.foundMojibake,
+          ...fixes.map(f => `  - ${f}`)
+        ].join('\n'), data, params.output_format);
       }
 
       if (params.create_backup) {
@@ -2876,13 +8954,11 @@ Repairs common mojibake patterns like:
       }
       await fs.writeFile(filePath, content, "utf-8");
 
-      return {
-        content: [{ type: "text", text: [
-          t().fc_fix_encoding.repairedHeader(path.basename(filePath)), '',
-          ...fixes.map(f => `  - ${f}`),
-          params.create_backup ? `\n${t().fc_fix_encoding.backupCreated(`${filePath}.bak`)}` : ''
-        ].join('\n') }]
-      };
+      return structuredResult([
+        t().fc_fix_encoding.repairedHeader(path.basename(filePath)), '',
+        ...fixes.map(f => `  - ${f}`),
+        params.create_backup ? `\n${t().fc_fix_encoding.backupCreated(`${filePath}.bak`)}` : ''
+      ].join('\n'), { ...data, backup_path: params.create_backup ? `${filePath}.bak` : undefined }, params.output_format);
     } catch (error) {
       return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
     }
@@ -2897,19 +8973,52 @@ server.registerTool(
   "fc_folder_diff",
   {
     title: "Folder Diff",
-    description: `Compares the current state of a directory with a saved snapshot.
+    description: `Compares the current state of a directory with a saved snapshot, or with a second directory.
 
 Args:
   - path (string): Path to the directory
-  - save_snapshot (boolean): Save current state as new snapshot
-  - extensions (string, optional): Filter file extensions
+  - compare_to (string, optional): Compare path (old) with this directory (new) instead of a snapshot
+  - save_snapshot (boolean): Save current state as new snapshot (ignored with compare_to)
+  - content (boolean, optional): Compare file contents via sha256; the snapshot also keeps copies of
+    text files up to 256 KB so later calls can show diffs (default: false)
+  - detect_renames (boolean, optional): Report deleted + new files with identical content as renamed (default: true)
+  - show_diffs (boolean, optional): Unified diffs for modified text files up to 256 KB (default: false)
+  - include (string[], optional): Glob filters, e.g. ["*.{txt,json}", "!**/vendor/**"]
+  - extensions (string, optional): Filter file extensions, shorthand for include
+  - respect_ignore (boolean, optional): Skip paths excluded by .gitignore, .ignore and .fcignore (default: true)
+
+Detects: New files, modified files, deleted files; with content comparison also renamed/moved files and
+touched files (mtime changed, content unchanged). With compare_to, files are always compared by content.
+Diffs against a snapshot need a previous call with content=true.
+Snapshots are saved in %TEMP%/.fc_snapshots/
 
-Detects: New files, modified files, deleted files
-Snapshots are saved in %TEMP%/.fc_snapshots/`,
+Examples:
+  - Review changes: path: "/project", content: true, show_diffs: true
+  - Two checkouts: path: "/project-old", compare_to: "/project", show_diffs: true`,
     inputSchema: {
       path: z.string().min(1).describe("Path to the directory"),
+      compare_to: z.string().min(1).optional().describe("Second directory to compare with"),
       save_snapshot: z.boolean().default(true).describe("Save snapshot"),
-      extensions: z.string().optional().describe("Filter extensions")
+      content: z.boolean().default(false).describe("Compare by content hash"),
+      detect_renames: z.boolean().default(true).describe("Detect renamed files"),
+      show_diffs: z.boolean().default(false).describe("Show diffs of modified text files"),
+      include: z.array(z.string()).optional().describe("Glob filters"),
+      extensions: z.string().optional().describe("Filter extensions"),
+      respect_ignore: z.boolean().default(true).describe("Honor .gitignore/.ignore/.fcignore"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      path: z.string(),
+      compare_to: z.string().optional(),
+      snapshot: z.string().optional(),
+      first_snapshot: z.boolean(),
+      total_files: z.number(),
+      new: z.array(z.string()),
+      modified: z.array(z.string()),
+      deleted: z.array(z.string()),
+      renamed: z.array(z.object({ from: z.string(), to: z.string() })),
+      touched: z.array(z.string()),
+      diffs: z.array(z.object({ file: z.string(), added: z.number(), removed: z.number(), diff: z.string() }))
     },
     annotations: {
       readOnlyHint: true,
@@ -2918,61 +9027,76 @@ Snapshots are saved in %TEMP%/.fc_snapshots/`,
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     try {
-      const dirPath = normalizePath(params.path);
+      const dirPath = await resolvePath(params.path, 'read');
       if (!await pathExists(dirPath)) {
         return { isError: true, content: [{ type: "text", text: t().common.dirNotFound(dirPath) }] };
       }
+      const otherPath = params.compare_to ? await resolvePath(params.compare_to, 'read') : undefined;
+      if (otherPath && !await pathExists(otherPath)) {
+        return { isError: true, content: [{ type: "text", text: t().common.dirNotFound(otherPath) }] };
+      }
 
-      const extFilter = params.extensions ? params.extensions.split(',').map(e => e.trim().toLowerCase()) : null;
+      const fileFilter = buildFileFilter(params.include, params.extensions);
       const snapshotDir = path.join(os.tmpdir(), '.fc_snapshots');
       const snapshotId = crypto.createHash('md5').update(dirPath).digest('hex');
       const snapshotFile = path.join(snapshotDir, `${snapshotId}.json`);
-
-      // Scan current state
-      interface FileEntry { size: number; mtime: number; }
-      const currentState: Record<string, FileEntry> = {};
-
-      async function scanDir(dir: string): Promise<void> {
+      const blobDir = path.join(snapshotDir, `${snapshotId}.blobs`);
+      const compareContent = params.content || otherPath !== undefined;
+
+      // Alter Stand: zweites Verzeichnis "path" bzw. Snapshot; neuer Stand: compare_to bzw. path
+      const newRoot = otherPath ?? dirPath;
+      const run: RunContext = { signal: extra.signal, progress };
+      const currentState = await scanFolderState(newRoot, fileFilter, params.respect_ignore, run);
+      let previousState: Record<string, FolderSnapshotEntry> = {};
+      let hasSnapshot = false;
+      if (otherPath) {
+        previousState = await scanFolderState(dirPath, fileFilter, params.respect_ignore, run);
+        hasSnapshot = true;
+      } else {
         try {
-          const entries = await fs.readdir(dir, { withFileTypes: true });
-          for (const entry of entries) {
-            const full = path.join(dir, entry.name);
-            if (entry.isDirectory()) {
-              if (!['node_modules', '.git', '$RECYCLE.BIN'].includes(entry.name)) {
-                await scanDir(full);
-              }
-            } else if (entry.isFile()) {
-              if (!extFilter || extFilter.includes(path.extname(entry.name).toLowerCase())) {
-                const stats = await fs.stat(full);
-                const rel = path.relative(dirPath, full);
-                currentState[rel] = { size: stats.size, mtime: stats.mtimeMs };
-              }
-            }
-          }
-        } catch { /* skip inaccessible dirs */ }
+          const data = await fs.readFile(snapshotFile, "utf-8");
+          previousState = JSON.parse(data);
+          hasSnapshot = true;
+        } catch { /* no previous snapshot */ }
       }
-      await scanDir(dirPath);
 
-      // Load previous snapshot
-      let previousState: Record<string, FileEntry> = {};
-      let hasSnapshot = false;
-      try {
-        const data = await fs.readFile(snapshotFile, "utf-8");
-        previousState = JSON.parse(data);
-        hasSnapshot = true;
-      } catch { /* no previous snapshot */ }
+      // Hashes bei Bedarf; gegen einen Snapshot werden unveraenderte Dateien nicht neu gelesen
+      const hashOf = (filePath: string) => hashFile(filePath, 'sha256', undefined, extra.signal);
+      const currentHash = async (rel: string) => currentState[rel].hash ??= await hashOf(path.join(newRoot, rel));
+      const previousHash = async (rel: string) => otherPath
+        ? previousState[rel].hash ??= await hashOf(path.join(dirPath, rel))
+        : previousState[rel].hash;
+      if (params.content && !otherPath) {
+        for (const [rel, entry] of Object.entries(currentState)) {
+          step(run, rel);
+          const prev = previousState[rel];
+          entry.hash = prev?.hash && prev.size === entry.size && prev.mtime === entry.mtime
+            ? prev.hash
+            : await hashOf(path.join(newRoot, rel));
+        }
+      }
 
       // Compare
-      const newFiles: string[] = [];
+      let newFiles: string[] = [];
       const modifiedFiles: string[] = [];
-      const deletedFiles: string[] = [];
+      let deletedFiles: string[] = [];
+      const touchedFiles: string[] = [];
+      const renamedFiles: { from: string; to: string }[] = [];
 
       for (const [rel, entry] of Object.entries(currentState)) {
-        if (!previousState[rel]) {
+        step(run, rel);
+        const prev = previousState[rel];
+        if (!prev) {
           newFiles.push(rel);
-        } else if (entry.size !== previousState[rel].size || Math.abs(entry.mtime - previousState[rel].mtime) > 1000) {
+        } else if (compareContent && (otherPath || prev.hash)) {
+          if (entry.size !== prev.size || await currentHash(rel) !== await previousHash(rel)) {
+            modifiedFiles.push(rel);
+          } else if (!otherPath && Math.abs(entry.mtime - prev.mtime) > 1000) {
+            touchedFiles.push(rel);
+          }
+        } else if (entry.size !== prev.size || Math.abs(entry.mtime - prev.mtime) > 1000) {
           modifiedFiles.push(rel);
         }
       }
@@ -2982,38 +9106,105 @@ Snapshots are saved in %TEMP%/.fc_snapshots/`,
         }
       }
 
-      // Save snapshot
-      if (params.save_snapshot) {
+      // Umbenennungen: geloeschte und neue Dateien mit gleichem Inhalt (leere Dateien sind nicht eindeutig)
+      if (compareContent && params.detect_renames && newFiles.length > 0 && deletedFiles.length > 0) {
+        const deletedByHash = new Map<string, string[]>();
+        for (const rel of deletedFiles) {
+          const hash = previousState[rel].size > 0 ? await previousHash(rel) : undefined;
+          if (hash) deletedByHash.set(hash, [...(deletedByHash.get(hash) ?? []), rel]);
+        }
+        for (const rel of newFiles) {
+          const candidates = currentState[rel].size > 0 ? deletedByHash.get(await currentHash(rel)) : undefined;
+          if (!candidates || candidates.length === 0) continue;
+          // Gleicher Dateiname zuerst (verschoben statt umbenannt)
+          const index = Math.max(0, candidates.findIndex(c => path.posix.basename(c) === path.posix.basename(rel)));
+          renamedFiles.push({ from: candidates.splice(index, 1)[0], to: rel });
+        }
+        const renamedFrom = new Set(renamedFiles.map(r => r.from));
+        const renamedTo = new Set(renamedFiles.map(r => r.to));
+        newFiles = newFiles.filter(rel => !renamedTo.has(rel));
+        deletedFiles = deletedFiles.filter(rel => !renamedFrom.has(rel));
+      }
+
+      // Diffs der geaenderten Textdateien; alter Inhalt aus dem zweiten Verzeichnis oder dem Snapshot
+      const diffs: { file: string; added: number; removed: number; diff: string }[] = [];
+      let diffsUnavailable = 0;
+      if (params.show_diffs) {
+        for (const rel of modifiedFiles) {
+          const prevHash = previousState[rel].hash;
+          const oldText = otherPath
+            ? await readDiffText(path.join(dirPath, rel))
+            : prevHash ? await readDiffText(path.join(blobDir, prevHash)) : null;
+          const newText = oldText === null ? null : await readDiffText(path.join(newRoot, rel));
+          if (oldText === null || newText === null) {
+            diffsUnavailable++;
+            continue;
+          }
+          diffs.push({ file: rel, ...createUnifiedDiff(oldText, newText, `a/${rel}`, `b/${rel}`) });
+        }
+      }
+
+      // Save snapshot; mit content auch kleine Textdateien (nach Hash abgelegt) fuer spaetere Diffs
+      if (params.save_snapshot && !otherPath) {
         await fs.mkdir(snapshotDir, { recursive: true });
+        const keep = new Set<string>();
+        if (params.content) {
+          await fs.mkdir(blobDir, { recursive: true });
+          for (const [rel, entry] of Object.entries(currentState)) {
+            if (!entry.hash || entry.size > MAX_FOLDER_DIFF_TEXT_BYTES) continue;
+            const blobPath = path.join(blobDir, entry.hash);
+            if (!await pathExists(blobPath)) {
+              const text = await readDiffText(path.join(newRoot, rel));
+              if (text === null) continue;
+              await fs.writeFile(blobPath, text, "utf-8");
+            }
+            keep.add(entry.hash);
+          }
+        }
+        for (const name of await fs.readdir(blobDir).catch(() => [] as string[])) {
+          if (!keep.has(name)) await fs.rm(path.join(blobDir, name), { force: true });
+        }
         await fs.writeFile(snapshotFile, JSON.stringify(currentState), "utf-8");
       }
 
       const totalFiles = Object.keys(currentState).length;
-      const totalChanges = newFiles.length + modifiedFiles.length + deletedFiles.length;
+      const totalChanges = newFiles.length + modifiedFiles.length + deletedFiles.length + renamedFiles.length;
+      const snapshot = otherPath ? undefined : snapshotFile;
 
       if (!hasSnapshot) {
-        return {
-          content: [{ type: "text", text: [
-            t().fc_folder_diff.firstSnapshot(path.basename(dirPath)), '',
-            `| | |`, `|---|---|`,
-            `| ${t().fc_folder_diff.labelFiles} | ${totalFiles} |`,
-            `| ${t().fc_folder_diff.labelSnapshot} | ${snapshotFile} |`, '',
-            t().fc_folder_diff.nextCallInfo
-          ].join('\n') }]
-        };
+        return structuredResult([
+          t().fc_folder_diff.firstSnapshot(path.basename(dirPath)), '',
+          `| | |`, `|---|---|`,
+          `| ${t().fc_folder_diff.labelFiles} | ${totalFiles} |`,
+          `| ${t().fc_folder_diff.labelSnapshot} | ${snapshotFile} |`, '',
+          t().fc_folder_diff.nextCallInfo
+        ].join('\n'), {
+          path: dirPath, snapshot, first_snapshot: true, total_files: totalFiles,
+          new: [], modified: [], deleted: [], renamed: [], touched: [], diffs: []
+        }, params.output_format);
       }
 
+      const diffData = {
+        path: dirPath, compare_to: otherPath, snapshot, first_snapshot: false, total_files: totalFiles,
+        new: newFiles, modified: modifiedFiles, deleted: deletedFiles, renamed: renamedFiles, touched: touchedFiles, diffs
+      };
+      const name = otherPath ? `${dirPath} \u2194 ${otherPath}` : path.basename(dirPath);
+
       if (totalChanges === 0) {
-        return { content: [{ type: "text", text: t().fc_folder_diff.noChanges(path.basename(dirPath), totalFiles) }] };
+        const text = t().fc_folder_diff.noChanges(name, totalFiles) +
+          (touchedFiles.length > 0 ? `\n${t().fc_folder_diff.touchedOnly(touchedFiles.length)}` : '');
+        return structuredResult(text, diffData, params.output_format);
       }
 
       const output = [
-        t().fc_folder_diff.diffHeader(path.basename(dirPath)), '',
+        t().fc_folder_diff.diffHeader(name), '',
         `| | |`, `|---|---|`,
         `| ${t().fc_folder_diff.catNew} | ${newFiles.length} |`,
         `| ${t().fc_folder_diff.catModified} | ${modifiedFiles.length} |`,
+        ...(compareContent ? [`| ${t().fc_folder_diff.catRenamed} | ${renamedFiles.length} |`] : []),
         `| ${t().fc_folder_diff.catDeleted} | ${deletedFiles.length} |`,
-        `| ${t().fc_folder_diff.catUnchanged} | ${totalFiles - newFiles.length - modifiedFiles.length} |`
+        ...(params.content && !otherPath ? [`| ${t().fc_folder_diff.catTouched} | ${touchedFiles.length} |`] : []),
+        `| ${t().fc_folder_diff.catUnchanged} | ${totalFiles - newFiles.length - modifiedFiles.length - renamedFiles.length - touchedFiles.length} |`
       ];
 
       if (newFiles.length > 0) {
@@ -3024,16 +9215,41 @@ Snapshots are saved in %TEMP%/.fc_snapshots/`,
         output.push('', t().fc_folder_diff.modifiedFiles, ...modifiedFiles.slice(0, 50).map(f => `  \uD83D\uDFE1 ${f}`));
         if (modifiedFiles.length > 50) output.push(`  ${t().fc_folder_diff.andMore(modifiedFiles.length - 50)}`);
       }
+      if (renamedFiles.length > 0) {
+        output.push('', t().fc_folder_diff.renamedFiles, ...renamedFiles.slice(0, 50).map(r => `  \uD83D\uDD35 ${r.from} \u2192 ${r.to}`));
+        if (renamedFiles.length > 50) output.push(`  ${t().fc_folder_diff.andMore(renamedFiles.length - 50)}`);
+      }
       if (deletedFiles.length > 0) {
         output.push('', t().fc_folder_diff.deletedFiles, ...deletedFiles.slice(0, 50).map(f => `  \uD83D\uDD34 ${f}`));
         if (deletedFiles.length > 50) output.push(`  ${t().fc_folder_diff.andMore(deletedFiles.length - 50)}`);
       }
 
-      return { content: [{ type: "text", text: output.join('\n') }] };
+      // Diff-Vorschau, insgesamt auf MAX_INLINE_DIFF_LINES Zeilen begrenzt
+      if (diffs.length > 0) {
+        output.push('', t().fc_folder_diff.diffsHeader);
+        let previewLines = 0;
+        let omitted = 0;
+        for (const entry of diffs) {
+          const diffOutput = entry.diff.trimEnd().split('\n');
+          if (previewLines > 0 && previewLines + diffOutput.length > MAX_INLINE_DIFF_LINES) {
+            omitted++;
+            continue;
+          }
+          output.push('```diff', ...diffOutput.slice(0, MAX_INLINE_DIFF_LINES), '```');
+          if (diffOutput.length > MAX_INLINE_DIFF_LINES) {
+            output.push(t().fc_folder_diff.moreDiffLines(diffOutput.length - MAX_INLINE_DIFF_LINES));
+          }
+          previewLines += diffOutput.length;
+        }
+        if (omitted > 0) output.push(t().fc_folder_diff.diffsOmitted(omitted));
+      }
+      if (diffsUnavailable > 0) output.push('', t().fc_folder_diff.diffsUnavailable(diffsUnavailable));
+
+      return structuredResult(output.join('\n'), diffData, params.output_format);
     } catch (error) {
       return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
     }
-  }
+  })
 );
 
 // ============================================================================
@@ -3051,7 +9267,8 @@ Args:
   - mode (string): "remove_prefix" | "remove_suffix" | "replace" | "auto_detect"
   - pattern (string, optional): Text to remove/replace
   - replacement (string, optional): Replacement text (for replace mode)
-  - extensions (string, optional): Filter by extensions
+  - include (string[], optional): Glob filters, e.g. ["*.{txt,json}", "!**/vendor/**"]
+  - extensions (string, optional): Filter by extensions, shorthand for include
   - dry_run (boolean): Preview only
 
 Examples:
@@ -3062,8 +9279,21 @@ Examples:
       mode: z.enum(["remove_prefix", "remove_suffix", "replace", "auto_detect"]).describe("Mode"),
       pattern: z.string().optional().describe("Text to remove/replace"),
       replacement: z.string().default("").describe("Replacement text"),
+      include: z.array(z.string()).optional().describe("Glob filters"),
       extensions: z.string().optional().describe("Filter extensions"),
-      dry_run: z.boolean().default(true).describe("Preview only")
+      dry_run: z.boolean().default(true).describe("Preview only"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      directory: z.string(),
+      mode: z.enum(["remove_prefix", "remove_suffix", "replace", "auto_detect"]),
+      dry_run: z.boolean(),
+      detected_prefix: z.string().optional(),
+      detected_suffix: z.string().optional(),
+      renames: z.array(z.object({ from: z.string(), to: z.string() })),
+      renamed: z.number(),
+      errors: z.array(z.string()),
+      operation_id: z.string().optional()
     },
     annotations: {
       readOnlyHint: false,
@@ -3072,23 +9302,25 @@ Examples:
       openWorldHint: false
     }
   },
-  async (params) => {
+  trackProgress('items', async (params, extra, progress) => {
     try {
-      const dirPath = normalizePath(params.directory);
+      const dirPath = await resolvePath(params.directory, params.dry_run ? 'read' : 'write');
       if (!await pathExists(dirPath)) {
         return { isError: true, content: [{ type: "text", text: t().common.dirNotFound(dirPath) }] };
       }
 
-      const extFilter = params.extensions ? params.extensions.split(',').map(e => e.trim().toLowerCase()) : null;
+      const fileFilter = buildFileFilter(params.include, params.extensions);
       const entries = await fs.readdir(dirPath, { withFileTypes: true });
-      const files = entries.filter(e => e.isFile() && (!extFilter || extFilter.includes(path.extname(e.name).toLowerCase())));
+      const files = entries.filter(e => e.isFile() && (!fileFilter || matchesGlobs(e.name, fileFilter)));
+
+      const renames: { old: string; new: string }[] = [];
+      const baseData = { directory: dirPath, mode: params.mode, dry_run: params.dry_run, renamed: 0, errors: [] as string[] };
+      const plannedRenames = () => renames.map(r => ({ from: r.old, to: r.new }));
 
       if (files.length === 0) {
-        return { content: [{ type: "text", text: t().fc_batch_rename.noMatchingFiles(dirPath) }] };
+        return structuredResult(t().fc_batch_rename.noMatchingFiles(dirPath), { ...baseData, renames: [] }, params.output_format);
       }
 
-      const renames: { old: string; new: string }[] = [];
-
       if (params.mode === 'auto_detect') {
         // Find common prefix
         const names = files.map(f => f.name);
@@ -3111,8 +9343,13 @@ Examples:
         if (commonPrefix.length >= 3) detections.push(`Prefix: "${commonPrefix}"`);
         if (commonSuffix.length >= 3) detections.push(`Suffix: "${commonSuffix}"`);
 
+        const detected = {
+          detected_prefix: commonPrefix.length >= 3 ? commonPrefix : undefined,
+          detected_suffix: commonSuffix.length >= 3 ? commonSuffix : undefined
+        };
+
         if (detections.length === 0) {
-          return { content: [{ type: "text", text: t().fc_batch_rename.noCommonPattern(files.length) }] };
+          return structuredResult(t().fc_batch_rename.noCommonPattern(files.length), { ...baseData, renames: [] }, params.output_format);
         }
 
         // Use prefix if found
@@ -3125,16 +9362,14 @@ Examples:
           }
         }
 
-        return {
-          content: [{ type: "text", text: [
-            t().fc_batch_rename.autoDetectHeader(files.length), '',
-            t().fc_batch_rename.detectedPatterns(detections.join(', ')), '',
-            renames.length > 0 ? t().fc_batch_rename.suggestedRename(commonPrefix) : '',
-            ...renames.slice(0, 30).map(r => `  ${r.old} \u2192 ${r.new}`),
-            renames.length > 30 ? `  ${t().fc_batch_rename.andMore(renames.length - 30)}` : '', '',
-            t().fc_batch_rename.useTip(commonPrefix)
-          ].join('\n') }]
-        };
+        return structuredResult([
+          t().fc_batch_rename.autoDetectHeader(files.length), '',
+          t().fc_batch_rename.detectedPatterns(detections.join(', ')), '',
+          renames.length > 0 ? t().fc_batch_rename.suggestedRename(commonPrefix) : '',
+          ...renames.slice(0, 30).map(r => `  ${r.old} \u2192 ${r.new}`),
+          renames.length > 30 ? `  ${t().fc_batch_rename.andMore(renames.length - 30)}` : '', '',
+          t().fc_batch_rename.useTip(commonPrefix)
+        ].join('\n'), { ...baseData, ...detected, renames: plannedRenames() }, params.output_format);
       }
 
       if (!params.pattern) {
@@ -3165,40 +9400,53 @@ Examples:
       }
 
       if (renames.length === 0) {
-        return { content: [{ type: "text", text: t().fc_batch_rename.noFilesMatchPattern(params.pattern) }] };
+        return structuredResult(t().fc_batch_rename.noFilesMatchPattern(params.pattern), { ...baseData, renames: [] }, params.output_format);
       }
 
       if (params.dry_run) {
-        return {
-          content: [{ type: "text", text: [
-            t().fc_batch_rename.previewHeader(renames.length), '',
-            ...renames.map(r => `  ${r.old} \u2192 ${r.new}`), '',
-            t().fc_batch_rename.setDryRunFalse
-          ].join('\n') }]
-        };
+        return structuredResult([
+          t().fc_batch_rename.previewHeader(renames.length), '',
+          ...renames.map(r => `  ${r.old} \u2192 ${r.new}`), '',
+          t().fc_batch_rename.setDryRunFalse
+        ].join('\n'), { ...baseData, renames: plannedRenames() }, params.output_format);
       }
 
       let successCount = 0;
       const errors: string[] = [];
+      const done: { from: string; to: string }[] = [];
+      progress.total = renames.length;
       for (const r of renames) {
+        // Abbruch durch den Client: bisherige Umbenennungen bleiben und werden protokolliert
+        if (extra.signal.aborted) break;
+        progress.done++;
+        progress.current = r.old;
         try {
           await fs.rename(path.join(dirPath, r.old), path.join(dirPath, r.new));
+          done.push({ from: path.join(dirPath, r.old), to: path.join(dirPath, r.new) });
           successCount++;
         } catch (e) {
           errors.push(`${r.old}: ${e instanceof Error ? e.message : String(e)}`);
         }
       }
-
-      return {
-        content: [{ type: "text", text: [
-          t().fc_batch_rename.renamed(successCount, renames.length),
-          ...errors.map(e => `  \u274C ${e}`)
-        ].join('\n') }]
-      };
+
+      const opId = done.length > 0
+        ? await recordOperation({ id: generateOperationId(), tool: 'fc_batch_rename', type: 'rename_batch', renames: done })
+        : undefined;
+
+      return structuredResult([
+        t().fc_batch_rename.renamed(successCount, renames.length),
+        ...errors.map(e => `  \u274C ${e}`)
+      ].join('\n') + journalNote(opId), {
+        ...baseData,
+        renames: plannedRenames(),
+        renamed: successCount,
+        errors,
+        operation_id: opId
+      }, params.output_format);
     } catch (error) {
       return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
     }
-  }
+  })
 );
 
 // ============================================================================
@@ -3215,8 +9463,11 @@ Args:
   - input_path (string): Path to source file
   - output_path (string): Path to target file
   - input_format (string): "json" | "csv" | "ini" | "yaml" | "toml" | "xml" | "toon"
-  - output_format (string): "json" | "csv" | "ini" | "yaml" | "toml" | "xml" | "toon"
+  - target_format (string): "json" | "csv" | "ini" | "yaml" | "toml" | "xml" | "toon"
   - json_indent (number, optional): JSON indentation (default: 2)
+  - output_format ('text' | 'json', optional): Override the result format, as for every other tool
+
+Deprecated: without target_format, output_format is read as the target format.
 
 Supported conversions:
   - JSON <-> CSV (for arrays of objects)
@@ -3230,8 +9481,17 @@ Supported conversions:
       input_path: z.string().min(1).describe("Source file"),
       output_path: z.string().min(1).describe("Target file"),
       input_format: z.enum(["json", "csv", "ini", "yaml", "toml", "xml", "toon"]).describe("Input format"),
-      output_format: z.enum(["json", "csv", "ini", "yaml", "toml", "xml", "toon"]).describe("Output format"),
-      json_indent: z.number().int().min(0).max(8).default(2).describe("JSON indentation")
+      target_format: z.enum(["json", "csv", "ini", "yaml", "toml", "xml", "toon"]).optional().describe("Target format"),
+      json_indent: z.number().int().min(0).max(8).default(2).describe("JSON indentation"),
+      output_format: z.enum(["text", "json", "csv", "ini", "yaml", "toml", "xml", "toon"]).optional()
+        .describe("Override output format: text or json (deprecated: target format if target_format is missing)")
+    },
+    outputSchema: {
+      input_path: z.string(),
+      output_path: z.string(),
+      input_format: z.string(),
+      target_format: z.string(),
+      size: z.number()
     },
     annotations: {
       readOnlyHint: false,
@@ -3242,8 +9502,18 @@ Supported conversions:
   },
   async (params) => {
     try {
-      const inputPath = normalizePath(params.input_path);
-      const outputPath = normalizePath(params.output_path);
+      // Frueher war output_format das Zielformat; ohne target_format gilt es weiter als solches
+      const targetFormat = params.target_format ?? (params.output_format !== 'text' ? params.output_format : undefined);
+      const resultFormat = params.target_format ? params.output_format : undefined;
+      if (!targetFormat) {
+        return { isError: true, content: [{ type: "text", text: t().fc_convert_format.targetFormatRequired }] };
+      }
+      if (resultFormat !== undefined && resultFormat !== 'text' && resultFormat !== 'json') {
+        return { isError: true, content: [{ type: "text", text: t().fc_convert_format.invalidOutputFormat(resultFormat) }] };
+      }
+
+      const inputPath = await resolvePath(params.input_path, 'read');
+      const outputPath = await resolvePath(params.output_path, 'write');
       if (!await pathExists(inputPath)) {
         return { isError: true, content: [{ type: "text", text: t().fc_convert_format.sourceNotFound(inputPath) }] };
       }
@@ -3313,7 +9583,7 @@ Supported conversions:
 
       // Generate output
       let output: string;
-      switch (params.output_format) {
+      switch (targetFormat) {
         case 'json':
           output = JSON.stringify(data, null, params.json_indent || undefined);
           break;
@@ -3379,15 +9649,19 @@ Supported conversions:
       await fs.writeFile(outputPath, output, "utf-8");
       const outStats = await fs.stat(outputPath);
 
-      return {
-        content: [{ type: "text", text: [
-          t().fc_convert_format.converted(params.input_format.toUpperCase(), params.output_format.toUpperCase()), '',
-          `| | |`, `|---|---|`,
-          `| ${t().fc_convert_format.labelSource} | ${inputPath} |`,
-          `| ${t().fc_convert_format.labelTarget} | ${outputPath} |`,
-          `| ${t().fc_convert_format.labelSize} | ${formatFileSize(outStats.size)} |`
-        ].join('\n') }]
-      };
+      return structuredResult([
+        t().fc_convert_format.converted(params.input_format.toUpperCase(), targetFormat.toUpperCase()), '',
+        `| | |`, `|---|---|`,
+        `| ${t().fc_convert_format.labelSource} | ${inputPath} |`,
+        `| ${t().fc_convert_format.labelTarget} | ${outputPath} |`,
+        `| ${t().fc_convert_format.labelSize} | ${formatFileSize(outStats.size)} |`
+      ].join('\n'), {
+        input_path: inputPath,
+        output_path: outputPath,
+        input_format: params.input_format,
+        target_format: targetFormat,
+        size: outStats.size
+      }, resultFormat);
     } catch (error) {
       return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
     }
@@ -3407,18 +9681,38 @@ server.registerTool(
 Args:
   - directory (string): Directory to scan
   - recursive (boolean): Search recursively
-  - extensions (string, optional): Filter by extensions
+  - include (string[], optional): Glob filters, e.g. ["*.{txt,json}", "!**/vendor/**"]
+  - extensions (string, optional): Filter by extensions, shorthand for include
   - min_size (number, optional): Minimum size in bytes (default: 1)
   - max_size (number, optional): Maximum size in bytes
+  - respect_ignore (boolean, optional): Skip paths excluded by .gitignore, .ignore and .fcignore (default: true)
+  - background (boolean, optional): Run as a background job and return a job ID (see fc_job_status)
 
 Returns:
   - Groups of duplicates with paths and sizes`,
     inputSchema: {
       directory: z.string().min(1).describe("Directory"),
       recursive: z.boolean().default(true).describe("Recursive"),
+      include: z.array(z.string()).optional().describe("Glob filters"),
       extensions: z.string().optional().describe("Filter extensions"),
       min_size: z.number().int().min(0).default(1).describe("Minimum size in bytes"),
-      max_size: z.number().int().optional().describe("Maximum size in bytes")
+      max_size: z.number().int().optional().describe("Maximum size in bytes"),
+      respect_ignore: z.boolean().default(true).describe("Honor .gitignore/.ignore/.fcignore"),
+      background: z.boolean().default(false).describe("Run as background job"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      directory: z.string(),
+      files_checked: z.number().optional(),
+      files_hashed: z.number().optional(),
+      duplicate_files: z.number().optional(),
+      wasted_bytes: z.number().optional(),
+      groups: z.array(z.object({
+        hash: z.string(),
+        size: z.number(),
+        paths: z.array(z.string())
+      })).optional(),
+      job_id: z.string().optional()
     },
     annotations: {
       readOnlyHint: true,
@@ -3427,106 +9721,288 @@ Returns:
       openWorldHint: false
     }
   },
-  async (params) => {
+  async (params, extra) => {
     try {
-      const dirPath = normalizePath(params.directory);
+      const dirPath = await resolvePath(params.directory, 'read');
       if (!await pathExists(dirPath)) {
         return { isError: true, content: [{ type: "text", text: t().common.dirNotFound(dirPath) }] };
       }
 
-      const extFilter = params.extensions ? params.extensions.split(',').map(e => e.trim().toLowerCase()) : null;
-
-      // Collect files with sizes
-      const files: { path: string; size: number }[] = [];
-      async function collectFiles(dir: string): Promise<void> {
-        try {
-          const entries = await fs.readdir(dir, { withFileTypes: true });
-          for (const entry of entries) {
-            const full = path.join(dir, entry.name);
-            if (entry.isDirectory() && params.recursive) {
-              if (!['node_modules', '.git', '$RECYCLE.BIN'].includes(entry.name)) {
-                await collectFiles(full);
+      const fileFilter = buildFileFilter(params.include, params.extensions);
+
+      const detect = async (progress: JobProgress, signal?: AbortSignal): Promise<JobResult> => {
+        // Collect files with sizes
+        const files: { path: string; size: number }[] = [];
+        for await (const entry of walkFiles(dirPath, { recursive: params.recursive, respectIgnore: params.respect_ignore, signal })) {
+          if (!entry.isFile) continue;
+          if (!fileFilter || matchesGlobs(entry.relativePath, fileFilter)) {
+            try {
+              const stats = await fs.stat(entry.fullPath);
+              if (stats.size >= params.min_size && (!params.max_size || stats.size <= params.max_size)) {
+                files.push({ path: entry.fullPath, size: stats.size });
               }
-            } else if (entry.isFile()) {
-              if (!extFilter || extFilter.includes(path.extname(entry.name).toLowerCase())) {
-                const stats = await fs.stat(full);
-                if (stats.size >= params.min_size && (!params.max_size || stats.size <= params.max_size)) {
-                  files.push({ path: full, size: stats.size });
-                }
-              }
-            }
+            } catch { /* skip inaccessible */ }
           }
-        } catch { /* skip inaccessible */ }
-      }
-      await collectFiles(dirPath);
+        }
 
-      // Group by size first (quick filter)
-      const sizeGroups: Map<number, string[]> = new Map();
-      for (const f of files) {
-        const group = sizeGroups.get(f.size) || [];
-        group.push(f.path);
-        sizeGroups.set(f.size, group);
-      }
+        // Group by size first (quick filter)
+        const sizeGroups: Map<number, string[]> = new Map();
+        for (const f of files) {
+          const group = sizeGroups.get(f.size) || [];
+          group.push(f.path);
+          sizeGroups.set(f.size, group);
+        }
 
-      // Hash only files with matching sizes
-      const hashGroups: Map<string, { paths: string[]; size: number }> = new Map();
-      let hashedCount = 0;
+        // Hash only files with matching sizes
+        const hashGroups: Map<string, { paths: string[]; size: number }> = new Map();
+        let hashedCount = 0;
+        for (const [size, paths] of sizeGroups) {
+          if (paths.length > 1) progress.total += size * paths.length;
+        }
+
+        for (const [size, paths] of sizeGroups) {
+          if (paths.length < 2) continue;
+
+          for (const filePath of paths) {
+            signal?.throwIfAborted();
+            progress.current = filePath;
+            try {
+              const hash = await hashFile(filePath, 'sha256', progress, signal);
+              hashedCount++;
+
+              const group = hashGroups.get(hash) || { paths: [], size };
+              group.paths.push(filePath);
+              hashGroups.set(hash, group);
+            } catch {
+              // skip unreadable
+              signal?.throwIfAborted();
+            }
+          }
+        }
 
-      for (const [size, paths] of sizeGroups) {
-        if (paths.length < 2) continue;
+        // Filter to actual duplicates
+        const duplicateGroups = [...hashGroups.entries()].filter(([, g]) => g.paths.length > 1);
+        const duplicates = duplicateGroups.map(([, g]) => g);
+        const totalDuplicateFiles = duplicates.reduce((sum, g) => sum + g.paths.length - 1, 0);
+        const totalWastedSpace = duplicates.reduce((sum, g) => sum + g.size * (g.paths.length - 1), 0);
+        const data = {
+          directory: dirPath,
+          files_checked: files.length,
+          files_hashed: hashedCount,
+          duplicate_files: totalDuplicateFiles,
+          wasted_bytes: totalWastedSpace,
+          groups: duplicateGroups.map(([hash, g]) => ({ hash, size: g.size, paths: g.paths }))
+        };
 
-        for (const filePath of paths) {
-          try {
-            const content = await fs.readFile(filePath);
-            const hash = crypto.createHash('sha256').update(content).digest('hex');
-            hashedCount++;
+        if (duplicates.length === 0) {
+          return { text: t().fc_detect_duplicates.noDuplicates(files.length, hashedCount), data };
+        }
 
-            const group = hashGroups.get(hash) || { paths: [], size };
-            group.paths.push(filePath);
-            hashGroups.set(hash, group);
-          } catch { /* skip unreadable */ }
+        const output = [
+          t().fc_detect_duplicates.header, '',
+          `| | |`, `|---|---|`,
+          `| ${t().fc_detect_duplicates.labelChecked} | ${files.length} |`,
+          `| ${t().fc_detect_duplicates.labelGroups} | ${duplicates.length} |`,
+          `| ${t().fc_detect_duplicates.labelDuplicates} | ${totalDuplicateFiles} |`,
+          `| ${t().fc_detect_duplicates.labelWasted} | ${formatFileSize(totalWastedSpace)} |`
+        ];
+
+        for (let i = 0; i < Math.min(duplicates.length, 20); i++) {
+          const group = duplicates[i];
+          output.push('', t().fc_detect_duplicates.groupHeader(i + 1, formatFileSize(group.size)));
+          for (const p of group.paths) {
+            output.push(`  \uD83D\uDCC4 ${path.relative(dirPath, p)}`);
+          }
+        }
+
+        if (duplicates.length > 20) {
+          output.push('', t().fc_detect_duplicates.andMoreGroups(duplicates.length - 20));
         }
+
+        output.push('', t().fc_detect_duplicates.useSafeDelete);
+
+        return { text: output.join('\n'), data };
+      };
+
+      if (params.background) {
+        const job = startJob('fc_detect_duplicates', dirPath, 'bytes', detect);
+        return structuredResult(jobStartedText(job), { directory: dirPath, job_id: job.id }, params.output_format);
       }
+      const progress = newJobProgress('bytes');
+      const result = await withProgress(extra, progress, detect(progress, extra.signal));
+      return structuredResult(result.text, result.data, params.output_format);
+    } catch (error) {
+      return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
+    }
+  }
+);
+
+/**
+ * Bereitet den Scan-Zustand fuer structuredContent auf (Baum nach Groesse je Ebene sortiert)
+ */
+function diskUsageData(scan: DiskUsageScan) {
+  const byParent = new Map<string, DiskUsageDirectory[]>();
+  for (const dir of scan.directories) {
+    if (dir.depth === 0) continue;
+    const parent = path.dirname(dir.path);
+    byParent.set(parent, [...(byParent.get(parent) ?? []), dir]);
+  }
+  const tree: DiskUsageDirectory[] = [];
+  const addSorted = (dir: DiskUsageDirectory) => {
+    tree.push(dir);
+    for (const child of (byParent.get(dir.path) ?? []).sort((a, b) => b.size - a.size)) addSorted(child);
+  };
+  const root = scan.directories.find(d => d.depth === 0);
+  if (root) addSorted(root);
+
+  return {
+    directory: scan.directory,
+    total_size: scan.totalSize,
+    files: scan.fileCount,
+    directories: scan.dirCount,
+    hard_links_skipped: scan.hardLinksSkipped,
+    errors: scan.errors,
+    runtime_seconds: Math.round((Date.now() - scan.startTime.getTime()) / 1000),
+    tree: tree.map(d => ({ path: d.path, relative_path: d.relativePath, depth: d.depth, size: d.size, files: d.files })),
+    top_files: [...scan.topFiles],
+    extensions: [...scan.extensions.entries()]
+      .map(([extension, e]) => ({ extension, size: e.size, files: e.files }))
+      .sort((a, b) => b.size - a.size)
+      .slice(0, scan.topN)
+  };
+}
 
-      // Filter to actual duplicates
-      const duplicates = [...hashGroups.values()].filter(g => g.paths.length > 1);
-      const totalDuplicateFiles = duplicates.reduce((sum, g) => sum + g.paths.length - 1, 0);
-      const totalWastedSpace = duplicates.reduce((sum, g) => sum + g.size * (g.paths.length - 1), 0);
+// ============================================================================
+// Tool: Disk Usage
+// ============================================================================
 
-      if (duplicates.length === 0) {
-        return {
-          content: [{ type: "text", text: t().fc_detect_duplicates.noDuplicates(files.length, hashedCount) }]
-        };
+server.registerTool(
+  "fc_disk_usage",
+  {
+    title: "Disk Usage",
+    description: `Analyzes disk usage of a directory (du-style): sizes per subdirectory, largest files and a breakdown by extension.
+
+Args:
+  - path (string): Directory to analyze
+  - depth (number, optional): Depth of the directory breakdown (default: 2)
+  - top_n (number, optional): Number of largest files and extensions to report (default: 20)
+  - background (boolean, optional): Run the scan as a background job (see fc_job_status)
+
+Symlinks are not followed, hard links are counted once. Sizes are apparent file sizes.
+
+Examples:
+  - Quick look: path="/var/build", depth=1
+  - Large tree: path="/srv", background=true, then fc_job_status(job_id)`,
+    inputSchema: {
+      path: z.string().min(1).describe("Directory to analyze"),
+      depth: z.number().int().min(0).max(10).default(2).describe("Breakdown depth"),
+      top_n: z.number().int().min(1).max(500).default(20).describe("Largest files/extensions to report"),
+      background: z.boolean().default(false).describe("Run as background job"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      directory: z.string(),
+      total_size: z.number().optional(),
+      files: z.number().optional(),
+      directories: z.number().optional(),
+      hard_links_skipped: z.number().optional(),
+      errors: z.number().optional(),
+      runtime_seconds: z.number().optional(),
+      tree: z.array(z.object({
+        path: z.string(),
+        relative_path: z.string(),
+        depth: z.number(),
+        size: z.number(),
+        files: z.number()
+      })).optional(),
+      top_files: z.array(z.object({ path: z.string(), size: z.number() })).optional(),
+      extensions: z.array(z.object({ extension: z.string(), size: z.number(), files: z.number() })).optional(),
+      job_id: z.string().optional()
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  trackProgress('items', async (params, extra, progress) => {
+    try {
+      const dirPath = await resolvePath(params.path, 'read');
+      if (!await pathExists(dirPath)) {
+        return { isError: true, content: [{ type: "text", text: t().common.dirNotFound(dirPath) }] };
+      }
+      if (!(await fs.stat(dirPath)).isDirectory()) {
+        return { isError: true, content: [{ type: "text", text: t().common.pathIsNotDirectory(dirPath) }] };
       }
 
-      const output = [
-        t().fc_detect_duplicates.header, '',
-        `| | |`, `|---|---|`,
-        `| ${t().fc_detect_duplicates.labelChecked} | ${files.length} |`,
-        `| ${t().fc_detect_duplicates.labelGroups} | ${duplicates.length} |`,
-        `| ${t().fc_detect_duplicates.labelDuplicates} | ${totalDuplicateFiles} |`,
-        `| ${t().fc_detect_duplicates.labelWasted} | ${formatFileSize(totalWastedSpace)} |`
-      ];
+      const analyze = async (progress: JobProgress, signal?: AbortSignal): Promise<JobResult> => {
+        const scan: DiskUsageScan = {
+          directory: dirPath,
+          depth: params.depth,
+          topN: params.top_n,
+          startTime: new Date(),
+          totalSize: 0,
+          fileCount: 0,
+          dirCount: 0,
+          hardLinksSkipped: 0,
+          errors: 0,
+          directories: [],
+          topFiles: [],
+          extensions: new Map(),
+          seenInodes: new Set()
+        };
+        await asyncDiskUsage(scan, dirPath, { signal, progress });
+
+        const data = diskUsageData(scan);
 
-      for (let i = 0; i < Math.min(duplicates.length, 20); i++) {
-        const group = duplicates[i];
-        output.push('', t().fc_detect_duplicates.groupHeader(i + 1, formatFileSize(group.size)));
-        for (const p of group.paths) {
-          output.push(`  \uD83D\uDCC4 ${path.relative(dirPath, p)}`);
+        const output = [
+          t().fc_disk_usage.header(scan.directory), '',
+          `| | |`, `|---|---|`,
+          `| ${t().fc_disk_usage.labelTotal} | ${formatFileSize(scan.totalSize)} |`,
+          `| ${t().fc_disk_usage.labelFiles} | ${scan.fileCount} |`,
+          `| ${t().fc_disk_usage.labelDirectories} | ${scan.dirCount} |`,
+          ...(scan.hardLinksSkipped > 0 ? [`| ${t().fc_disk_usage.labelHardLinks} | ${scan.hardLinksSkipped} |`] : []),
+          ...(scan.errors > 0 ? [`| ${t().fc_disk_usage.labelErrors} | ${scan.errors} |`] : []),
+          `| ${t().fc_disk_usage.labelRuntime} | ${data.runtime_seconds}s |`
+        ];
+
+        if (data.tree.length > 0) {
+          const root = data.tree[0].size || 1;
+          output.push('', t().fc_disk_usage.treeHeader(scan.depth), '```');
+          for (const dir of data.tree) {
+            const pct = Math.round(dir.size / root * 100);
+            output.push(`${formatFileSize(dir.size).padStart(10)} ${String(pct).padStart(4)}%  ${'  '.repeat(dir.depth)}${dir.relative_path || '.'}/`);
+          }
+          output.push('```');
         }
-      }
 
-      if (duplicates.length > 20) {
-        output.push('', t().fc_detect_duplicates.andMoreGroups(duplicates.length - 20));
-      }
+        if (data.top_files.length > 0) {
+          output.push('', t().fc_disk_usage.largestFiles(data.top_files.length), '',
+            `| ${t().fc_disk_usage.colSize} | ${t().fc_disk_usage.colFile} |`, `|---:|---|`,
+            ...data.top_files.map(f => `| ${formatFileSize(f.size)} | ${path.relative(scan.directory, f.path)} |`));
+        }
+
+        if (data.extensions.length > 0) {
+          output.push('', t().fc_disk_usage.byExtension, '',
+            `| ${t().fc_disk_usage.colExtension} | ${t().fc_disk_usage.colSize} | ${t().fc_disk_usage.colFiles} |`, `|---|---:|---:|`,
+            ...data.extensions.map(e => `| ${e.extension || t().fc_disk_usage.noExtension} | ${formatFileSize(e.size)} | ${e.files} |`));
+        }
 
-      output.push('', t().fc_detect_duplicates.useSafeDelete);
+        return { text: output.join('\n'), data };
+      };
 
-      return { content: [{ type: "text", text: output.join('\n') }] };
+      if (params.background) {
+        const job = startJob('fc_disk_usage', dirPath, 'items', analyze);
+        return structuredResult(jobStartedText(job), { directory: dirPath, job_id: job.id }, params.output_format);
+      }
+      const result = await analyze(progress, extra.signal);
+      return structuredResult(result.text, result.data, params.output_format);
     } catch (error) {
-      return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return { isError: true, content: [{ type: "text", text: t().fc_disk_usage.scanError(errorMsg) }] };
     }
-  }
+  })
 );
 
 // ============================================================================
@@ -3577,7 +10053,13 @@ Generates standalone HTML with CSS styling, printable as PDF via browser.`,
     inputSchema: {
       input_path: z.string().min(1).describe("Markdown file"),
       output_path: z.string().min(1).describe("HTML output"),
-      title: z.string().optional().describe("Document title")
+      title: z.string().optional().describe("Document title"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      input_path: z.string(),
+      output_path: z.string(),
+      size: z.number()
     },
     annotations: {
       readOnlyHint: false,
@@ -3588,8 +10070,8 @@ Generates standalone HTML with CSS styling, printable as PDF via browser.`,
   },
   async (params) => {
     try {
-      const inputPath = normalizePath(params.input_path);
-      const outputPath = normalizePath(params.output_path);
+      const inputPath = await resolvePath(params.input_path, 'read');
+      const outputPath = await resolvePath(params.output_path, 'write');
       if (!await pathExists(inputPath)) {
         return { isError: true, content: [{ type: "text", text: t().common.fileNotFound(inputPath) }] };
       }
@@ -3765,16 +10247,14 @@ ${html}
       await fs.writeFile(outputPath, fullHtml, "utf-8");
       const outStats = await fs.stat(outputPath);
 
-      return {
-        content: [{ type: "text", text: [
-          t().fc_md_to_html.converted(path.basename(outputPath)), '',
-          `| | |`, `|---|---|`,
-          `| ${t().fc_md_to_html.labelSource} | ${inputPath} |`,
-          `| ${t().fc_md_to_html.labelTarget} | ${outputPath} |`,
-          `| ${t().fc_md_to_html.labelSize} | ${formatFileSize(outStats.size)} |`, '',
-          t().fc_md_to_html.openInBrowser
-        ].join('\n') }]
-      };
+      return structuredResult([
+        t().fc_md_to_html.converted(path.basename(outputPath)), '',
+        `| | |`, `|---|---|`,
+        `| ${t().fc_md_to_html.labelSource} | ${inputPath} |`,
+        `| ${t().fc_md_to_html.labelTarget} | ${outputPath} |`,
+        `| ${t().fc_md_to_html.labelSize} | ${formatFileSize(outStats.size)} |`, '',
+        t().fc_md_to_html.openInBrowser
+      ].join('\n'), { input_path: inputPath, output_path: outputPath, size: outStats.size }, params.output_format);
     } catch (error) {
       return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
     }
@@ -3801,7 +10281,15 @@ Falls back to HTML if no browser is found.`,
     inputSchema: {
       input_path: z.string().min(1).describe("Markdown file"),
       output_path: z.string().min(1).describe("PDF output"),
-      title: z.string().optional().describe("Document title")
+      title: z.string().optional().describe("Document title"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      input_path: z.string(),
+      output_path: z.string(),
+      format: z.enum(["pdf", "html"]),
+      size: z.number(),
+      browser: z.string().optional()
     },
     annotations: {
       readOnlyHint: false,
@@ -3812,8 +10300,8 @@ Falls back to HTML if no browser is found.`,
   },
   async (params) => {
     try {
-      const inputPath = normalizePath(params.input_path);
-      const outputPath = normalizePath(params.output_path);
+      const inputPath = await resolvePath(params.input_path, 'read');
+      const outputPath = await resolvePath(params.output_path, 'write');
       if (!await pathExists(inputPath)) {
         return { isError: true, content: [{ type: "text", text: t().common.fileNotFound(inputPath) }] };
       }
@@ -3987,14 +10475,14 @@ ${html}
         const htmlFallback = outputPath.replace(/\.pdf$/i, '.html');
         await fs.rename(tempHtml, htmlFallback);
         const outStats = await fs.stat(htmlFallback);
-        return { content: [{ type: "text", text: [
+        return structuredResult([
           t().fc_md_to_pdf.converted(path.basename(htmlFallback)), '',
           `| | |`, `|---|---|`,
           `| ${t().fc_md_to_pdf.labelSource} | ${inputPath} |`,
           `| ${t().fc_md_to_pdf.labelTarget} | ${htmlFallback} |`,
           `| ${t().fc_md_to_pdf.labelSize} | ${formatFileSize(outStats.size)} |`, '',
           t().fc_md_to_pdf.noBrowser
-        ].join('\n') }] };
+        ].join('\n'), { input_path: inputPath, output_path: htmlFallback, format: 'html' as const, size: outStats.size }, params.output_format);
       }
 
       try {
@@ -4005,14 +10493,14 @@ ${html}
         const htmlFallback = outputPath.replace(/\.pdf$/i, '.html');
         await fs.rename(tempHtml, htmlFallback);
         const outStats = await fs.stat(htmlFallback);
-        return { content: [{ type: "text", text: [
+        return structuredResult([
           t().fc_md_to_pdf.converted(path.basename(htmlFallback)), '',
           `| | |`, `|---|---|`,
           `| ${t().fc_md_to_pdf.labelSource} | ${inputPath} |`,
           `| ${t().fc_md_to_pdf.labelTarget} | ${htmlFallback} |`,
           `| ${t().fc_md_to_pdf.labelSize} | ${formatFileSize(outStats.size)} |`, '',
           t().fc_md_to_pdf.noBrowser
-        ].join('\n') }] };
+        ].join('\n'), { input_path: inputPath, output_path: htmlFallback, format: 'html' as const, size: outStats.size }, params.output_format);
       }
 
       // Clean up temp HTML
@@ -4020,14 +10508,14 @@ ${html}
 
       const outStats = await fs.stat(outputPath);
       const browserName = path.basename(browser).replace(/\.exe$/i, '');
-      return { content: [{ type: "text", text: [
+      return structuredResult([
         t().fc_md_to_pdf.converted(path.basename(outputPath)), '',
         `| | |`, `|---|---|`,
         `| ${t().fc_md_to_pdf.labelSource} | ${inputPath} |`,
         `| ${t().fc_md_to_pdf.labelTarget} | ${outputPath} |`,
         `| ${t().fc_md_to_pdf.labelSize} | ${formatFileSize(outStats.size)} |`, '',
         t().fc_md_to_pdf.browserUsed(browserName)
-      ].join('\n') }] };
+      ].join('\n'), { input_path: inputPath, output_path: outputPath, format: 'pdf' as const, size: outStats.size, browser: browserName }, params.output_format);
     } catch (error) {
       return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
     }
@@ -4047,6 +10535,15 @@ server.registerTool(
       file_path: z.string().min(1).describe("Path to image (jpg/png/bmp/tiff) or PDF file"),
       language: z.string().default("eng").describe("OCR language (default: eng). Use deu for German, fra for French, etc."),
       output_path: z.string().optional().describe("Optional: Save extracted text to file"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      file: z.string(),
+      language: z.string(),
+      status: z.enum(["ok", "not_installed", "unsupported"]),
+      text: z.string().optional(),
+      confidence: z.number().optional(),
+      saved_to: z.string().optional()
     },
     annotations: {
       title: "OCR",
@@ -4059,17 +10556,17 @@ server.registerTool(
     try {
       Tesseract = await (Function('return import("tesseract.js")')());
     } catch {
-      return { content: [{ type: "text" as const, text: t().fc_ocr.notInstalled }] };
+      return structuredResult(t().fc_ocr.notInstalled, { file: params.file_path, language: params.language, status: 'not_installed' as const }, params.output_format);
     }
 
-    const filePath = normalizePath(params.file_path);
+    const filePath = await resolvePath(params.file_path, 'read');
     const ext = path.extname(filePath).toLowerCase();
     if (!['.jpg', '.jpeg', '.png', '.bmp', '.tiff', '.tif', '.pdf'].includes(ext)) {
       throw new Error(t().fc_ocr.unsupportedFormat(ext));
     }
 
     if (ext === '.pdf') {
-      return { content: [{ type: "text" as const, text: t().fc_ocr.pdfNotYetSupported }] };
+      return structuredResult(t().fc_ocr.pdfNotYetSupported, { file: filePath, language: params.language, status: 'unsupported' as const }, params.output_format);
     }
 
     const worker = await Tesseract.createWorker(params.language);
@@ -4079,7 +10576,7 @@ server.registerTool(
     const text = result.data.text;
 
     if (params.output_path) {
-      await fs.writeFile(params.output_path, text, 'utf-8');
+      await fs.writeFile(await resolvePath(params.output_path, 'write'), text, 'utf-8');
     }
 
     let response = `${t().fc_ocr.header(path.basename(filePath))}\n`;
@@ -4089,10 +10586,78 @@ server.registerTool(
     if (params.output_path) response += `${t().fc_ocr.labelSaved}: ${params.output_path}\n`;
     response += `\n---\n${text}`;
 
-    return { content: [{ type: "text" as const, text: response }] };
+    return structuredResult(response, {
+      file: filePath,
+      language: params.language,
+      status: 'ok' as const,
+      text,
+      confidence: result.data.confidence,
+      saved_to: params.output_path
+    }, params.output_format);
   }
 );
 
+// ============================================================================
+// Helper: Archive Items (fc_archive)
+// ============================================================================
+
+interface ArchiveItem {
+  localPath: string;
+  /** Verzeichnis im Archiv, wie bei AdmZip.addLocalFile */
+  zipPath: string;
+}
+
+/**
+ * Sammelt Dateien und Verzeichnisse wie AdmZip.addLocalFolder, Verzeichnisse vor ihrem
+ * Inhalt. AdmZip liest durch Symlinks hindurch, daher werden Links nur aufgenommen, wenn
+ * ihr Ziel in den erlaubten Wurzeln liegt und keine Schleife bildet; andere Links und
+ * Sonderdateien landen in skipped.
+ */
+async function collectArchiveItems(
+  dir: string,
+  zipDir: string,
+  items: ArchiveItem[],
+  ancestors: string[],
+  skipped: string[]
+): Promise<void> {
+  for (const dirent of await fs.readdir(dir, { withFileTypes: true })) {
+    const localPath = path.join(dir, dirent.name);
+    let isDirectory = dirent.isDirectory();
+    let realPath = path.join(ancestors[ancestors.length - 1], dirent.name);
+    if (dirent.isSymbolicLink()) {
+      const target = await resolveSymlinkTarget(localPath, ancestors);
+      if (!target || target.skipReason || !(target.stats.isFile() || target.stats.isDirectory())) {
+        skipped.push(localPath);
+        continue;
+      }
+      isDirectory = target.stats.isDirectory();
+      realPath = target.realPath;
+    } else if (!isDirectory && !dirent.isFile()) {
+      skipped.push(localPath);
+      continue;
+    }
+    items.push({ localPath, zipPath: zipDir });
+    if (isDirectory) {
+      await collectArchiveItems(localPath, path.join(zipDir, dirent.name), items, [...ancestors, realPath], skipped);
+    }
+  }
+}
+
+/**
+ * Ob ein Teil des Pfads unterhalb von root ein Symlink ist; Entpacken wuerde durch
+ * ihn hindurch ausserhalb des Ziels schreiben
+ */
+async function hasSymlinkBelow(root: string, targetPath: string): Promise<boolean> {
+  let current = root;
+  for (const part of path.relative(root, targetPath).split(path.sep)) {
+    current = path.join(current, part);
+    const stats = await fs.lstat(current).catch(() => null);
+    if (!stats) return false;
+    if (stats.isSymbolicLink()) return true;
+  }
+  return false;
+}
+
 // ============================================================================
 // Tool: Archive (ZIP)
 // ============================================================================
@@ -4107,6 +10672,22 @@ server.registerTool(
       archive_path: z.string().min(1).describe("Path to the ZIP archive"),
       source_paths: z.array(z.string()).optional().describe("Files/folders to add (for create action)"),
       extract_to: z.string().optional().describe("Extraction target directory (for extract action)"),
+      background: z.boolean().default(false).describe("Run create/extract as background job"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      action: z.enum(["create", "extract", "list"]),
+      archive_path: z.string(),
+      size: z.number().optional(),
+      extracted_to: z.string().optional(),
+      entries: z.array(z.object({
+        name: z.string(),
+        size: z.number(),
+        is_directory: z.boolean()
+      })).optional(),
+      count: z.number().optional(),
+      skipped: z.array(z.string()).optional(),
+      job_id: z.string().optional()
     },
     annotations: {
       title: "Archive",
@@ -4114,32 +10695,88 @@ server.registerTool(
       openWorldHint: false
     }
   },
-  async (params) => {
-    const archivePath = normalizePath(params.archive_path);
+  async (params, extra) => {
+    const archivePath = await resolvePath(params.archive_path, params.action === 'create' ? 'write' : 'read');
+
+    // Erstellen und Entpacken Eintrag fuer Eintrag, damit Fortschritt und Abbruch greifen
+    const run = async (work: (progress: JobProgress, signal?: AbortSignal) => Promise<JobResult>) => {
+      if (params.background) {
+        const job = startJob('fc_archive', `${params.action}: ${archivePath}`, 'items', work);
+        return structuredResult(jobStartedText(job), { action: params.action, archive_path: archivePath, job_id: job.id }, params.output_format);
+      }
+      const progress = newJobProgress('items');
+      const result = await withProgress(extra, progress, work(progress, extra.signal));
+      return structuredResult(result.text, result.data, params.output_format);
+    };
 
     if (params.action === 'create') {
       if (!params.source_paths || params.source_paths.length === 0) throw new Error('source_paths required for create');
-      const zip = new AdmZip();
-      for (const src of params.source_paths) {
-        const srcPath = normalizePath(src);
+      const sourcePaths = params.source_paths;
+      const items: ArchiveItem[] = [];
+      const skipped: string[] = [];
+      for (const src of sourcePaths) {
+        const srcPath = await resolvePath(src, 'read');
         const stat = await fs.stat(srcPath);
         if (stat.isDirectory()) {
-          zip.addLocalFolder(srcPath, path.basename(srcPath));
+          await collectArchiveItems(srcPath, path.basename(srcPath), items, [await fs.realpath(srcPath)], skipped);
+        } else if (stat.isFile()) {
+          items.push({ localPath: srcPath, zipPath: '' });
         } else {
-          zip.addLocalFile(srcPath);
+          skipped.push(srcPath);
         }
       }
-      zip.writeZip(archivePath);
-      const info = await fs.stat(archivePath);
-      return { content: [{ type: "text" as const, text: `${t().fc_archive.created(archivePath)}\n${t().fc_archive.labelSize}: ${(info.size / 1024).toFixed(1)} KB\n${t().fc_archive.labelFiles}: ${params.source_paths.length}` }] };
+
+      return run(async (progress, signal) => {
+        progress.total = items.length;
+        const zip = new AdmZip();
+        for (const item of items) {
+          signal?.throwIfAborted();
+          progress.current = item.localPath;
+          zip.addLocalFile(item.localPath, item.zipPath);
+          progress.done++;
+          await new Promise(resolve => setImmediate(resolve));
+        }
+        await zip.writeZipPromise(archivePath);
+        const info = await fs.stat(archivePath);
+        return {
+          text: `${t().fc_archive.created(archivePath)}\n${t().fc_archive.labelSize}: ${(info.size / 1024).toFixed(1)} KB\n${t().fc_archive.labelFiles}: ${sourcePaths.length}`
+            + (skipped.length > 0 ? `\n${t().fc_archive.skipped(skipped.length)}` : ''),
+          data: { action: params.action, archive_path: archivePath, size: info.size, count: sourcePaths.length, skipped }
+        };
+      });
     }
 
     if (params.action === 'extract') {
-      const target = params.extract_to ? normalizePath(params.extract_to) : path.dirname(archivePath);
-      const zip = new AdmZip(archivePath);
-      zip.extractAllTo(target, true);
-      const entries = zip.getEntries();
-      return { content: [{ type: "text" as const, text: `${t().fc_archive.extracted(archivePath, target)}\n${t().fc_archive.labelFiles}: ${entries.length}` }] };
+      const target = await resolvePath(params.extract_to ?? path.dirname(archivePath), 'write');
+      return run(async (progress, signal) => {
+        const zip = new AdmZip(archivePath);
+        const entries = zip.getEntries();
+        // Vorab pruefen: kein Eintrag ausserhalb des Ziels oder durch einen vorhandenen Symlink
+        for (const entry of entries) {
+          const entryPath = path.join(target, entry.entryName);
+          if (!isPathInside(entryPath, target) || await hasSymlinkBelow(target, entryPath)) {
+            throw new Error(t().fc_archive.unsafeEntry(entry.entryName));
+          }
+        }
+        progress.total = entries.length;
+        for (const entry of entries) {
+          signal?.throwIfAborted();
+          progress.current = entry.entryName;
+          const entryPath = path.join(target, entry.entryName);
+          if (entry.isDirectory) {
+            await fs.mkdir(entryPath, { recursive: true });
+          } else {
+            zip.extractEntryTo(entry, target, true, true);
+            await fs.utimes(entryPath, entry.header.time, entry.header.time).catch(() => {});
+          }
+          progress.done++;
+          await new Promise(resolve => setImmediate(resolve));
+        }
+        return {
+          text: `${t().fc_archive.extracted(archivePath, target)}\n${t().fc_archive.labelFiles}: ${entries.length}`,
+          data: { action: params.action, archive_path: archivePath, extracted_to: target, count: entries.length }
+        };
+      });
     }
 
     if (params.action === 'list') {
@@ -4150,7 +10787,12 @@ server.registerTool(
         const size = entry.header.size;
         listing += `${entry.isDirectory ? '[DIR]' : (size / 1024).toFixed(1) + ' KB'} ${entry.entryName}\n`;
       }
-      return { content: [{ type: "text" as const, text: listing }] };
+      return structuredResult(listing, {
+        action: params.action,
+        archive_path: archivePath,
+        entries: entries.map(e => ({ name: e.entryName, size: e.header.size, is_directory: e.isDirectory })),
+        count: entries.length
+      }, params.output_format);
     }
 
     throw new Error(`Unknown action: ${params.action}`);
@@ -4170,6 +10812,15 @@ server.registerTool(
       file_path: z.string().min(1).describe("Path to file"),
       algorithm: z.enum(["md5", "sha1", "sha256", "sha512"]).default("sha256").describe("Hash algorithm (default: sha256)"),
       compare: z.string().optional().describe("Optional: Hash to compare against"),
+      background: z.boolean().default(false).describe("Run as background job"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      file: z.string(),
+      algorithm: z.enum(["md5", "sha1", "sha256", "sha512"]),
+      hash: z.string().optional(),
+      match: z.boolean().optional(),
+      job_id: z.string().optional()
     },
     annotations: {
       title: "Checksum",
@@ -4177,21 +10828,33 @@ server.registerTool(
       openWorldHint: false
     }
   },
-  async (params) => {
-    const filePath = normalizePath(params.file_path);
-    const content = await fs.readFile(filePath);
-    const hash = createHash(params.algorithm).update(content).digest('hex');
-
-    let result = `${t().fc_checksum.header(path.basename(filePath))}\n`;
-    result += `${t().fc_checksum.labelAlgorithm}: ${params.algorithm.toUpperCase()}\n`;
-    result += `${t().fc_checksum.labelHash}: ${hash}\n`;
+  async (params, extra) => {
+    const filePath = await resolvePath(params.file_path, 'read');
+
+    const checksum = async (progress: JobProgress, signal?: AbortSignal): Promise<JobResult> => {
+      progress.total = (await fs.stat(filePath)).size;
+      progress.current = filePath;
+      const hash = await hashFile(filePath, params.algorithm, progress, signal);
+
+      let result = `${t().fc_checksum.header(path.basename(filePath))}\n`;
+      result += `${t().fc_checksum.labelAlgorithm}: ${params.algorithm.toUpperCase()}\n`;
+      result += `${t().fc_checksum.labelHash}: ${hash}\n`;
+
+      let match: boolean | undefined;
+      if (params.compare) {
+        match = hash.toLowerCase() === params.compare.toLowerCase();
+        result += `\n${match ? t().fc_checksum.match : t().fc_checksum.mismatch}`;
+      }
+      return { text: result, data: { file: filePath, algorithm: params.algorithm, hash, match } };
+    };
 
-    if (params.compare) {
-      const match = hash.toLowerCase() === params.compare.toLowerCase();
-      result += `\n${match ? t().fc_checksum.match : t().fc_checksum.mismatch}`;
+    if (params.background) {
+      const job = startJob('fc_checksum', filePath, 'bytes', checksum);
+      return structuredResult(jobStartedText(job), { file: filePath, algorithm: params.algorithm, job_id: job.id }, params.output_format);
     }
-
-    return { content: [{ type: "text" as const, text: result }] };
+    const progress = newJobProgress('bytes');
+    const result = await withProgress(extra, progress, checksum(progress, extra.signal));
+    return structuredResult(result.text, result.data, params.output_format);
   }
 );
 
@@ -4206,6 +10869,10 @@ server.registerTool(
     description: t().fc_set_safe_mode.description,
     inputSchema: {
       enabled: z.boolean().describe("Enable or disable safe mode"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      safe_mode: z.boolean()
     },
     annotations: {
       title: "Safe Mode",
@@ -4215,7 +10882,217 @@ server.registerTool(
   },
   async (params) => {
     safeMode = params.enabled;
-    return { content: [{ type: "text" as const, text: safeMode ? t().fc_set_safe_mode.enabled : t().fc_set_safe_mode.disabled }] };
+    return structuredResult(safeMode ? t().fc_set_safe_mode.enabled : t().fc_set_safe_mode.disabled, { safe_mode: safeMode }, params.output_format);
+  }
+);
+
+// ============================================================================
+// Tool: Set Output Format
+// ============================================================================
+
+server.registerTool(
+  "fc_set_output_format",
+  {
+    title: "Set Output Format",
+    description: t().fc_set_output_format.description,
+    inputSchema: {
+      format: z.enum(["text", "json"]).describe("Default output format for all tools")
+    },
+    outputSchema: {
+      output_format: z.enum(["text", "json"])
+    },
+    annotations: {
+      title: "Output Format",
+      readOnlyHint: false,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    outputFormat = params.format;
+    return structuredResult(
+      outputFormat === 'json' ? t().fc_set_output_format.json : t().fc_set_output_format.text,
+      { output_format: outputFormat }
+    );
+  }
+);
+
+// ============================================================================
+// Tool: Operation History
+// ============================================================================
+
+server.registerTool(
+  "fc_history",
+  {
+    title: "Operation History",
+    description: `Lists recent file operations recorded in the undo journal.
+
+Args:
+  - limit (number, optional): Maximum number of entries (default: 20)
+  - include_undone (boolean, optional): Also show operations that were already undone
+
+Journaled tools: fc_write_file, fc_edit_file, fc_str_replace, fc_replace_in_files, fc_apply_patch,
+fc_move, fc_batch_rename, fc_delete_file, fc_delete_directory, fc_safe_delete
+
+Returns:
+  - Table with operation ID, time, tool, target and status (use IDs with fc_undo)`,
+    inputSchema: {
+      limit: z.number().int().min(1).max(200).default(20).describe("Max entries"),
+      include_undone: z.boolean().default(false).describe("Include undone operations"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      enabled: z.boolean(),
+      operations: z.array(journalEntrySchema)
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    try {
+      if (!journalEnabled) {
+        return structuredResult(t().fc_history.disabled, { enabled: false, operations: [] }, params.output_format);
+      }
+
+      const entries = (await loadJournal())
+        .filter(e => params.include_undone || !e.undone)
+        .slice(-params.limit)
+        .reverse();
+      const data = { enabled: true, operations: entries.map(toJournalRecord) };
+
+      if (entries.length === 0) {
+        return structuredResult(t().fc_history.empty, data, params.output_format);
+      }
+
+      const locale = getLanguage() === 'de' ? 'de-DE' : 'en-US';
+      const rows = entries.map(e => {
+        const status = e.undone ? '↩️' : e.undoable ? '✅' : '⚠️';
+        return `| ${status} | \`${e.id}\` | ${new Date(e.timestamp).toLocaleString(locale)} | ${e.tool} | ${describeJournalEntry(e)} |`;
+      });
+
+      return structuredResult([
+        t().fc_history.header(entries.length), '',
+        `| ${t().fc_history.colStatus} | ${t().fc_history.colId} | ${t().fc_history.colTime} | ${t().fc_history.colTool} | ${t().fc_history.colTarget} |`,
+        `|---|---|---|---|---|`,
+        ...rows, '',
+        t().fc_history.legend
+      ].join('\n'), data, params.output_format);
+    } catch (error) {
+      return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
+    }
+  }
+);
+
+// ============================================================================
+// Tool: Undo
+// ============================================================================
+
+server.registerTool(
+  "fc_undo",
+  {
+    title: "Undo Operations",
+    description: `Rolls back journaled file operations (see fc_history).
+
+Args:
+  - count (number, optional): Undo the last N operations, newest first (default: 1)
+  - operation_id (string, optional): Undo exactly this operation instead
+  - force (boolean, optional): Undo even if the file was changed since the operation
+
+Stops at the first operation that cannot be undone.
+Without force, a file that was modified after the operation is left untouched.`,
+    inputSchema: {
+      count: z.number().int().min(1).max(50).default(1).describe("Number of operations to undo"),
+      operation_id: z.string().optional().describe("Specific operation ID"),
+      force: z.boolean().default(false).describe("Ignore later changes"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      requested: z.number(),
+      undone: z.array(z.string()),
+      failed: z.object({ operation_id: z.string(), error: z.string() }).optional()
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async (params) => {
+    try {
+      if (!journalEnabled) {
+        return { isError: true, content: [{ type: "text", text: t().fc_history.disabled }] };
+      }
+
+      const journal = await loadJournal();
+      let targets: JournalEntry[];
+
+      if (params.operation_id) {
+        const entry = journal.find(e => e.id === params.operation_id);
+        if (!entry) {
+          return { isError: true, content: [{ type: "text", text: t().fc_undo.notFound(params.operation_id) }] };
+        }
+        if (entry.undone) {
+          return { isError: true, content: [{ type: "text", text: t().fc_undo.alreadyUndone(entry.id) }] };
+        }
+        targets = [entry];
+      } else {
+        targets = journal.filter(e => !e.undone).slice(-params.count).reverse();
+      }
+
+      if (targets.length === 0) {
+        return structuredResult(t().fc_history.empty, { requested: 0, undone: [] }, params.output_format);
+      }
+
+      const results: string[] = [];
+      const undoneIds: string[] = [];
+      let failure: string | null = null;
+      let failedId = '';
+
+      for (const entry of targets) {
+        try {
+          await undoJournalEntry(entry, params.force);
+          undoneIds.push(entry.id);
+          results.push(`  ✅ \`${entry.id}\` ${entry.tool}: ${describeJournalEntry(entry)}`);
+        } catch (e) {
+          failure = e instanceof Error ? e.message : String(e);
+          failedId = entry.id;
+          results.push(`  ❌ \`${entry.id}\` ${entry.tool}: ${failure}`);
+          break;
+        }
+      }
+
+      await updateJournal(async entries => {
+        for (const entry of entries) {
+          if (undoneIds.includes(entry.id)) {
+            entry.undone = true;
+            // Sicherungskopie wird nach dem Undo nicht mehr gebraucht
+            await fs.rm(path.join(journalBlobDir, entry.id), { recursive: true, force: true });
+          }
+        }
+      });
+
+      const text = [
+        t().fc_undo.header(undoneIds.length, targets.length), '',
+        ...results,
+        failure && !params.force ? `\n${t().fc_undo.forceTip}` : ''
+      ].join('\n').trimEnd();
+
+      if (failure !== null && undoneIds.length === 0) {
+        return { isError: true, content: [{ type: "text", text }] };
+      }
+
+      return structuredResult(text, {
+        requested: targets.length,
+        undone: undoneIds,
+        failed: failure !== null ? { operation_id: failedId, error: failure } : undefined
+      }, params.output_format);
+    } catch (error) {
+      return { isError: true, content: [{ type: "text", text: t().common.errorGeneric(error instanceof Error ? error.message : String(error)) }] };
+    }
   }
 );
 
@@ -4223,13 +11100,21 @@ server.registerTool(
 // Tool: Set Language
 // ============================================================================
 
-server.tool(
+server.registerTool(
   "fc_set_language",
-  "Set the output language for FileCommander tools",
-  { language: z.enum(["de", "en"]).describe("Language code") },
-  async ({ language }) => {
+  {
+    description: "Set the output language for FileCommander tools",
+    inputSchema: {
+      language: z.enum(["de", "en"]).describe("Language code"),
+      ...outputFormatParam
+    },
+    outputSchema: {
+      language: z.enum(["de", "en"])
+    }
+  },
+  async ({ language, output_format }) => {
     setLanguage(language as Lang);
-    return { content: [{ type: "text", text: t().server.languageSet(language) }] };
+    return structuredResult(t().server.languageSet(language), { language }, output_format);
   }
 );
 
@@ -4238,9 +11123,20 @@ server.tool(
 // ============================================================================
 
 async function main(): Promise<void> {
+  // MCP Roots: Workspace-Wurzeln des Clients uebernehmen und aktuell halten
+  server.server.oninitialized = () => {
+    void refreshClientRoots();
+  };
+  server.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    await refreshClientRoots();
+  });
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error(t().server.started);
+  if (allowedRoots.length > 0) {
+    console.error(t().server.sandboxRoots(allowedRoots.map(r => r.readOnly ? `${r.path} (read-only)` : r.path).join(', ')));
+  }
 }
 
 main().catch((error) => {
@@ -1,21 +1,27 @@
 /**
  * Test-Script fuer die neuen Tools des bach-filecommander-mcp Servers
  *
- * Testet: fc_convert_format, fc_ocr, fc_archive, fc_checksum, fc_set_safe_mode
+ * Testet: fc_convert_format, fc_ocr, fc_archive, fc_checksum, fc_set_safe_mode,
+ * Bereichs-Lesen, fc_grep, fc_undo, fc_apply_patch, fc_copy on_conflict, Sandbox und Jobs,
+ * Papierkorb, Ignore-Dateien und Globs, Symlinks, Attribute, Editier-Tools, fc_sync,
+ * Batch-Operationen sowie Fortschritt und Abbruch
  * Kommunikation: JSON-RPC ueber stdin/stdout (zeilenbasiertes Framing)
  */
 
 import { spawn } from 'child_process';
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { createHash } from 'crypto';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const FIXTURES = path.join(__dirname, 'fixtures');
 const SERVER_PATH = path.join(__dirname, '..', 'dist', 'index.js');
+// Arbeitsverzeichnis, Journal und Papierkorb der Tests, wird am Ende entfernt
+const WORK = path.join(FIXTURES, 'work');
 
 // ===========================================================================
 // Test Framework
@@ -66,18 +72,35 @@ function assertIncludesAny(text, substrs, message) {
 // ===========================================================================
 
 class McpTestClient {
-  constructor() {
+  /**
+   * @param args Zusaetzliche Server-Argumente (z.B. --root)
+   * @param capabilities Client-Capabilities fuer initialize
+   * @param onRequest Beantwortet Anfragen des Servers (z.B. roots/list)
+   * @param env Zusaetzliche Umgebungsvariablen des Servers
+   */
+  constructor(args = [], capabilities = {}, onRequest = null, env = {}) {
+    this.args = args;
+    this.env = env;
+    this.capabilities = capabilities;
+    this.onRequest = onRequest;
     this.process = null;
     this.buffer = '';
     this.pendingRequests = new Map();
+    this.notifications = [];
     this.nextId = 1;
   }
 
   async start() {
     return new Promise((resolve, reject) => {
-      this.process = spawn('node', [SERVER_PATH], {
+      this.process = spawn('node', [SERVER_PATH, ...this.args], {
         stdio: ['pipe', 'pipe', 'pipe'],
-        env: { ...process.env, PYTHONIOENCODING: 'utf-8' }
+        env: {
+          ...process.env,
+          PYTHONIOENCODING: 'utf-8',
+          FC_JOURNAL_DIR: path.join(WORK, '.journal'),
+          FC_TRASH_DIR: path.join(WORK, '.trash'),
+          ...this.env
+        }
       });
 
       this.process.stdout.on('data', (chunk) => {
@@ -98,7 +121,7 @@ class McpTestClient {
         try {
           const initResult = await this.call('initialize', {
             protocolVersion: '2024-11-05',
-            capabilities: {},
+            capabilities: this.capabilities,
             clientInfo: { name: 'test-runner', version: '1.0.0' }
           });
           // Send initialized notification (no id = notification)
@@ -121,7 +144,15 @@ class McpTestClient {
       if (!trimmed) continue;
       try {
         const msg = JSON.parse(trimmed);
-        if (msg.id !== undefined && this.pendingRequests.has(msg.id)) {
+        if (msg.method && msg.id !== undefined) {
+          // Anfrage des Servers an den Client
+          Promise.resolve()
+            .then(() => this.onRequest ? this.onRequest(msg) : Promise.reject(new Error('Method not found')))
+            .then(
+              (result) => this._send({ jsonrpc: '2.0', id: msg.id, result }),
+              (err) => this._send({ jsonrpc: '2.0', id: msg.id, error: { code: -32603, message: err.message } })
+            );
+        } else if (msg.id !== undefined && this.pendingRequests.has(msg.id)) {
           const { resolve, reject } = this.pendingRequests.get(msg.id);
           this.pendingRequests.delete(msg.id);
           if (msg.error) {
@@ -129,6 +160,9 @@ class McpTestClient {
           } else {
             resolve(msg.result);
           }
+        } else if (msg.method) {
+          // Benachrichtigung des Servers (z.B. notifications/progress)
+          this.notifications.push(msg);
         }
       } catch {
         // Not valid JSON, ignore
@@ -194,6 +228,8 @@ async function runTests() {
 
   try {
     console.log('Starting MCP server...');
+    await fs.rm(WORK, { recursive: true, force: true });
+    await fs.mkdir(WORK, { recursive: true });
     await client.start();
     console.log('Server initialized.\n');
 
@@ -502,6 +538,1061 @@ async function runTests() {
       console.log(`  FAIL: Test 10 error: ${err.message}`);
     }
 
+    // ------------------------------------------------------------------
+    // Test 11: fc_read_file - Zeilen-, Tail- und Byte-Bereiche
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 11: fc_read_file - line, tail and byte ranges ---');
+    const rangeFile = path.join(WORK, 'range.txt');
+    try {
+      await fs.writeFile(rangeFile, 'line1\nline2\nline3\nline4\nline5\n');
+
+      const r11a = await client.callTool('fc_read_file', { path: rangeFile, offset_line: 2, line_count: 2, count_lines: true });
+      assert(!r11a.isError, 'Line range: No error');
+      assert(r11a.structuredContent?.content === 'line2\nline3', 'Line range returns lines 2-3');
+      assert(r11a.structuredContent?.total_lines === 5, 'Line range reports total lines');
+
+      const r11b = await client.callTool('fc_read_file', { path: rangeFile, tail_lines: 2, count_lines: true });
+      assert(r11b.structuredContent?.content === 'line4\nline5', 'Tail returns the last 2 lines');
+      assert(r11b.structuredContent?.start_line === 4, 'Tail reports start line 4');
+
+      // Ohne include_hash/count_lines wird die Datei nicht komplett gelesen
+      const r11d = await client.callTool('fc_read_file', { path: rangeFile, offset_line: 1, line_count: 1 });
+      assert(r11d.structuredContent?.content === 'line1' && r11d.structuredContent?.sha256 === undefined && r11d.structuredContent?.total_lines === undefined, 'Partial read skips hash and line count by default');
+      const r11e = await client.callTool('fc_read_file', { path: rangeFile, tail_lines: 1, include_hash: true });
+      const rangeHash = (await client.callTool('fc_read_file', { path: rangeFile })).structuredContent?.sha256;
+      assert(r11e.structuredContent?.content === 'line5' && r11e.structuredContent?.sha256 === rangeHash && r11e.structuredContent?.start_line === undefined, 'include_hash returns the hash of the whole file');
+
+      const r11c = await client.callTool('fc_read_file', { path: rangeFile, byte_offset: 6, byte_length: 5 });
+      assert(r11c.structuredContent?.content === 'line2', 'Byte range returns bytes 6-10');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 11 error: ${err.message}`);
+      console.log(`  FAIL: Test 11 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 12: fc_grep - Treffer mit Kontext und Glob-Filter
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 12: fc_grep - matches with context and include filter ---');
+    try {
+      await fs.writeFile(path.join(WORK, 'grep_a.js'), 'const a = 1;\n// TODO: fix\nconst b = 2;\n');
+      await fs.writeFile(path.join(WORK, 'grep_b.md'), 'TODO in markdown\n');
+
+      const r12a = await client.callTool('fc_grep', { path: WORK, pattern: 'todo', include: ['*.js'], context_before: 1 });
+      const d12a = r12a.structuredContent;
+      assert(!r12a.isError, 'Grep: No error');
+      assert(d12a?.total_matches === 1, 'Grep finds exactly one match in *.js');
+      assert(d12a?.files?.[0]?.file === 'grep_a.js', 'Grep reports the matching file');
+      assert(d12a?.files?.[0]?.lines?.some(l => l.line === 1 && !l.match), 'Grep includes the context line before');
+
+      const r12b = await client.callTool('fc_grep', { path: WORK, pattern: 'TODO:\\s+\\w+', regex: true, case_sensitive: true });
+      assert(r12b.structuredContent?.total_matches === 1, 'Regex grep matches only "TODO: fix"');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 12 error: ${err.message}`);
+      console.log(`  FAIL: Test 12 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 13: fc_history + fc_undo
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 13: fc_history + fc_undo ---');
+    const undoFile = path.join(WORK, 'undo.txt');
+    const renameDir = path.join(WORK, 'rename');
+    try {
+      await fs.writeFile(undoFile, 'before');
+      const r13a = await client.callTool('fc_write_file', { path: undoFile, content: 'after' });
+      const opId = r13a.structuredContent?.operation_id;
+      assert(typeof opId === 'string', 'Write returns an operation ID');
+
+      const r13b = await client.callTool('fc_history', {});
+      assert(r13b.structuredContent?.operations?.some(o => o.operation_id === opId && o.tool === 'fc_write_file'), 'History lists the write');
+
+      const r13c = await client.callTool('fc_undo', { operation_id: opId });
+      assert(!r13c.isError, 'Undo: No error');
+      assert(await fs.readFile(undoFile, 'utf-8') === 'before', 'Undo restores the previous content');
+
+      const r13d = await client.callTool('fc_undo', { operation_id: opId });
+      assert(r13d.isError, 'Undoing the same operation twice is rejected');
+
+      // Scheitert ein Teil eines Batch-Undos, bleiben alle Umbenennungen bestehen
+      await fs.mkdir(renameDir, { recursive: true });
+      for (const n of ['1', '2', '3']) await fs.writeFile(path.join(renameDir, `old_${n}.txt`), n);
+      const r13e = await client.callTool('fc_batch_rename', { directory: renameDir, mode: 'remove_prefix', pattern: 'old_', dry_run: false });
+      assert(!r13e.isError, 'Batch rename: No error');
+      await fs.writeFile(path.join(renameDir, 'old_1.txt'), 'obstacle');
+      const r13f = await client.callTool('fc_undo', {});
+      assert(r13f.isError, 'Batch rename undo fails on an existing target');
+      const renamed = (await fs.readdir(renameDir)).sort();
+      assert(JSON.stringify(renamed) === JSON.stringify(['1.txt', '2.txt', '3.txt', 'old_1.txt']), 'Failed batch undo rolls back the renames it already reverted');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 13 error: ${err.message}`);
+      console.log(`  FAIL: Test 13 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 14: fc_apply_patch
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 14: fc_apply_patch ---');
+    const patchFile = path.join(WORK, 'patch.txt');
+    try {
+      await fs.writeFile(patchFile, 'alpha\nbeta\ngamma\ndelta\n');
+      const goodPatch = '--- a/patch.txt\n+++ b/patch.txt\n@@ -1,4 +1,4 @@\n alpha\n-beta\n+BETA\n gamma\n delta\n';
+      const badPatch = '--- a/patch.txt\n+++ b/patch.txt\n@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n';
+
+      const r14a = await client.callTool('fc_apply_patch', { path: patchFile, patch: goodPatch, dry_run: true });
+      assert(!r14a.isError && r14a.structuredContent?.written === false, 'Dry run checks without writing');
+      assert(await fs.readFile(patchFile, 'utf-8') === 'alpha\nbeta\ngamma\ndelta\n', 'Dry run leaves the file unchanged');
+
+      const r14b = await client.callTool('fc_apply_patch', { path: patchFile, patch: goodPatch });
+      assert(!r14b.isError, 'Patch: No error');
+      assert(await fs.readFile(patchFile, 'utf-8') === 'alpha\nBETA\ngamma\ndelta\n', 'Patch is applied');
+
+      const r14c = await client.callTool('fc_apply_patch', { path: patchFile, patch: badPatch });
+      assert(r14c.isError, 'Non-matching hunk is rejected');
+      assert(await fs.readFile(patchFile, 'utf-8') === 'alpha\nBETA\ngamma\ndelta\n', 'Rejected patch writes nothing');
+
+      const r14d = await client.callTool('fc_apply_patch', { path: patchFile, patch: goodPatch, reverse: true });
+      assert(!r14d.isError, 'Reverse patch: No error');
+      assert(await fs.readFile(patchFile, 'utf-8') === 'alpha\nbeta\ngamma\ndelta\n', 'Reverse patch restores the original');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 14 error: ${err.message}`);
+      console.log(`  FAIL: Test 14 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 15: fc_copy - on_conflict
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 15: fc_copy - on_conflict policies ---');
+    const conflictDir = path.join(WORK, 'conflict');
+    try {
+      await fs.mkdir(path.join(conflictDir, 'dir'), { recursive: true });
+      await fs.writeFile(path.join(conflictDir, 'dir', 'inner.txt'), 'inner');
+      await fs.writeFile(path.join(conflictDir, 'src.txt'), 'source');
+      await fs.writeFile(path.join(conflictDir, 'dst.txt'), 'existing');
+      const src = path.join(conflictDir, 'src.txt');
+      const dst = path.join(conflictDir, 'dst.txt');
+
+      const r15a = await client.callTool('fc_copy', { source: src, destination: dst, on_conflict: 'skip' });
+      assert(!r15a.isError && await fs.readFile(dst, 'utf-8') === 'existing', 'skip keeps the destination');
+
+      const r15b = await client.callTool('fc_copy', { source: src, destination: dst, on_conflict: 'fail' });
+      assert(r15b.isError && await fs.readFile(dst, 'utf-8') === 'existing', 'fail rejects an existing destination');
+
+      const r15c = await client.callTool('fc_copy', { source: src, destination: dst, on_conflict: 'rename' });
+      const renamedDst = path.join(conflictDir, 'dst (1).txt');
+      assert(r15c.structuredContent?.destination === renamedDst, 'rename picks "dst (1).txt"');
+      assert(await fs.readFile(renamedDst, 'utf-8') === 'source', 'rename copies to the new name');
+
+      const r15d = await client.callTool('fc_copy', { source: src, destination: dst });
+      assert(!r15d.isError && await fs.readFile(dst, 'utf-8') === 'source', 'overwrite replaces a file');
+
+      const dirDst = path.join(conflictDir, 'dir');
+      const r15e = await client.callTool('fc_copy', { source: src, destination: dirDst });
+      assert(r15e.isError, 'overwrite refuses to replace a directory with a file');
+      assert(fsSync.existsSync(path.join(dirDst, 'inner.txt')), 'Directory is left intact');
+
+      const r15f = await client.callTool('fc_copy', { source: src, destination: dirDst, on_conflict: 'replace' });
+      assert(!r15f.isError, 'replace: No error');
+      assert((await fs.stat(dirDst)).isFile(), 'replace swaps the directory for the file');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 15 error: ${err.message}`);
+      console.log(`  FAIL: Test 15 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 16: Sandbox - Hardlinks, Archiv-Symlinks, Arbeitsverzeichnis
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 16: Sandbox denials ---');
+    const sandboxDir = path.join(WORK, 'sandbox');
+    const readonlyDir = path.join(WORK, 'readonly');
+    const outsideDir = path.join(WORK, 'outside');
+    const sandboxClient = new McpTestClient(['--root', sandboxDir, '--readonly-root', readonlyDir]);
+    try {
+      await fs.mkdir(path.join(sandboxDir, 'src'), { recursive: true });
+      await fs.mkdir(path.join(sandboxDir, 'ext'), { recursive: true });
+      await fs.mkdir(readonlyDir, { recursive: true });
+      await fs.mkdir(path.join(outsideDir, 'evil'), { recursive: true });
+      await fs.mkdir(path.join(WORK, 'zipsrc', 'evil'), { recursive: true });
+      await fs.writeFile(path.join(readonlyDir, 'secret.txt'), 'secret');
+      await fs.writeFile(path.join(outsideDir, 'secret.txt'), 'outside');
+      await fs.writeFile(path.join(WORK, 'zipsrc', 'evil', 'pwn.txt'), 'PWNED');
+      await fs.writeFile(path.join(sandboxDir, 'src', 'ok.txt'), 'ok');
+
+      // Archiv mit dem Eintrag evil/pwn.txt, erstellt ohne Sandbox
+      const evilZip = path.join(sandboxDir, 'evil.zip');
+      await client.callTool('fc_archive', { action: 'create', archive_path: evilZip, source_paths: [path.join(WORK, 'zipsrc', 'evil')] });
+
+      await sandboxClient.start();
+
+      const hardLink = path.join(sandboxDir, 'hard.txt');
+      const r16a = await sandboxClient.callTool('fc_create_link', { target: path.join(readonlyDir, 'secret.txt'), link_path: hardLink, type: 'hard' });
+      assert(r16a.isError, 'Hard link to a file in a read-only root is denied');
+      assert(!fsSync.existsSync(hardLink), 'No hard link was created');
+
+      const canSymlink = await fs.symlink(path.join(outsideDir, 'secret.txt'), path.join(sandboxDir, 'src', 'leak.txt'))
+        .then(() => fs.symlink(path.join(outsideDir, 'evil'), path.join(sandboxDir, 'ext', 'evil'), 'junction'))
+        .then(() => true, () => false);
+      if (canSymlink) {
+        const zipPath = path.join(sandboxDir, 'src.zip');
+        const r16b = await sandboxClient.callTool('fc_archive', { action: 'create', archive_path: zipPath, source_paths: [path.join(sandboxDir, 'src')] });
+        assert(!r16b.isError, 'Archive create in sandbox: No error');
+        assert(r16b.structuredContent?.skipped?.includes(path.join(sandboxDir, 'src', 'leak.txt')), 'Symlink leaving the sandbox is skipped');
+        const r16c = await sandboxClient.callTool('fc_archive', { action: 'list', archive_path: zipPath });
+        const names = (r16c.structuredContent?.entries ?? []).map(e => e.name);
+        assert(names.includes('src/ok.txt') && !names.includes('src/leak.txt'), 'Archive contains only files inside the sandbox');
+
+        const r16d = await sandboxClient.callTool('fc_archive', { action: 'extract', archive_path: evilZip, extract_to: path.join(sandboxDir, 'ext') });
+        assert(r16d.isError, 'Extracting through a symlinked directory is rejected');
+        assert(!fsSync.existsSync(path.join(outsideDir, 'evil', 'pwn.txt')), 'Nothing was written outside the sandbox');
+      } else {
+        console.log('  SKIP: symlinks not available');
+      }
+
+      const r16e = await sandboxClient.callTool('fc_execute_command', { command: 'node -e "console.log(process.cwd())"' });
+      assert(!r16e.isError, 'Command without cwd: No error');
+      assert(r16e.structuredContent?.stdout?.trim() === fsSync.realpathSync(sandboxDir), 'Command without cwd runs in the allowed root');
+
+      const r16f = await sandboxClient.callTool('fc_execute_command', { command: 'node -e "1"', cwd: outsideDir });
+      assert(r16f.isError, 'cwd outside the sandbox is denied');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 16 error: ${err.message}`);
+      console.log(`  FAIL: Test 16 error: ${err.message}`);
+    } finally {
+      await sandboxClient.stop();
+    }
+
+    // ------------------------------------------------------------------
+    // Test 17: Hintergrund-Jobs - Status und Abbruch
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 17: Background jobs - status and cancel ---');
+    const bigFile = path.join(WORK, 'big.bin');
+    try {
+      const r17a = await client.callTool('fc_disk_usage', { path: WORK, background: true });
+      const duJob = r17a.structuredContent?.job_id;
+      assert(typeof duJob === 'string', 'Background disk usage returns a job ID');
+      const r17b = await client.callTool('fc_job_status', { job_id: duJob, wait_seconds: 5 });
+      assert(r17b.structuredContent?.status === 'done', 'Disk usage job completes');
+      assert(r17b.structuredContent?.result?.files > 0, 'Job status carries the result');
+
+      // Duenn besetzte Datei: gross genug, dass der Hash-Job beim Abbruch noch laeuft
+      await fs.writeFile(bigFile, '');
+      await fs.truncate(bigFile, 1024 * 1024 * 1024);
+      const r17c = await client.callTool('fc_checksum', { file_path: bigFile, background: true });
+      const hashJob = r17c.structuredContent?.job_id;
+      const r17d = await client.callTool('fc_job_cancel', { job_id: hashJob });
+      assert(!r17d.isError, 'Cancel: No error');
+      assert(r17d.structuredContent?.status === 'cancelled', 'Cancel waits until the job has actually stopped');
+      const r17e = await client.callTool('fc_job_status', { job_id: hashJob });
+      assert(r17e.structuredContent?.status === 'cancelled', 'Cancelled job reports status "cancelled"');
+
+      const r17g = await client.callTool('fc_job_cancel', { job_id: duJob });
+      assert(r17g.structuredContent?.status === 'done', 'Cancelling a finished job keeps its status');
+
+      const r17f = await client.callTool('fc_job_status', { job_id: 'job_unknown' });
+      assert(r17f.isError, 'Unknown job ID is an error');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 17 error: ${err.message}`);
+      console.log(`  FAIL: Test 17 error: ${err.message}`);
+    }
+
+
+    // ------------------------------------------------------------------
+    // Test 18: fc_sync - delete und Typkonflikte
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 18: fc_sync - delete and type conflicts ---');
+    const syncSrc = path.join(WORK, 'sync_src');
+    const syncDst = path.join(WORK, 'sync_dst');
+    try {
+      await fs.mkdir(path.join(syncSrc, 'sub'), { recursive: true });
+      await fs.writeFile(path.join(syncSrc, 'a.txt'), 'new content of a');
+      await fs.writeFile(path.join(syncSrc, 'sub', 'b.txt'), 'b');
+      await fs.writeFile(path.join(syncSrc, 'conflict'), 'now a file');
+      await fs.mkdir(path.join(syncDst, 'conflict'), { recursive: true });
+      await fs.writeFile(path.join(syncDst, 'conflict', 'keep.txt'), 'old tree');
+      await fs.writeFile(path.join(syncDst, 'a.txt'), 'old a');
+      await fs.writeFile(path.join(syncDst, 'extra.txt'), 'extra');
+
+      const r18a = await client.callTool('fc_sync', { source: syncSrc, destination: syncDst, delete: true });
+      assert(!r18a.isError && r18a.structuredContent?.dry_run === true, 'Sync defaults to a dry run');
+      assert(fsSync.existsSync(path.join(syncDst, 'extra.txt')), 'Dry run deletes nothing');
+
+      await client.callTool('fc_set_safe_mode', { enabled: true });
+      const r18b = await client.callTool('fc_sync', { source: syncSrc, destination: syncDst, delete: true, dry_run: false });
+      await client.callTool('fc_set_safe_mode', { enabled: false });
+      assert(!r18b.isError, 'Sync: No error');
+      assert(await fs.readFile(path.join(syncDst, 'a.txt'), 'utf-8') === 'new content of a', 'Changed file is updated');
+      assert(await fs.readFile(path.join(syncDst, 'sub', 'b.txt'), 'utf-8') === 'b', 'New file in a subdirectory is copied');
+      assert(!fsSync.existsSync(path.join(syncDst, 'extra.txt')), 'delete removes extra files');
+      assert((await fs.stat(path.join(syncDst, 'conflict'))).isFile(), 'Directory is replaced by the source file');
+
+      const trashed = await fs.readdir(path.join(WORK, '.trash', 'files')).catch(() => []);
+      assert(trashed.includes('extra.txt'), 'Safe mode moves deleted files to the trash');
+      assert(trashed.includes('conflict') && fsSync.existsSync(path.join(WORK, '.trash', 'files', 'conflict', 'keep.txt')), 'Safe mode moves the replaced directory to the trash');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 18 error: ${err.message}`);
+      console.log(`  FAIL: Test 18 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 19: Client-Wurzeln (roots/list)
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 19: Client roots ---');
+    const rootsDir = path.join(WORK, 'client_root');
+    const rootsOutside = path.join(WORK, 'client_outside.txt');
+    const rootsClients = [];
+    const startRootsClient = async (onRequest) => {
+      const c = new McpTestClient([], { roots: { listChanged: true } }, onRequest);
+      rootsClients.push(c);
+      await c.start();
+      return c;
+    };
+    try {
+      await fs.mkdir(rootsDir, { recursive: true });
+      await fs.writeFile(path.join(rootsDir, 'inside.txt'), 'inside');
+      await fs.writeFile(rootsOutside, 'outside');
+
+      const c19a = await startRootsClient(async () => ({ roots: [{ uri: pathToFileURL(rootsDir).href }] }));
+      const r19a = await c19a.callTool('fc_read_file', { path: 'inside.txt' });
+      assert(!r19a.isError && r19a.structuredContent?.content === 'inside', 'Relative path resolves against the client root');
+      const r19b = await c19a.callTool('fc_read_file', { path: rootsOutside });
+      assert(r19b.isError, 'Path outside the client roots is denied');
+
+      const c19b = await startRootsClient(async () => ({ roots: [] }));
+      const r19c = await c19b.callTool('fc_read_file', { path: rootsOutside });
+      assert(r19c.isError, 'Empty root list allows nothing');
+
+      const c19c = await startRootsClient(async () => { throw new Error('roots unavailable'); });
+      const r19d = await c19c.callTool('fc_read_file', { path: rootsOutside });
+      assert(r19d.isError, 'Failed roots/list denies access');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 19 error: ${err.message}`);
+      console.log(`  FAIL: Test 19 error: ${err.message}`);
+    } finally {
+      for (const c of rootsClients) await c.stop();
+    }
+
+    // ------------------------------------------------------------------
+    // Test 20: Journal - Verschieben ueber ein nicht gesichertes Ziel
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 20: Journal - move over a destination without backup ---');
+    const smallJournalClient = new McpTestClient([], {}, null, {
+      FC_JOURNAL_DIR: path.join(WORK, '.journal_small'),
+      FC_JOURNAL_MAX_BACKUP_MB: '0.001'
+    });
+    try {
+      await smallJournalClient.start();
+      const moveSrc = path.join(WORK, 'move_src.txt');
+      const moveDst = path.join(WORK, 'move_dst.txt');
+      await fs.writeFile(moveSrc, 'small');
+      await fs.writeFile(moveDst, 'x'.repeat(4096));
+
+      const r20a = await smallJournalClient.callTool('fc_move', { source: moveSrc, destination: moveDst });
+      assert(!r20a.isError, 'Move over a large destination: No error');
+      assert(r20a.structuredContent?.operation_id === undefined, 'Move without backup of the destination returns no operation ID');
+
+      const r20b = await smallJournalClient.callTool('fc_history', {});
+      const moveEntry = r20b.structuredContent?.operations?.find(o => o.tool === 'fc_move');
+      assert(moveEntry && moveEntry.undoable === false, 'Move without backup is journaled as not undoable');
+
+      const r20c = await smallJournalClient.callTool('fc_undo', {});
+      assert(r20c.isError, 'Undo refuses the move');
+      assert(await fs.readFile(moveDst, 'utf-8') === 'small', 'Moved file stays in place');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 20 error: ${err.message}`);
+      console.log(`  FAIL: Test 20 error: ${err.message}`);
+    } finally {
+      await smallJournalClient.stop();
+    }
+
+    // ------------------------------------------------------------------
+    // Test 21: Journal - Gesamtbudget fuer Sicherungskopien
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 21: Journal - total backup budget ---');
+    const budgetJournal = path.join(WORK, '.journal_budget');
+    const budgetClient = new McpTestClient([], {}, null, {
+      FC_JOURNAL_DIR: budgetJournal,
+      FC_JOURNAL_MAX_TOTAL_MB: '0.01'
+    });
+    try {
+      await budgetClient.start();
+      const opIds = [];
+      for (const n of [1, 2, 3]) {
+        const budgetFile = path.join(WORK, `budget_${n}.txt`);
+        await fs.writeFile(budgetFile, String(n).repeat(4096));
+        const r = await budgetClient.callTool('fc_write_file', { path: budgetFile, content: 'new' });
+        opIds.push(r.structuredContent?.operation_id);
+      }
+
+      const r21a = await budgetClient.callTool('fc_history', {});
+      const ops = new Map((r21a.structuredContent?.operations ?? []).map(o => [o.operation_id, o]));
+      assert(ops.get(opIds[0])?.undoable === false, 'Oldest backup is dropped once the budget is exceeded');
+      assert(ops.get(opIds[2])?.undoable === true, 'Newest backup is kept');
+      const blobs = await fs.readdir(path.join(budgetJournal, 'blobs'));
+      assert(!blobs.includes(opIds[0]) && blobs.includes(opIds[2]), 'Dropped backup is removed from disk');
+
+      const r21b = await budgetClient.callTool('fc_undo', { operation_id: opIds[2] });
+      assert(!r21b.isError && await fs.readFile(path.join(WORK, 'budget_3.txt'), 'utf-8') === '3'.repeat(4096), 'Kept backup can still be undone');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 21 error: ${err.message}`);
+      console.log(`  FAIL: Test 21 error: ${err.message}`);
+    } finally {
+      await budgetClient.stop();
+    }
+
+    // ------------------------------------------------------------------
+    // Test 22: fc_safe_delete - defekter Symlink
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 22: Safe delete of a broken symlink ---');
+    const brokenLink = path.join(WORK, 'broken_link');
+    try {
+      await fs.symlink(path.join(WORK, 'does_not_exist.txt'), brokenLink);
+
+      const r22a = await client.callTool('fc_safe_delete', { path: brokenLink });
+      assert(!r22a.isError, 'Broken symlink can be moved to the trash');
+      assert(!await fs.lstat(brokenLink).catch(() => null), 'Link is gone from its original place');
+      const trashedLink = r22a.structuredContent?.trash_path;
+      assert(trashedLink && (await fs.lstat(trashedLink)).isSymbolicLink(), 'The link itself lands in the trash');
+
+      const r22b = await client.callTool('fc_trash_list', { filter: 'broken_link' });
+      assert(r22b.structuredContent?.total === 1, 'Trashed broken link is listed');
+
+      const r22c = await client.callTool('fc_undo', { operation_id: r22a.structuredContent?.operation_id });
+      assert(!r22c.isError && (await fs.lstat(brokenLink)).isSymbolicLink(), 'Undo restores the broken link');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 22 error: ${err.message}`);
+      console.log(`  FAIL: Test 22 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 23: fc_trash_restore - Rundlauf und overwrite
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 23: Trash restore round-trip and overwrite ---');
+    const restoreFile = path.join(WORK, 'restore_me.txt');
+    try {
+      await fs.writeFile(restoreFile, 'original');
+      const r23a = await client.callTool('fc_safe_delete', { path: restoreFile });
+      const trashName = path.basename(r23a.structuredContent?.trash_path ?? '');
+
+      await fs.symlink(path.join(WORK, 'nowhere.txt'), restoreFile);
+      const r23b = await client.callTool('fc_trash_restore', { name: trashName });
+      assert(r23b.isError && (await fs.lstat(restoreFile)).isSymbolicLink(), 'A broken symlink at the target counts as existing');
+      await fs.unlink(restoreFile);
+
+      const r23c = await client.callTool('fc_trash_restore', { name: trashName });
+      assert(!r23c.isError && await fs.readFile(restoreFile, 'utf-8') === 'original', 'Restore puts the file back');
+      const r23d = await client.callTool('fc_trash_list', { filter: 'restore_me' });
+      assert(r23d.structuredContent?.total === 0, 'Restored item leaves the trash');
+
+      await client.callTool('fc_safe_delete', { path: restoreFile });
+      await fs.writeFile(restoreFile, 'newer');
+      await client.callTool('fc_set_safe_mode', { enabled: true });
+      const r23e = await client.callTool('fc_trash_restore', { original_path: restoreFile, overwrite: true });
+      await client.callTool('fc_set_safe_mode', { enabled: false });
+      assert(!r23e.isError && await fs.readFile(restoreFile, 'utf-8') === 'original', 'overwrite replaces the newer file');
+      const r23f = await client.callTool('fc_trash_list', { filter: 'restore_me' });
+      const replaced = r23f.structuredContent?.items?.[0];
+      assert(r23f.structuredContent?.total === 1 && await fs.readFile(path.join(WORK, '.trash', 'files', replaced?.name ?? ''), 'utf-8') === 'newer', 'Safe mode sends the overwritten file to the trash');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 23 error: ${err.message}`);
+      console.log(`  FAIL: Test 23 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 24: fc_convert_format - target_format und output_format
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 24: fc_convert_format - target_format and output_format ---');
+    const convertOut = path.join(WORK, 'convert.yaml');
+    try {
+      const r24a = await client.callTool('fc_convert_format', {
+        input_path: path.join(FIXTURES, 'test.json'), output_path: convertOut, input_format: 'json', target_format: 'yaml', output_format: 'json'
+      });
+      assert(!r24a.isError && JSON.parse(getText(r24a)).target_format === 'yaml', 'output_format: json switches the result to JSON');
+      assertIncludes(await fs.readFile(convertOut, 'utf-8'), 'name: test', 'target_format selects the file format');
+
+      const r24b = await client.callTool('fc_convert_format', {
+        input_path: path.join(FIXTURES, 'test.json'), output_path: convertOut, input_format: 'json', target_format: 'yaml', output_format: 'toml'
+      });
+      assert(r24b.isError, 'A file format in output_format is rejected next to target_format');
+
+      const r24c = await client.callTool('fc_convert_format', {
+        input_path: path.join(FIXTURES, 'test.json'), output_path: convertOut, input_format: 'json'
+      });
+      assert(r24c.isError, 'A missing target format is rejected');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 24 error: ${err.message}`);
+      console.log(`  FAIL: Test 24 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 25: expected_hash / expected_mtime
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 25: expected_hash and expected_mtime conflicts ---');
+    const versionFile = path.join(WORK, 'versioned.txt');
+    try {
+      await fs.writeFile(versionFile, 'alpha\n');
+      const r25a = await client.callTool('fc_read_file', { path: versionFile });
+      const { sha256, mtime } = r25a.structuredContent ?? {};
+
+      const r25b = await client.callTool('fc_str_replace', { path: versionFile, old_str: 'alpha', new_str: 'beta', expected_hash: sha256 });
+      assert(!r25b.isError && await fs.readFile(versionFile, 'utf-8') === 'beta\n', 'Matching expected_hash allows the write');
+
+      const r25c = await client.callTool('fc_write_file', { path: versionFile, content: 'gamma\n', expected_hash: sha256 });
+      assert(r25c.isError && await fs.readFile(versionFile, 'utf-8') === 'beta\n', 'Stale expected_hash rejects the write');
+
+      const r25d = await client.callTool('fc_edit_file', { path: versionFile, operation: 'replace', start_line: 1, content: 'gamma', expected_mtime: mtime });
+      assert(r25d.isError && await fs.readFile(versionFile, 'utf-8') === 'beta\n', 'Stale expected_mtime rejects the write');
+
+      const r25e = await client.callTool('fc_write_file', { path: versionFile, content: 'gamma\n', expected_mtime: 'yesterday' });
+      assert(r25e.isError && getText(r25e).includes('expected_mtime'), 'Invalid expected_mtime is reported as such');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 25 error: ${err.message}`);
+      console.log(`  FAIL: Test 25 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 26: fc_replace_in_files - Vorschau, Capture-Gruppen, Undo
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 26: fc_replace_in_files - preview, capture groups and undo ---');
+    const replaceDir = path.join(WORK, 'replace');
+    try {
+      await fs.mkdir(path.join(replaceDir, 'ignored'), { recursive: true });
+      await fs.writeFile(path.join(replaceDir, '.gitignore'), 'ignored/\n');
+      await fs.writeFile(path.join(replaceDir, 'a.ts'), 'fetchUser(1);\nfetchUser(2);\n');
+      await fs.writeFile(path.join(replaceDir, 'b.ts'), 'const x = fetchUser(3);\n');
+      await fs.writeFile(path.join(replaceDir, 'c.md'), 'fetchUser(4)\n');
+      await fs.writeFile(path.join(replaceDir, 'ignored', 'd.ts'), 'fetchUser(5);\n');
+
+      const args = { path: replaceDir, pattern: 'fetchUser\\((\\d)\\)', replacement: 'loadUser($1, true)', regex: true, include: ['*.ts'] };
+      const r26a = await client.callTool('fc_replace_in_files', args);
+      assert(!r26a.isError && r26a.structuredContent?.dry_run === true && r26a.structuredContent?.replacements === 3, 'Dry run previews 3 replacements in *.ts');
+      assert(await fs.readFile(path.join(replaceDir, 'a.ts'), 'utf-8') === 'fetchUser(1);\nfetchUser(2);\n', 'Dry run changes nothing');
+
+      const r26b = await client.callTool('fc_replace_in_files', { ...args, dry_run: false });
+      assert(!r26b.isError && await fs.readFile(path.join(replaceDir, 'a.ts'), 'utf-8') === 'loadUser(1, true);\nloadUser(2, true);\n', 'Capture groups are expanded');
+      assert(await fs.readFile(path.join(replaceDir, 'c.md'), 'utf-8') === 'fetchUser(4)\n', 'Files outside include are untouched');
+      assert(await fs.readFile(path.join(replaceDir, 'ignored', 'd.ts'), 'utf-8') === 'fetchUser(5);\n', 'Ignored files are untouched');
+
+      const r26c = await client.callTool('fc_undo', { operation_id: r26b.structuredContent?.operation_id });
+      assert(!r26c.isError && await fs.readFile(path.join(replaceDir, 'b.ts'), 'utf-8') === 'const x = fetchUser(3);\n', 'Undo reverts the whole batch');
+
+      const r26d = await client.callTool('fc_replace_in_files', { path: replaceDir, pattern: '(', replacement: '', regex: true });
+      assert(r26d.isError, 'Invalid regex is rejected');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 26 error: ${err.message}`);
+      console.log(`  FAIL: Test 26 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 27: fc_diff und fc_apply_patch mit mehreren Dateien
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 27: fc_diff and multi-file fc_apply_patch ---');
+    const diffDir = path.join(WORK, 'diffdir');
+    try {
+      await fs.mkdir(diffDir, { recursive: true });
+      const diffFile = path.join(diffDir, 'app.txt');
+      await fs.writeFile(diffFile, 'one\ntwo\nthree\n');
+
+      const r27a = await client.callTool('fc_diff', { path: diffFile, content: 'one\n2\nthree\n' });
+      assert(!r27a.isError && r27a.structuredContent?.added === 1 && r27a.structuredContent?.removed === 1, 'fc_diff counts added and removed lines');
+      const r27b = await client.callTool('fc_apply_patch', { path: diffFile, patch: r27a.structuredContent?.diff ?? '' });
+      assert(!r27b.isError && await fs.readFile(diffFile, 'utf-8') === 'one\n2\nthree\n', 'The diff of fc_diff applies with fc_apply_patch');
+
+      // Zwei Zeilen oberhalb eingefuegt: der Hunk muss per Offset gefunden werden
+      await fs.writeFile(diffFile, 'header\n\none\n2\nthree\n');
+      const multiPatch = [
+        '--- a/app.txt', '+++ b/app.txt', '@@ -1,3 +1,3 @@', ' one', '-2', '+TWO', ' three',
+        '--- /dev/null', '+++ b/new.txt', '@@ -0,0 +1,1 @@', '+created', ''
+      ].join('\n');
+      const r27c = await client.callTool('fc_apply_patch', { patch: multiPatch, base_dir: diffDir });
+      assert(!r27c.isError && await fs.readFile(diffFile, 'utf-8') === 'header\n\none\nTWO\nthree\n', 'Hunk applies at an offset');
+      assert(await fs.readFile(path.join(diffDir, 'new.txt'), 'utf-8') === 'created\n', '/dev/null creates a new file');
+
+      const r27d = await client.callTool('fc_undo', { operation_id: r27c.structuredContent?.operation_id });
+      assert(!r27d.isError && !fsSync.existsSync(path.join(diffDir, 'new.txt')) && await fs.readFile(diffFile, 'utf-8') === 'header\n\none\n2\nthree\n', 'Undo reverts every file of the patch');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 27 error: ${err.message}`);
+      console.log(`  FAIL: Test 27 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 28: fc_read_file - Binaererkennung per Magic Number
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 28: fc_read_file - binary detection ---');
+    try {
+      // PNG-Signatur mit falscher Endung: erkannt wird am Inhalt
+      const pngBytes = Buffer.from('89504e470d0a1a0a0000000d49484452000000010000000108060000001f15c4890000000d4944415478da63f8ffff3f0005fe02fea7d6a4830000000049454e44ae426082', 'hex');
+      const fakeTxt = path.join(WORK, 'image.txt');
+      await fs.writeFile(fakeTxt, pngBytes);
+      const r28a = await client.callTool('fc_read_file', { path: fakeTxt });
+      assert(r28a.structuredContent?.mode === 'binary' && r28a.structuredContent?.mime_type === 'image/png', 'PNG is detected by its magic number');
+      assert(r28a.content?.some(c => c.type === 'image' && c.mimeType === 'image/png'), 'Image is returned as image content');
+
+      const blob = path.join(WORK, 'blob.bin');
+      await fs.writeFile(blob, Buffer.from([0x00, 0x01, 0x02, 0xff, 0x41, 0x42]));
+      const r28b = await client.callTool('fc_read_file', { path: blob });
+      assert(r28b.content?.some(c => c.type === 'resource' && c.resource?.blob === Buffer.from([0x00, 0x01, 0x02, 0xff, 0x41, 0x42]).toString('base64')), 'Unknown binary is returned as base64 resource');
+
+      const r28c = await client.callTool('fc_read_file', { path: blob, binary_mode: 'hex', byte_offset: 4, byte_length: 2 });
+      assert(r28c.structuredContent?.mode === 'hex' && r28c.structuredContent?.content?.includes('41 42'), 'Hex mode dumps the requested bytes');
+
+      const r28d = await client.callTool('fc_read_file', { path: path.join(WORK, 'range.txt') });
+      assert(r28d.structuredContent?.mode === 'full', 'Text files are still read as text');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 28 error: ${err.message}`);
+      console.log(`  FAIL: Test 28 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 29: fc_start_search mit content_pattern
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 29: fc_start_search - background content search ---');
+    const searchDir = path.join(WORK, 'bgsearch');
+    try {
+      await fs.mkdir(path.join(searchDir, 'sub'), { recursive: true });
+      await fs.writeFile(path.join(searchDir, 'a.ts'), 'let x = 1;\n// FIXME first\n');
+      await fs.writeFile(path.join(searchDir, 'sub', 'b.ts'), '// FIXME second\n');
+      await fs.writeFile(path.join(searchDir, 'c.md'), 'FIXME in markdown\n');
+
+      const r29a = await client.callTool('fc_start_search', { directory: searchDir, pattern: '**/*.ts', content_pattern: 'fixme' });
+      const searchId = r29a.structuredContent?.search_id;
+      assert(!r29a.isError && searchId, 'Content search starts');
+
+      let r29b;
+      for (let i = 0; i < 50; i++) {
+        r29b = await client.callTool('fc_get_search_results', { search_id: searchId });
+        if (r29b.structuredContent?.status === 'done') break;
+        await new Promise(r => setTimeout(r, 100));
+      }
+      const matches = r29b?.structuredContent?.matches ?? [];
+      assert(matches.length === 2, 'Matches only in files matching the glob');
+      assert(matches.some(m => m.line === 2 && m.snippet.includes('FIXME first')), 'Match carries line and snippet');
+
+      const r29c = await client.callTool('fc_start_search', { directory: searchDir, pattern: '*', content_pattern: '[', regex: true });
+      assert(r29c.isError, 'Invalid content regex is rejected');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 29 error: ${err.message}`);
+      console.log(`  FAIL: Test 29 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 30: Ignore-Dateien beim Durchlaufen
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 30: .gitignore-aware traversal ---');
+    const ignoreDir = path.join(WORK, 'ignore');
+    try {
+      for (const dir of ['build', 'sub', 'src', 'node_modules/pkg']) {
+        await fs.mkdir(path.join(ignoreDir, dir), { recursive: true });
+      }
+      await fs.writeFile(path.join(ignoreDir, '.gitignore'), '*.log\n!keep.log\nbuild/\n');
+      await fs.writeFile(path.join(ignoreDir, 'sub', '.ignore'), 'local.txt\n');
+      for (const file of ['a.log', 'keep.log', 'build/out.js', 'sub/local.txt', 'sub/other.txt', 'src/main.js', 'node_modules/pkg/index.js']) {
+        await fs.writeFile(path.join(ignoreDir, file), 'x\n');
+      }
+      const found = r => (r.structuredContent?.results ?? []).map(p => path.relative(ignoreDir, p).split(path.sep).join('/')).filter(p => !path.basename(p).startsWith('.')).sort();
+
+      const r30a = await client.callTool('fc_search_files', { directory: ignoreDir, pattern: '*', max_results: 100 });
+      assert(JSON.stringify(found(r30a)) === JSON.stringify(['keep.log', 'src/main.js', 'sub/other.txt']), `Ignore rules, negation and node_modules default apply (got ${found(r30a)})`);
+
+      const r30b = await client.callTool('fc_search_files', { directory: ignoreDir, pattern: '*.js', respect_ignore: false, max_results: 100 });
+      assert(JSON.stringify(found(r30b)) === JSON.stringify(['build/out.js', 'node_modules/pkg/index.js', 'src/main.js']), `respect_ignore: false lists ignored files (got ${found(r30b)})`);
+
+      const r30c = await client.callTool('fc_grep', { path: ignoreDir, pattern: 'x' });
+      assert((r30c.structuredContent?.files ?? []).every(f => !f.file.startsWith('build') && !f.file.endsWith('a.log')), 'fc_grep honors the same ignore rules');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 30 error: ${err.message}`);
+      console.log(`  FAIL: Test 30 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 31: Glob-Muster (**, Klammern, Klassen, Negation)
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 31: Glob patterns ---');
+    const globDir = path.join(WORK, 'glob');
+    try {
+      for (const dir of ['src/ui', 'src/test', 'docs']) {
+        await fs.mkdir(path.join(globDir, dir), { recursive: true });
+      }
+      for (const file of ['src/app.ts', 'src/ui/button.tsx', 'src/ui/style.css', 'src/test/app.test.ts', 'docs/a1.md', 'docs/b2.md', 'docs/c3.md']) {
+        await fs.writeFile(path.join(globDir, file), 'x\n');
+      }
+      const found = async pattern => {
+        const r = await client.callTool('fc_search_files', { directory: globDir, pattern, max_results: 100 });
+        return (r.structuredContent?.results ?? []).map(p => path.relative(globDir, p).split(path.sep).join('/')).sort().join(',');
+      };
+
+      assert(await found('src/**/*.{ts,tsx}') === 'src/app.ts,src/test/app.test.ts,src/ui/button.tsx', '** with brace expansion matches at any depth');
+      assert(await found(['src/**/*.ts', '!**/test/**']) === 'src/app.ts', 'Negated pattern excludes matches');
+      assert(await found('docs/[ab]?.md') === 'docs/a1.md,docs/b2.md', 'Character classes and ? match single characters');
+      assert(await found('*.CSS') === 'src/ui/style.css', 'Patterns without a slash match the file name case-insensitively');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 31 error: ${err.message}`);
+      console.log(`  FAIL: Test 31 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 32: fc_list_directory - Sortierung, Filter, Spalten
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 32: fc_list_directory - sorting, filters and columns ---');
+    const listDir = path.join(WORK, 'listing');
+    try {
+      await fs.mkdir(path.join(listDir, 'sub'), { recursive: true });
+      await fs.writeFile(path.join(listDir, 'big.txt'), 'b'.repeat(100));
+      await fs.writeFile(path.join(listDir, 'small.txt'), 's');
+      await fs.writeFile(path.join(listDir, 'sub', 'inner.dat'), 'i'.repeat(50));
+      await fs.symlink('small.txt', path.join(listDir, 'link'));
+      await fs.symlink('missing.txt', path.join(listDir, 'dangling'));
+      const names = r => (r.structuredContent?.entries ?? []).map(e => e.relative_path.split(path.sep).join('/'));
+
+      const r32a = await client.callTool('fc_list_directory', { path: listDir, depth: 0, sort_by: 'size', order: 'desc', dir_sizes: true, types: ['file', 'directory'] });
+      assert(JSON.stringify(names(r32a)) === JSON.stringify(['big.txt', 'sub', 'small.txt']), `Sorting by size uses recursive directory sizes (got ${names(r32a)})`);
+
+      const r32b = await client.callTool('fc_list_directory', { path: listDir, depth: 0, dirs_first: true, types: ['file', 'directory'] });
+      assert(names(r32b)[0] === 'sub', 'dirs_first lists directories first');
+
+      const r32c = await client.callTool('fc_list_directory', { path: listDir, depth: 0, types: ['symlink'], columns: ['target'] });
+      const links = r32c.structuredContent?.entries ?? [];
+      assert(links.length === 2 && links.find(e => e.name === 'link')?.target === 'small.txt', 'Symlinks are listed with their target');
+      assert(links.find(e => e.name === 'dangling')?.broken === true, 'Broken links are marked');
+
+      const r32d = await client.callTool('fc_list_directory', { path: listDir, depth: 1, include: ['*.txt'], types: ['file'] });
+      assert(JSON.stringify(names(r32d).sort()) === JSON.stringify(['big.txt', 'small.txt']), 'include filters files');
+
+      const r32e = await client.callTool('fc_list_directory', { path: listDir, depth: 1, max_entries: 2 });
+      assert(r32e.structuredContent?.truncated === true && names(r32e).length === 2, 'max_entries truncates the listing');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 32 error: ${err.message}`);
+      console.log(`  FAIL: Test 32 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 33: fc_disk_usage - Baum, Top-Dateien, Hardlinks
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 33: fc_disk_usage - tree, top files and hard links ---');
+    const duDir = path.join(WORK, 'du');
+    try {
+      await fs.mkdir(path.join(duDir, 'a', 'b'), { recursive: true });
+      await fs.writeFile(path.join(duDir, 'a', 'x.bin'), Buffer.alloc(1000));
+      await fs.writeFile(path.join(duDir, 'a', 'b', 'y.bin'), Buffer.alloc(500));
+      await fs.writeFile(path.join(duDir, 'z.txt'), 'z'.repeat(200));
+      await fs.link(path.join(duDir, 'z.txt'), path.join(duDir, 'z_link.txt'));
+
+      const r33 = await client.callTool('fc_disk_usage', { path: duDir, depth: 1, top_n: 2 });
+      const d33 = r33.structuredContent;
+      assert(!r33.isError && d33?.total_size === 1700, `Hard links are counted once (got ${d33?.total_size})`);
+      assert(d33?.hard_links_skipped === 1, 'Skipped hard link is reported');
+      assert(d33?.tree?.find(e => e.relative_path === 'a')?.size === 1500, 'Directory size includes subdirectories');
+      assert(!d33?.tree?.some(e => e.depth > 1), 'Tree stops at the requested depth');
+      assert(d33?.top_files?.length === 2 && d33.top_files[0].path.endsWith('x.bin'), 'Largest files come first, limited to top_n');
+      assert(d33?.extensions?.find(e => e.extension === '.bin')?.files === 2, 'Extensions are aggregated');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 33 error: ${err.message}`);
+      console.log(`  FAIL: Test 33 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 34: Symlinks - fc_create_link, fc_file_info, fc_copy, fc_delete_file
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 34: Symlink awareness ---');
+    const linkDir = path.join(WORK, 'links');
+    try {
+      await fs.mkdir(path.join(linkDir, 'v1'), { recursive: true });
+      await fs.mkdir(path.join(linkDir, 'v2'), { recursive: true });
+      await fs.writeFile(path.join(linkDir, 'v1', 'app.txt'), 'v1');
+      const current = path.join(linkDir, 'current');
+
+      const r34a = await client.callTool('fc_create_link', { target: 'v1', link_path: current });
+      assert(!r34a.isError && r34a.structuredContent?.broken === false && await fs.readlink(current) === 'v1', 'Relative symlink is created as given');
+
+      const r34b = await client.callTool('fc_create_link', { target: 'v2', link_path: current });
+      assert(r34b.isError, 'Existing link is not replaced without overwrite');
+      const r34c = await client.callTool('fc_create_link', { target: 'v2', link_path: current, overwrite: true });
+      assert(!r34c.isError && r34c.structuredContent?.replaced === true && await fs.readlink(current) === 'v2', 'overwrite swaps the link');
+
+      const r34d = await client.callTool('fc_file_info', { path: current });
+      assert(r34d.structuredContent?.type === 'symlink' && r34d.structuredContent?.link_target === 'v2' && r34d.structuredContent?.target_type === 'directory', 'fc_file_info describes the link and its target');
+
+      const copied = path.join(WORK, 'links_copy');
+      await client.callTool('fc_copy', { source: linkDir, destination: copied });
+      assert(await fs.readlink(path.join(copied, 'current')) === 'v2', 'fc_copy keeps symlinks with their original target');
+
+      const r34e = await client.callTool('fc_delete_file', { path: current });
+      assert(!r34e.isError && !await fs.lstat(current).catch(() => null) && fsSync.existsSync(path.join(linkDir, 'v2')), 'Deleting a link to a directory removes only the link');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 34 error: ${err.message}`);
+      console.log(`  FAIL: Test 34 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 35: fc_set_attributes - chmod, touch, Zeiten
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 35: fc_set_attributes ---');
+    const attrDir = path.join(WORK, 'attrs');
+    try {
+      await fs.mkdir(path.join(attrDir, 'sub'), { recursive: true });
+      const script = path.join(attrDir, 'run.sh');
+      await fs.writeFile(script, '#!/bin/sh\n');
+      await fs.chmod(script, 0o644);
+      const modeOf = async p => ((await fs.stat(p)).mode & 0o777).toString(8);
+
+      const r35a = await client.callTool('fc_set_attributes', { path: script, mode: '+x', dry_run: true });
+      assert(!r35a.isError && r35a.structuredContent?.changes?.[0]?.new_mode === '755' && await modeOf(script) === '644', 'Dry run reports the new mode without changing it');
+      await client.callTool('fc_set_attributes', { path: script, mode: '+x' });
+      assert(await modeOf(script) === '755', 'Symbolic +x applies to all classes');
+
+      await fs.writeFile(path.join(attrDir, 'sub', 'data.txt'), 'x');
+      await fs.chmod(path.join(attrDir, 'sub', 'data.txt'), 0o600);
+      await fs.symlink('run.sh', path.join(attrDir, 'run_link'));
+      const r35b = await client.callTool('fc_set_attributes', { path: attrDir, mode: 'u=rwX,go=rX', recursive: true });
+      assert(await modeOf(path.join(attrDir, 'sub', 'data.txt')) === '644' && await modeOf(path.join(attrDir, 'sub')) === '755', 'X sets execute only on directories and executables');
+      assert(r35b.structuredContent?.skipped_symlinks === 1, 'Recursive mode changes skip symlinks');
+
+      const r35c = await client.callTool('fc_set_attributes', { path: script, mtime: '2020-01-02T03:04:05.000Z' });
+      assert(!r35c.isError && (await fs.stat(script)).mtime.toISOString() === '2020-01-02T03:04:05.000Z', 'mtime is set');
+
+      const touched = path.join(attrDir, 'new.txt');
+      const r35d = await client.callTool('fc_set_attributes', { path: touched, touch: true });
+      assert(!r35d.isError && r35d.structuredContent?.created === true && fsSync.existsSync(touched), 'touch creates a missing file');
+
+      const r35e = await client.callTool('fc_set_attributes', { path: script, mode: 'u+q' });
+      assert(r35e.isError, 'Invalid mode is rejected');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 35 error: ${err.message}`);
+      console.log(`  FAIL: Test 35 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 36: Atomares Schreiben - Rechte, Symlinks, Hardlinks
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 36: Atomic writes ---');
+    const atomicDir = path.join(WORK, 'atomic');
+    try {
+      await fs.mkdir(atomicDir, { recursive: true });
+      const target = path.join(atomicDir, 'config.sh');
+      await fs.writeFile(target, 'old\n');
+      await fs.chmod(target, 0o750);
+      await fs.symlink('config.sh', path.join(atomicDir, 'config_link'));
+      await fs.link(target, path.join(atomicDir, 'config_hard'));
+
+      const r36a = await client.callTool('fc_write_file', { path: path.join(atomicDir, 'config_link'), content: 'new\n' });
+      assert(!r36a.isError && (await fs.lstat(path.join(atomicDir, 'config_link'))).isSymbolicLink(), 'Writing through a symlink keeps the link');
+      assert(await fs.readFile(target, 'utf-8') === 'new\n', 'The link target receives the content');
+      assert(((await fs.stat(target)).mode & 0o777) === 0o750, 'Permissions are kept');
+      assert(await fs.readFile(path.join(atomicDir, 'config_hard'), 'utf-8') === 'old\n', 'Other hard links keep the old content');
+      assert((await fs.readdir(atomicDir)).every(n => !n.includes('.fc-tmp-')), 'No temporary files are left behind');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 36 error: ${err.message}`);
+      console.log(`  FAIL: Test 36 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 37: fc_str_replace - Edit-Batches
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 37: fc_str_replace - multi-edit batches ---');
+    const multiFile = path.join(WORK, 'multi.js');
+    try {
+      await fs.writeFile(multiFile, 'import foo from "foo";\nfoo(1);\nfoo(2);\n');
+
+      const r37a = await client.callTool('fc_str_replace', { path: multiFile, edits: [
+        { old_str: 'foo(', new_str: 'bar(', replace_all: true },
+        { old_str: 'does not exist', new_str: 'x' }
+      ] });
+      assert(r37a.isError && await fs.readFile(multiFile, 'utf-8') === 'import foo from "foo";\nfoo(1);\nfoo(2);\n', 'A failing edit leaves the file untouched');
+
+      const r37b = await client.callTool('fc_str_replace', { path: multiFile, edits: [
+        { old_str: 'foo(', new_str: 'bar(', replace_all: true },
+        { old_str: 'import foo from "foo"', new_str: 'import bar from "bar"' },
+        { old_str: 'bar(2)', new_str: 'bar($&)' }
+      ] });
+      assert(!r37b.isError && r37b.structuredContent?.edits === 3 && r37b.structuredContent?.replacements === 4, 'All edits are counted');
+      assert(await fs.readFile(multiFile, 'utf-8') === 'import bar from "bar";\nbar(1);\nbar($&);\n', 'Edits see earlier results and insert new_str literally');
+      assert(getText(r37b).includes('+bar(1);'), 'Result contains a unified diff');
+
+      const r37c = await client.callTool('fc_str_replace', { path: multiFile, old_str: 'bar', new_str: 'baz' });
+      assert(r37c.isError, 'Ambiguous old_str without replace_all is rejected');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 37 error: ${err.message}`);
+      console.log(`  FAIL: Test 37 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 38: fc_folder_diff - Inhalte, Umbenennungen, Diffs
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 38: fc_folder_diff - content, renames and diffs ---');
+    const oldTree = path.join(WORK, 'tree_old');
+    const newTree = path.join(WORK, 'tree_new');
+    try {
+      await fs.mkdir(oldTree, { recursive: true });
+      await fs.mkdir(newTree, { recursive: true });
+      await fs.writeFile(path.join(oldTree, 'same.txt'), 'same\n');
+      await fs.writeFile(path.join(newTree, 'same.txt'), 'same\n');
+      await fs.writeFile(path.join(oldTree, 'mod.txt'), 'one\ntwo\n');
+      await fs.writeFile(path.join(newTree, 'mod.txt'), 'one\nTWO\n');
+      await fs.writeFile(path.join(oldTree, 'before.txt'), 'moved content\n');
+      await fs.writeFile(path.join(newTree, 'after.txt'), 'moved content\n');
+      await fs.writeFile(path.join(oldTree, 'gone.txt'), 'gone\n');
+      await fs.writeFile(path.join(newTree, 'added.txt'), 'added\n');
+
+      const r38a = await client.callTool('fc_folder_diff', { path: oldTree, compare_to: newTree, content: true, show_diffs: true });
+      const d38 = r38a.structuredContent;
+      assert(!r38a.isError && JSON.stringify(d38?.modified) === '["mod.txt"]', 'Same-size file with other content is modified');
+      assert(d38?.renamed?.length === 1 && d38.renamed[0].from === 'before.txt' && d38.renamed[0].to === 'after.txt', 'Identical content under a new name is a rename');
+      assert(JSON.stringify(d38?.deleted) === '["gone.txt"]' && JSON.stringify(d38?.new) === '["added.txt"]', 'Deleted and new files are reported');
+      assert(d38?.diffs?.[0]?.diff.includes('+TWO'), 'show_diffs returns a unified diff');
+
+      // Snapshot-Modus: nur beruehrte Dateien zaehlen nicht als geaendert
+      const snapshotBase = path.join(os.tmpdir(), '.fc_snapshots', createHash('md5').update(newTree).digest('hex'));
+      const removeSnapshot = async () => {
+        await fs.rm(`${snapshotBase}.json`, { force: true });
+        await fs.rm(`${snapshotBase}.blobs`, { recursive: true, force: true });
+      };
+      await removeSnapshot();
+      await client.callTool('fc_folder_diff', { path: newTree, content: true });
+      const later = new Date(Date.now() + 60_000);
+      await fs.utimes(path.join(newTree, 'same.txt'), later, later);
+      const r38b = await client.callTool('fc_folder_diff', { path: newTree, content: true });
+      assert(r38b.structuredContent?.modified?.length === 0 && JSON.stringify(r38b.structuredContent?.touched) === '["same.txt"]', 'Touched-only files are reported separately');
+      await removeSnapshot();
+    } catch (err) {
+      failed++;
+      failures.push(`Test 38 error: ${err.message}`);
+      console.log(`  FAIL: Test 38 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 39: fc_sync - Hash-Vergleich, Filter, Zeitstempel
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 39: fc_sync - hash compare, filters and timestamps ---');
+    const hashSrc = path.join(WORK, 'hsync_src');
+    const hashDst = path.join(WORK, 'hsync_dst');
+    try {
+      await fs.mkdir(hashSrc, { recursive: true });
+      await fs.writeFile(path.join(hashSrc, 'data.json'), '{"v":1}');
+      await fs.writeFile(path.join(hashSrc, 'debug.log'), 'log');
+      const r39a = await client.callTool('fc_sync', { source: hashSrc, destination: hashDst, exclude: ['*.log'], dry_run: false });
+      assert(!r39a.isError && JSON.stringify(r39a.structuredContent?.created) === '["data.json"]', 'Excluded files are not copied');
+      const srcTime = (await fs.stat(path.join(hashSrc, 'data.json'))).mtime.getTime();
+      assert(Math.abs((await fs.stat(path.join(hashDst, 'data.json'))).mtime.getTime() - srcTime) < 2, 'Copies keep the source mtime');
+
+      // Gleiche Groesse und mtime, anderer Inhalt: nur der Hash-Vergleich erkennt es
+      await fs.writeFile(path.join(hashDst, 'data.json'), '{"v":2}');
+      await fs.utimes(path.join(hashDst, 'data.json'), new Date(srcTime), new Date(srcTime));
+      const r39b = await client.callTool('fc_sync', { source: hashSrc, destination: hashDst, exclude: ['*.log'] });
+      assert(r39b.structuredContent?.updated?.length === 0, 'size_mtime treats the file as unchanged');
+      const r39c = await client.callTool('fc_sync', { source: hashSrc, destination: hashDst, exclude: ['*.log'], compare: 'hash', dry_run: false });
+      assert(JSON.stringify(r39c.structuredContent?.updated) === '["data.json"]' && await fs.readFile(path.join(hashDst, 'data.json'), 'utf-8') === '{"v":1}', 'hash compare updates the changed file');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 39 error: ${err.message}`);
+      console.log(`  FAIL: Test 39 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 40: fc_batch_operation - Validierung, on_error, Globs
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 40: fc_batch_operation ---');
+    const batchDir = path.join(WORK, 'batch');
+    const batchDst = path.join(WORK, 'batch_dst');
+    try {
+      await fs.mkdir(batchDir, { recursive: true });
+      for (const name of ['a.tmp', 'b.tmp', 'keep.tmp', 'c.txt']) {
+        await fs.writeFile(path.join(batchDir, name), name);
+      }
+
+      const r40a = await client.callTool('fc_batch_operation', { operation: 'copy', paths: [path.join(batchDir, 'c.txt'), path.join(batchDir, 'missing.txt')], destination: batchDst });
+      assert(r40a.isError || r40a.structuredContent?.stopped === true, 'Validation error stops the batch');
+      assert(!fsSync.existsSync(path.join(batchDst, 'c.txt')), 'Nothing is changed when validation fails');
+      assert(r40a.structuredContent?.items?.find(i => i.path.endsWith('missing.txt'))?.status === 'failed', 'The missing item is reported');
+
+      const r40b = await client.callTool('fc_batch_operation', { operation: 'copy', paths: [path.join(batchDir, 'c.txt'), path.join(batchDir, 'missing.txt')], destination: batchDst, on_error: 'continue' });
+      assert(r40b.structuredContent?.succeeded === 1 && fsSync.existsSync(path.join(batchDst, 'c.txt')), 'on_error: continue processes the valid items');
+
+      const r40c = await client.callTool('fc_batch_operation', { operation: 'move', directory: batchDir, include: ['*.tmp', '!keep.tmp'], destination: batchDst });
+      assert(!r40c.isError && r40c.structuredContent?.succeeded === 2, 'Globs select the items to move');
+      assert(fsSync.existsSync(path.join(batchDst, 'a.tmp')) && fsSync.existsSync(path.join(batchDir, 'keep.tmp')), 'Negated glob keeps keep.tmp in place');
+
+      const movedOp = r40c.structuredContent?.items?.find(i => i.path.endsWith('a.tmp'))?.operation_id;
+      const r40d = await client.callTool('fc_undo', { operation_id: movedOp });
+      assert(movedOp && !r40d.isError && fsSync.existsSync(path.join(batchDir, 'a.tmp')), 'Each moved item can be undone on its own');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 40 error: ${err.message}`);
+      console.log(`  FAIL: Test 40 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 41: fc_job_list - Filter und Tabelle
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 41: fc_job_list ---');
+    try {
+      const r41a = await client.callTool('fc_job_list', {});
+      const jobs = r41a.structuredContent?.jobs ?? [];
+      assert(!r41a.isError && jobs.some(j => j.tool === 'fc_disk_usage' && j.status === 'done'), 'Finished jobs are listed');
+
+      const r41b = await client.callTool('fc_job_list', { status: 'cancelled' });
+      const cancelledJobs = r41b.structuredContent?.jobs ?? [];
+      assert(cancelledJobs.length > 0 && cancelledJobs.every(j => j.status === 'cancelled'), 'status filters the list');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 41 error: ${err.message}`);
+      console.log(`  FAIL: Test 41 error: ${err.message}`);
+    }
+
+    // ------------------------------------------------------------------
+    // Test 42: Fortschritt und Abbruch durch den Client
+    // ------------------------------------------------------------------
+    console.log('\n--- Test 42: Progress notifications and cancellation ---');
+    const pidFile = path.join(WORK, 'sleep.pid');
+    try {
+      const r42a = await client.call('tools/call', { name: 'fc_grep', arguments: { path: WORK, pattern: 'FIXME' }, _meta: { progressToken: 'grep-1' } });
+      const progressed = client.notifications.filter(n => n.method === 'notifications/progress' && n.params?.progressToken === 'grep-1');
+      assert(!r42a.isError && progressed.length > 0 && progressed.at(-1).params.progress > 0, 'fc_grep reports progress for the client token');
+
+      // Abbruch beendet den Befehl samt Kindprozessen
+      const requestId = client.nextId;
+      const pending = client.call('tools/call', {
+        name: 'fc_execute_command',
+        arguments: { command: `sh -c 'sleep 30 & echo $! > "${pidFile}"; wait'` }
+      }, 3000).then(() => 'answered', () => 'no answer');
+      let sleepPid;
+      for (let i = 0; i < 50 && !sleepPid; i++) {
+        await new Promise(r => setTimeout(r, 100));
+        sleepPid = Number((await fs.readFile(pidFile, 'utf-8').catch(() => '')).trim()) || undefined;
+      }
+      client._send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId, reason: 'test' } });
+      await pending;
+      const alive = (() => { try { process.kill(sleepPid, 0); return true; } catch { return false; } })();
+      assert(sleepPid && !alive, 'Cancelling fc_execute_command ends the processes it started');
+    } catch (err) {
+      failed++;
+      failures.push(`Test 42 error: ${err.message}`);
+      console.log(`  FAIL: Test 42 error: ${err.message}`);
+    }
   } catch (err) {
     console.error(`\nFATAL: Server startup failed: ${err.message}`);
     failed++;
@@ -531,6 +1622,7 @@ async function runTests() {
   }
   // Remove extracted directory
   try { await fs.rm(path.join(FIXTURES, 'extracted'), { recursive: true, force: true }); } catch { /* ok */ }
+  try { await fs.rm(WORK, { recursive: true, force: true }); } catch { /* ok */ }
   console.log('  Temporary files cleaned up.');
 
   // ===========================================================================